@@ -0,0 +1,124 @@
+/**
+ * Disk backend module
+ * Abstracts where Diskpart scripts are executed so the IPC layer can run
+ * against real Windows Diskpart or an in-memory simulation
+ */
+
+import { logInfo } from '../utils/logger';
+import { WindowsDiskpartBackend } from './windowsBackend';
+import { SimulatedBackend } from './simulatedBackend';
+
+/**
+ * Raw result of running a script on a backend
+ */
+export interface BackendResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * Receives each line of Diskpart output as soon as it is produced
+ */
+export type OutputListener = (line: string) => void;
+
+/**
+ * Options for running a script on a backend
+ */
+export interface RunOptions {
+  /** Time allowed for each command, in milliseconds */
+  timeout: number;
+  /** Count the timeout from the last output line instead of from the start of the command */
+  watchdog?: boolean;
+  /** Receives each line of output as it is produced */
+  onOutput?: OutputListener;
+}
+
+/**
+ * The disk, partition or volume a backend currently has focus on
+ */
+export interface DiskSelection {
+  disk?: number;
+  partition?: number;
+  volume?: number;
+}
+
+/**
+ * A backend accepts the scripts produced by commands.ts and returns
+ * Diskpart-shaped text, so parser.ts works unchanged on every backend
+ */
+export interface DiskBackend {
+  /** Identifier shown in logs and system info */
+  readonly name: BackendName;
+  /** Whether administrator privileges are needed before running scripts */
+  readonly requiresElevation: boolean;
+  /** Run a newline-separated Diskpart script */
+  run(script: string, options: RunOptions): Promise<BackendResult>;
+  /** Check whether the backend can execute scripts on this machine */
+  isAvailable(): Promise<boolean>;
+  /** Focus left behind by the last script; it persists between scripts */
+  getSelection(): DiskSelection;
+  /** Release any process or state held by the backend */
+  dispose(): void;
+}
+
+export type BackendName = 'diskpart' | 'simulated';
+
+// Environment variable and CLI flags used to pick a backend
+const BACKEND_ENV_VAR = 'DISKPART_BACKEND';
+const BACKEND_FLAG = '--backend=';
+const SIMULATE_FLAG = '--simulate';
+
+let activeBackend: DiskBackend | null = null;
+
+/**
+ * Create a backend by name
+ */
+export function createBackend(name: BackendName): DiskBackend {
+  switch (name) {
+    case 'simulated':
+      return new SimulatedBackend();
+    case 'diskpart':
+    default:
+      return new WindowsDiskpartBackend();
+  }
+}
+
+/**
+ * Resolve the backend name from CLI flags and the environment.
+ * CLI flags win over DISKPART_BACKEND; anything unrecognised falls back to Diskpart.
+ */
+export function resolveBackendName(
+  argv: string[] = process.argv,
+  env: NodeJS.ProcessEnv = process.env
+): BackendName {
+  if (argv.includes(SIMULATE_FLAG)) {
+    return 'simulated';
+  }
+
+  const flag = argv.find(arg => arg.startsWith(BACKEND_FLAG));
+  const requested = (flag ? flag.substring(BACKEND_FLAG.length) : env[BACKEND_ENV_VAR] || '')
+    .trim()
+    .toLowerCase();
+
+  return requested === 'simulated' || requested === 'sim' ? 'simulated' : 'diskpart';
+}
+
+/**
+ * Replace the active backend
+ */
+export function setBackend(backend: DiskBackend): void {
+  activeBackend?.dispose();
+  activeBackend = backend;
+  logInfo(`Using ${backend.name} disk backend`);
+}
+
+/**
+ * Get the active backend, selecting one from the environment on first use
+ */
+export function getBackend(): DiskBackend {
+  if (!activeBackend) {
+    setBackend(createBackend(resolveBackendName()));
+  }
+  return activeBackend as DiskBackend;
+}
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractErrorFromOutput, isCommandSuccessful } from './commandStatus';
+
+// Listings whose statuses contain the words of a failure message
+const LISTINGS: Record<string, string> = {
+  'en list disk with an invalid disk': `
+  Disk ###  Status         Size     Free     Dyn  Gpt
+  --------  -------------  -------  -------  ---  ---
+  Disk 0    Online          476 GB  1024 KB        *
+  Disk 1    Invalid         931 GB      0 B   *
+  Disk M0   Missing         931 GB      0 B   *
+`,
+  'en list volume with a failed volume': `
+  Volume ###  Ltr  Label        Fs     Type        Size     Status     Info
+  ----------  ---  -----------  -----  ----------  -------  ---------  --------
+  Volume 0     C   Windows      NTFS   Partition    237 GB  Healthy    Boot
+  Volume 1     D   Data         NTFS   Mirror       931 GB  Failed
+`,
+  'de list disk with foreign and invalid disks': `
+  Datenträger ###  Status         Größe    Frei     Dyn  GPT
+  ---------------  -------------  -------  -------  ---  ---
+  Datenträger 0    Online          476 GB  1024 KB        *
+  Datenträger 1    Fremd           931 GB      0 B   *
+  Datenträger 2    Ungültig        931 GB      0 B   *
+`,
+  'fr list disk with an invalid disk': `
+  N° disque  Statut         Taille   Libre    Dyn  GPT
+  ---------  -------------  -------  -------  ---  ---
+  Disque 0    En ligne        476 Go  1024 Ko        *
+  Disque 1    Non valide      931 Go      0 o   *
+`,
+  'ja list disk with invalid and missing disks': `
+  ディスク ###  状態           サイズ   空き     ダイナ  GPT
+  ------------  -------------  -------  -------  ---  ---
+  ディスク 0    オンライン        476 GB  1024 KB        *
+  ディスク 1    無効               931 GB      0 B   *
+  ディスク M0   見つかりません     931 GB      0 B   *
+`,
+  'ja list volume with a failed volume': `
+  ボリューム ###  Ltr  ラベル       FS     種類            サイズ   状態          情報
+  --------------  ---  -----------  -----  --------------  -------  ------------  --------
+  ボリューム 0     C                NTFS   パーティション   465 GB  正常          ブート
+  ボリューム 1     D   データ       NTFS   ミラー           931 GB  エラー
+`
+};
+
+for (const [name, output] of Object.entries(LISTINGS)) {
+  test(`${name} is a successful listing`, () => {
+    assert.equal(isCommandSuccessful(output, 0), true);
+  });
+}
+
+test('a non-zero exit code fails even after a listing', () => {
+  assert.equal(isCommandSuccessful(LISTINGS['en list disk with an invalid disk'], 1), false);
+});
+
+test('empty output fails', () => {
+  assert.equal(isCommandSuccessful('  \r\n', 0), false);
+});
+
+test('failure messages fail and are extracted', () => {
+  const failures: [string, string][] = [
+    [
+      '\nDiskPart has encountered an error: The parameter is incorrect.\nSee the System Event Log for more information.\n',
+      'DiskPart has encountered an error: The parameter is incorrect.'
+    ],
+    [
+      '\nVirtual Disk Service error:\nThe volume size is too big.\n',
+      'Virtual Disk Service error: The volume size is too big.'
+    ],
+    [
+      '\nThere is no partition selected.\n\nPlease select a partition and try again.\n',
+      'There is no partition selected.'
+    ],
+    [
+      '\nDiskPart hat einen Fehler festgestellt: Zugriff verweigert\n',
+      'DiskPart hat einen Fehler festgestellt: Zugriff verweigert'
+    ]
+  ];
+
+  for (const [output, message] of failures) {
+    assert.equal(isCommandSuccessful(output, 0), false, message);
+    assert.equal(extractErrorFromOutput(output), message);
+  }
+});
@@ -0,0 +1,38 @@
+/**
+ * Command status module
+ * Decides whether a Diskpart run failed from its exit code and the failure
+ * messages of the locale packs. Table output is never searched for error
+ * words: disk and volume statuses such as "Invalid", "Failed" or
+ * "Fehlerfrei" would read as failures.
+ */
+
+import { isFailedCommandOutput, LOCALE_PACKS } from './locales';
+
+/**
+ * Check if command output indicates success
+ * @param output - What Diskpart printed
+ * @param exitCode - Diskpart's exit code; a script stops with a non-zero code at the first failing command
+ */
+export function isCommandSuccessful(output: string, exitCode: number): boolean {
+  if (exitCode !== 0) return false;
+  if (isFailedCommandOutput(output)) return false;
+  return output.trim().length > 0;
+}
+
+/**
+ * Extract the failure message from command output. A message that ends in
+ * a colon, e.g. "Virtual Disk Service error:", continues on the next line.
+ */
+export function extractErrorFromOutput(output: string): string | null {
+  const lines = output.split('\n').map(line => line.trim());
+  const patterns = LOCALE_PACKS.flatMap(pack => pack.failurePatterns);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!patterns.some(pattern => pattern.test(lines[i]))) continue;
+
+    const next = lines.slice(i + 1).find(line => line.length > 0);
+    return lines[i].endsWith(':') && next ? `${lines[i]} ${next}` : lines[i];
+  }
+
+  return null;
+}
@@ -2,8 +2,67 @@
  * Command builder module for creating Diskpart command scripts
  */
 
+import {
+  AutomountAction,
+  CreatePartitionKind,
+  CreatePartitionOptions,
+  CreateDynamicVolumeOptions,
+  CreateVirtualDiskOptions,
+  DiskConversion,
+  DiskInfo,
+  DynamicVolumeLayout,
+  FormatFileSystem,
+  FormatOptions,
+  PlannedOperation,
+  SanPolicy,
+  VolumeAttributes
+} from '../../shared/types';
+import {
+  ALLOCATION_UNIT_SIZES,
+  NTFS_COMPRESSION_MAX_UNIT,
+  UDF_REVISIONS,
+  formatUnitArgument
+} from '../../shared/formatOptions';
+import { GPT_DISK_GUID_PATTERN, MBR_SIGNATURE_PATTERN } from '../../shared/diskIds';
 import { InvalidCommandError } from './errors';
 
+// Keyword Diskpart uses for each volume attribute
+const VOLUME_ATTRIBUTE_KEYWORDS: Record<keyof VolumeAttributes, string> = {
+  readOnly: 'readonly',
+  hidden: 'hidden',
+  noDefaultDriveLetter: 'nodefaultdriveletter',
+  shadowCopy: 'shadowcopy'
+};
+
+const CREATE_PARTITION_KINDS: CreatePartitionKind[] = ['primary', 'extended', 'logical', 'efi', 'msr'];
+
+// GPT partition type GUID, or MBR partition type byte in hex
+const PARTITION_TYPE_ID_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{1,2})$/i;
+
+// Folder on a drive, e.g. C:\mnt\scratch or C:\mnt\scratch\ (not the drive root)
+const MOUNT_PATH_PATTERN = /^[A-Za-z]:(\\[^\\/:*?"<>|]+)+\\?$/;
+
+// Full path of a virtual disk file on a drive
+const VIRTUAL_DISK_FILE_PATTERN = /^[A-Za-z]:(\\[^\\/:*?"<>|]+)+\.(vhd|vhdx|iso)$/i;
+
+// Largest VHD, in MB (VHDX goes up to 64 TB)
+const VHD_MAX_SIZE = 2040 * 1024;
+
+// Fewest and most member disks for each dynamic volume layout
+const DYNAMIC_VOLUME_DISK_COUNTS: Record<DynamicVolumeLayout, [number, number]> = {
+  simple: [1, 1],
+  spanned: [2, 32],
+  stripe: [2, 32],
+  mirror: [2, 2],
+  raid: [3, 32]
+};
+
+const CREATE_VOLUME_LAYOUTS: DynamicVolumeLayout[] = ['simple', 'stripe', 'mirror', 'raid'];
+
+const SAN_POLICIES: SanPolicy[] = ['OnlineAll', 'OfflineShared', 'OfflineAll', 'OfflineInternal'];
+
+const AUTOMOUNT_ACTIONS: AutomountAction[] = ['enable', 'disable', 'scrub'];
+
 /**
  * Build a command to list all disks
  */
@@ -37,6 +96,17 @@ export function buildSelectDiskCommand(diskNumber: number): string {
   return `select disk ${diskNumber}`;
 }
 
+/**
+ * Build a command to select a missing dynamic disk, which has no number
+ * @param missingId - Its name in "list disk", e.g. M0
+ */
+export function buildSelectMissingDiskCommand(missingId: string): string {
+  if (!/^M\d+$/i.test(missingId)) {
+    throw new InvalidCommandError(`Invalid missing disk: ${missingId}. Must be M followed by a number, e.g. M0`);
+  }
+  return `select disk ${missingId.toUpperCase()}`;
+}
+
 /**
  * Build a command to get detailed information about the selected disk
  * Note: This requires the disk to be selected first
@@ -56,6 +126,49 @@ export function buildSelectPartitionCommand(partitionNumber: number): string {
   return `select partition ${partitionNumber}`;
 }
 
+/**
+ * Build a command to bring the selected disk online
+ * Note: This requires the disk to be selected first
+ */
+export function buildOnlineDiskCommand(): string {
+  return 'online disk';
+}
+
+/**
+ * Build a command to take the selected disk offline
+ * Note: This requires the disk to be selected first
+ */
+export function buildOfflineDiskCommand(): string {
+  return 'offline disk';
+}
+
+/**
+ * Build a command to get detailed information about the selected partition
+ * Note: This requires the partition to be selected first
+ */
+export function buildDetailPartitionCommand(): string {
+  return 'detail partition';
+}
+
+/**
+ * Build a command to select a volume
+ * @param volumeNumber - The volume number to select (0-based)
+ */
+export function buildSelectVolumeCommand(volumeNumber: number): string {
+  if (!Number.isInteger(volumeNumber) || volumeNumber < 0) {
+    throw new InvalidCommandError(`Invalid volume number: ${volumeNumber}`);
+  }
+  return `select volume ${volumeNumber}`;
+}
+
+/**
+ * Build a command to get detailed information about the selected volume
+ * Note: This requires the volume to be selected first
+ */
+export function buildDetailVolumeCommand(): string {
+  return 'detail volume';
+}
+
 /**
  * Build a command to clean a disk (removes all partitions)
  * Note: This requires the disk to be selected first
@@ -73,17 +186,54 @@ export function buildCleanAllCommand(): string {
 }
 
 /**
- * Build a command to create a primary partition
- * @param size - Optional size in MB. If not specified, uses all available space
+ * Build a command to create a partition on the selected disk
+ * @param options - Kind of partition, plus optional size (MB), offset (KB),
+ * alignment (KB) and type ID. Without a size the largest free extent is used
  */
-export function buildCreatePartitionCommand(size?: number): string {
+export function buildCreatePartitionCommand(options: CreatePartitionOptions = { kind: 'primary' }): string {
+  const { kind, size, offset, align, id } = options;
+
+  if (!CREATE_PARTITION_KINDS.includes(kind)) {
+    throw new InvalidCommandError(`Invalid partition kind: ${kind}`);
+  }
+
+  const parts = [`create partition ${kind}`];
+
   if (size !== undefined) {
     if (!Number.isInteger(size) || size <= 0) {
       throw new InvalidCommandError(`Invalid partition size: ${size}`);
     }
-    return `create partition primary size=${size}`;
+    parts.push(`size=${size}`);
+  }
+
+  if (offset !== undefined) {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new InvalidCommandError(`Invalid partition offset: ${offset}`);
+    }
+    parts.push(`offset=${offset}`);
+  }
+
+  if (id !== undefined) {
+    if (kind !== 'primary') {
+      throw new InvalidCommandError(`A type ID can only be given for primary partitions, not ${kind}`);
+    }
+    if (!PARTITION_TYPE_ID_PATTERN.test(id)) {
+      throw new InvalidCommandError(`Invalid partition type ID: ${id}`);
+    }
+    parts.push(`id=${id}`);
+  }
+
+  if (align !== undefined) {
+    if (kind === 'efi' || kind === 'msr') {
+      throw new InvalidCommandError(`Alignment is not supported for ${kind.toUpperCase()} partitions`);
+    }
+    if (!Number.isInteger(align) || align <= 0) {
+      throw new InvalidCommandError(`Invalid partition alignment: ${align}`);
+    }
+    parts.push(`align=${align}`);
   }
-  return 'create partition primary';
+
+  return parts.join(' ');
 }
 
 /**
@@ -96,40 +246,70 @@ export function buildDeletePartitionCommand(): string {
 
 /**
  * Build a command to format a volume
- * @param fileSystem - The file system to use (NTFS, FAT32, exFAT)
- * @param label - Optional volume label
- * @param quick - Whether to perform a quick format (default: true)
- */
-export function buildFormatVolumeCommand(
-  fileSystem: string,
-  label?: string,
-  quick: boolean = true
-): string {
-  const validFileSystems = ['NTFS', 'FAT32', 'exFAT', 'FAT'];
-  const fsUpper = fileSystem.toUpperCase();
-  
-  if (!validFileSystems.includes(fsUpper)) {
+ * @param options - File system, label, allocation unit and format switches
+ */
+export function buildFormatVolumeCommand(options: FormatOptions): string {
+  const { fileSystem, label, unitSize, quick = true, compress, override, revision, noWait } = options;
+  const canonical = (Object.keys(ALLOCATION_UNIT_SIZES) as FormatFileSystem[])
+    .find(candidate => candidate.toUpperCase() === (fileSystem || '').toUpperCase());
+
+  if (!canonical) {
     throw new InvalidCommandError(
-      `Invalid file system: ${fileSystem}. Must be one of: ${validFileSystems.join(', ')}`
+      `Invalid file system: ${fileSystem}. Must be one of: ${Object.keys(ALLOCATION_UNIT_SIZES).join(', ')}`
     );
   }
   
-  let command = `format fs=${fsUpper}`;
+  let command = `format fs=${canonical.toUpperCase()}`;
   
   if (label) {
-    // Validate label (no special characters, max 32 chars for NTFS, 11 for FAT)
-    const maxLength = fsUpper === 'NTFS' ? 32 : 11;
+    // Validate label (no special characters, max 32 chars for NTFS and UDF, 11 for FAT)
+    const maxLength = canonical === 'NTFS' || canonical === 'UDF' ? 32 : 11;
     if (label.length > maxLength) {
       throw new InvalidCommandError(
-        `Label too long: ${label.length} characters (max ${maxLength} for ${fsUpper})`
+        `Label too long: ${label.length} characters (max ${maxLength} for ${canonical})`
       );
     }
+    if (label.includes('"')) {
+      throw new InvalidCommandError('Label cannot contain quotation marks');
+    }
     command += ` label="${label}"`;
   }
+
+  if (unitSize !== undefined) {
+    if (!ALLOCATION_UNIT_SIZES[canonical].includes(unitSize)) {
+      throw new InvalidCommandError(`Invalid allocation unit size for ${canonical}: ${unitSize} bytes`);
+    }
+    command += ` unit=${formatUnitArgument(unitSize)}`;
+  }
+
+  if (compress) {
+    if (canonical !== 'NTFS') {
+      throw new InvalidCommandError('Compression is only available on NTFS');
+    }
+    if (unitSize !== undefined && unitSize > NTFS_COMPRESSION_MAX_UNIT) {
+      throw new InvalidCommandError(`NTFS compression needs an allocation unit of ${NTFS_COMPRESSION_MAX_UNIT} bytes or less`);
+    }
+    command += ' compress';
+  }
+
+  if (revision !== undefined) {
+    if (canonical !== 'UDF' || !UDF_REVISIONS.includes(revision)) {
+      throw new InvalidCommandError(`Invalid revision: ${revision}. UDF revisions are ${UDF_REVISIONS.join(', ')}`);
+    }
+    command += ` revision=${revision}`;
+  }
+
+  if (override) {
+    command += ' override';
+  }
   
   if (quick) {
     command += ' quick';
   }
+
+  if (noWait) {
+    command += ' nowait';
+  }
   
   return command;
 }
@@ -162,6 +342,33 @@ export function buildRemoveLetterCommand(letter: string): string {
   return `remove letter=${upperLetter}`;
 }
 
+/**
+ * Build a command to mount the selected volume into an empty NTFS folder
+ * @param path - Folder path, e.g. C:\mnt\scratch
+ */
+export function buildAssignMountCommand(path: string): string {
+  return `assign mount=${formatMountPath(path)}`;
+}
+
+/**
+ * Build a command to remove a mount point from the selected volume
+ * @param path - Folder path the volume is mounted at
+ */
+export function buildRemoveMountCommand(path: string): string {
+  return `remove mount=${formatMountPath(path)}`;
+}
+
+/**
+ * Validate a mount point path and quote it if it contains spaces
+ */
+function formatMountPath(path: string): string {
+  const trimmed = path.trim();
+  if (!MOUNT_PATH_PATTERN.test(trimmed)) {
+    throw new InvalidCommandError(`Invalid mount point path: ${path}. Must be a folder such as C:\\mnt\\data`);
+  }
+  return /\s/.test(trimmed) ? `"${trimmed}"` : trimmed;
+}
+
 /**
  * Build a command to set a partition as active (bootable)
  * Note: This requires the partition to be selected first
@@ -170,6 +377,26 @@ export function buildSetActiveCommand(): string {
   return 'active';
 }
 
+/**
+ * Build a command to clear the active flag of a partition
+ * Note: This requires the partition to be selected first
+ */
+export function buildSetInactiveCommand(): string {
+  return 'inactive';
+}
+
+/**
+ * Build a command to set the GPT attributes of a partition
+ * Note: This requires the partition to be selected first
+ * @param attributes - All 64 attribute bits in hex, e.g. 0x8000000000000001
+ */
+export function buildGptAttributesCommand(attributes: string): string {
+  if (!/^0x[0-9a-f]{1,16}$/i.test(attributes)) {
+    throw new InvalidCommandError(`Invalid GPT attributes: ${attributes}. Must be a hex value such as 0x8000000000000001`);
+  }
+  return `gpt attributes=0x${attributes.substring(2).toUpperCase().padStart(16, '0')}`;
+}
+
 /**
  * Build a command to extend a partition
  * @param size - Optional size in MB to extend by. If not specified, uses all available space
@@ -207,45 +434,882 @@ export function buildShrinkPartitionCommand(desired: number, minimum?: number):
 }
 
 /**
- * Build a multi-command script for diskpart
- * @param commands - Array of commands to execute
+ * Build a command to ask how far the selected volume can be shrunk
+ * Note: This requires the partition to be selected first
  */
-export function buildCommandScript(commands: string[]): string {
-  if (!commands || commands.length === 0) {
-    throw new InvalidCommandError('No commands provided');
+export function buildShrinkQueryMaxCommand(): string {
+  return 'shrink querymax';
+}
+
+/**
+ * Build a command to convert the selected disk
+ * MBR and GPT conversions need an empty disk; basic needs a dynamic disk without volumes
+ * @param target - The partition style (gpt, mbr) or disk type (dynamic, basic) to convert to
+ */
+export function buildConvertCommand(target: DiskConversion): string {
+  const validTargets: DiskConversion[] = ['gpt', 'mbr', 'dynamic', 'basic'];
+  if (!validTargets.includes(target)) {
+    throw new InvalidCommandError(
+      `Invalid conversion: ${target}. Must be one of: ${validTargets.join(', ')}`
+    );
   }
-  
-  return commands.join('\n');
+  return `convert ${target}`;
 }
 
 /**
- * Build a command script to get detailed disk information
- * @param diskNumber - The disk number to query
+ * Build a command to show the attributes of the selected disk
+ * Note: This requires the disk to be selected first
  */
-export function buildDetailDiskScript(diskNumber: number): string {
-  return buildCommandScript([
-    buildSelectDiskCommand(diskNumber),
-    buildDetailDiskCommand(),
-    buildListPartitionsCommand()
-  ]);
+export function buildAttributesDiskCommand(): string {
+  return 'attributes disk';
 }
 
 /**
- * Build a command script to format a partition
- * @param diskNumber - The disk number
- * @param partitionNumber - The partition number
- * @param fileSystem - The file system to use
- * @param label - Optional volume label
+ * Build a command to set or clear the read-only attribute of the selected disk
+ * @param readOnly - Whether the disk should become read-only
  */
-export function buildFormatPartitionScript(
-  diskNumber: number,
-  partitionNumber: number,
-  fileSystem: string,
-  label?: string
+export function buildSetDiskReadOnlyCommand(readOnly: boolean): string {
+  return `attributes disk ${readOnly ? 'set' : 'clear'} readonly`;
+}
+
+/**
+ * Build a command to show the signature (MBR) or GUID (GPT) of the selected disk
+ */
+export function buildUniqueIdCommand(): string {
+  return 'uniqueid disk';
+}
+
+/**
+ * Build a command to change the signature or GUID of the selected disk,
+ * e.g. to resolve the collision between a disk and its clone
+ * @param id - 8 hex digits on an MBR disk, a GUID on a GPT disk
+ * @param partitionStyle - Style of the disk, to check the ID has the matching form
+ */
+export function buildSetUniqueIdCommand(id: string, partitionStyle: DiskInfo['partitionStyle']): string {
+  const trimmed = id.trim();
+  if (partitionStyle === 'MBR') {
+    if (!MBR_SIGNATURE_PATTERN.test(trimmed)) {
+      throw new InvalidCommandError(`Invalid MBR disk signature: ${id}. Must be 8 hex digits`);
+    }
+    if (/^0+$/.test(trimmed)) {
+      throw new InvalidCommandError('The MBR disk signature cannot be zero');
+    }
+    return `uniqueid disk id=${trimmed.toUpperCase()}`;
+  }
+
+  const guid = trimmed.match(GPT_DISK_GUID_PATTERN);
+  if (!guid) {
+    throw new InvalidCommandError(`Invalid GPT disk GUID: ${id}`);
+  }
+  return `uniqueid disk id=${guid[1].toUpperCase()}`;
+}
+
+/**
+ * Build a command to show the attributes of the selected volume
+ * Note: This requires the volume to be selected first
+ */
+export function buildAttributesVolumeCommand(): string {
+  return 'attributes volume';
+}
+
+/**
+ * Build a command to set or clear one attribute of the selected volume
+ * @param attribute - The attribute to change
+ * @param enabled - Whether to set (true) or clear (false) it
+ */
+export function buildSetVolumeAttributeCommand(attribute: keyof VolumeAttributes, enabled: boolean): string {
+  const keyword = VOLUME_ATTRIBUTE_KEYWORDS[attribute];
+  if (!keyword) {
+    throw new InvalidCommandError(`Invalid volume attribute: ${attribute}`);
+  }
+  return `attributes volume ${enabled ? 'set' : 'clear'} ${keyword}`;
+}
+
+/**
+ * Build a command to list the virtual disks that are attached or selected
+ */
+export function buildListVirtualDisksCommand(): string {
+  return 'list vdisk';
+}
+
+/**
+ * Build a command to select a virtual disk by its file
+ * @param file - Full path of the VHD, VHDX or ISO file
+ */
+export function buildSelectVirtualDiskCommand(file: string): string {
+  return `select vdisk file=${formatVirtualDiskFile(file)}`;
+}
+
+/**
+ * Build a command to get details about the selected virtual disk
+ */
+export function buildDetailVirtualDiskCommand(): string {
+  return 'detail vdisk';
+}
+
+/**
+ * Build a command to create a virtual disk file. Diskpart selects the new
+ * virtual disk afterwards
+ * @param options - File, size in MB and fixed or expandable
+ */
+export function buildCreateVirtualDiskCommand(options: CreateVirtualDiskOptions): string {
+  const { file, maximum, type } = options;
+
+  if (/\.iso$/i.test(file.trim())) {
+    throw new InvalidCommandError('Virtual disks can only be created as .vhd or .vhdx files');
+  }
+  if (!Number.isInteger(maximum) || maximum <= 0) {
+    throw new InvalidCommandError(`Invalid virtual disk size: ${maximum}`);
+  }
+  if (/\.vhd$/i.test(file.trim()) && maximum > VHD_MAX_SIZE) {
+    throw new InvalidCommandError(`VHD files hold at most ${VHD_MAX_SIZE} MB; use a .vhdx file for larger disks`);
+  }
+  if (type !== 'fixed' && type !== 'expandable') {
+    throw new InvalidCommandError(`Invalid virtual disk type: ${type}`);
+  }
+
+  return `create vdisk file=${formatVirtualDiskFile(file)} maximum=${maximum} type=${type}`;
+}
+
+/**
+ * Build a command to attach the selected virtual disk so it shows up as a disk
+ * @param readOnly - Attach without write access
+ */
+export function buildAttachVirtualDiskCommand(readOnly: boolean = false): string {
+  return readOnly ? 'attach vdisk readonly' : 'attach vdisk';
+}
+
+/**
+ * Build a command to detach the selected virtual disk
+ */
+export function buildDetachVirtualDiskCommand(): string {
+  return 'detach vdisk';
+}
+
+/**
+ * Build a command to grow the selected virtual disk, which must be detached
+ * @param maximum - New virtual size in MB
+ */
+export function buildExpandVirtualDiskCommand(maximum: number): string {
+  if (!Number.isInteger(maximum) || maximum <= 0) {
+    throw new InvalidCommandError(`Invalid virtual disk size: ${maximum}`);
+  }
+  return `expand vdisk maximum=${maximum}`;
+}
+
+/**
+ * Build a command to shrink the file of the selected expandable virtual
+ * disk to the space its data uses. It must be detached or attached read-only
+ */
+export function buildCompactVirtualDiskCommand(): string {
+  return 'compact vdisk';
+}
+
+/**
+ * Build a command to create a volume on dynamic disks. Diskpart selects the
+ * new volume afterwards. Spanned volumes have no create command of their
+ * own: create a simple volume and extend it onto the other disks
+ * @param layout - Simple, stripe, mirror or raid (RAID-5)
+ * @param disks - Numbers of the member disks
+ * @param size - Optional size in MB taken from each disk
+ */
+export function buildCreateVolumeCommand(
+  layout: Exclude<DynamicVolumeLayout, 'spanned'>,
+  disks: number[],
+  size?: number
 ): string {
-  return buildCommandScript([
-    buildSelectDiskCommand(diskNumber),
-    buildSelectPartitionCommand(partitionNumber),
-    buildFormatVolumeCommand(fileSystem, label)
-  ]);
+  if (!CREATE_VOLUME_LAYOUTS.includes(layout)) {
+    throw new InvalidCommandError(
+      `Invalid volume layout: ${layout}. Must be one of: ${CREATE_VOLUME_LAYOUTS.join(', ')}`
+    );
+  }
+
+  let command = `create volume ${layout}`;
+
+  if (size !== undefined) {
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new InvalidCommandError(`Invalid volume size: ${size}`);
+    }
+    command += ` size=${size}`;
+  }
+
+  return `${command} disk=${formatDiskList(disks, DYNAMIC_VOLUME_DISK_COUNTS[layout], layout)}`;
+}
+
+/**
+ * Build a command to extend the selected dynamic volume onto another disk,
+ * which turns a simple volume into a spanned one
+ * @param diskNumber - The disk to take the space from
+ * @param size - Optional size in MB; leave out to use the largest free extent
+ */
+export function buildExtendToDiskCommand(diskNumber: number, size?: number): string {
+  if (!Number.isInteger(diskNumber) || diskNumber < 0) {
+    throw new InvalidCommandError(`Invalid disk number: ${diskNumber}`);
+  }
+  if (size !== undefined) {
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new InvalidCommandError(`Invalid extend size: ${size}`);
+    }
+    return `extend size=${size} disk=${diskNumber}`;
+  }
+  return `extend disk=${diskNumber}`;
+}
+
+/**
+ * Build a command to mirror the selected simple volume onto another disk
+ * @param diskNumber - A dynamic disk with room for a copy of the volume
+ */
+export function buildAddMirrorCommand(diskNumber: number): string {
+  if (!Number.isInteger(diskNumber) || diskNumber < 0) {
+    throw new InvalidCommandError(`Invalid disk number: ${diskNumber}`);
+  }
+  return `add disk=${diskNumber}`;
+}
+
+/**
+ * Build a command to break the selected mirrored volume into two simple volumes
+ * @param diskNumber - The disk holding the half to split off
+ * @param keep - Keep that half as a volume of its own (true) or free its space (false)
+ */
+export function buildBreakMirrorCommand(diskNumber: number, keep: boolean = true): string {
+  if (!Number.isInteger(diskNumber) || diskNumber < 0) {
+    throw new InvalidCommandError(`Invalid disk number: ${diskNumber}`);
+  }
+  return keep ? `break disk=${diskNumber}` : `break disk=${diskNumber} nokeep`;
+}
+
+/**
+ * Build a command to import the disk group of the selected foreign disk
+ * into this machine's dynamic disk group
+ */
+export function buildImportCommand(): string {
+  return 'import';
+}
+
+/**
+ * Build a command to refresh the disks in the pack of the selected disk,
+ * repair an invalid pack and resynchronize stale mirrors and RAID-5 volumes
+ */
+export function buildRecoverCommand(): string {
+  return 'recover';
+}
+
+/**
+ * Build a command to rebuild the selected RAID-5 volume onto a replacement
+ * for its failed member
+ * @param diskNumber - A dynamic disk with at least as much free space as the failed member
+ */
+export function buildRepairDiskCommand(diskNumber: number): string {
+  if (!Number.isInteger(diskNumber) || diskNumber < 0) {
+    throw new InvalidCommandError(`Invalid disk number: ${diskNumber}`);
+  }
+  return `repair disk=${diskNumber}`;
+}
+
+/**
+ * Build a command to remove the selected missing disk from the disk group
+ * @param override - Also delete the simple volumes and mirror halves it holds
+ */
+export function buildDeleteDiskCommand(override: boolean = false): string {
+  return override ? 'delete disk override' : 'delete disk';
+}
+
+/**
+ * Build a command to show the SAN policy of this machine
+ */
+export function buildSanCommand(): string {
+  return 'san';
+}
+
+/**
+ * Build a command to change which newly discovered disks Windows brings online
+ */
+export function buildSetSanPolicyCommand(policy: SanPolicy): string {
+  if (!SAN_POLICIES.includes(policy)) {
+    throw new InvalidCommandError(
+      `Invalid SAN policy: ${policy}. Must be one of: ${SAN_POLICIES.join(', ')}`
+    );
+  }
+  return `san policy=${policy}`;
+}
+
+/**
+ * Build a command to show whether new volumes are mounted automatically
+ */
+export function buildAutomountCommand(): string {
+  return 'automount';
+}
+
+/**
+ * Build a command to turn automatic mounting on or off, or to scrub the
+ * mount points of volumes that are no longer present
+ */
+export function buildSetAutomountCommand(action: AutomountAction): string {
+  if (!AUTOMOUNT_ACTIONS.includes(action)) {
+    throw new InvalidCommandError(
+      `Invalid automount action: ${action}. Must be one of: ${AUTOMOUNT_ACTIONS.join(', ')}`
+    );
+  }
+  return `automount ${action}`;
+}
+
+/**
+ * Write the member disks of a dynamic volume as "disk=" expects them, e.g. "1,2,3"
+ */
+function formatDiskList(disks: number[], [min, max]: [number, number], layout: DynamicVolumeLayout): string {
+  if (disks.some(disk => !Number.isInteger(disk) || disk < 0)) {
+    throw new InvalidCommandError(`Invalid disk list: ${disks.join(',')}`);
+  }
+  if (new Set(disks).size !== disks.length) {
+    throw new InvalidCommandError('Each disk can only be used once in a volume');
+  }
+  if (disks.length < min || disks.length > max) {
+    const expected = min === max ? `${min}` : `${min} to ${max}`;
+    throw new InvalidCommandError(`A ${layout} volume needs ${expected} disks, got ${disks.length}`);
+  }
+  return disks.join(',');
+}
+
+/**
+ * Validate a virtual disk file path and quote it for a "file=" argument
+ */
+function formatVirtualDiskFile(file: string): string {
+  const trimmed = file.trim();
+  if (!VIRTUAL_DISK_FILE_PATTERN.test(trimmed)) {
+    throw new InvalidCommandError(`Invalid virtual disk file: ${file}. Must be a full path ending in .vhd, .vhdx or .iso`);
+  }
+  return `"${trimmed}"`;
+}
+
+/**
+ * Build a multi-command script for diskpart
+ * @param commands - Array of commands to execute
+ */
+export function buildCommandScript(commands: string[]): string {
+  if (!commands || commands.length === 0) {
+    throw new InvalidCommandError('No commands provided');
+  }
+  
+  return commands.join('\n');
+}
+
+/**
+ * Build a command script to get detailed disk information
+ * @param diskNumber - The disk number to query
+ */
+export function buildDetailDiskScript(diskNumber: number): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildDetailDiskCommand(),
+    buildListPartitionsCommand()
+  ]);
+}
+
+/**
+ * Build a command script to get detailed partition information
+ * @param diskNumber - The disk number
+ * @param partitionNumber - The partition number
+ */
+export function buildDetailPartitionScript(diskNumber: number, partitionNumber: number): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildSelectPartitionCommand(partitionNumber),
+    buildDetailPartitionCommand()
+  ]);
+}
+
+/**
+ * Build a command script to get detailed volume information
+ * @param volumeNumber - The volume number to query
+ */
+export function buildDetailVolumeScript(volumeNumber: number): string {
+  // "detail volume" does not print mount points, so list the volumes too:
+  // the selected one carries its mount paths
+  return buildCommandScript([
+    buildSelectVolumeCommand(volumeNumber),
+    buildDetailVolumeCommand(),
+    buildListVolumesCommand()
+  ]);
+}
+
+/**
+ * Build a command script that swaps the drive letters of two volumes. Both
+ * letters are removed before either is assigned, so neither is ever in use
+ * twice. Diskpart stops at the first failing command, which can leave a
+ * volume without a letter
+ * @param firstVolume - The first volume number
+ * @param firstLetter - Its current drive letter, which the second volume gets
+ * @param secondVolume - The second volume number
+ * @param secondLetter - Its current drive letter, which the first volume gets
+ */
+export function buildSwapLettersScript(
+  firstVolume: number,
+  firstLetter: string,
+  secondVolume: number,
+  secondLetter: string
+): string {
+  if (firstVolume === secondVolume) {
+    throw new InvalidCommandError('Cannot swap the drive letter of a volume with itself');
+  }
+
+  return buildCommandScript([
+    buildSelectVolumeCommand(firstVolume),
+    buildRemoveLetterCommand(firstLetter),
+    buildSelectVolumeCommand(secondVolume),
+    buildRemoveLetterCommand(secondLetter),
+    buildAssignLetterCommand(firstLetter),
+    buildSelectVolumeCommand(firstVolume),
+    buildAssignLetterCommand(secondLetter)
+  ]);
+}
+
+/**
+ * Build a command script to mount a volume into a folder
+ * @param volumeNumber - The volume number
+ * @param path - Empty NTFS folder to mount it at
+ */
+export function buildAssignMountScript(volumeNumber: number, path: string): string {
+  return buildCommandScript([
+    buildSelectVolumeCommand(volumeNumber),
+    buildAssignMountCommand(path)
+  ]);
+}
+
+/**
+ * Build a command script to remove a mount point from a volume
+ * @param volumeNumber - The volume number
+ * @param path - Folder the volume is mounted at
+ */
+export function buildRemoveMountScript(volumeNumber: number, path: string): string {
+  return buildCommandScript([
+    buildSelectVolumeCommand(volumeNumber),
+    buildRemoveMountCommand(path)
+  ]);
+}
+
+/**
+ * Build a command script to find the reclaimable space of a partition
+ * @param diskNumber - The disk number
+ * @param partitionNumber - The partition number
+ */
+export function buildShrinkQueryMaxScript(diskNumber: number, partitionNumber: number): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildSelectPartitionCommand(partitionNumber),
+    buildShrinkQueryMaxCommand()
+  ]);
+}
+
+/**
+ * Build a command script to mark a partition active. An MBR disk boots from
+ * its one active partition, so the one that is active now is cleared first
+ * @param diskNumber - The disk number
+ * @param partitionNumber - The partition to make active
+ * @param activePartition - The partition that is active now, if any
+ */
+export function buildSetActiveScript(diskNumber: number, partitionNumber: number, activePartition?: number): string {
+  const commands = [buildSelectDiskCommand(diskNumber)];
+  if (activePartition !== undefined && activePartition !== partitionNumber) {
+    commands.push(buildSelectPartitionCommand(activePartition), buildSetInactiveCommand());
+  }
+  commands.push(buildSelectPartitionCommand(partitionNumber), buildSetActiveCommand());
+  return buildCommandScript(commands);
+}
+
+/**
+ * Build a command script to clear the active flag of a partition
+ * @param diskNumber - The disk number
+ * @param partitionNumber - The partition number
+ */
+export function buildSetInactiveScript(diskNumber: number, partitionNumber: number): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildSelectPartitionCommand(partitionNumber),
+    buildSetInactiveCommand()
+  ]);
+}
+
+/**
+ * Build a command script to set the GPT attributes of a partition
+ * @param diskNumber - The disk number
+ * @param partitionNumber - The partition number
+ * @param attributes - All 64 attribute bits in hex
+ */
+export function buildGptAttributesScript(diskNumber: number, partitionNumber: number, attributes: string): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildSelectPartitionCommand(partitionNumber),
+    buildGptAttributesCommand(attributes)
+  ]);
+}
+
+/**
+ * Build a command script to extend a partition
+ * @param diskNumber - The disk number
+ * @param partitionNumber - The partition number
+ * @param size - Optional size in MB to extend by
+ */
+export function buildExtendPartitionScript(
+  diskNumber: number,
+  partitionNumber: number,
+  size?: number
+): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildSelectPartitionCommand(partitionNumber),
+    buildExtendPartitionCommand(size)
+  ]);
+}
+
+/**
+ * Build a command script to shrink a partition
+ * @param diskNumber - The disk number
+ * @param partitionNumber - The partition number
+ * @param desired - The amount in MB to shrink by
+ * @param minimum - Optional minimum amount in MB to accept
+ */
+export function buildShrinkPartitionScript(
+  diskNumber: number,
+  partitionNumber: number,
+  desired: number,
+  minimum?: number
+): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildSelectPartitionCommand(partitionNumber),
+    buildShrinkPartitionCommand(desired, minimum)
+  ]);
+}
+
+/**
+ * Build a command script to convert a disk
+ * @param diskNumber - The disk number
+ * @param target - The partition style or disk type to convert to
+ */
+export function buildConvertDiskScript(diskNumber: number, target: DiskConversion): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildConvertCommand(target)
+  ]);
+}
+
+/**
+ * Build a command script to read the signature or GUID of a disk
+ * @param diskNumber - The disk number to query
+ */
+export function buildUniqueIdScript(diskNumber: number): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildUniqueIdCommand()
+  ]);
+}
+
+/**
+ * Build a command script to change the signature or GUID of a disk
+ * @param diskNumber - The disk number to change
+ * @param id - The new signature or GUID
+ * @param partitionStyle - Style of the disk
+ * @param bringOnline - Bring the disk online afterwards, e.g. a clone Windows took offline
+ */
+export function buildSetUniqueIdScript(
+  diskNumber: number,
+  id: string,
+  partitionStyle: DiskInfo['partitionStyle'],
+  bringOnline: boolean = false
+): string {
+  const commands = [
+    buildSelectDiskCommand(diskNumber),
+    buildSetUniqueIdCommand(id, partitionStyle)
+  ];
+  if (bringOnline) {
+    commands.push(buildOnlineDiskCommand());
+  }
+  return buildCommandScript(commands);
+}
+
+/**
+ * Build a command script to read the attributes of a disk
+ * @param diskNumber - The disk number to query
+ */
+export function buildDiskAttributesScript(diskNumber: number): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildAttributesDiskCommand()
+  ]);
+}
+
+/**
+ * Build a command script to read the attributes of a volume
+ * @param volumeNumber - The volume number to query
+ */
+export function buildVolumeAttributesScript(volumeNumber: number): string {
+  return buildCommandScript([
+    buildSelectVolumeCommand(volumeNumber),
+    buildAttributesVolumeCommand()
+  ]);
+}
+
+/**
+ * Build a command script to set and clear volume attributes, one command each
+ * @param volumeNumber - The volume number
+ * @param changes - The attributes to change and their new values
+ */
+export function buildSetVolumeAttributesScript(
+  volumeNumber: number,
+  changes: Partial<VolumeAttributes>
+): string {
+  const commands = (Object.entries(changes) as [keyof VolumeAttributes, boolean | undefined][])
+    .filter(([, enabled]) => enabled !== undefined)
+    .map(([attribute, enabled]) => buildSetVolumeAttributeCommand(attribute, enabled as boolean));
+
+  if (commands.length === 0) {
+    throw new InvalidCommandError('No volume attributes to change');
+  }
+
+  return buildCommandScript([buildSelectVolumeCommand(volumeNumber), ...commands]);
+}
+
+/**
+ * Build a command script to format a partition
+ * @param diskNumber - The disk number
+ * @param partitionNumber - The partition number
+ * @param options - File system, label, allocation unit and format switches
+ */
+export function buildFormatPartitionScript(
+  diskNumber: number,
+  partitionNumber: number,
+  options: FormatOptions
+): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildSelectPartitionCommand(partitionNumber),
+    buildFormatVolumeCommand(options)
+  ]);
+}
+
+/**
+ * Build a command script to get detailed virtual disk information
+ * @param file - Full path of the virtual disk file
+ */
+export function buildDetailVirtualDiskScript(file: string): string {
+  return buildCommandScript([
+    buildSelectVirtualDiskCommand(file),
+    buildDetailVirtualDiskCommand()
+  ]);
+}
+
+/**
+ * Build a command script to create a virtual disk file, attaching it if asked
+ * @param options - File, size in MB, type and whether to attach
+ */
+export function buildCreateVirtualDiskScript(options: CreateVirtualDiskOptions): string {
+  const commands = [buildCreateVirtualDiskCommand(options)];
+  if (options.attach) {
+    commands.push(buildAttachVirtualDiskCommand());
+  }
+  return buildCommandScript(commands);
+}
+
+/**
+ * Build a command script to attach a virtual disk
+ * @param file - Full path of the virtual disk file
+ * @param readOnly - Attach without write access
+ */
+export function buildAttachVirtualDiskScript(file: string, readOnly: boolean = false): string {
+  return buildCommandScript([
+    buildSelectVirtualDiskCommand(file),
+    buildAttachVirtualDiskCommand(readOnly)
+  ]);
+}
+
+/**
+ * Build a command script to detach a virtual disk
+ * @param file - Full path of the virtual disk file
+ */
+export function buildDetachVirtualDiskScript(file: string): string {
+  return buildCommandScript([
+    buildSelectVirtualDiskCommand(file),
+    buildDetachVirtualDiskCommand()
+  ]);
+}
+
+/**
+ * Build a command script to grow a detached virtual disk
+ * @param file - Full path of the virtual disk file
+ * @param maximum - New virtual size in MB
+ */
+export function buildExpandVirtualDiskScript(file: string, maximum: number): string {
+  return buildCommandScript([
+    buildSelectVirtualDiskCommand(file),
+    buildExpandVirtualDiskCommand(maximum)
+  ]);
+}
+
+/**
+ * Build a command script to compact an expandable virtual disk
+ * @param file - Full path of the virtual disk file
+ */
+export function buildCompactVirtualDiskScript(file: string): string {
+  return buildCommandScript([
+    buildSelectVirtualDiskCommand(file),
+    buildCompactVirtualDiskCommand()
+  ]);
+}
+
+/**
+ * Build a command script to create a volume on dynamic disks, then format it
+ * and assign a letter if asked. A spanned volume starts as a simple volume on
+ * the first disk and is extended onto each of the others in turn
+ * @param options - Layout, member disks, size per disk, format and letter
+ */
+export function buildCreateDynamicVolumeScript(options: CreateDynamicVolumeOptions): string {
+  const { layout, disks, size, format, letter } = options;
+  const commands: string[] = [];
+
+  if (layout === 'spanned') {
+    formatDiskList(disks, DYNAMIC_VOLUME_DISK_COUNTS.spanned, layout);
+    commands.push(buildCreateVolumeCommand('simple', disks.slice(0, 1), size));
+    for (const disk of disks.slice(1)) {
+      commands.push(buildExtendToDiskCommand(disk, size));
+    }
+  } else {
+    commands.push(buildCreateVolumeCommand(layout, disks, size));
+  }
+
+  if (format) {
+    commands.push(buildFormatVolumeCommand(format));
+  }
+  if (letter) {
+    commands.push(buildAssignLetterCommand(letter));
+  }
+  return buildCommandScript(commands);
+}
+
+/**
+ * Build a command script to mirror a simple volume onto another disk
+ * @param volumeNumber - The simple volume to mirror
+ * @param diskNumber - The disk to put the copy on
+ */
+export function buildAddMirrorScript(volumeNumber: number, diskNumber: number): string {
+  return buildCommandScript([
+    buildSelectVolumeCommand(volumeNumber),
+    buildAddMirrorCommand(diskNumber)
+  ]);
+}
+
+/**
+ * Build a command script to break a mirrored volume
+ * @param volumeNumber - The mirrored volume
+ * @param diskNumber - The disk holding the half to split off
+ * @param keep - Keep that half as a volume of its own
+ */
+export function buildBreakMirrorScript(volumeNumber: number, diskNumber: number, keep: boolean = true): string {
+  return buildCommandScript([
+    buildSelectVolumeCommand(volumeNumber),
+    buildBreakMirrorCommand(diskNumber, keep)
+  ]);
+}
+
+/**
+ * Build a command script to import a foreign disk and its disk group
+ * @param diskNumber - Any foreign disk of the group
+ */
+export function buildImportDiskScript(diskNumber: number): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildImportCommand()
+  ]);
+}
+
+/**
+ * Build a command script to recover the disk pack a disk belongs to
+ * @param diskNumber - Any disk of the pack
+ */
+export function buildRecoverDiskScript(diskNumber: number): string {
+  return buildCommandScript([
+    buildSelectDiskCommand(diskNumber),
+    buildRecoverCommand()
+  ]);
+}
+
+/**
+ * Build a command script to repair a RAID-5 volume onto another disk
+ * @param volumeNumber - The RAID-5 volume with a failed member
+ * @param diskNumber - The disk to rebuild the failed member on
+ */
+export function buildRepairVolumeScript(volumeNumber: number, diskNumber: number): string {
+  return buildCommandScript([
+    buildSelectVolumeCommand(volumeNumber),
+    buildRepairDiskCommand(diskNumber)
+  ]);
+}
+
+/**
+ * Build a command script to remove a missing disk from the disk group
+ * @param missingId - Its name in "list disk", e.g. M0
+ * @param override - Also delete the simple volumes and mirror halves it holds
+ */
+export function buildDeleteMissingDiskScript(missingId: string, override: boolean = false): string {
+  return buildCommandScript([
+    buildSelectMissingDiskCommand(missingId),
+    buildDeleteDiskCommand(override)
+  ]);
+}
+
+/**
+ * Build a script to read the SAN policy and the automount setting. It starts
+ * with "list disk" so the output carries a table header to detect the
+ * display language from; "san" and "automount" print too little to tell.
+ */
+export function buildStorageSettingsScript(): string {
+  return buildCommandScript([
+    buildListDisksCommand(),
+    buildSanCommand(),
+    buildAutomountCommand()
+  ]);
+}
+
+/**
+ * Compile the pending operations list into one script. Each change selects
+ * its disk and partition afresh, numbered as they will be once the changes
+ * before it have run, so the plan reads the same as the projected layout
+ * @param operations - Changes in the order they run
+ */
+export function buildPendingOperationsScript(operations: PlannedOperation[]): string {
+  if (!operations || operations.length === 0) {
+    throw new InvalidCommandError('No pending operations to apply');
+  }
+
+  const commands = operations.flatMap((operation, index) => {
+    const step = [buildSelectDiskCommand(operation.diskId)];
+    if (operation.kind === 'create_partition') {
+      return [...step, buildCreatePartitionCommand(operation.options)];
+    }
+
+    if (operation.partitionId === undefined) {
+      throw new InvalidCommandError(`Pending operation ${index + 1} (${operation.kind}) has no partition`);
+    }
+    step.push(buildSelectPartitionCommand(operation.partitionId));
+
+    switch (operation.kind) {
+      case 'delete_partition':
+        return [...step, buildDeletePartitionCommand()];
+      case 'format':
+        // The next change may need the finished file system
+        if (operation.options.noWait) {
+          throw new InvalidCommandError('A pending format cannot use nowait');
+        }
+        return [...step, buildFormatVolumeCommand(operation.options)];
+      case 'extend':
+        return [...step, buildExtendPartitionCommand(operation.size)];
+      case 'shrink':
+        return [...step, buildShrinkPartitionCommand(operation.desired)];
+      case 'assign_letter':
+        return [...step, buildAssignLetterCommand(operation.letter)];
+      case 'remove_letter':
+        return [...step, buildRemoveLetterCommand(operation.letter)];
+    }
+  });
+
+  return buildCommandScript(commands);
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+/**
+ * Console output decoding module
+ * Diskpart writes to a pipe in the console's OEM code page, not UTF-8, so
+ * localized output (umlauts, accents, Japanese) must be decoded explicitly
+ */
+
+import { exec } from 'child_process';
+import { promisify, TextDecoder } from 'util';
+import { logWarning } from '../utils/logger';
+
+const execAsync = promisify(exec);
+
+// Upper halves (0x80-0xFF) of the single-byte OEM code pages TextDecoder does not support
+const SINGLE_BYTE_TABLES: Record<number, string> = {
+  437: 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00A0',
+  850: 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0'
+};
+
+// Code pages TextDecoder handles natively, by WHATWG encoding label
+const TEXT_DECODER_LABELS: Record<number, string> = {
+  65001: 'utf-8',
+  866: 'ibm866',
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  1252: 'windows-1252'
+};
+
+const DEFAULT_CODE_PAGE = 65001;
+
+let cachedCodePage: number | null = null;
+
+/**
+ * Decodes a byte stream chunk by chunk. Multi-byte characters split across
+ * chunks are held back until the rest arrives.
+ */
+export type StreamDecoder = (chunk: Buffer) => string;
+
+/**
+ * Get the OEM code page that console programs such as Diskpart write in
+ */
+export async function getConsoleCodePage(): Promise<number> {
+  if (cachedCodePage !== null) return cachedCodePage;
+
+  try {
+    // "Active code page: 850" - the wording is localized but the number is not
+    const { stdout } = await execAsync('chcp', { timeout: 5000, windowsHide: true });
+    const match = stdout.match(/(\d+)/);
+    cachedCodePage = match ? parseInt(match[1], 10) : DEFAULT_CODE_PAGE;
+  } catch (error) {
+    logWarning('Could not read the console code page; assuming UTF-8', error);
+    cachedCodePage = DEFAULT_CODE_PAGE;
+  }
+
+  return cachedCodePage;
+}
+
+/**
+ * Create a stream decoder for a Windows code page
+ */
+export function createDecoder(codePage: number): StreamDecoder {
+  const table = SINGLE_BYTE_TABLES[codePage];
+  if (table) {
+    return (chunk) => {
+      let text = '';
+      for (const byte of chunk) {
+        text += byte < 0x80 ? String.fromCharCode(byte) : table[byte - 0x80];
+      }
+      return text;
+    };
+  }
+
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(TEXT_DECODER_LABELS[codePage] || 'utf-8');
+  } catch (error) {
+    logWarning(`Code page ${codePage} is not supported; decoding Diskpart output as UTF-8`);
+    decoder = new TextDecoder('utf-8');
+  }
+  return (chunk) => decoder.decode(chunk, { stream: true });
+}
\ No newline at end of file
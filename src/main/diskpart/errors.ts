@@ -54,6 +54,14 @@ export class CommandTimeoutError extends DiskpartError {
   }
 }
 
+export class OperationStalledError extends DiskpartError {
+  constructor(idleTimeout: number, details?: string) {
+    super(`No progress reported for ${idleTimeout}ms; the operation appears to be hung`, 'OPERATION_STALLED', details);
+    this.name = 'OperationStalledError';
+    Object.setPrototypeOf(this, OperationStalledError.prototype);
+  }
+}
+
 export class ParseError extends DiskpartError {
   constructor(message: string, details?: string) {
     super(message, 'PARSE_ERROR', details);
@@ -78,6 +86,14 @@ export class AccessDeniedError extends DiskpartError {
   }
 }
 
+export class UnsupportedLocaleError extends DiskpartError {
+  constructor(command: string, locale: string, details?: string) {
+    super(`Reading "${command}" output in ${locale} is not supported yet`, 'UNSUPPORTED_LOCALE', details);
+    this.name = 'UnsupportedLocaleError';
+    Object.setPrototypeOf(this, UnsupportedLocaleError.prototype);
+  }
+}
+
 /**
  * Helper function to convert errors to user-friendly messages
  */
@@ -3,107 +3,363 @@
  * Handles execution of Diskpart commands with proper error handling and timeout management
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
-import { CommandResult } from '../../shared/types';
 import {
+  CommandOutputEvent,
+  CommandResult,
+  JobInfo,
+  JobMode,
+  JobStatus,
+  OperationProgress
+} from '../../shared/types';
+import {
+  DiskpartError,
   CommandExecutionError,
   CommandTimeoutError,
   AccessDeniedError,
   PrivilegeError
 } from './errors';
-import { logCommand, logCommandResult, logError } from '../utils/logger';
+import { getBackend, RunOptions } from './backend';
+import { parsePercentCompleted } from './locales';
+import { extractErrorFromOutput, isCommandSuccessful } from './commandStatus';
+import { logCommand, logCommandResult, logError, logInfo } from '../utils/logger';
 import { isRunningAsAdmin } from '../utils/privileges';
 
-const execAsync = promisify(exec);
-
-// Default timeout for commands (30 seconds)
+// Default time for each command to return to the Diskpart prompt (30 seconds)
 const DEFAULT_TIMEOUT = 30000;
 
 // Timeout for destructive operations (60 seconds)
 const DESTRUCTIVE_TIMEOUT = 60000;
 
+// Long-running operations (clean all, full format) have no hard limit; they fail
+// only when Diskpart stops reporting progress for this long (30 minutes)
+const LONG_RUNNING_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+// Number of finished jobs kept in the queue snapshot
+const MAX_FINISHED_JOBS = 10;
+
+interface QueuedJob {
+  info: JobInfo;
+  command: string;
+  timeout: number;
+  watchdog: boolean;
+  promise: Promise<CommandResult>;
+  resolve: (result: CommandResult) => void;
+  // First progress report, used as the baseline for the ETA
+  progressStart?: { percent: number; time: number };
+}
+
+type JobQueueListener = (jobs: JobInfo[]) => void;
+type CommandOutputListener = (event: CommandOutputEvent) => void;
+type OperationProgressListener = (progress: OperationProgress) => void;
+
+let jobCounter = 0;
+const pendingJobs: QueuedJob[] = [];
+const runningJobs: QueuedJob[] = [];
+const finishedJobs: JobInfo[] = [];
+const queueListeners = new Set<JobQueueListener>();
+const outputListeners = new Set<CommandOutputListener>();
+const progressListeners = new Set<OperationProgressListener>();
+
 /**
- * Execute a Diskpart command
+ * Execute a Diskpart command through the global job queue.
+ * Exclusive jobs run alone; read jobs may share the queue with other reads,
+ * and an identical read that is still waiting is reused instead of re-run.
  * @param command - The Diskpart command or script to execute
  * @param timeout - Optional timeout in milliseconds
+ * @param mode - 'exclusive' for anything that changes disks, 'read' for queries
  * @returns Promise<CommandResult>
  */
-export async function executeDiskpartCommand(
+export function executeDiskpartCommand(
   command: string,
-  timeout: number = DEFAULT_TIMEOUT
+  timeout: number = DEFAULT_TIMEOUT,
+  mode: JobMode = 'exclusive'
 ): Promise<CommandResult> {
-  // Check for admin privileges
-  const isAdmin = await isRunningAsAdmin();
-  if (!isAdmin) {
-    const error = new PrivilegeError(
-      'Administrator privileges required to execute Diskpart commands',
-      'Please restart the application as administrator'
-    );
-    logError('Privilege check failed', { command, error: error.message });
-    return {
+  return enqueueJob(command, timeout, mode, false);
+}
+
+/**
+ * Execute an operation that can run for hours (clean all, full format).
+ * Instead of a hard timeout, a watchdog fails the job only when Diskpart
+ * stops producing output.
+ */
+export function executeLongRunningCommand(command: string): Promise<CommandResult> {
+  return enqueueJob(command, LONG_RUNNING_IDLE_TIMEOUT, 'exclusive', true);
+}
+
+function enqueueJob(
+  command: string,
+  timeout: number,
+  mode: JobMode,
+  watchdog: boolean
+): Promise<CommandResult> {
+  if (mode === 'read') {
+    const existing = findCoalescableJob(command);
+    if (existing) {
+      logInfo(`Coalescing read with job ${existing.info.id}`, { command });
+      return existing.promise;
+    }
+  }
+
+  let resolve: (result: CommandResult) => void = () => undefined;
+  const promise = new Promise<CommandResult>((res) => {
+    resolve = res;
+  });
+
+  const job: QueuedJob = {
+    info: {
+      id: `job-${++jobCounter}`,
+      description: describeCommand(command),
+      mode,
+      status: 'pending',
+      queuedAt: new Date()
+    },
+    command,
+    timeout,
+    watchdog,
+    promise,
+    resolve
+  };
+
+  pendingJobs.push(job);
+  notifyQueueListeners();
+  processQueue();
+
+  return promise;
+}
+
+/**
+ * Cancel a job that has not started yet
+ * @returns true if the job was waiting and is now cancelled
+ */
+export function cancelJob(jobId: string): boolean {
+  const index = pendingJobs.findIndex(job => job.info.id === jobId);
+  if (index === -1) {
+    return false;
+  }
+
+  const [job] = pendingJobs.splice(index, 1);
+  logInfo(`Cancelled job ${jobId}`, { command: job.command });
+  finishJob(job, 'cancelled', {
+    success: false,
+    message: 'Operation cancelled before it started',
+    errorCode: 'CANCELLED'
+  });
+  return true;
+}
+
+/**
+ * Get a snapshot of running, waiting and recently finished jobs
+ */
+export function getJobQueue(): JobInfo[] {
+  return [
+    ...runningJobs.map(job => ({ ...job.info })),
+    ...pendingJobs.map(job => ({ ...job.info })),
+    ...finishedJobs.map(info => ({ ...info }))
+  ];
+}
+
+/**
+ * Subscribe to queue changes
+ * @returns A function that removes the listener
+ */
+export function onJobQueueChange(listener: JobQueueListener): () => void {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+}
+
+/**
+ * Subscribe to Diskpart output as it is produced, one line at a time
+ * @returns A function that removes the listener
+ */
+export function onCommandOutput(listener: CommandOutputListener): () => void {
+  outputListeners.add(listener);
+  return () => {
+    outputListeners.delete(listener);
+  };
+}
+
+/**
+ * Subscribe to progress of long-running operations
+ * @returns A function that removes the listener
+ */
+export function onOperationProgress(listener: OperationProgressListener): () => void {
+  progressListeners.add(listener);
+  return () => {
+    progressListeners.delete(listener);
+  };
+}
+
+/**
+ * Start every job at the head of the queue that the lock allows
+ */
+function processQueue(): void {
+  while (pendingJobs.length > 0) {
+    const next = pendingJobs[0];
+    const exclusiveRunning = runningJobs.some(job => job.info.mode === 'exclusive');
+    const blocked = next.info.mode === 'exclusive' ? runningJobs.length > 0 : exclusiveRunning;
+    if (blocked) break;
+
+    pendingJobs.shift();
+    startJob(next);
+  }
+}
+
+function startJob(job: QueuedJob): void {
+  job.info.status = 'executing';
+  job.info.startedAt = new Date();
+  runningJobs.push(job);
+  notifyQueueListeners();
+
+  runDiskpartCommand(job.command, {
+    timeout: job.timeout,
+    watchdog: job.watchdog,
+    onOutput: line => handleJobOutput(job, line)
+  })
+    .catch((error): CommandResult => ({
       success: false,
-      message: error.message,
-      errorCode: error.code,
-      details: error.details
-    };
+      message: error instanceof Error ? error.message : String(error),
+      errorCode: 'EXCEPTION'
+    }))
+    .then(result => {
+      const index = runningJobs.indexOf(job);
+      if (index !== -1) runningJobs.splice(index, 1);
+      finishJob(job, result.success ? 'completed' : 'failed', result);
+      processQueue();
+    });
+}
+
+function finishJob(job: QueuedJob, status: JobStatus, result: CommandResult): void {
+  job.info.status = status;
+  job.info.finishedAt = new Date();
+
+  finishedJobs.unshift(job.info);
+  finishedJobs.splice(MAX_FINISHED_JOBS);
+
+  job.resolve(result);
+  notifyQueueListeners();
+}
+
+/**
+ * Find a read job whose result a new identical read can share. Only jobs
+ * with no exclusive job queued after them qualify, so the shared result
+ * never predates a change the caller expects to see.
+ */
+function findCoalescableJob(command: string): QueuedJob | undefined {
+  for (let i = pendingJobs.length - 1; i >= 0; i--) {
+    const job = pendingJobs[i];
+    if (job.info.mode === 'exclusive') return undefined;
+    if (job.command === command) return job;
   }
+  return runningJobs.find(job => job.info.mode === 'read' && job.command === command);
+}
 
-  // Log the command
-  logCommand(command);
+function describeCommand(command: string): string {
+  return command
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .join(' → ');
+}
 
-  try {
-    // Create a temporary script file
-    const scriptPath = await createTempScript(command);
-
-    try {
-      // Execute diskpart with the script file
-      const { stdout, stderr } = await execAsync(
-        `diskpart /s "${scriptPath}"`,
-        {
-          timeout,
-          windowsHide: true,
-          encoding: 'utf8'
-        }
+function notifyQueueListeners(): void {
+  const snapshot = getJobQueue();
+  queueListeners.forEach(listener => listener(snapshot));
+}
+
+/**
+ * Forward a line of output and turn percent lines into progress events
+ */
+function handleJobOutput(job: QueuedJob, line: string): void {
+  const jobId = job.info.id;
+  outputListeners.forEach(listener => listener({ jobId, line }));
+
+  // "NN percent completed", in whichever language Diskpart speaks
+  const reported = parsePercentCompleted(line);
+  if (reported === null) return;
+
+  const percent = Math.min(reported, 100);
+  const now = Date.now();
+  if (!job.progressStart) {
+    job.progressStart = { percent, time: now };
+  }
+
+  const progress: OperationProgress = {
+    jobId,
+    percent,
+    elapsedMs: now - (job.info.startedAt?.getTime() ?? now)
+  };
+
+  // Extrapolate from the rate seen since the first report
+  const { percent: startPercent, time: startTime } = job.progressStart;
+  if (percent > startPercent && percent < 100) {
+    progress.etaMs = Math.round((now - startTime) * (100 - percent) / (percent - startPercent));
+  }
+
+  progressListeners.forEach(listener => listener(progress));
+}
+
+/**
+ * Run a command on the active backend once the queue has started it
+ */
+async function runDiskpartCommand(
+  command: string,
+  options: RunOptions
+): Promise<CommandResult> {
+  const { timeout } = options;
+  const backend = getBackend();
+
+  // Check for admin privileges
+  if (backend.requiresElevation) {
+    const isAdmin = await isRunningAsAdmin();
+    if (!isAdmin) {
+      const error = new PrivilegeError(
+        'Administrator privileges required to execute Diskpart commands',
+        'Please restart the application as administrator'
       );
+      logError('Privilege check failed', { command, error: error.message });
+      return {
+        success: false,
+        message: error.message,
+        errorCode: error.code,
+        details: error.details
+      };
+    }
+  }
 
-      // Clean up the script file
-      await deleteTempScript(scriptPath);
+  // Log the command
+  logCommand(command);
 
-      // Parse the output
-      const output = stdout || stderr || '';
-      const success = isCommandSuccessful(output);
+  try {
+    const { stdout, stderr, exitCode } = await backend.run(command, options);
 
-      // Log the result
-      logCommandResult(command, success, output, stderr);
+    // Parse the output
+    const output = stdout || stderr || '';
+    const success = isCommandSuccessful(output, exitCode);
 
-      if (!success) {
-        const errorMessage = extractErrorFromOutput(output);
-        return {
-          success: false,
-          message: errorMessage || 'Command failed',
-          errorCode: 'COMMAND_FAILED',
-          details: output,
-          data: { stdout, stderr }
-        };
-      }
+    // Log the result
+    logCommandResult(command, success, output, stderr);
 
+    if (!success) {
+      const errorMessage = extractErrorFromOutput(output);
       return {
-        success: true,
-        message: 'Command executed successfully',
-        data: { output, stdout, stderr }
+        success: false,
+        message: errorMessage || 'Command failed',
+        errorCode: 'COMMAND_FAILED',
+        details: output,
+        data: { stdout, stderr, exitCode }
       };
-    } catch (execError: any) {
-      // Clean up the script file on error
-      await deleteTempScript(scriptPath);
-      throw execError;
     }
+
+    return {
+      success: true,
+      message: 'Command executed successfully',
+      data: { output, stdout, stderr }
+    };
   } catch (error: any) {
     // Handle specific error types
-    if (error.killed || error.signal === 'SIGTERM') {
+    if (error instanceof CommandTimeoutError || error.killed || error.signal === 'SIGTERM') {
       const timeoutError = new CommandTimeoutError(timeout);
       logError('Command timeout', { command, timeout, error: error.message });
       return {
@@ -125,6 +381,17 @@ export async function executeDiskpartCommand(
       };
     }
 
+    // Errors raised by the backend itself (e.g. the Diskpart session crashed)
+    if (error instanceof DiskpartError) {
+      logError('Command execution failed', { command, error: error.message, details: error.details });
+      return {
+        success: false,
+        message: error.message,
+        errorCode: error.code,
+        details: error.details
+      };
+    }
+
     // Generic execution error
     const execError = new CommandExecutionError(
       'Failed to execute Diskpart command',
@@ -147,91 +414,6 @@ export async function executeDestructiveCommand(command: string): Promise<Comman
   return executeDiskpartCommand(command, DESTRUCTIVE_TIMEOUT);
 }
 
-/**
- * Create a temporary script file for Diskpart
- */
-async function createTempScript(command: string): Promise<string> {
-  const tempDir = os.tmpdir();
-  const scriptName = `diskpart_${Date.now()}_${Math.random().toString(36).substring(7)}.txt`;
-  const scriptPath = path.join(tempDir, scriptName);
-
-  try {
-    await fs.promises.writeFile(scriptPath, command, 'utf8');
-    return scriptPath;
-  } catch (error) {
-    throw new CommandExecutionError(
-      'Failed to create temporary script file',
-      error instanceof Error ? error.message : String(error)
-    );
-  }
-}
-
-/**
- * Delete a temporary script file
- */
-async function deleteTempScript(scriptPath: string): Promise<void> {
-  try {
-    if (fs.existsSync(scriptPath)) {
-      await fs.promises.unlink(scriptPath);
-    }
-  } catch (error) {
-    // Log but don't throw - cleanup failure is not critical
-    console.warn(`Failed to delete temp script: ${scriptPath}`, error);
-  }
-}
-
-/**
- * Check if command output indicates success
- */
-function isCommandSuccessful(output: string): boolean {
-  const lowerOutput = output.toLowerCase();
-
-  // Check for explicit success messages
-  if (lowerOutput.includes('diskpart successfully')) return true;
-  if (lowerOutput.includes('completed successfully')) return true;
-
-  // Check for error indicators
-  if (lowerOutput.includes('error')) return false;
-  if (lowerOutput.includes('failed')) return false;
-  if (lowerOutput.includes('access is denied')) return false;
-  if (lowerOutput.includes('cannot')) return false;
-  if (lowerOutput.includes('invalid')) return false;
-  if (lowerOutput.includes('not found')) return false;
-
-  // For list commands, success is having output
-  if (lowerOutput.includes('disk ###') || 
-      lowerOutput.includes('volume ###') || 
-      lowerOutput.includes('partition ###')) {
-    return true;
-  }
-
-  // If no clear indicator, check if output is not empty and doesn't contain common error patterns
-  return output.trim().length > 0;
-}
-
-/**
- * Extract error message from command output
- */
-function extractErrorFromOutput(output: string): string | null {
-  const lines = output.split('\n').map(line => line.trim());
-
-  for (const line of lines) {
-    const lowerLine = line.toLowerCase();
-
-    // Look for lines containing error indicators
-    if (lowerLine.includes('error') ||
-        lowerLine.includes('failed') ||
-        lowerLine.includes('denied') ||
-        lowerLine.includes('cannot') ||
-        lowerLine.includes('invalid') ||
-        lowerLine.includes('not found')) {
-      return line;
-    }
-  }
-
-  return null;
-}
-
 /**
  * Execute a command and parse the output with a parser function
  */
@@ -240,7 +422,7 @@ export async function executeAndParse<T>(
   parser: (output: string) => T,
   timeout?: number
 ): Promise<CommandResult> {
-  const result = await executeDiskpartCommand(command, timeout);
+  const result = await executeDiskpartCommand(command, timeout, 'read');
 
   if (!result.success) {
     return result;
@@ -264,7 +446,7 @@ export async function executeAndParse<T>(
     return {
       success: false,
       message: 'Failed to parse command output',
-      errorCode: 'PARSE_ERROR',
+      errorCode: error instanceof DiskpartError ? error.code : 'PARSE_ERROR',
       details: error instanceof Error ? error.message : String(error),
       data: result.data
     };
@@ -272,15 +454,11 @@ export async function executeAndParse<T>(
 }
 
 /**
- * Validate that Diskpart is available on the system
+ * Validate that Diskpart (or the configured backend) is available on the system
  */
 export async function validateDiskpartAvailable(): Promise<boolean> {
   try {
-    const { stdout } = await execAsync('where diskpart', {
-      timeout: 5000,
-      windowsHide: true
-    });
-    return stdout.trim().length > 0;
+    return await getBackend().isAvailable();
   } catch (error) {
     return false;
   }
@@ -0,0 +1,139 @@
+/**
+ * Parser fixture check
+ * Parses every captured output in this folder with the parser its file name
+ * names and compares the result with the expected JSON saved next to it
+ * (list-disk.txt -> list-disk.json). Every output must also read as a
+ * successful command, or the executor would drop it before it is parsed.
+ * Run it with "npm run test:parser"; add --update to write the expected
+ * files after checking a new fixture by hand.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  parseListDisk,
+  parseListVolume,
+  parseListPartition,
+  parseDetailDisk,
+  parseDetailPartition,
+  parseDetailVolume,
+  parseAttributesDisk,
+  parseAttributesVolume,
+  parseShrinkQueryMax,
+  parseSanPolicy,
+  parseAutomount
+} from '../parser';
+import { isCommandSuccessful } from '../commandStatus';
+
+// File name prefix of each captured command, and the parser that reads it
+const PARSERS: [string, (output: string) => unknown][] = [
+  ['list-disk', parseListDisk],
+  ['list-volume', parseListVolume],
+  ['list-partition', parseListPartition],
+  ['detail-disk', parseDetailDisk],
+  ['detail-partition', parseDetailPartition],
+  ['detail-volume', parseDetailVolume],
+  ['attributes-disk', parseAttributesDisk],
+  ['attributes-volume', parseAttributesVolume],
+  ['shrink-querymax', parseShrinkQueryMax],
+  ['san-', parseSanPolicy],
+  ['automount-', parseAutomount]
+];
+
+const FIXTURES_DIR = path.join(process.cwd(), 'src', 'main', 'diskpart', 'fixtures');
+
+/**
+ * Find the first place two parsed values differ
+ * @returns The path to the difference, e.g. "[1].size", or null when they are equal
+ */
+function findDifference(actual: unknown, expected: unknown, at: string = ''): string | null {
+  if (Array.isArray(actual) && Array.isArray(expected)) {
+    if (actual.length !== expected.length) {
+      return `${at || 'root'}: ${actual.length} items, expected ${expected.length}`;
+    }
+    for (let i = 0; i < actual.length; i++) {
+      const difference = findDifference(actual[i], expected[i], `${at}[${i}]`);
+      if (difference) return difference;
+    }
+    return null;
+  }
+
+  if (actual && expected && typeof actual === 'object' && typeof expected === 'object') {
+    const keys = new Set([...Object.keys(actual), ...Object.keys(expected)]);
+    for (const key of keys) {
+      const difference = findDifference(
+        (actual as Record<string, unknown>)[key],
+        (expected as Record<string, unknown>)[key],
+        at ? `${at}.${key}` : key
+      );
+      if (difference) return difference;
+    }
+    return null;
+  }
+
+  return actual === expected
+    ? null
+    : `${at || 'root'}: got ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`;
+}
+
+/**
+ * Check one fixture
+ * @returns Why it fails, or null when it passes
+ */
+function checkFixture(file: string, update: boolean): string | null {
+  const name = path.basename(file, '.txt');
+  const parser = PARSERS.find(([prefix]) => name.startsWith(prefix));
+  if (!parser) {
+    return 'no parser for this file name';
+  }
+
+  const output = fs.readFileSync(file, 'utf8');
+  if (!isCommandSuccessful(output, 0)) {
+    return 'the output reads as a failed command';
+  }
+
+  let actual: unknown;
+  try {
+    // Round-trip so undefined fields drop out the way they do in the saved JSON
+    actual = JSON.parse(JSON.stringify(parser[1](output)));
+  } catch (error: any) {
+    return `${parser[0]} parser threw: ${error.message}`;
+  }
+
+  const expectedFile = file.replace(/\.txt$/, '.json');
+  if (update) {
+    fs.writeFileSync(expectedFile, JSON.stringify(actual, null, 2) + '\n');
+    return null;
+  }
+  if (!fs.existsSync(expectedFile)) {
+    return `missing ${path.basename(expectedFile)}`;
+  }
+  return findDifference(actual, JSON.parse(fs.readFileSync(expectedFile, 'utf8')));
+}
+
+function main(): void {
+  const update = process.argv.includes('--update');
+  const files = fs.readdirSync(FIXTURES_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .flatMap(entry => fs.readdirSync(path.join(FIXTURES_DIR, entry.name))
+      .filter(name => name.endsWith('.txt'))
+      .map(name => path.join(FIXTURES_DIR, entry.name, name)))
+    .sort();
+
+  let failures = 0;
+  for (const file of files) {
+    const failure = checkFixture(file, update);
+    const label = path.relative(FIXTURES_DIR, file);
+    if (failure) {
+      failures++;
+      console.log(`FAIL ${label}: ${failure}`);
+    } else {
+      console.log(`${update ? 'wrote' : 'ok'}   ${label}`);
+    }
+  }
+
+  console.log(`\n${files.length - failures} of ${files.length} fixtures ${update ? 'written' : 'passed'}`);
+  process.exitCode = failures > 0 ? 1 : 0;
+}
+
+main();
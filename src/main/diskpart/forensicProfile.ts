@@ -0,0 +1,151 @@
+/**
+ * Forensic profile module
+ * On a forensic workstation Windows must not bring attached evidence disks
+ * online or mount their volumes by itself. With the profile on, the SAN
+ * policy is held at OfflineAll and automount disabled: both are corrected
+ * at startup, and the settings IPC routes refuse to loosen them.
+ */
+
+import { CommandResult, ForensicProfileStatus, StorageSettings } from '../../shared/types';
+import { executeAndParse, executeDiskpartCommand } from './executor';
+import {
+  buildStorageSettingsScript,
+  buildSetSanPolicyCommand,
+  buildSetAutomountCommand,
+  buildCommandScript
+} from './commands';
+import { parseStorageSettings } from './parser';
+import { getActiveLocale } from './locales';
+import { logError, logInfo } from '../utils/logger';
+
+// Environment variable and CLI flag used to turn the profile on
+const FORENSIC_ENV_VAR = 'DISKPART_FORENSIC';
+const FORENSIC_FLAG = '--forensic';
+
+export const FORENSIC_SETTINGS: StorageSettings = {
+  sanPolicy: 'OfflineAll',
+  automount: false
+};
+
+/**
+ * Check whether the forensic profile was turned on with --forensic or
+ * DISKPART_FORENSIC=1
+ */
+export function isForensicProfileEnabled(
+  argv: string[] = process.argv,
+  env: NodeJS.ProcessEnv = process.env
+): boolean {
+  if (argv.includes(FORENSIC_FLAG)) {
+    return true;
+  }
+  const value = (env[FORENSIC_ENV_VAR] || '').trim().toLowerCase();
+  return value === '1' || value === 'true' || value === 'yes';
+}
+
+/**
+ * Find the setting a change would take out of the forensic profile
+ * @returns Why the change is refused, or null when it is allowed
+ */
+export function getForensicViolation(change: Partial<StorageSettings>): string | null {
+  if (!isForensicProfileEnabled()) {
+    return null;
+  }
+  if (change.sanPolicy !== undefined && change.sanPolicy !== FORENSIC_SETTINGS.sanPolicy) {
+    return `The forensic profile requires the SAN policy to stay ${FORENSIC_SETTINGS.sanPolicy}`;
+  }
+  if (change.automount === true) {
+    return 'The forensic profile requires automount to stay disabled';
+  }
+  return null;
+}
+
+/**
+ * Read the SAN policy and automount setting
+ */
+export function readStorageSettings(): Promise<CommandResult> {
+  return executeAndParse(buildStorageSettingsScript(), parseStorageSettings);
+}
+
+/**
+ * Bring the SAN policy and automount setting in line with the profile,
+ * then read them back to confirm. Where Diskpart's wording cannot be read,
+ * both settings are applied without confirmation and the language reported.
+ */
+export async function enforceForensicProfile(): Promise<ForensicProfileStatus> {
+  const status: ForensicProfileStatus = {
+    enabled: true,
+    required: FORENSIC_SETTINGS,
+    compliant: false,
+    applied: []
+  };
+
+  try {
+    const before = await readStorageSettings();
+    if (!before.success && before.errorCode === 'UNSUPPORTED_LOCALE') {
+      // "san policy=" and "automount" take English keywords in every language
+      status.unsupportedLocale = getActiveLocale().name;
+      status.error = before.details;
+      const commands = [buildSetSanPolicyCommand(FORENSIC_SETTINGS.sanPolicy), buildSetAutomountCommand('disable')];
+      logInfo(`Forensic profile: settings unreadable in ${status.unsupportedLocale}, applying ${commands.join(', ')}`);
+      const result = await executeDiskpartCommand(buildCommandScript(commands), undefined, 'exclusive');
+      if (!result.success) {
+        status.error = result.message;
+        return status;
+      }
+      status.applied = commands;
+      return status;
+    }
+    if (!before.success) {
+      status.error = before.message;
+      return status;
+    }
+
+    const settings = before.data as StorageSettings;
+    const commands: string[] = [];
+    if (settings.sanPolicy !== FORENSIC_SETTINGS.sanPolicy) {
+      commands.push(buildSetSanPolicyCommand(FORENSIC_SETTINGS.sanPolicy));
+    }
+    if (settings.automount !== FORENSIC_SETTINGS.automount) {
+      commands.push(buildSetAutomountCommand('disable'));
+    }
+    if (commands.length === 0) {
+      logInfo('Forensic profile: settings already compliant');
+      return { ...status, current: settings, compliant: true };
+    }
+
+    logInfo(`Forensic profile: applying ${commands.join(', ')}`);
+    const result = await executeDiskpartCommand(buildCommandScript(commands), undefined, 'exclusive');
+    if (!result.success) {
+      status.error = result.message;
+      status.current = settings;
+      return status;
+    }
+    status.applied = commands;
+
+    const after = await readStorageSettings();
+    if (!after.success) {
+      status.error = after.message;
+      return status;
+    }
+    status.current = after.data as StorageSettings;
+    status.compliant = status.current.sanPolicy === FORENSIC_SETTINGS.sanPolicy &&
+      status.current.automount === FORENSIC_SETTINGS.automount;
+    return status;
+  } catch (error: any) {
+    logError('Failed to enforce the forensic profile', error);
+    status.error = error.message || 'Failed to enforce the forensic profile';
+    return status;
+  }
+}
+
+/**
+ * Status reported when the profile is off
+ */
+export function getDisabledForensicProfile(): ForensicProfileStatus {
+  return {
+    enabled: false,
+    required: FORENSIC_SETTINGS,
+    compliant: false,
+    applied: []
+  };
+}
\ No newline at end of file
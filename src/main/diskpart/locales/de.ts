@@ -0,0 +1,108 @@
+/**
+ * German Diskpart wording
+ */
+
+import type { LocalePack } from './index';
+
+export const de: LocalePack = {
+  id: 'de-DE',
+  name: 'Deutsch',
+  headers: {
+    disk: 'Datenträger ###',
+    volume: 'Volume ###',
+    partition: 'Partition ###'
+  },
+  empty: {
+    volumes: 'keine Volumes',
+    partitions: 'keine Partitionen'
+  },
+  diskStatus: {
+    'Online': 'Online',
+    'Offline': 'Offline',
+    'Kein Medium': 'No Media',
+    'Fremd': 'Foreign',
+    'Ungültig': 'Invalid',
+    'Fehlt': 'Missing',
+    'Fehlend': 'Missing',
+    'Nicht initialisiert': 'Not Initialized'
+  },
+  volumeStatus: {
+    'Fehlerfrei': 'Healthy',
+    'Fehlerhaft': 'Failed',
+    'Kein Medium': 'No Media'
+  },
+  volumeType: {
+    'Partition': 'Partition',
+    'Wechselmed': 'Removable',
+    'Wechselmedium': 'Removable',
+    'DVD-ROM': 'DVD-ROM',
+    'CD-ROM': 'CD-ROM'
+  },
+  volumeInfo: {
+    'Startpartition': 'Boot',
+    'Start': 'Boot',
+    'System': 'System',
+    'Versteckt': 'Hidden',
+    'Auslagerungsdatei': 'Pagefile',
+    'Absturzabbild': 'Crashdump',
+    'Ruhezustand': 'Hibernation'
+  },
+  partitionType: {
+    'Primär': 'Primary',
+    'Erweitert': 'Extended',
+    'Logisch': 'Logical',
+    'System': 'System',
+    'Reserviert': 'Reserved',
+    'Wiederherstellung': 'Recovery',
+    'Dynamische Daten': 'Dynamic Data',
+    'Dyn. reserviert': 'Dynamic Reserved',
+    'Unbekannt': 'Unknown'
+  },
+  units: {},
+  detailFields: {
+    diskId: 'Datenträger-ID',
+    busType: 'Typ',
+    status: 'Status',
+    path: 'Pfad',
+    target: 'Ziel',
+    lunId: 'LUN-ID',
+    locationPath: 'Pfad des Speicherorts',
+    currentReadOnly: 'Aktueller schreibgeschützter Zustand',
+    readOnly: 'Schreibgeschützt',
+    bootDisk: 'Startdatenträger',
+    pagefileDisk: 'Auslagerungsdateidatenträger',
+    hibernationFileDisk: 'Ruhezustandsdatei-Datenträger',
+    crashdumpDisk: 'Absturzabbild-Datenträger',
+    clusteredDisk: 'Clusterdatenträger'
+  },
+  partitionDetailFields: {
+    type: 'Typ',
+    hidden: 'Ausgeblendet',
+    required: 'Erforderlich',
+    active: 'Aktiv',
+    attributes: 'Attribut',
+    offset: 'Offset in Byte'
+  },
+  volumeDetailFields: {
+    readOnly: 'Schreibgeschützt',
+    hidden: 'Ausgeblendet',
+    noDefaultDriveLetter: 'Kein Standardlaufwerkbuchstabe',
+    shadowCopy: 'Schattenkopie',
+    offline: 'Offline',
+    bitLockerEncrypted: 'BitLocker-verschlüsselt',
+    installable: 'Installierbar',
+    capacity: 'Volumekapazität',
+    freeSpace: 'Freier Speicher auf Volume'
+  },
+  // No vdisk, san or automount output captured on a German system yet
+  yes: 'Ja',
+  failurePatterns: [
+    /^\s*fehler des virtuellen datenträgerdienst/im,
+    /^\s*diskpart hat einen fehler festgestellt/im,
+    /^\s*es wurde kein\S* \S+ ausgewählt/im,
+    /\b(ist|sind) ungültig\.?\s*$/im,
+    /^\s*zugriff verweigert/im
+  ],
+  percentCompleted: /(\d{1,3})\s+Prozent\s+bearbeitet/i,
+  markers: ['Datenträger ###', 'Bezeichnung', 'Größe', 'Fehlerfrei', 'erfolgreich', 'Startdatenträger', 'Ausgeblendet']
+};
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * English (United States) Diskpart wording. The canonical values every
+ * other pack translates to.
+ */
+
+import type { LocalePack } from './index';
+
+export const en: LocalePack = {
+  id: 'en-US',
+  name: 'English',
+  headers: {
+    disk: 'Disk ###',
+    volume: 'Volume ###',
+    partition: 'Partition ###'
+  },
+  empty: {
+    volumes: 'There are no volumes',
+    partitions: 'There are no partitions'
+  },
+  diskStatus: {},
+  volumeStatus: {},
+  volumeType: {},
+  volumeInfo: {},
+  partitionType: {},
+  units: {},
+  detailFields: {
+    diskId: 'Disk ID',
+    busType: 'Type',
+    status: 'Status',
+    path: 'Path',
+    target: 'Target',
+    lunId: 'LUN ID',
+    locationPath: 'Location Path',
+    currentReadOnly: 'Current Read-only State',
+    readOnly: 'Read-only',
+    bootDisk: 'Boot Disk',
+    pagefileDisk: 'Pagefile Disk',
+    hibernationFileDisk: 'Hibernation File Disk',
+    crashdumpDisk: 'Crashdump Disk',
+    clusteredDisk: 'Clustered Disk'
+  },
+  partitionDetailFields: {
+    type: 'Type',
+    hidden: 'Hidden',
+    required: 'Required',
+    active: 'Active',
+    attributes: 'Attrib',
+    offset: 'Offset in Bytes'
+  },
+  volumeDetailFields: {
+    readOnly: 'Read-only',
+    hidden: 'Hidden',
+    noDefaultDriveLetter: 'No Default Drive Letter',
+    shadowCopy: 'Shadow Copy',
+    offline: 'Offline',
+    bitLockerEncrypted: 'BitLocker Encrypted',
+    installable: 'Installable',
+    capacity: 'Volume Capacity',
+    freeSpace: 'Volume Free Space'
+  },
+  virtualDisk: {
+    header: 'VDisk ###',
+    empty: 'There are no virtual disks',
+    detailFields: {
+      deviceType: 'Device type ID',
+      vendorId: 'Vendor ID',
+      state: 'State',
+      virtualSize: 'Virtual size',
+      physicalSize: 'Physical size',
+      file: 'Filename',
+      isChild: 'Is Child',
+      parentFile: 'Parent Filename',
+      diskNumber: 'Associated disk#'
+    }
+  },
+  storageSettings: {
+    sanPolicy: 'SAN Policy',
+    sanPolicies: {
+      'Online All': 'OnlineAll',
+      'Offline Shared': 'OfflineShared',
+      'Offline All': 'OfflineAll',
+      'Offline Internal': 'OfflineInternal'
+    },
+    automountEnabled: 'Automatic mounting of new volumes enabled',
+    automountDisabled: 'Automatic mounting of new volumes disabled'
+  },
+  yes: 'Yes',
+  failurePatterns: [
+    /^\s*virtual disk service error/im,
+    /^\s*diskpart has encountered an error/im,
+    /^\s*there is no \w+ selected/im,
+    /\b(is|are) not valid\.?\s*$/im,
+    /^\s*access is denied/im
+  ],
+  percentCompleted: /(\d{1,3})\s+percent\s+completed/i,
+  markers: ['Disk ###', 'Label', 'Size', 'Healthy', 'successfully', 'Boot Disk', 'Offset in Bytes', 'SAN Policy', 'Automatic mounting']
+};
\ No newline at end of file
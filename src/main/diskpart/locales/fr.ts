@@ -0,0 +1,110 @@
+/**
+ * French Diskpart wording
+ */
+
+import type { LocalePack } from './index';
+
+export const fr: LocalePack = {
+  id: 'fr-FR',
+  name: 'Français',
+  headers: {
+    disk: 'N° disque',
+    volume: 'N° volume',
+    partition: 'N° partition'
+  },
+  empty: {
+    volumes: "Il n'y a pas de volume",
+    partitions: "Il n'y a pas de partition"
+  },
+  diskStatus: {
+    'En ligne': 'Online',
+    'Hors connexion': 'Offline',
+    'Aucun média': 'No Media',
+    'Étranger': 'Foreign',
+    'Non valide': 'Invalid',
+    'Manquant': 'Missing',
+    'Non initialisé': 'Not Initialized'
+  },
+  volumeStatus: {
+    'Sain': 'Healthy',
+    'Défaillant': 'Failed',
+    'Aucun média': 'No Media'
+  },
+  volumeType: {
+    'Partition': 'Partition',
+    'Amovible': 'Removable',
+    'DVD-ROM': 'DVD-ROM',
+    'CD-ROM': 'CD-ROM'
+  },
+  volumeInfo: {
+    'Démarrer': 'Boot',
+    'Démarrage': 'Boot',
+    'Système': 'System',
+    'Masqué': 'Hidden',
+    "Fichier d'échange": 'Pagefile',
+    'Vidage sur incident': 'Crashdump'
+  },
+  partitionType: {
+    'Principale': 'Primary',
+    'Étendue': 'Extended',
+    'Logique': 'Logical',
+    'Système': 'System',
+    'Réservé': 'Reserved',
+    'Récupération': 'Recovery',
+    'Données dynamiques': 'Dynamic Data',
+    'Inconnu': 'Unknown'
+  },
+  units: {
+    'o': 'B',
+    'Ko': 'KB',
+    'Mo': 'MB',
+    'Go': 'GB',
+    'To': 'TB'
+  },
+  detailFields: {
+    diskId: 'ID du disque',
+    busType: 'Type',
+    status: 'État',
+    path: 'Chemin',
+    target: 'Cible',
+    lunId: 'ID LUN',
+    locationPath: "Chemin de l'emplacement",
+    currentReadOnly: 'État en lecture seule actuel',
+    readOnly: 'Lecture seule',
+    bootDisk: 'Disque de démarrage',
+    pagefileDisk: "Disque de fichier d'échange",
+    hibernationFileDisk: 'Disque de fichier de mise en veille prolongée',
+    crashdumpDisk: 'Disque de vidage sur incident',
+    clusteredDisk: 'Disque en cluster'
+  },
+  partitionDetailFields: {
+    type: 'Type',
+    hidden: 'Masqué',
+    required: 'Requis',
+    active: 'Actif',
+    attributes: 'Attrib',
+    offset: 'Décalage en octets'
+  },
+  volumeDetailFields: {
+    readOnly: 'Lecture seule',
+    hidden: 'Masqué',
+    noDefaultDriveLetter: 'Pas de lettre de lecteur par défaut',
+    shadowCopy: 'Cliché instantané',
+    offline: 'Hors connexion',
+    bitLockerEncrypted: 'Chiffré par BitLocker',
+    installable: 'Installable',
+    capacity: 'Capacité du volume',
+    freeSpace: 'Espace libre du volume'
+  },
+  // No vdisk, san or automount output captured on a French system yet
+  yes: 'Oui',
+  failurePatterns: [
+    /^\s*erreur du service de disque virtuel/im,
+    /^\s*diskpart a rencontré une erreur/im,
+    /^\s*aucun\S* \S+ n.est sélectionné/im,
+    /\bn.(est|sont) pas valides?\.?\s*$/im,
+    /^\s*accès refusé/im
+  ],
+  percentCompleted: /(\d{1,3})\s+pour\s+cent\s+effectués/i,
+  markers: ['N° disque', 'N° volume', 'N° partition', 'Taille', 'Sain', 'a réussi', 'Décalage']
+};
\ No newline at end of file
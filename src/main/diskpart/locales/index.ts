@@ -0,0 +1,186 @@
+/**
+ * Diskpart locale packs
+ * Diskpart prints headers, status words, units and messages in the Windows
+ * display language. Each pack maps one language's wording to the canonical
+ * English values the parsers and the UI work with.
+ */
+
+import { en } from './en';
+import { de } from './de';
+import { fr } from './fr';
+import { ja } from './ja';
+
+export interface LocalePack {
+  /** BCP 47 tag of the Windows display language */
+  id: string;
+  name: string;
+  /** Text that identifies the header line of each list table */
+  headers: {
+    disk: string;
+    volume: string;
+    partition: string;
+  };
+  /** Messages printed instead of an empty table */
+  empty: {
+    volumes: string;
+    partitions: string;
+  };
+  /** Localized word → canonical English value. English packs leave these empty. */
+  diskStatus: Record<string, string>;
+  volumeStatus: Record<string, string>;
+  volumeType: Record<string, string>;
+  volumeInfo: Record<string, string>;
+  partitionType: Record<string, string>;
+  units: Record<string, string>;
+  /** Field labels in "detail disk" output */
+  detailFields: {
+    diskId: string;
+    busType: string;
+    status: string;
+    path: string;
+    target: string;
+    lunId: string;
+    locationPath: string;
+    currentReadOnly: string;
+    readOnly: string;
+    bootDisk: string;
+    pagefileDisk: string;
+    hibernationFileDisk: string;
+    crashdumpDisk: string;
+    clusteredDisk: string;
+  };
+  /** Field labels in "detail partition" output */
+  partitionDetailFields: {
+    type: string;
+    hidden: string;
+    required: string;
+    active: string;
+    attributes: string;
+    offset: string;
+  };
+  /** Field labels in "detail volume" output */
+  volumeDetailFields: {
+    readOnly: string;
+    hidden: string;
+    noDefaultDriveLetter: string;
+    shadowCopy: string;
+    offline: string;
+    bitLockerEncrypted: string;
+    installable: string;
+    capacity: string;
+    freeSpace: string;
+  };
+  /**
+   * Header, empty message and field labels of "list vdisk" and "detail vdisk"
+   * output. Left out until output has been captured in the language; the
+   * parsers then raise UnsupportedLocaleError instead of guessing.
+   */
+  virtualDisk?: {
+    header: string;
+    empty: string;
+    detailFields: {
+      deviceType: string;
+      vendorId: string;
+      state: string;
+      virtualSize: string;
+      physicalSize: string;
+      file: string;
+      isChild: string;
+      parentFile: string;
+      diskNumber: string;
+    };
+  };
+  /** Wording of "san" and "automount" output; left out like virtualDisk */
+  storageSettings?: {
+    /** Field label of the SAN policy */
+    sanPolicy: string;
+    /** Policy as printed → SanPolicy keyword */
+    sanPolicies: Record<string, string>;
+    automountEnabled: string;
+    automountDisabled: string;
+  };
+  /** The word Diskpart uses for a "Yes" field value */
+  yes: string;
+  /**
+   * Failure messages, anchored to the start or end of their line (multiline)
+   * so words in a table such as "Ungültig" or "Fehlerfrei" never match
+   */
+  failurePatterns: RegExp[];
+  /** Matches a progress line, capturing the percentage */
+  percentCompleted: RegExp;
+  /** Words only this language prints; used to detect the locale */
+  markers: string[];
+}
+
+export const LOCALE_PACKS: LocalePack[] = [en, de, fr, ja];
+
+let activeLocale: LocalePack = en;
+
+/**
+ * Detect the language of a piece of Diskpart output by counting the
+ * language-specific words it contains
+ * @returns The best matching pack, or null if no pack's markers appear
+ */
+export function detectLocale(output: string): LocalePack | null {
+  let best: LocalePack | null = null;
+  let bestScore = 0;
+
+  for (const pack of LOCALE_PACKS) {
+    const score = pack.markers.filter(marker => output.includes(marker)).length;
+    // Ties go to the active locale so short outputs do not flip it back and forth
+    if (score > bestScore || (score === bestScore && score > 0 && pack === activeLocale)) {
+      best = pack;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pick the locale for a piece of output. Detection updates the active
+ * locale; output without any markers (e.g. a bare success message) is read
+ * with the locale seen last.
+ */
+export function resolveLocale(output: string): LocalePack {
+  const detected = detectLocale(output);
+  if (detected && detected !== activeLocale) {
+    console.info(`Detected Diskpart locale ${detected.id} (${detected.name})`);
+    activeLocale = detected;
+  }
+  return activeLocale;
+}
+
+/**
+ * Get the locale detected most recently
+ */
+export function getActiveLocale(): LocalePack {
+  return activeLocale;
+}
+
+/**
+ * Map a localized word to its canonical English value; unknown words pass through
+ */
+export function translate(map: Record<string, string>, value: string): string {
+  const key = value.trim().toLowerCase();
+  const entry = Object.entries(map).find(([localized]) => localized.toLowerCase() === key);
+  return entry ? entry[1] : value.trim();
+}
+
+/**
+ * Check whether a single command's output reports a failure in any language
+ */
+export function isFailedCommandOutput(output: string): boolean {
+  return LOCALE_PACKS.some(pack => pack.failurePatterns.some(pattern => pattern.test(output)));
+}
+
+/**
+ * Extract the percentage from a progress line in any language
+ */
+export function parsePercentCompleted(line: string): number | null {
+  for (const pack of LOCALE_PACKS) {
+    const match = line.match(pack.percentCompleted);
+    if (match) return parseInt(match[1], 10);
+  }
+  return null;
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+/**
+ * Japanese Diskpart wording. Table columns are aligned by display width,
+ * where each Japanese character takes two columns.
+ */
+
+import type { LocalePack } from './index';
+
+export const ja: LocalePack = {
+  id: 'ja-JP',
+  name: '日本語',
+  headers: {
+    disk: 'ディスク ###',
+    volume: 'ボリューム ###',
+    partition: 'パーティション ###'
+  },
+  empty: {
+    volumes: 'ボリュームがありません',
+    partitions: 'パーティションがありません'
+  },
+  diskStatus: {
+    'オンライン': 'Online',
+    'オフライン': 'Offline',
+    'メディアなし': 'No Media',
+    '外部': 'Foreign',
+    '無効': 'Invalid',
+    '見つかりません': 'Missing',
+    '初期化されていません': 'Not Initialized'
+  },
+  volumeStatus: {
+    '正常': 'Healthy',
+    'エラー': 'Failed',
+    'メディアなし': 'No Media'
+  },
+  volumeType: {
+    'パーティション': 'Partition',
+    'リムーバブル': 'Removable',
+    'DVD-ROM': 'DVD-ROM',
+    'CD-ROM': 'CD-ROM'
+  },
+  volumeInfo: {
+    'ブート': 'Boot',
+    'システム': 'System',
+    '非表示': 'Hidden',
+    'ページファイル': 'Pagefile',
+    'クラッシュダンプ': 'Crashdump'
+  },
+  partitionType: {
+    'プライマリ': 'Primary',
+    '拡張': 'Extended',
+    '論理': 'Logical',
+    'システム': 'System',
+    '予約': 'Reserved',
+    '回復': 'Recovery',
+    'ダイナミック データ': 'Dynamic Data',
+    '不明': 'Unknown'
+  },
+  units: {},
+  detailFields: {
+    diskId: 'ディスク ID',
+    busType: '種類',
+    status: '状態',
+    path: 'パス',
+    target: 'ターゲット',
+    lunId: 'LUN ID',
+    locationPath: '場所のパス',
+    currentReadOnly: '現在の読み取り専用状態',
+    readOnly: '読み取り専用',
+    bootDisk: 'ブート ディスク',
+    pagefileDisk: 'ページ ファイル ディスク',
+    hibernationFileDisk: '休止状態ファイル ディスク',
+    crashdumpDisk: 'クラッシュ ダンプ ディスク',
+    clusteredDisk: 'クラスター化ディスク'
+  },
+  partitionDetailFields: {
+    type: '種類',
+    hidden: '非表示',
+    required: '必須',
+    active: 'アクティブ',
+    attributes: '属性',
+    offset: 'オフセット (バイト)'
+  },
+  volumeDetailFields: {
+    readOnly: '読み取り専用',
+    hidden: '非表示',
+    noDefaultDriveLetter: '既定のドライブ文字なし',
+    shadowCopy: 'シャドウ コピー',
+    offline: 'オフライン',
+    bitLockerEncrypted: 'BitLocker で暗号化済み',
+    installable: 'インストール可能',
+    capacity: 'ボリュームの容量',
+    freeSpace: 'ボリュームの空き領域'
+  },
+  // No vdisk, san or automount output captured on a Japanese system yet
+  yes: 'はい',
+  failurePatterns: [
+    /^\s*仮想ディスク サービス エラー/m,
+    /^\s*diskpart でエラーが発生しました/im,
+    /選択されていません。?\s*$/m,
+    /無効です。?\s*$/m,
+    /^\s*アクセスが拒否されました/m
+  ],
+  percentCompleted: /(\d{1,3})\s*パーセント完了しました/,
+  markers: ['ディスク ###', 'ボリューム ###', 'パーティション ###', 'サイズ', 'オンライン', '正常に', 'オフセット (バイト)']
+};
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseListVirtualDisks, parseStorageSettings } from './parser';
+import { UnsupportedLocaleError } from './errors';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'src', 'main', 'diskpart', 'fixtures');
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+}
+
+// What buildStorageSettingsScript prints: "list disk" to detect the language, then "san" and "automount"
+function storageSettingsOutput(...outputs: string[]): string {
+  return outputs.join('\n\n');
+}
+
+test('storage settings are read from an English script', () => {
+  const output = storageSettingsOutput(
+    fixture('en-US/list-disk-selected.txt'),
+    fixture('en-US/san-offline-shared.txt'),
+    fixture('en-US/automount-disabled.txt')
+  );
+
+  assert.deepEqual(parseStorageSettings(output), { sanPolicy: 'OfflineShared', automount: false });
+});
+
+test('storage settings in a language without san and automount wording are reported as unsupported', () => {
+  for (const locale of ['de-DE', 'fr-FR', 'ja-JP']) {
+    const output = storageSettingsOutput(fixture(`${locale}/list-disk.txt`));
+
+    assert.throws(() => parseStorageSettings(output), (error: unknown) =>
+      error instanceof UnsupportedLocaleError && error.code === 'UNSUPPORTED_LOCALE');
+  }
+});
+
+test('virtual disks in a language without vdisk wording are reported as unsupported', () => {
+  assert.throws(() => parseListVirtualDisks(fixture('de-DE/list-disk.txt')), UnsupportedLocaleError);
+});
@@ -2,8 +2,170 @@
  * Output parser module for parsing Diskpart command outputs
  */
 
-import { DiskInfo, VolumeInfo, PartitionInfo } from '../../shared/types';
-import { ParseError } from './errors';
+import {
+  DiskInfo,
+  DiskDetail,
+  DiskAttributes,
+  VolumeInfo,
+  VolumeDetail,
+  PartitionInfo,
+  PartitionDetail,
+  PartitionType,
+  SanPolicy,
+  StorageSettings,
+  VolumeAttributes,
+  VirtualDiskInfo,
+  VirtualDiskDetail
+} from '../../shared/types';
+import { ParseError, UnsupportedLocaleError } from './errors';
+import { extractErrorFromOutput, isCommandSuccessful } from './commandStatus';
+import { LocalePack, resolveLocale, translate } from './locales';
+
+// Characters that take two columns in a console (CJK, Hangul, fullwidth forms)
+const WIDE_CHARACTER = /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA000-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+
+// Partition types worth recognising on sight: GPT type GUIDs and MBR type bytes
+const PARTITION_TYPE_NAMES: Record<string, string> = {
+  'c12a7328-f81f-11d2-ba4b-00a0c93ec93b': 'EFI System',
+  'e3c9e316-0b5c-4db8-817d-f92df00215ae': 'Microsoft Reserved',
+  'ebd0a0a2-b9e5-4433-87c0-68b6b72699c7': 'Basic Data',
+  'de94bba4-06d1-4d40-a16a-bfd50179d6ac': 'Recovery',
+  '5808c8aa-7e8f-42e0-85d2-e1e90434cfb3': 'LDM Metadata',
+  'af9b60a0-1431-4f62-bc68-3311714a69ad': 'LDM Data',
+  'e75caf8f-f680-4cee-afa3-b001e56efc2d': 'Storage Spaces',
+  '0fc63daf-8483-4772-8e79-3d69d8477de4': 'Linux Filesystem',
+  '01': 'FAT12',
+  '04': 'FAT16',
+  '05': 'Extended',
+  '06': 'FAT16',
+  '07': 'NTFS / exFAT',
+  '0b': 'FAT32',
+  '0c': 'FAT32 (LBA)',
+  '0e': 'FAT16 (LBA)',
+  '0f': 'Extended (LBA)',
+  '12': 'OEM',
+  '17': 'Hidden NTFS',
+  '27': 'Recovery',
+  '42': 'LDM Data',
+  '82': 'Linux Swap',
+  '83': 'Linux Filesystem',
+  'ee': 'GPT Protective',
+  'ef': 'EFI System'
+};
+
+/**
+ * A column of a Diskpart table, located by its "----" separator run.
+ * Positions are console display columns, not string indexes.
+ */
+export interface TableColumn {
+  title: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A data row of a Diskpart table
+ */
+export interface TableRow {
+  /** Cell text in column order, trimmed */
+  cells: string[];
+  /** Diskpart marks the object that has focus with "*" in the left margin */
+  selected: boolean;
+  /** Indented lines printed under the row, e.g. volume mount paths */
+  continuation: string[];
+}
+
+export interface DiskpartTable {
+  columns: TableColumn[];
+  rows: TableRow[];
+}
+
+/**
+ * Parse a fixed-width Diskpart table. Column boundaries come from the
+ * separator line under the header, and each row is sliced by position, so
+ * cells that contain spaces or are blank stay in their own column. A cell
+ * runs up to the start of the next column; the last column runs to the end
+ * of the line because Info values are often wider than their dashes.
+ * Positions are measured in display width so double-width text stays aligned.
+ * @param output - Command output containing the table
+ * @param headerMarker - Text that identifies the header line, e.g. "Volume ###"
+ * @returns The table, or null if the output has no such table
+ */
+export function parseTable(output: string, headerMarker: string): DiskpartTable | null {
+  const lines = output.split(/\r?\n/);
+
+  const headerIndex = lines.findIndex(line => line.includes(headerMarker));
+  if (headerIndex === -1 || headerIndex + 1 >= lines.length) {
+    return null;
+  }
+
+  const header = lines[headerIndex];
+  const separator = lines[headerIndex + 1];
+  if (!/^\s*-+(\s+-+)*\s*$/.test(separator)) {
+    return null;
+  }
+
+  // The separator is plain ASCII, so its string indexes are display columns
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (const match of separator.matchAll(/-+/g)) {
+    starts.push(match.index ?? 0);
+    ends.push((match.index ?? 0) + match[0].length);
+  }
+
+  const titles = sliceColumns(header, starts).cells;
+  const columns: TableColumn[] = starts.map((start, i) => ({
+    title: titles[i].trim(),
+    start,
+    end: ends[i]
+  }));
+
+  const rows: TableRow[] = [];
+  for (const line of lines.slice(headerIndex + 2)) {
+    if (!line.trim()) break;
+
+    const { margin, cells } = sliceColumns(line, starts);
+
+    // Rows start exactly at the first column; indented lines belong to the row above
+    const previous = rows[rows.length - 1];
+    if (/^\s/.test(cells[0]) && previous) {
+      previous.continuation.push(line.trim());
+      continue;
+    }
+
+    rows.push({
+      cells: cells.map(cell => cell.trim()),
+      selected: margin.includes('*'),
+      continuation: []
+    });
+  }
+
+  return { columns, rows };
+}
+
+/**
+ * Split a line into the text before the first column and the text of each
+ * column, walking it by display width
+ */
+function sliceColumns(line: string, starts: number[]): { margin: string; cells: string[] } {
+  const cells = starts.map(() => '');
+  let margin = '';
+  let position = 0;
+
+  for (const char of line) {
+    let column = starts.length - 1;
+    while (column >= 0 && position < starts[column]) column--;
+
+    if (column === -1) {
+      margin += char;
+    } else {
+      cells[column] += char;
+    }
+    position += WIDE_CHARACTER.test(char) ? 2 : 1;
+  }
+
+  return { margin, cells };
+}
 
 /**
  * Example output from "list disk":
@@ -11,53 +173,45 @@ import { ParseError } from './errors';
  *   Disk ###  Status         Size     Free     Dyn  Gpt
  *   --------  -------------  -------  -------  ---  ---
  *   Disk 0    Online          238 GB      0 B        *
- *   Disk 1    Online          931 GB   931 GB
+ * * Disk 1    Online          931 GB   431 GB
  *   Disk 2    No Media           0 B      0 B
+ *   Disk 3    Foreign         465 GB      0 B   *
+ *   Disk M0   Missing         465 GB      0 B   *
  * 
- * Parse the output of "list disk" command
+ * Parse the output of "list disk" command. Missing disks have no number;
+ * they get a negative id and keep their "M0" name in missingId
  */
 export function parseListDisk(output: string): DiskInfo[] {
-  const disks: DiskInfo[] = [];
-  const lines = output.split('\n').map(line => line.trim());
-  
-  // Find the header line (contains "Disk ###")
-  const headerIndex = lines.findIndex(line => line.includes('Disk ###'));
-  if (headerIndex === -1) {
+  const locale = resolveLocale(output);
+  const table = parseTable(output, locale.headers.disk);
+  if (!table) {
     throw new ParseError('Could not find disk list header in output');
   }
-  
-  // Skip header and separator lines
-  const dataLines = lines.slice(headerIndex + 2);
-  
-  for (const line of dataLines) {
-    if (!line || !line.startsWith('Disk ')) continue;
-    
-    try {
-      // Parse disk line: "Disk 0    Online          238 GB      0 B        *"
-      const match = line.match(/Disk\s+(\d+)\s+(\S+(?:\s+\S+)*?)\s+(\d+\s+[KMGT]?B)\s+(\d+\s+[KMGT]?B)(?:\s+(\*))?\s*(?:\s+(\*))?/);
-      
-      if (!match) continue;
-      
-      const [, diskNum, status, sizeStr, freeStr, dynMarker, gptMarker] = match;
-      
-      const disk: DiskInfo = {
-        id: parseInt(diskNum, 10),
-        status: normalizeStatus(status),
-        size: parseSize(sizeStr),
-        free: parseSize(freeStr),
-        isSystemDisk: false, // Will be determined from detail disk
-        isBootDisk: false,   // Will be determined from detail disk
-        diskType: dynMarker === '*' ? 'Dynamic' : 'Basic',
-        partitionStyle: gptMarker === '*' ? 'GPT' : 'MBR',
-        partitions: []
-      };
-      
-      disks.push(disk);
-    } catch (error) {
-      console.warn(`Failed to parse disk line: ${line}`, error);
+
+  const disks: DiskInfo[] = [];
+  for (const row of table.rows) {
+    const [name, status, sizeStr, freeStr, dyn = '', gpt = ''] = row.cells;
+    const diskNum = name.match(/(M?)(\d+)/);
+    if (!diskNum) {
+      console.warn(`Failed to parse disk row: ${row.cells.join(' | ')}`);
+      continue;
     }
+    const isMissing = diskNum[1] === 'M';
+
+    disks.push({
+      id: isMissing ? -1 - parseInt(diskNum[2], 10) : parseInt(diskNum[2], 10),
+      ...(isMissing ? { missingId: `M${diskNum[2]}` } : {}),
+      status: normalizeStatus(translate(locale.diskStatus, status)),
+      size: parseSize(sizeStr, locale),
+      free: parseSize(freeStr, locale),
+      isSystemDisk: false, // Will be determined from detail disk
+      isBootDisk: false,   // Will be determined from detail disk
+      diskType: dyn === '*' ? 'Dynamic' : 'Basic',
+      partitionStyle: gpt === '*' ? 'GPT' : 'MBR',
+      partitions: []
+    });
   }
-  
+
   return disks;
 }
 
@@ -66,67 +220,22 @@ export function parseListDisk(output: string): DiskInfo[] {
  * 
  *   Volume ###  Ltr  Label        Fs     Type        Size     Status     Info
  *   ----------  ---  -----------  -----  ----------  -------  ---------  --------
- *   Volume 0     D   Data         NTFS   Partition    100 GB  Healthy
- *   Volume 1     C   System       NTFS   Partition    138 GB  Healthy    System
+ *   Volume 0     D   Data Backup  NTFS   Partition    100 GB  Healthy
+ *   Volume 1     C   System       NTFS   Partition    138 GB  Healthy    Boot, Pagefile
  *   Volume 2         Recovery     NTFS   Partition    499 MB  Healthy    Hidden
  *   Volume 3     E                FAT32  Removable     14 GB  Healthy
  * 
  * Parse the output of "list volume" command
  */
 export function parseListVolume(output: string): VolumeInfo[] {
-  const volumes: VolumeInfo[] = [];
-  const lines = output.split('\n').map(line => line.trim());
-  
-  // Find the header line
-  const headerIndex = lines.findIndex(line => line.includes('Volume ###'));
-  if (headerIndex === -1) {
+  const locale = resolveLocale(output);
+  const table = parseTable(output, locale.headers.volume);
+  if (!table) {
+    if (output.includes(locale.empty.volumes)) return [];
     throw new ParseError('Could not find volume list header in output');
   }
-  
-  // Skip header and separator lines
-  const dataLines = lines.slice(headerIndex + 2);
-  
-  for (const line of dataLines) {
-    if (!line || !line.startsWith('Volume ')) continue;
-    
-    try {
-      // Parse volume line - more flexible regex to handle varying spacing
-      const parts = line.split(/\s+/);
-      
-      if (parts.length < 7) continue;
-      
-      // Volume 0     D   Data         NTFS   Partition    100 GB  Healthy
-      const volumeNum = parts[1];
-      const letter = parts[2] !== '' && parts[2].length === 1 ? parts[2] : undefined;
-      
-      // Find the file system (NTFS, FAT32, etc.)
-      let fsIndex = parts.findIndex(p => ['NTFS', 'FAT32', 'FAT', 'exFAT', 'RAW'].includes(p.toUpperCase()));
-      if (fsIndex === -1) fsIndex = 4; // Default position
-      
-      const label = fsIndex > 3 ? parts.slice(3, fsIndex).join(' ') : undefined;
-      const fileSystem = parts[fsIndex] || 'Unknown';
-      const type = parts[fsIndex + 1] || 'Partition';
-      const sizeStr = parts[fsIndex + 2] + ' ' + parts[fsIndex + 3];
-      const status = parts[fsIndex + 4] || 'Unknown';
-      const info = parts.slice(fsIndex + 5).join(' ');
-      
-      const volume: VolumeInfo = {
-        letter,
-        label: label || undefined,
-        fileSystem,
-        type: normalizeVolumeType(type),
-        size: parseSize(sizeStr),
-        status: status === 'Healthy' ? 'Healthy' : 'Failed',
-        info
-      };
-      
-      volumes.push(volume);
-    } catch (error) {
-      console.warn(`Failed to parse volume line: ${line}`, error);
-    }
-  }
-  
-  return volumes;
+
+  return volumesFromTable(table, locale);
 }
 
 /**
@@ -134,53 +243,39 @@ export function parseListVolume(output: string): VolumeInfo[] {
  * 
  *   Partition ###  Type              Size     Offset
  *   -------------  ----------------  -------  -------
- *   Partition 1    Primary            100 MB  1024 KB
- *   Partition 2    Primary            137 GB   101 MB
- *   Partition 3    Recovery           499 MB   137 GB
+ *   Partition 1    System             100 MB  1024 KB
+ *   Partition 2    Reserved            16 MB   101 MB
+ * * Partition 3    Primary            137 GB   117 MB
+ *   Partition 4    Recovery           499 MB   137 GB
  * 
  * Parse the output of "list partition" command
  */
 export function parseListPartition(output: string): PartitionInfo[] {
-  const partitions: PartitionInfo[] = [];
-  const lines = output.split('\n').map(line => line.trim());
-  
-  // Find the header line
-  const headerIndex = lines.findIndex(line => line.includes('Partition ###'));
-  if (headerIndex === -1) {
+  const locale = resolveLocale(output);
+  const table = parseTable(output, locale.headers.partition);
+  if (!table) {
+    if (output.includes(locale.empty.partitions)) return [];
     throw new ParseError('Could not find partition list header in output');
   }
-  
-  // Skip header and separator lines
-  const dataLines = lines.slice(headerIndex + 2);
-  
-  for (const line of dataLines) {
-    if (!line || !line.startsWith('Partition ')) continue;
-    
-    try {
-      // Parse partition line
-      const parts = line.split(/\s+/);
-      
-      if (parts.length < 5) continue;
-      
-      const partNum = parseInt(parts[1], 10);
-      const type = parts[2];
-      const sizeStr = parts[3] + ' ' + parts[4];
-      const offsetStr = parts[5] + ' ' + parts[6];
-      
-      const partition: PartitionInfo = {
-        id: partNum,
-        type: normalizePartitionType(type),
-        size: parseSize(sizeStr),
-        offset: parseSize(offsetStr),
-        status: 'Healthy' // Default, will be updated from detail
-      };
-      
-      partitions.push(partition);
-    } catch (error) {
-      console.warn(`Failed to parse partition line: ${line}`, error);
+
+  const partitions: PartitionInfo[] = [];
+  for (const row of table.rows) {
+    const [name, type, sizeStr, offsetStr = ''] = row.cells;
+    const partNum = name.match(/(\d+)/);
+    if (!partNum) {
+      console.warn(`Failed to parse partition row: ${row.cells.join(' | ')}`);
+      continue;
     }
+
+    partitions.push({
+      id: parseInt(partNum[1], 10),
+      type: normalizePartitionType(translate(locale.partitionType, type)),
+      size: parseSize(sizeStr, locale),
+      offset: parseSize(offsetStr, locale),
+      status: 'Healthy' // Default, will be updated from detail
+    });
   }
-  
+
   return partitions;
 }
 
@@ -209,61 +304,524 @@ export function parseListPartition(output: string): PartitionInfo[] {
  * 
  * Parse the output of "detail disk" command
  */
-export function parseDetailDisk(output: string): Partial<DiskInfo> {
-  const details: Partial<DiskInfo> = {};
-  const lines = output.split('\n').map(line => line.trim());
-  
-  for (const line of lines) {
-    if (line.includes('Boot Disk') && line.includes('Yes')) {
-      details.isBootDisk = true;
-    }
-    if (line.includes('Pagefile Disk') && line.includes('Yes')) {
-      details.isSystemDisk = true;
-    }
-    if (line.includes('Type') && line.includes('Dynamic')) {
-      details.diskType = 'Dynamic';
-    }
+export function parseDetailDisk(output: string): DiskDetail {
+  const locale = resolveLocale(output);
+  const { values, lineIndex, lines } = readDetailFields(output, locale.detailFields);
+
+  if (values.diskId === undefined) {
+    throw new ParseError('Could not find Disk ID in detail disk output');
   }
-  
-  // Parse volumes from detail output
-  const volumes = parseVolumesFromDetail(output);
-  if (volumes.length > 0) {
-    // Check if any volume has "System" or "Boot" in info
-    const hasSystemVolume = volumes.some(v => 
-      v.info.toLowerCase().includes('system') || 
-      v.info.toLowerCase().includes('boot')
-    );
-    if (hasSystemVolume) {
-      details.isSystemDisk = true;
+
+  // The model name is the line printed right above "Disk ID"
+  const model = lineIndex.diskId ? lines[lineIndex.diskId - 1] : '';
+  const isYes = (value?: string) => isYesValue(value, locale);
+
+  return {
+    model,
+    diskId: values.diskId,
+    busType: values.busType || '',
+    status: normalizeStatus(translate(locale.diskStatus, values.status || '')),
+    path: values.path || '',
+    target: values.target || '',
+    lunId: values.lunId || '',
+    locationPath: values.locationPath || '',
+    currentReadOnly: isYes(values.currentReadOnly),
+    readOnly: isYes(values.readOnly),
+    isBootDisk: isYes(values.bootDisk),
+    isPagefileDisk: isYes(values.pagefileDisk),
+    isHibernationFileDisk: isYes(values.hibernationFileDisk),
+    isCrashdumpDisk: isYes(values.crashdumpDisk),
+    isClusteredDisk: isYes(values.clusteredDisk),
+    volumes: parseVolumesFromDetail(output, locale)
+  };
+}
+
+/**
+ * Example output from "detail partition" on a GPT disk:
+ * 
+ * Partition 1
+ * Type    : c12a7328-f81f-11d2-ba4b-00a0c93ec93b
+ * Hidden  : Yes
+ * Required: No
+ * Attrib  : 0X8000000000000000
+ * Offset in Bytes: 1048576
+ * 
+ *   Volume ###  Ltr  Label        Fs     Type        Size     Status     Info
+ *   ----------  ---  -----------  -----  ----------  -------  ---------  --------
+ * * Volume 1                      FAT32  Partition    100 MB  Healthy    System
+ * 
+ * MBR disks print "Active" instead of "Required" and "Attrib", and the type
+ * as a hex byte ("Type  : 07"). Partitions without a volume print
+ * "There is no volume associated with this partition." instead of the table.
+ * 
+ * Parse the output of "detail partition" command
+ */
+export function parseDetailPartition(output: string): PartitionDetail {
+  const locale = resolveLocale(output);
+  const { values, lineIndex, lines } = readDetailFields(output, locale.partitionDetailFields);
+
+  if (values.type === undefined) {
+    throw new ParseError('Could not find partition type in detail partition output');
+  }
+
+  // The partition number is on the line printed right above "Type"
+  const heading = lineIndex.type ? lines[lineIndex.type - 1].match(/(\d+)$/) : null;
+  const typeId = values.type.toLowerCase();
+  const volumes = parseVolumesFromDetail(output, locale);
+
+  return {
+    id: heading ? parseInt(heading[1], 10) : 0,
+    typeId,
+    typeName: PARTITION_TYPE_NAMES[typeId],
+    hidden: isYesValue(values.hidden, locale),
+    required: isYesValue(values.required, locale),
+    active: isYesValue(values.active, locale),
+    attributes: values.attributes,
+    offset: parseInt(values.offset || '0', 10) || 0,
+    volume: volumes[0]
+  };
+}
+
+/**
+ * Fill in the fields of a "list partition" row that only "detail partition" knows
+ */
+export function applyPartitionDetail(partition: PartitionInfo, detail: PartitionDetail): PartitionInfo {
+  const { volume } = detail;
+  const info = volume?.info || '';
+  let status: PartitionInfo['status'] = 'Healthy';
+  if (info.includes('Boot')) {
+    status = 'Boot';
+  } else if (info.includes('System') || detail.typeName === 'EFI System') {
+    status = 'System';
+  } else if (detail.active) {
+    status = 'Active';
+  }
+
+  return {
+    ...partition,
+    status,
+    fileSystem: volume ? normalizeFileSystem(volume.fileSystem) : undefined,
+    label: volume?.label,
+    driveLetter: volume?.letter,
+    volumeId: volume?.id,
+    detail
+  };
+}
+
+/**
+ * Example output from "detail volume":
+ * 
+ *   Disk ###  Status         Size     Free     Dyn  Gpt
+ *   --------  -------------  -------  -------  ---  ---
+ * * Disk 0    Online          238 GB      0 B        *
+ * 
+ * Read-only              : No
+ * Hidden                 : No
+ * No Default Drive Letter: No
+ * Shadow Copy            : No
+ * Offline                : No
+ * BitLocker Encrypted    : No
+ * Installable            : Yes
+ * 
+ * Volume Capacity        :  237 GB
+ * Volume Free Space      :  100 GB
+ * 
+ * Parse the output of "detail volume" command
+ */
+export function parseDetailVolume(output: string): Omit<VolumeDetail, 'id'> {
+  const locale = resolveLocale(output);
+  const table = parseTable(output, locale.headers.disk);
+  if (!table) {
+    throw new ParseError('Could not find disk list in detail volume output');
+  }
+
+  const { values } = readDetailFields(output, locale.volumeDetailFields);
+  const isYes = (value?: string) => isYesValue(value, locale);
+
+  // Mount points come from a "list volume" run after the detail, where the
+  // selected volume is marked with "*"
+  const volumeTable = parseTable(output, locale.headers.volume);
+  const selectedVolume = volumeTable?.rows.find(row => row.selected);
+
+  return {
+    disks: table.rows
+      .map(row => row.cells[0].match(/(\d+)/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => parseInt(match[1], 10)),
+    readOnly: isYes(values.readOnly),
+    hidden: isYes(values.hidden),
+    noDefaultDriveLetter: isYes(values.noDefaultDriveLetter),
+    shadowCopy: isYes(values.shadowCopy),
+    offline: isYes(values.offline),
+    bitLockerEncrypted: isYes(values.bitLockerEncrypted),
+    installable: isYes(values.installable),
+    capacity: values.capacity !== undefined ? parseSize(values.capacity, locale) : undefined,
+    freeSpace: values.freeSpace !== undefined ? parseSize(values.freeSpace, locale) : undefined,
+    mountPoints: selectedVolume?.continuation ?? []
+  };
+}
+
+/**
+ * Example output from "attributes disk":
+ * 
+ * Current Read-only State : No
+ * Read-only  : No
+ * Boot Disk  : Yes
+ * Pagefile Disk  : Yes
+ * Hibernation File Disk  : No
+ * Crashdump Disk  : Yes
+ * Clustered Disk  : No
+ * 
+ * The labels are the ones "detail disk" prints.
+ * 
+ * Parse the output of "attributes disk" command
+ */
+export function parseAttributesDisk(output: string): DiskAttributes {
+  const locale = resolveLocale(output);
+  const { values } = readDetailFields(output, locale.detailFields);
+
+  if (values.readOnly === undefined) {
+    throw new ParseError('Could not find Read-only in attributes disk output');
+  }
+
+  const isYes = (value?: string) => isYesValue(value, locale);
+
+  return {
+    currentReadOnly: isYes(values.currentReadOnly),
+    readOnly: isYes(values.readOnly),
+    isBootDisk: isYes(values.bootDisk),
+    isPagefileDisk: isYes(values.pagefileDisk),
+    isHibernationFileDisk: isYes(values.hibernationFileDisk),
+    isCrashdumpDisk: isYes(values.crashdumpDisk),
+    isClusteredDisk: isYes(values.clusteredDisk)
+  };
+}
+
+/**
+ * Example output from "attributes volume":
+ * 
+ * Read-only              : No
+ * Hidden                 : No
+ * No Default Drive Letter: No
+ * Shadow Copy            : No
+ * 
+ * The labels are the ones "detail volume" prints.
+ * 
+ * Parse the output of "attributes volume" command
+ */
+export function parseAttributesVolume(output: string): VolumeAttributes {
+  const locale = resolveLocale(output);
+  const { values } = readDetailFields(output, locale.volumeDetailFields);
+
+  if (values.readOnly === undefined) {
+    throw new ParseError('Could not find Read-only in attributes volume output');
+  }
+
+  const isYes = (value?: string) => isYesValue(value, locale);
+
+  return {
+    readOnly: isYes(values.readOnly),
+    hidden: isYes(values.hidden),
+    noDefaultDriveLetter: isYes(values.noDefaultDriveLetter),
+    shadowCopy: isYes(values.shadowCopy)
+  };
+}
+
+/**
+ * Example output from "shrink querymax":
+ * 
+ * The maximum number of reclaimable bytes is:   17 GB (18022 MB)
+ * 
+ * Only the numbers are read, so the sentence may be in any language. The
+ * exact size in parentheses is preferred over the rounded one.
+ * 
+ * Parse the output of "shrink querymax" command
+ * @returns The reclaimable space in bytes
+ */
+export function parseShrinkQueryMax(output: string): number {
+  const locale = resolveLocale(output);
+  const line = output
+    .split('\n')
+    .map(candidate => candidate.trim())
+    .filter(candidate => /:\s*\d+\s*\S+/.test(candidate))
+    .pop();
+
+  if (!line) {
+    throw new ParseError('Could not find the reclaimable size in shrink querymax output');
+  }
+
+  const value = line.slice(line.lastIndexOf(':') + 1);
+  const exact = value.match(/\((\d+\s*[^)\s]+)\)/);
+  return parseSize(exact ? exact[1] : value, locale);
+}
+
+/**
+ * Example output from "list vdisk":
+ * 
+ *   VDisk ###  Disk ###  State                 Type       File
+ *   ---------  --------  --------------------  ---------  ----
+ *   VDisk 0    Disk 2    Attached not open     Expandable  C:\VMs\scratch.vhdx
+ *   VDisk 1    Disk ---  Added                 Fixed      C:\VMs\old.vhd
+ * 
+ * Only virtual disks that are attached or were selected in this session
+ * are listed. Detached ones show "---" in place of a disk number.
+ * 
+ * Parse the output of "list vdisk" command
+ */
+export function parseListVirtualDisks(output: string): VirtualDiskInfo[] {
+  const locale = resolveLocale(output);
+  const { virtualDisk } = locale;
+  if (!virtualDisk) {
+    throw new UnsupportedLocaleError('list vdisk', locale.name);
+  }
+  const table = parseTable(output, virtualDisk.header);
+  if (!table) {
+    if (output.includes(virtualDisk.empty)) return [];
+    throw new ParseError('Could not find virtual disk list header in output');
+  }
+
+  const virtualDisks: VirtualDiskInfo[] = [];
+  for (const row of table.rows) {
+    const [, diskStr = '', state = '', type = '', file = ''] = row.cells;
+    if (!file) {
+      console.warn(`Failed to parse virtual disk row: ${row.cells.join(' | ')}`);
+      continue;
     }
+
+    const diskNum = diskStr.match(/(\d+)/);
+    virtualDisks.push({
+      file,
+      diskId: diskNum ? parseInt(diskNum[1], 10) : undefined,
+      state,
+      attached: diskNum !== null,
+      type: normalizeVirtualDiskType(type)
+    });
   }
-  
-  return details;
+
+  return virtualDisks;
 }
 
 /**
- * Parse volumes from detail disk output
+ * Example output from "detail vdisk":
+ * 
+ * Device type ID: 3 (VHDX)
+ * Vendor ID: {EC984AEC-A0F9-47E9-901F-71415A66345B} (Microsoft Corporation)
+ * State: Attached not open
+ * Virtual size:   20 GB
+ * Physical size: 4096 KB
+ * Filename: C:\VMs\scratch.vhdx
+ * Is Child: No
+ * Parent Filename:
+ * Associated disk#: 2
+ * 
+ * Parse the output of "detail vdisk" command
  */
-function parseVolumesFromDetail(output: string): VolumeInfo[] {
-  // Check if output contains volume list
-  if (!output.includes('Volume ###')) {
-    return [];
+export function parseDetailVirtualDisk(output: string): VirtualDiskDetail {
+  const locale = resolveLocale(output);
+  if (!locale.virtualDisk) {
+    throw new UnsupportedLocaleError('detail vdisk', locale.name);
   }
-  
-  // Extract the volume list section
-  const volumeSection = output.substring(output.indexOf('Volume ###'));
-  return parseListVolume(volumeSection);
+  const { values } = readDetailFields(output, locale.virtualDisk.detailFields);
+  if (!values.file) {
+    throw new ParseError('Could not find the file name in detail vdisk output');
+  }
+
+  // "3 (VHDX)": the number is the VIRTUAL_STORAGE_TYPE device ID
+  const deviceType = (values.deviceType || '').match(/^(\d+)/);
+  const formats: Record<string, VirtualDiskDetail['format']> = { '1': 'ISO', '2': 'VHD', '3': 'VHDX' };
+
+  const vendor = (values.vendorId || '').match(/\(([^)]+)\)\s*$/);
+  const diskNum = (values.diskNumber || '').match(/^(\d+)/);
+
+  return {
+    file: values.file,
+    format: (deviceType && formats[deviceType[1]]) || 'Unknown',
+    vendor: vendor ? vendor[1] : (values.vendorId || ''),
+    state: values.state || '',
+    virtualSize: values.virtualSize ? parseSize(values.virtualSize, locale) : 0,
+    physicalSize: values.physicalSize ? parseSize(values.physicalSize, locale) : 0,
+    isChild: isYesValue(values.isChild, locale),
+    parentFile: values.parentFile || undefined,
+    diskId: diskNum ? parseInt(diskNum[1], 10) : undefined
+  };
 }
 
 /**
- * Parse a size string (e.g., "238 GB", "1024 KB") to bytes
+ * Example output from "uniqueid disk":
+ * 
+ * Disk ID: {6F1D2B3A-4C5E-4F60-8A7B-9C0D1E2F3A4B}
+ * 
+ * MBR disks print their 8 hex digit signature instead, e.g. "Disk ID: 8C3F21A7".
+ * 
+ * Parse the output of "uniqueid disk" command
+ */
+export function parseUniqueId(output: string): string {
+  const locale = resolveLocale(output);
+  const { values } = readDetailFields(output, { diskId: locale.detailFields.diskId });
+  if (!values.diskId) {
+    throw new ParseError('Could not find the disk ID in uniqueid disk output');
+  }
+  return values.diskId;
+}
+
+/**
+ * Example output from "san":
+ * 
+ * SAN Policy  : Offline Shared
+ * 
+ * Parse the output of "san" command
+ */
+export function parseSanPolicy(output: string): SanPolicy {
+  const locale = resolveLocale(output);
+  if (!locale.storageSettings) {
+    throw new UnsupportedLocaleError('san', locale.name);
+  }
+  const { sanPolicies } = locale.storageSettings;
+  const { values } = readDetailFields(output, { sanPolicy: locale.storageSettings.sanPolicy });
+  if (values.sanPolicy === undefined) {
+    throw new ParseError('Could not find the SAN policy in san output');
+  }
+
+  const policy = translate(sanPolicies, values.sanPolicy);
+  if (!Object.values(sanPolicies).includes(policy)) {
+    throw new ParseError(`Unknown SAN policy: ${values.sanPolicy}`);
+  }
+  return policy as SanPolicy;
+}
+
+/**
+ * Example output from "automount":
+ * 
+ * Automatic mounting of new volumes enabled.
+ * 
+ * Parse the output of "automount" command
+ * @returns Whether new volumes are mounted automatically
  */
-function parseSize(sizeStr: string): number {
-  const match = sizeStr.match(/(\d+)\s*([KMGT]?B)/i);
+export function parseAutomount(output: string): boolean {
+  const locale = resolveLocale(output);
+  if (!locale.storageSettings) {
+    throw new UnsupportedLocaleError('automount', locale.name);
+  }
+  const { automountEnabled, automountDisabled } = locale.storageSettings;
+  if (output.includes(automountDisabled)) return false;
+  if (output.includes(automountEnabled)) return true;
+  throw new ParseError('Could not find the automount state in automount output');
+}
+
+/**
+ * Parse the output of a "san" then "automount" script
+ */
+export function parseStorageSettings(output: string): StorageSettings {
+  return {
+    sanPolicy: parseSanPolicy(output),
+    automount: parseAutomount(output)
+  };
+}
+
+/**
+ * Read the "Label : value" lines of a detail command. Labels are matched
+ * whole, so "Read-only" does not match "Current Read-only State".
+ * @param labels - Field name → localized label
+ * @returns The value and line number of each field found, and the trimmed lines
+ */
+function readDetailFields<K extends string>(
+  output: string,
+  labels: Record<K, string>
+): { values: Partial<Record<K, string>>; lineIndex: Partial<Record<K, number>>; lines: string[] } {
+  const lines = output.split('\n').map(line => line.trim());
+  const fieldsByLabel = new Map<string, K>();
+  for (const field of Object.keys(labels) as K[]) {
+    fieldsByLabel.set(normalizeLabel(labels[field]), field);
+  }
+
+  const values: Partial<Record<K, string>> = {};
+  const lineIndex: Partial<Record<K, number>> = {};
+
+  lines.forEach((line, index) => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) {
+      return;
+    }
+
+    const field = fieldsByLabel.get(normalizeLabel(line.substring(0, colon)));
+    if (field === undefined || values[field] !== undefined) {
+      return;
+    }
+
+    values[field] = line.substring(colon + 1).trim();
+    lineIndex[field] = index;
+  });
+
+  return { values, lineIndex, lines };
+}
+
+/**
+ * Normalise a "detail" field label for comparison. Diskpart pads labels with
+ * spaces before the colon, and French builds mix typographic and ASCII apostrophes.
+ */
+function normalizeLabel(label: string): string {
+  return label.replace(/\u2019/g, "'").replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Check a "detail" field value against the locale's word for "Yes"
+ */
+function isYesValue(value: string | undefined, locale: LocalePack): boolean {
+  return (value || '').toLowerCase() === locale.yes.toLowerCase();
+}
+
+/**
+ * Parse the volume table of "detail disk" or "detail partition" output
+ */
+function parseVolumesFromDetail(output: string, locale: LocalePack): VolumeInfo[] {
+  const table = parseTable(output, locale.headers.volume);
+  return table ? volumesFromTable(table, locale) : [];
+}
+
+/**
+ * Convert the rows of a volume table ("list volume" or a detail command)
+ */
+function volumesFromTable(table: DiskpartTable, locale: LocalePack): VolumeInfo[] {
+  const volumes: VolumeInfo[] = [];
+
+  for (const row of table.rows) {
+    const [name, letter, label, fileSystem, type, sizeStr, status, info = ''] = row.cells;
+    const volumeNum = name.match(/(\d+)/);
+    if (!volumeNum) {
+      console.warn(`Failed to parse volume row: ${row.cells.join(' | ')}`);
+      continue;
+    }
+
+    volumes.push({
+      id: parseInt(volumeNum[1], 10),
+      letter: letter || undefined,
+      label: label || undefined,
+      fileSystem: fileSystem || 'RAW',
+      type: normalizeVolumeType(translate(locale.volumeType, type)),
+      size: parseSize(sizeStr, locale),
+      status: translate(locale.volumeStatus, status) === 'Healthy' ? 'Healthy' : 'Failed',
+      // Info lists several flags, e.g. "Boot, Pagefile"
+      info: info
+        .split(',')
+        .map(flag => translate(locale.volumeInfo, flag))
+        .filter(flag => flag.length > 0)
+        .join(', '),
+      mountPoints: row.continuation
+    });
+  }
+
+  return volumes;
+}
+
+/**
+ * Parse a size string (e.g., "238 GB", "1024 KB", "238 Go") to bytes
+ */
+function parseSize(sizeStr: string, locale: LocalePack): number {
+  const match = sizeStr.match(/(\d+)\s*(\S+)/);
   if (!match) return 0;
   
   const value = parseInt(match[1], 10);
-  const unit = match[2].toUpperCase();
+  const unit = translate(locale.units, match[2]).toUpperCase();
   
   const multipliers: Record<string, number> = {
     'B': 1,
@@ -279,33 +837,80 @@ function parseSize(sizeStr: string): number {
 /**
  * Normalize disk status string
  */
-function normalizeStatus(status: string): 'Online' | 'Offline' | 'No Media' {
+function normalizeStatus(status: string): DiskInfo['status'] {
   const normalized = status.trim().toLowerCase();
   
   if (normalized.includes('online')) return 'Online';
   if (normalized.includes('offline')) return 'Offline';
   if (normalized.includes('no media')) return 'No Media';
+  if (normalized.includes('foreign')) return 'Foreign';
+  if (normalized.includes('invalid')) return 'Invalid';
+  if (normalized.includes('missing')) return 'Missing';
+  if (normalized.includes('not init')) return 'Not Initialized';
   
-  return 'Offline';
+  // A status no locale pack knows; showing it as Offline would hide what the disk needs
+  if (normalized) {
+    console.warn(`Unknown disk status: ${status}`);
+  }
+  return 'Unknown';
+}
+
+/**
+ * Normalize a file system name to the ones PartitionInfo knows
+ */
+function normalizeFileSystem(fileSystem: string): PartitionInfo['fileSystem'] {
+  const normalized = fileSystem.trim().toUpperCase();
+
+  if (normalized === 'NTFS') return 'NTFS';
+  if (normalized === 'FAT32') return 'FAT32';
+  if (normalized === 'EXFAT') return 'exFAT';
+  if (normalized === 'RAW') return 'RAW';
+
+  return undefined;
 }
 
 /**
  * Normalize volume type string
  */
-function normalizeVolumeType(type: string): 'Partition' | 'Removable' | 'CD-ROM' {
+function normalizeVolumeType(type: string): VolumeInfo['type'] {
   const normalized = type.trim().toLowerCase();
   
+  // Volumes on dynamic disks show their layout instead
+  const layouts: VolumeInfo['type'][] = ['Simple', 'Spanned', 'Stripe', 'Mirror', 'RAID-5'];
+  const layout = layouts.find(candidate => candidate.toLowerCase() === normalized);
+  if (layout) return layout;
+  
   if (normalized.includes('removable')) return 'Removable';
   if (normalized.includes('cd') || normalized.includes('dvd')) return 'CD-ROM';
   
   return 'Partition';
 }
 
+function normalizeVirtualDiskType(type: string): VirtualDiskInfo['type'] {
+  const known: VirtualDiskInfo['type'][] = ['Fixed', 'Expandable', 'Differencing'];
+  return known.find(candidate => candidate.toLowerCase() === type.toLowerCase()) ?? 'Unknown';
+}
+
+const KNOWN_PARTITION_TYPES: PartitionType[] = [
+  'Primary',
+  'Extended',
+  'Logical',
+  'System',
+  'Reserved',
+  'Recovery',
+  'OEM',
+  'Dynamic Data',
+  'Dynamic Reserved',
+  'Unknown'
+];
+
 /**
  * Normalize partition type string
  */
-function normalizePartitionType(type: string): 'Primary' | 'Extended' | 'Logical' {
+function normalizePartitionType(type: string): PartitionType {
   const normalized = type.trim().toLowerCase();
+  const known = KNOWN_PARTITION_TYPES.find(name => name.toLowerCase() === normalized);
+  if (known) return known;
   
   if (normalized.includes('extended')) return 'Extended';
   if (normalized.includes('logical')) return 'Logical';
@@ -317,38 +922,12 @@ function normalizePartitionType(type: string): 'Primary' | 'Extended' | 'Logical
  * Check if output indicates success
  */
 export function isSuccessOutput(output: string): boolean {
-  const lowerOutput = output.toLowerCase();
-  
-  // Check for success indicators
-  if (lowerOutput.includes('diskpart successfully')) return true;
-  if (lowerOutput.includes('completed successfully')) return true;
-  
-  // Check for error indicators
-  if (lowerOutput.includes('error')) return false;
-  if (lowerOutput.includes('failed')) return false;
-  if (lowerOutput.includes('access is denied')) return false;
-  if (lowerOutput.includes('cannot')) return false;
-  
-  // If no clear indicator, assume success if output is not empty
-  return output.trim().length > 0;
+  return isCommandSuccessful(output, 0);
 }
 
 /**
  * Extract error message from output
  */
 export function extractErrorMessage(output: string): string | null {
-  const lines = output.split('\n').map(line => line.trim());
-  
-  for (const line of lines) {
-    const lowerLine = line.toLowerCase();
-    
-    if (lowerLine.includes('error') || 
-        lowerLine.includes('failed') || 
-        lowerLine.includes('denied') ||
-        lowerLine.includes('cannot')) {
-      return line;
-    }
-  }
-  
-  return null;
+  return extractErrorFromOutput(output);
 }
\ No newline at end of file
@@ -0,0 +1,283 @@
+/**
+ * Interactive Diskpart session module
+ * Drives a single long-lived diskpart.exe over stdin/stdout instead of
+ * spawning one process per script
+ */
+
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import type { DiskSelection, OutputListener, RunOptions } from './backend';
+import { CommandExecutionError, CommandTimeoutError, OperationStalledError } from './errors';
+import { createDecoder, getConsoleCodePage } from './encoding';
+import { isFailedCommandOutput } from './locales';
+import { logInfo, logWarning } from '../utils/logger';
+
+// Diskpart prints this prompt when it is ready for the next command
+const PROMPT = 'DISKPART> ';
+
+// How long to wait for the banner and first prompt
+const STARTUP_TIMEOUT = 15000;
+
+interface PendingResponse {
+  resolve: (output: string) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  timeout: number;
+  watchdog: boolean;
+}
+
+/**
+ * Result of running a script through the session
+ */
+export interface SessionScriptResult {
+  output: string;
+  failed: boolean;
+}
+
+export class DiskpartSession {
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private buffer = '';
+  private partialLine = '';
+  private outputListener: OutputListener | null = null;
+  private pending: PendingResponse | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private selection: DiskSelection = {};
+  private restarts = 0;
+
+  /**
+   * Run a newline-separated script one command at a time. Scripts are
+   * serialised, and like "diskpart /s" the script stops at the first failure.
+   * With options.watchdog the timeout restarts whenever Diskpart writes
+   * output, so long wipes and formats only fail once they stop reporting.
+   */
+  runScript(script: string, options: RunOptions): Promise<SessionScriptResult> {
+    const { timeout, watchdog = false, onOutput } = options;
+
+    return this.enqueue(async () => {
+      await this.ensureStarted();
+
+      this.outputListener = onOutput ?? null;
+      try {
+        const outputs: string[] = [];
+        for (const rawLine of script.split(/\r?\n/)) {
+          const line = rawLine.trim();
+          if (!line) continue;
+          // "exit" would end the shared process; treat it as the end of the script
+          if (/^exit$/i.test(line)) break;
+
+          this.outputListener?.(`${PROMPT}${line}`);
+          const output = await this.send(line, timeout, watchdog);
+          outputs.push(output);
+
+          // Interactive Diskpart keeps going after an error, so check every command
+          if (isFailedCommandOutput(output)) {
+            // A failed select leaves Diskpart without any focus
+            if (/^sel/i.test(line)) {
+              this.selection = {};
+            }
+            return { output: outputs.join('\n'), failed: true };
+          }
+          this.trackSelection(line);
+        }
+
+        return { output: outputs.join('\n'), failed: false };
+      } finally {
+        this.outputListener = null;
+      }
+    });
+  }
+
+  /**
+   * Get the object Diskpart currently has focus on
+   */
+  getSelection(): DiskSelection {
+    return { ...this.selection };
+  }
+
+  /**
+   * Stop the Diskpart process. The next script starts a fresh one.
+   */
+  dispose(): void {
+    if (this.process) {
+      this.process.removeAllListeners();
+      this.process.stdin.end();
+      this.process.kill();
+      this.process = null;
+    }
+    this.rejectPending(new CommandExecutionError('Diskpart session was closed'));
+    this.buffer = '';
+    this.partialLine = '';
+    this.selection = {};
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    // Keep the chain alive even when a task fails
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async ensureStarted(): Promise<void> {
+    if (this.process) return;
+
+    if (this.restarts > 0) {
+      logWarning(`Restarting Diskpart session (restart #${this.restarts})`);
+    }
+
+    const codePage = await getConsoleCodePage();
+    const decodeStdout = createDecoder(codePage);
+    const decodeStderr = createDecoder(codePage);
+
+    const child = spawn('diskpart', [], { windowsHide: true });
+    this.process = child;
+    this.buffer = '';
+    this.partialLine = '';
+    this.selection = {};
+
+    child.stdout.on('data', (chunk: Buffer) => this.handleData(decodeStdout(chunk)));
+    child.stderr.on('data', (chunk: Buffer) => this.handleData(decodeStderr(chunk)));
+
+    child.on('error', (error) => {
+      this.handleExit(new CommandExecutionError('Failed to start Diskpart session', error.message));
+    });
+    child.on('exit', (code, signal) => {
+      this.handleExit(new CommandExecutionError(
+        'Diskpart session ended unexpectedly',
+        `Exit code: ${code ?? 'none'}, signal: ${signal ?? 'none'}`
+      ));
+    });
+
+    // Wait for the banner and first prompt
+    await this.waitForPrompt(STARTUP_TIMEOUT);
+    logInfo('Diskpart session started');
+  }
+
+  private send(command: string, timeout: number, watchdog: boolean): Promise<string> {
+    if (!this.process) {
+      return Promise.reject(new CommandExecutionError('Diskpart session is not running'));
+    }
+
+    const response = this.waitForPrompt(timeout, watchdog);
+    this.process.stdin.write(`${command}\r\n`);
+    return response;
+  }
+
+  private waitForPrompt(timeout: number, watchdog = false): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject, timer: this.startTimer(timeout, watchdog), timeout, watchdog };
+      this.flushIfPrompted();
+    });
+  }
+
+  private startTimer(timeout: number, watchdog: boolean): NodeJS.Timeout {
+    return setTimeout(() => {
+      const pending = this.pending;
+      this.pending = null;
+      // A command that never returns leaves the process unusable; start over next time
+      this.restart();
+      pending?.reject(watchdog ? new OperationStalledError(timeout) : new CommandTimeoutError(timeout));
+    }, timeout);
+  }
+
+  private handleData(chunk: string): void {
+    // Progress lines may be redrawn with a bare carriage return
+    const text = chunk.replace(/\r\n?/g, '\n');
+    this.buffer += text;
+    this.streamLines(text);
+
+    // Output is a sign of life; restart the watchdog
+    if (this.pending?.watchdog) {
+      clearTimeout(this.pending.timer);
+      this.pending.timer = this.startTimer(this.pending.timeout, true);
+    }
+    this.flushIfPrompted();
+  }
+
+  /**
+   * Forward complete lines to the output listener. The trailing prompt never
+   * ends with a newline, so it stays in partialLine until the next command.
+   */
+  private streamLines(text: string): void {
+    const lines = (this.partialLine + text).split('\n');
+    this.partialLine = lines.pop() ?? '';
+
+    if (!this.outputListener) return;
+    for (const line of lines) {
+      this.outputListener(line);
+    }
+  }
+
+  /**
+   * Resolve the pending response once the buffer ends at a prompt
+   */
+  private flushIfPrompted(): void {
+    if (!this.pending || !this.buffer.trimEnd().endsWith(PROMPT.trimEnd())) return;
+
+    const output = this.buffer.substring(0, this.buffer.lastIndexOf(PROMPT.trimEnd()));
+    this.buffer = '';
+    this.partialLine = '';
+
+    const { resolve, timer } = this.pending;
+    clearTimeout(timer);
+    this.pending = null;
+    resolve(output.trim());
+  }
+
+  private handleExit(error: CommandExecutionError): void {
+    if (!this.process) return;
+
+    logWarning(error.message, error.details);
+    this.process.removeAllListeners();
+    this.process = null;
+    this.buffer = '';
+    this.partialLine = '';
+    this.selection = {};
+    this.restarts++;
+    this.rejectPending(error);
+  }
+
+  private restart(): void {
+    if (!this.process) return;
+
+    this.process.removeAllListeners();
+    this.process.kill();
+    this.process = null;
+    this.buffer = '';
+    this.partialLine = '';
+    this.selection = {};
+    this.restarts++;
+  }
+
+  private rejectPending(error: Error): void {
+    if (!this.pending) return;
+
+    const { reject, timer } = this.pending;
+    clearTimeout(timer);
+    this.pending = null;
+    reject(error);
+  }
+
+  /**
+   * Update the tracked focus after a command succeeded
+   */
+  private trackSelection(command: string): void {
+    const select = command.match(/^sel\w*\s+(dis\w*|par\w*|vol\w*)\s+(\d+)/i);
+    if (select) {
+      const index = parseInt(select[2], 10);
+      const target = select[1].toLowerCase();
+
+      if (target.startsWith('dis')) {
+        this.selection = { disk: index };
+      } else if (target.startsWith('par')) {
+        this.selection = { disk: this.selection.disk, partition: index };
+      } else {
+        this.selection = { volume: index };
+      }
+      return;
+    }
+
+    // These commands remove the partition that had focus
+    if (/^(clean|delete\s+par)/i.test(command)) {
+      this.selection = { disk: this.selection.disk };
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SimulatedBackend } from './simulatedBackend';
+import { parseListPartition } from './parser';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+const FIXTURE = path.join(process.cwd(), 'src', 'main', 'diskpart', 'fixtures', 'en-US', 'list-partition-extended-logical.json');
+
+/**
+ * Disk 1 of the demo layout holds a 500 GB primary partition; add the
+ * extended partition and logical drives of the captured listing after it
+ */
+async function runOnExtendedLogicalDisk(...commands: string[]): Promise<string> {
+  const backend = new SimulatedBackend();
+  const { exitCode } = await backend.run([
+    'select disk 1',
+    'create partition extended size=307200',
+    'create partition logical size=204800',
+    'create partition logical size=101376'
+  ].join('\n'), { timeout: 1000 });
+  assert.equal(exitCode, 0);
+
+  const { stdout } = await backend.run(['select disk 1', ...commands].join('\n'), { timeout: 1000 });
+  return stdout;
+}
+
+test('list partition numbers the extended partition 0 and the logical drives after the primaries', async () => {
+  const stdout = await runOnExtendedLogicalDisk('list partition');
+  const expected = JSON.parse(fs.readFileSync(FIXTURE, 'utf8'));
+
+  assert.deepEqual(JSON.parse(JSON.stringify(parseListPartition(stdout))), expected);
+});
+
+test('select partition picks the partition list partition numbers', async () => {
+  const stdout = await runOnExtendedLogicalDisk('select partition 3', 'detail partition');
+
+  assert.match(stdout, /^Partition 3 is now the selected partition\.$/m);
+  assert.match(stdout, /^Partition 3$/m);
+  // The second logical drive, 1 MB after the end of the first
+  assert.match(stdout, new RegExp(`^Offset in Bytes: ${700 * GB + MB}$`, 'm'));
+});
+
+test('the extended partition cannot be selected', async () => {
+  const { exitCode } = await new SimulatedBackend().run('select disk 1\ncreate partition extended\nselect partition 0', { timeout: 1000 });
+
+  assert.notEqual(exitCode, 0);
+});
@@ -0,0 +1,1902 @@
+/**
+ * Simulated disk backend
+ * Models disks, partitions and volumes in memory and answers Diskpart scripts
+ * with Diskpart-shaped text, so the real parsers can run without Windows
+ */
+
+import type { BackendResult, DiskBackend, DiskSelection, RunOptions } from './backend';
+
+const KB = 1024;
+const MB = 1024 * KB;
+const GB = 1024 * MB;
+
+// Diskpart leaves the first megabyte of a disk for the partition table
+const FIRST_USABLE_OFFSET = MB;
+
+// GPT keeps a backup partition table at the end of the disk
+const GPT_TRAILER = MB;
+
+// MBR disks hold at most four primary or extended partitions
+const MAX_MBR_PRIMARY = 4;
+
+// Allocation unit sizes "format unit=" accepts for each file system
+const FORMAT_UNIT_SIZES: Record<string, number[]> = {
+  NTFS: [512, KB, 2 * KB, 4 * KB, 8 * KB, 16 * KB, 32 * KB, 64 * KB, 128 * KB, 256 * KB, 512 * KB, MB, 2 * MB],
+  FAT32: [512, KB, 2 * KB, 4 * KB, 8 * KB, 16 * KB, 32 * KB, 64 * KB],
+  FAT: [512, KB, 2 * KB, 4 * KB, 8 * KB, 16 * KB, 32 * KB, 64 * KB],
+  exFAT: [512, KB, 2 * KB, 4 * KB, 8 * KB, 16 * KB, 32 * KB, 64 * KB, 128 * KB, 256 * KB, 512 * KB,
+    MB, 2 * MB, 4 * MB, 8 * MB, 16 * MB, 32 * MB],
+  UDF: []
+};
+
+// Largest VHD file; VHDX files go up to 64 TB
+const VHD_MAX_SIZE = 2040 * GB;
+const VHDX_MAX_SIZE = 64 * 1024 * GB;
+
+// Metadata an expandable virtual disk file starts with
+const VDISK_BASE_SIZE = 4 * MB;
+
+// What "detail vdisk" prints as the device type of each file format
+const VDISK_DEVICE_TYPES: Record<string, string> = {
+  iso: '1 (ISO)',
+  vhd: '2 (VHD)',
+  vhdx: '3 (VHDX)'
+};
+
+const MICROSOFT_VENDOR_ID = '{EC984AEC-A0F9-47E9-901F-71415A66345B} (Microsoft Corporation)';
+
+// Clean all and format report progress in these steps, paced so the UI can follow
+const PROGRESS_STEP = 10;
+const PROGRESS_STEP_DELAY = 150;
+
+// Diskpart exit codes
+const EXIT_SERVICE_ERROR = 4;
+const EXIT_SYNTAX_ERROR = 5;
+
+const INVALID_ARGUMENTS = [
+  'The arguments specified for this command are not valid.',
+  'For more information on the command type: HELP'
+].join('\n');
+
+type SimPartitionKind = 'Primary' | 'Extended' | 'Logical' | 'System' | 'Reserved' | 'Recovery' | 'Dynamic Data';
+
+// GPT attribute bits "detail partition" reports on their own lines
+const GPT_REQUIRED_BIT = 0;
+const GPT_HIDDEN_BIT = 62;
+
+// What "detail partition" prints for each kind of partition
+const PARTITION_TYPES: Record<SimPartitionKind, { guid: string; mbr: string; hidden: boolean; attributes: string }> = {
+  Primary: { guid: 'ebd0a0a2-b9e5-4433-87c0-68b6b72699c7', mbr: '07', hidden: false, attributes: '0000000000000000' },
+  Extended: { guid: '', mbr: '0F', hidden: false, attributes: '0000000000000000' },
+  Logical: { guid: '', mbr: '07', hidden: false, attributes: '0000000000000000' },
+  System: { guid: 'c12a7328-f81f-11d2-ba4b-00a0c93ec93b', mbr: 'EF', hidden: true, attributes: '0X8000000000000000' },
+  Reserved: { guid: 'e3c9e316-0b5c-4db8-817d-f92df00215ae', mbr: '12', hidden: true, attributes: '0X8000000000000000' },
+  Recovery: { guid: 'de94bba4-06d1-4d40-a16a-bfd50179d6ac', mbr: '27', hidden: true, attributes: '0X8000000000000001' },
+  'Dynamic Data': { guid: 'af9b60a0-1431-4f62-bc68-3311714a69ad', mbr: '42', hidden: false, attributes: '0000000000000000' }
+};
+
+type SimVolumeLayout = 'Simple' | 'Spanned' | 'Stripe' | 'Mirror' | 'RAID-5';
+
+// Layout "create volume" makes for each keyword, with its fewest and most disks
+const CREATE_VOLUME_LAYOUTS: Record<string, { layout: SimVolumeLayout; minDisks: number; maxDisks: number }> = {
+  simple: { layout: 'Simple', minDisks: 1, maxDisks: 1 },
+  stripe: { layout: 'Stripe', minDisks: 2, maxDisks: 32 },
+  mirror: { layout: 'Mirror', minDisks: 2, maxDisks: 2 },
+  raid: { layout: 'RAID-5', minDisks: 3, maxDisks: 32 }
+};
+
+// Keyword "san policy=" takes for each policy, and how "san" prints it
+const SAN_POLICIES: Record<string, string> = {
+  onlineall: 'Online All',
+  offlineshared: 'Offline Shared',
+  offlineall: 'Offline All',
+  offlineinternal: 'Offline Internal'
+};
+
+type SimVolumeAttribute = 'readOnly' | 'hidden' | 'noDefaultDriveLetter' | 'shadowCopy';
+
+// Keyword "attributes volume" takes for each attribute
+const VOLUME_ATTRIBUTE_KEYWORDS: Record<string, SimVolumeAttribute> = {
+  readonly: 'readOnly',
+  hidden: 'hidden',
+  nodefaultdriveletter: 'noDefaultDriveLetter',
+  shadowcopy: 'shadowCopy'
+};
+
+interface SimVolume {
+  id: number;
+  letter?: string;
+  label?: string;
+  fileSystem?: string;
+  used: number;
+  info: string[];
+  /** Set by "attributes volume"; hidden and no default drive letter default to the partition type */
+  attributes?: Partial<Record<SimVolumeAttribute, boolean>>;
+  /** Folders the volume is mounted at, with a trailing backslash */
+  mountPoints?: string[];
+  /** Volumes on dynamic disks only; each of their extents is a Dynamic Data partition pointing here */
+  layout?: SimVolumeLayout;
+}
+
+// Partition kind "create partition" makes for each keyword
+const CREATE_PARTITION_KINDS: Record<string, SimPartitionKind> = {
+  primary: 'Primary',
+  efi: 'System',
+  msr: 'Reserved',
+  extended: 'Extended',
+  logical: 'Logical'
+};
+
+interface SimPartition {
+  kind: SimPartitionKind;
+  size: number;
+  offset: number;
+  active: boolean;
+  /** Set by "create partition primary id=", overrides the type of the kind */
+  typeId?: string;
+  /** Set by "gpt attributes=", overrides the attributes of the kind */
+  gptAttributes?: string;
+  volume?: SimVolume;
+}
+
+interface SimDisk {
+  model: string;
+  diskId: string;
+  bus: string;
+  locationPath: string;
+  status: 'Online' | 'Offline' | 'No Media' | 'Foreign' | 'Invalid';
+  size: number;
+  removable: boolean;
+  readOnly: boolean;
+  dynamic: boolean;
+  gpt: boolean;
+  partitions: SimPartition[];
+}
+
+/**
+ * A virtual disk file on the host. Its disk keeps the partitions while it
+ * is detached and is in the disk list only while attached
+ */
+interface SimVirtualDisk {
+  file: string;
+  type: 'Fixed' | 'Expandable';
+  disk: SimDisk;
+  attached: boolean;
+  /** Size of the file; expandable files grow as data is written and shrink on compact */
+  physicalSize: number;
+}
+
+interface SimSelection {
+  disk?: SimDisk;
+  partition?: SimPartition;
+  virtualDisk?: SimVirtualDisk;
+}
+
+interface FreeExtent {
+  offset: number;
+  size: number;
+}
+
+/**
+ * Raised by a command handler to stop the script with Diskpart's error text
+ */
+class ScriptError extends Error {
+  constructor(message: string, public exitCode: number = EXIT_SERVICE_ERROR) {
+    super(message);
+    this.name = 'ScriptError';
+    Object.setPrototypeOf(this, ScriptError.prototype);
+  }
+}
+
+function serviceError(message: string): ScriptError {
+  return new ScriptError(`Virtual Disk Service error:\n${message}`);
+}
+
+/**
+ * Partitions in the order Diskpart numbers them: primary partitions first,
+ * then the logical drives. The extended partition is left out; Diskpart
+ * lists it as partition 0 and it cannot be selected
+ */
+function numberedPartitions(disk: SimDisk): SimPartition[] {
+  const primary = disk.partitions.filter(p => p.kind !== 'Extended' && p.kind !== 'Logical');
+  const logical = disk.partitions.filter(p => p.kind === 'Logical');
+  return [...primary, ...logical];
+}
+
+function partitionNumber(disk: SimDisk, partition: SimPartition): number {
+  return numberedPartitions(disk).indexOf(partition) + 1;
+}
+
+export class SimulatedBackend implements DiskBackend {
+  readonly name = 'simulated' as const;
+  readonly requiresElevation = false;
+
+  private disks: SimDisk[];
+  private virtualDisks: SimVirtualDisk[] = [];
+  private selection: SimSelection = {};
+  private nextVolumeId = 0;
+  private sanPolicy = SAN_POLICIES.onlineall;
+  private automount = true;
+
+  constructor() {
+    this.disks = this.createDefaultDisks();
+  }
+
+  async run(script: string, { onOutput }: RunOptions): Promise<BackendResult> {
+    const output: string[] = [];
+    const emitLine = (text: string) => {
+      output.push(text);
+      onOutput?.(text);
+    };
+    const emit = (text: string) => `${text}\n`.split('\n').forEach(emitLine);
+
+    for (const rawLine of script.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || /^rem(\s|$)/i.test(line)) continue;
+
+      onOutput?.(`DISKPART> ${line}`);
+      try {
+        const result = this.execute(line);
+        if (result === null) break;
+        if (result.includes('100 percent completed')) {
+          await this.reportProgress(emitLine);
+        }
+        emit(result);
+      } catch (error) {
+        if (error instanceof ScriptError) {
+          emit(error.message);
+          return { stdout: output.join('\n'), stderr: '', exitCode: error.exitCode };
+        }
+        throw error;
+      }
+    }
+
+    return { stdout: output.join('\n'), stderr: '', exitCode: 0 };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  getSelection(): DiskSelection {
+    const { disk, partition } = this.selection;
+    if (!disk) return {};
+
+    return {
+      disk: this.disks.indexOf(disk),
+      partition: partition ? partitionNumber(disk, partition) : undefined,
+      volume: partition?.volume?.id
+    };
+  }
+
+  dispose(): void {
+    this.selection = {};
+  }
+
+  /**
+   * Execute a single script line. Returns null when the script should stop.
+   */
+  private execute(line: string): string | null {
+    const tokens = line.split(/\s+/);
+    const verb = tokens[0].toLowerCase();
+    const noun = (tokens[1] || '').toLowerCase();
+    const args = parseArguments(tokens.slice(1).join(' '));
+
+    if (matches(verb, 'list')) {
+      if (matches(noun, 'disk')) return this.listDisks();
+      if (matches(noun, 'volume')) return this.listVolumes();
+      if (matches(noun, 'partition')) return this.listPartitions();
+      if (matches(noun, 'vdisk')) return this.listVirtualDisks();
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    if (matches(verb, 'select') && matches(noun, 'vdisk')) return this.selectVirtualDisk(args);
+    if (matches(verb, 'select') && matches(noun, 'disk') && /^m\d+$/i.test(tokens[2] || '')) {
+      // Missing disks only exist when a dynamic disk group loses a member, which never happens here
+      throw new ScriptError('The disk you specified is not valid.\n\nThere is no disk selected.');
+    }
+    if (matches(verb, 'select')) {
+      const index = parseInt(tokens[2] || '', 10);
+      if (!Number.isInteger(index)) {
+        throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+      }
+      if (matches(noun, 'disk')) return this.selectDisk(index);
+      if (matches(noun, 'partition')) return this.selectPartition(index);
+      if (matches(noun, 'volume')) return this.selectVolume(index);
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    if (matches(verb, 'detail')) {
+      if (matches(noun, 'disk')) return this.detailDisk();
+      if (matches(noun, 'partition')) return this.detailPartition();
+      if (matches(noun, 'volume')) return this.detailVolume();
+      if (matches(noun, 'vdisk')) return this.detailVirtualDisk();
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    if (matches(verb, 'attributes')) {
+      const [action, attribute] = tokens.slice(2).map(token => token.toLowerCase());
+      if (matches(noun, 'disk')) return this.diskAttributes(action, attribute);
+      if (matches(noun, 'volume')) return this.volumeAttributes(action, attribute);
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    if (matches(verb, 'clean')) return this.clean(noun === 'all');
+    if (matches(verb, 'create') && matches(noun, 'vdisk')) return this.createVirtualDisk(args);
+    if (matches(verb, 'create') && matches(noun, 'volume')) return this.createDynamicVolume(tokens[2] || '', args);
+    if (matches(verb, 'create')) return this.createPartition(tokens[2] || '', args);
+    if (matches(verb, 'delete') && matches(noun, 'disk')) return this.deleteMissingDisk();
+    if (matches(verb, 'delete')) return this.deletePartition(args);
+    if (matches(verb, 'format')) return this.format(args);
+    if (matches(verb, 'assign')) return this.assignLetter(args);
+    if (matches(verb, 'remove')) return this.removeLetter(args);
+    if (matches(verb, 'active')) return this.setActive(true);
+    if (matches(verb, 'inactive')) return this.setActive(false);
+    if (matches(verb, 'gpt')) return this.setGptAttributes(args);
+    if (matches(verb, 'convert')) return this.convert(noun);
+    if (matches(verb, 'online')) return this.setOnline(true);
+    if (matches(verb, 'offline')) return this.setOnline(false);
+    if (matches(verb, 'extend')) return this.extend(args);
+    if (matches(verb, 'shrink')) return this.shrink(args);
+    if (matches(verb, 'add')) return this.addMirror(args);
+    if (matches(verb, 'break')) return this.breakMirror(args);
+    if (matches(verb, 'import')) return this.importDisk();
+    if (matches(verb, 'recover')) return this.recoverDisk();
+    if (matches(verb, 'repair')) return this.repairVolume(args);
+    if (matches(verb, 'attach') && matches(noun, 'vdisk')) return this.attachVirtualDisk(args);
+    if (matches(verb, 'detach') && matches(noun, 'vdisk')) return this.detachVirtualDisk();
+    if (matches(verb, 'expand') && matches(noun, 'vdisk')) return this.expandVirtualDisk(args);
+    if (matches(verb, 'compact') && matches(noun, 'vdisk')) return this.compactVirtualDisk();
+    if (matches(verb, 'san')) return this.san(args);
+    if (matches(verb, 'automount')) return this.setAutomount(noun);
+    if (matches(verb, 'uniqueid') && matches(noun, 'disk')) return this.uniqueId(args);
+    if (matches(verb, 'rescan')) {
+      return 'Please wait while DiskPart scans your configuration...\n\nDiskPart has finished scanning your configuration.';
+    }
+    if (matches(verb, 'exit')) return null;
+
+    throw new ScriptError(`The command "${tokens[0]}" is not supported by the simulated backend.`, EXIT_SYNTAX_ERROR);
+  }
+
+  /**
+   * Print the "NN percent completed" lines a long operation writes before it finishes
+   */
+  private async reportProgress(emitLine: (text: string) => void): Promise<void> {
+    for (let percent = 0; percent < 100; percent += PROGRESS_STEP) {
+      emitLine(`  ${percent} percent completed`);
+      await new Promise(resolve => setTimeout(resolve, PROGRESS_STEP_DELAY));
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // List commands
+  // ---------------------------------------------------------------------------
+
+  private listDisks(): string {
+    return this.renderDiskTable(this.disks);
+  }
+
+  private renderDiskTable(disks: SimDisk[]): string {
+    const rows = disks.map(disk => [
+      `${this.isSelectedDisk(disk) ? '*' : ' '} Disk ${this.disks.indexOf(disk)}`,
+      disk.status,
+      formatSize(disk.size),
+      formatSize(disk.status === 'Online' ? this.getFreeSpace(disk) : 0),
+      disk.dynamic ? ' * ' : '',
+      disk.gpt ? ' * ' : ''
+    ]);
+
+    return renderTable(
+      [
+        { title: 'Disk ###', width: 8 },
+        { title: 'Status', width: 13 },
+        { title: 'Size', width: 7, alignRight: true },
+        { title: 'Free', width: 7, alignRight: true },
+        { title: 'Dyn', width: 3 },
+        { title: 'Gpt', width: 3 }
+      ],
+      rows
+    );
+  }
+
+  private listVolumes(): string {
+    const entries = this.getVolumeEntries().filter(entry => entry.disk.status === 'Online');
+    if (entries.length === 0) {
+      return 'There are no volumes.';
+    }
+    return this.renderVolumeTable(entries);
+  }
+
+  private listPartitions(): string {
+    const disk = this.requireDisk('There is no disk selected to list partitions.');
+    if (disk.partitions.length === 0) {
+      return 'There are no partitions on this disk to show.';
+    }
+
+    const rows = disk.partitions.map(partition => [
+      `${this.selection.partition === partition ? '*' : ' '} Partition ${partitionNumber(disk, partition)}`,
+      partition.kind,
+      formatSize(partition.size),
+      formatSize(partition.offset)
+    ]);
+
+    return renderTable(
+      [
+        { title: 'Partition ###', width: 13 },
+        { title: 'Type', width: 16 },
+        { title: 'Size', width: 7, alignRight: true },
+        { title: 'Offset', width: 7, alignRight: true }
+      ],
+      rows
+    );
+  }
+
+  private renderVolumeTable(entries: VolumeEntry[]): string {
+    const rows = entries.map(({ disk, partition, volume }) => [
+      `${this.selection.partition === partition ? '*' : ' '} Volume ${volume.id}`,
+      volume.letter ? ` ${volume.letter} ` : '',
+      volume.label || '',
+      volume.fileSystem || 'RAW',
+      volume.layout ?? (disk.removable ? 'Removable' : 'Partition'),
+      formatSize(this.getVolumeSize(partition, volume)),
+      'Healthy',
+      volume.info.join(', ')
+    ]);
+    const mountPoints = entries.map(({ volume }) => volume.mountPoints ?? []);
+
+    return renderTable(
+      [
+        { title: 'Volume ###', width: 10 },
+        { title: 'Ltr', width: 3 },
+        { title: 'Label', width: 11 },
+        { title: 'Fs', width: 5 },
+        { title: 'Type', width: 10 },
+        { title: 'Size', width: 7, alignRight: true },
+        { title: 'Status', width: 9 },
+        { title: 'Info', width: 8 }
+      ],
+      rows,
+      mountPoints
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Selection and detail
+  // ---------------------------------------------------------------------------
+
+  private selectDisk(index: number): string {
+    const disk = this.disks[index];
+    if (!disk) {
+      throw new ScriptError('The disk you specified is not valid.\n\nThere is no disk selected.');
+    }
+    this.selection = { disk };
+    return `Disk ${index} is now the selected disk.`;
+  }
+
+  private selectPartition(index: number): string {
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    const partition = index >= 1 ? numberedPartitions(disk)[index - 1] : undefined;
+    if (!partition) {
+      throw new ScriptError('The partition you specified is not valid.\nPlease select a valid partition.\n\nThere is no partition selected.');
+    }
+    this.selection = { disk, partition };
+    return `Partition ${index} is now the selected partition.`;
+  }
+
+  private selectVolume(index: number): string {
+    const entry = this.getVolumeEntries().find(candidate => candidate.volume.id === index);
+    if (!entry) {
+      throw new ScriptError('The volume you selected is not valid or does not exist.');
+    }
+    this.selection = { disk: entry.disk, partition: entry.partition };
+    return `Volume ${index} is the selected volume.`;
+  }
+
+  private detailDisk(): string {
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    const entries = this.getVolumeEntries()
+      .filter(entry => this.getVolumeExtents(entry.volume).some(extent => extent.disk === disk));
+
+    const lines = [
+      disk.model,
+      `Disk ID: ${disk.diskId}`,
+      `Type   : ${disk.bus}`,
+      `Status : ${disk.status}`,
+      'Path   : 0',
+      'Target : 0',
+      'LUN ID : 0',
+      `Location Path : ${disk.locationPath}`,
+      ...this.renderDiskAttributes(disk),
+      ''
+    ];
+
+    lines.push(entries.length > 0 ? this.renderVolumeTable(entries) : 'There are no volumes.');
+    return lines.join('\n');
+  }
+
+  private detailPartition(): string {
+    const { disk, partition } = this.requirePartition();
+    const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+    const type = PARTITION_TYPES[partition.kind];
+    const lines = [`Partition ${partitionNumber(disk, partition)}`];
+
+    if (disk.gpt) {
+      const attributes = BigInt(partition.gptAttributes ?? type.attributes.replace(/^0X/, '0x'));
+      const isSet = (bit: number) => ((attributes >> BigInt(bit)) & BigInt(1)) === BigInt(1);
+      lines.push(
+        `Type    : ${partition.typeId ?? type.guid}`,
+        `Hidden  : ${yesNo(type.hidden || isSet(GPT_HIDDEN_BIT))}`,
+        `Required: ${yesNo(isSet(GPT_REQUIRED_BIT))}`,
+        `Attrib  : 0X${attributes.toString(16).toUpperCase().padStart(16, '0')}`
+      );
+    } else {
+      const mbrType = partition.typeId?.toUpperCase().padStart(2, '0')
+        ?? (partition.volume?.fileSystem === 'FAT32' && partition.kind !== 'Extended' ? '0C' : type.mbr);
+      lines.push(
+        `Type  : ${mbrType}`,
+        `Hidden: ${yesNo(partition.kind === 'Recovery')}`,
+        `Active: ${yesNo(partition.active)}`
+      );
+    }
+
+    lines.push(`Offset in Bytes: ${partition.offset}`, '');
+    lines.push(partition.volume
+      ? this.renderVolumeTable([{ disk, partition, volume: partition.volume }])
+      : 'There is no volume associated with this partition.');
+    return lines.join('\n');
+  }
+
+  private detailVolume(): string {
+    const { disk, partition } = this.selection;
+    const volume = partition?.volume;
+    if (!disk || !partition || !volume) {
+      throw new ScriptError('There is no volume selected.\nPlease select a volume and try again.');
+    }
+    const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+    const hidden = this.getVolumeAttributes(partition, volume).hidden;
+
+    const size = this.getVolumeSize(partition, volume);
+    const memberDisks = [...new Set(this.getVolumeExtents(volume).map(extent => extent.disk))];
+
+    const lines = [
+      this.renderDiskTable(memberDisks),
+      '',
+      ...this.renderVolumeAttributes(partition, volume),
+      'Offline                : No',
+      'BitLocker Encrypted    : No',
+      `Installable            : ${yesNo(!hidden && !disk.removable)}`
+    ];
+
+    if (volume.fileSystem) {
+      lines.push(
+        '',
+        `Volume Capacity        : ${formatSize(size).padStart(7)}`,
+        `Volume Free Space      : ${formatSize(size - volume.used).padStart(7)}`
+      );
+    }
+    return lines.join('\n');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Destructive commands
+  // ---------------------------------------------------------------------------
+
+  private clean(all: boolean): string {
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    this.requireOnline(disk);
+    this.requireWritable(disk);
+
+    if (this.hasProtectedVolume(disk.partitions)) {
+      throw serviceError('Clean is not allowed on the disk containing the current boot, system, pagefile, crashdump or hibernation volume.');
+    }
+
+    disk.partitions = [];
+    disk.gpt = false;
+    disk.dynamic = false;
+    this.selection = { disk };
+
+    return all
+      ? '  100 percent completed\n\nDiskPart succeeded in cleaning the disk.'
+      : 'DiskPart succeeded in cleaning the disk.';
+  }
+
+  private createPartition(kind: string, args: Record<string, string>): string {
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    this.requireOnline(disk);
+    this.requireWritable(disk);
+
+    const partitionKind = CREATE_PARTITION_KINDS[kind.toLowerCase()];
+    if (!partitionKind) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    // id= is only accepted for primary partitions, align= not for EFI and MSR ones
+    const isGptOnly = partitionKind === 'System' || partitionKind === 'Reserved';
+    if ((args.id !== undefined && partitionKind !== 'Primary') || (args.align !== undefined && isGptOnly)) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    const isMbrOnly = partitionKind === 'Extended' || partitionKind === 'Logical';
+    if ((isGptOnly && !disk.gpt) || (isMbrOnly && disk.gpt)) {
+      throw serviceError('The specified partition type is not valid for this disk.');
+    }
+
+    if (!disk.gpt && partitionKind !== 'Logical' && disk.partitions.filter(p => p.kind !== 'Logical').length >= MAX_MBR_PRIMARY) {
+      throw serviceError('The partition table is full. No more primary partitions can be created on this disk.');
+    }
+
+    if (partitionKind === 'Extended' && disk.partitions.some(p => p.kind === 'Extended')) {
+      throw serviceError('There is already an extended partition on this disk.');
+    }
+
+    const container = partitionKind === 'Logical'
+      ? disk.partitions.find(p => p.kind === 'Extended')
+      : undefined;
+    if (partitionKind === 'Logical' && !container) {
+      throw serviceError('There is no extended partition on this disk to create a logical drive in.');
+    }
+
+    // Sizes are given in MB, offsets and alignment in KB
+    const requested = args.size !== undefined ? parsePositiveInteger(args.size) * MB : undefined;
+    const extent = this.findFreeExtent(disk, requested, {
+      offset: args.offset !== undefined ? parsePositiveInteger(args.offset) * KB : undefined,
+      align: args.align !== undefined ? parsePositiveInteger(args.align) * KB : undefined,
+      container
+    });
+    if (!extent) {
+      throw serviceError('No usable free extent could be found. It may be that there is insufficient free space to create a partition at the specified size and offset. Specify different size and offset values or don\'t specify either to create the maximum sized partition.');
+    }
+
+    const hasVolume = partitionKind !== 'Extended' && partitionKind !== 'Reserved';
+    const partition: SimPartition = {
+      kind: partitionKind,
+      size: requested ?? extent.size,
+      offset: extent.offset,
+      active: false,
+      typeId: args.id,
+      volume: hasVolume ? this.createVolume() : undefined
+    };
+
+    this.insertPartition(disk, partition);
+    this.selection = { disk, partition };
+
+    return 'DiskPart succeeded in creating the specified partition.';
+  }
+
+  private deletePartition(args: Record<string, string>): string {
+    const { disk, partition } = this.requirePartition();
+    this.requireOnline(disk);
+    this.requireWritable(disk, partition.volume);
+
+    if (this.hasProtectedVolume([partition])) {
+      throw serviceError('Cannot delete the boot, system, pagefile, crashdump or hibernation volume.');
+    }
+
+    const isProtected = partition.kind === 'System' || partition.kind === 'Reserved' || partition.kind === 'Recovery';
+    if (isProtected && !('override' in args)) {
+      throw new ScriptError('Cannot delete a protected partition without the force protected parameter set.');
+    }
+
+    if (partition.kind === 'Extended' && disk.partitions.some(p => p.kind === 'Logical')) {
+      throw serviceError('The extended partition is not empty.');
+    }
+
+    // Deleting a dynamic volume frees its extents on every member disk
+    const extents = partition.volume?.layout ? this.getVolumeExtents(partition.volume) : [{ disk, partition }];
+    for (const extent of extents) {
+      extent.disk.partitions = extent.disk.partitions.filter(p => p !== extent.partition);
+    }
+    this.selection = { disk };
+
+    return 'DiskPart successfully deleted the selected partition.';
+  }
+
+  private format(args: Record<string, string>): string {
+    const { disk, partition } = this.requirePartition();
+    this.requireOnline(disk);
+    const volume = this.requireVolume(partition);
+    this.requireWritable(disk, volume);
+
+    if (this.hasProtectedVolume([partition])) {
+      throw serviceError('The volume cannot be formatted because it contains the boot, system, pagefile, crashdump or hibernation file.');
+    }
+
+    const fileSystem = (args.fs || 'NTFS').toUpperCase();
+    const canonical = fileSystem === 'EXFAT' ? 'exFAT' : fileSystem;
+    const unitSizes = FORMAT_UNIT_SIZES[canonical];
+    if (!unitSizes) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    const size = this.getVolumeSize(partition, volume);
+    if ((canonical === 'FAT32' && size > 32 * GB) || (canonical === 'FAT' && size > 4 * GB)) {
+      throw serviceError('The volume size is too big.');
+    }
+
+    if (args.unit !== undefined) {
+      const unit = parseUnitSize(args.unit);
+      if (!unitSizes.includes(unit)) {
+        throw serviceError('The specified allocation unit size is not supported by this file system.');
+      }
+      if ('compress' in args && unit > 4 * KB) {
+        throw serviceError('Compression is not supported for allocation units larger than 4096 bytes.');
+      }
+    }
+    if (('compress' in args && canonical !== 'NTFS') || ('revision' in args && canonical !== 'UDF')) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    volume.fileSystem = canonical;
+    volume.label = args.label;
+    volume.used = Math.min(size, 64 * MB);
+
+    // With nowait Diskpart returns as soon as the format has started
+    const done = 'DiskPart successfully formatted the volume.';
+    return 'nowait' in args ? done : `  100 percent completed\n\n${done}`;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Disk state and attributes
+  // ---------------------------------------------------------------------------
+
+  private setOnline(online: boolean): string {
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    if (disk.status === 'No Media') {
+      throw serviceError('The device is not ready.');
+    }
+    if (online) {
+      if (disk.status === 'Online') {
+        throw serviceError('This disk is already online.');
+      }
+      disk.status = 'Online';
+      return 'DiskPart successfully onlined the selected disk.';
+    }
+
+    if (disk.status === 'Offline') {
+      throw serviceError('This disk is already offline.');
+    }
+    if (this.hasProtectedVolume(disk.partitions)) {
+      throw serviceError('The specified disk cannot be taken offline because it contains the boot, system, pagefile, crashdump or hibernation volume.');
+    }
+    disk.status = 'Offline';
+    return 'DiskPart successfully offlined the selected disk.';
+  }
+
+  private convert(target: string): string {
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    this.requireOnline(disk);
+    const notConvertible = 'The specified disk is not convertible. CDROMs and DVDs are examples of disks that are not convertible.';
+
+    if (target === 'gpt' || target === 'mbr') {
+      if (disk.gpt === (target === 'gpt')) {
+        throw serviceError(`The disk is already in ${target.toUpperCase()} format.`);
+      }
+      if (disk.partitions.length > 0) {
+        throw serviceError(notConvertible);
+      }
+      disk.gpt = target === 'gpt';
+      return `DiskPart successfully converted the selected disk to ${target.toUpperCase()} format.`;
+    }
+
+    if (target === 'dynamic' || target === 'basic') {
+      if (disk.dynamic === (target === 'dynamic')) {
+        throw serviceError(`The disk is already ${target}.`);
+      }
+      if (target === 'dynamic' && disk.removable) {
+        throw serviceError(notConvertible);
+      }
+      if (target === 'basic' && disk.partitions.some(p => p.volume)) {
+        throw serviceError('The disk is not empty. Delete all volumes on the disk and try again.');
+      }
+      disk.dynamic = target === 'dynamic';
+      return `DiskPart successfully converted the selected disk to ${target} format.`;
+    }
+
+    throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+  }
+
+  private diskAttributes(action?: string, attribute?: string): string {
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    if (!action) {
+      return this.renderDiskAttributes(disk).join('\n');
+    }
+
+    const set = matches(action, 'set');
+    if ((!set && !matches(action, 'clear')) || attribute !== 'readonly') {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    if (set && this.hasProtectedVolume(disk.partitions)) {
+      throw serviceError('The disk attributes cannot be changed on the disk containing the current boot, system, pagefile, crashdump or hibernation volume.');
+    }
+
+    disk.readOnly = set;
+    return set ? 'Disk attributes set successfully.' : 'Disk attributes cleared successfully.';
+  }
+
+  private volumeAttributes(action?: string, attribute?: string): string {
+    const { partition } = this.selection;
+    const volume = partition?.volume;
+    if (!partition || !volume) {
+      throw new ScriptError('There is no volume selected.\nPlease select a volume and try again.');
+    }
+    if (!action) {
+      return this.renderVolumeAttributes(partition, volume).join('\n');
+    }
+
+    const set = matches(action, 'set');
+    const key = VOLUME_ATTRIBUTE_KEYWORDS[attribute || ''];
+    if ((!set && !matches(action, 'clear')) || !key) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    if (set && (key === 'readOnly' || key === 'hidden') && this.hasProtectedVolume([partition])) {
+      throw serviceError('The volume attributes cannot be changed on the boot or system volume.');
+    }
+
+    volume.attributes = { ...volume.attributes, [key]: set };
+    return set ? 'Volume attributes set successfully.' : 'Volume attributes cleared successfully.';
+  }
+
+  // ---------------------------------------------------------------------------
+  // Letters, activation and resizing
+  // ---------------------------------------------------------------------------
+
+  private assignLetter(args: Record<string, string>): string {
+    const { disk, partition } = this.requirePartition();
+    this.requireOnline(disk);
+    const volume = this.requireVolume(partition);
+
+    if (args.mount !== undefined) {
+      return this.assignMount(volume, args.mount);
+    }
+
+    const used = this.getUsedLetters();
+    const letter = args.letter ? args.letter.toUpperCase() : findFreeLetter(used);
+    if (!letter || !/^[A-Z]$/.test(letter)) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    if (used.has(letter) && volume.letter !== letter) {
+      throw serviceError('The specified drive letter is not free to be assigned.');
+    }
+
+    volume.letter = letter;
+    return 'DiskPart successfully assigned the drive letter or mount point.';
+  }
+
+  private removeLetter(args: Record<string, string>): string {
+    const { partition } = this.requirePartition();
+    const volume = this.requireVolume(partition);
+
+    if (args.mount !== undefined) {
+      const path = normalizeMountPath(args.mount);
+      if (!path || !volume.mountPoints?.some(mountPoint => mountPoint.toLowerCase() === path.toLowerCase())) {
+        throw serviceError('The drive letter or mount point specified is not valid.');
+      }
+      volume.mountPoints = volume.mountPoints.filter(mountPoint => mountPoint.toLowerCase() !== path.toLowerCase());
+      return 'DiskPart successfully removed the drive letter or mount point.';
+    }
+
+    const letter = args.letter ? args.letter.toUpperCase() : volume.letter;
+    if (!letter || volume.letter !== letter) {
+      throw serviceError('The drive letter or mount point specified is not valid.');
+    }
+
+    volume.letter = undefined;
+    return 'DiskPart successfully removed the drive letter or mount point.';
+  }
+
+  /**
+   * Mount points need an empty folder on an NTFS volume with a letter. The
+   * simulator has no files, so any folder on such a volume counts as empty
+   */
+  private assignMount(volume: SimVolume, mount: string): string {
+    const path = normalizeMountPath(mount);
+    if (!path) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    const entries = this.getVolumeEntries();
+    const host = entries.find(entry => entry.volume.letter === path[0].toUpperCase());
+    if (!host || host.volume === volume || host.volume.fileSystem !== 'NTFS') {
+      throw serviceError('The path specified is not valid. The folder must be empty and on an NTFS volume.');
+    }
+
+    const inUse = entries.some(({ volume: other }) =>
+      other.mountPoints?.some(mountPoint => mountPoint.toLowerCase() === path.toLowerCase())
+    );
+    if (inUse) {
+      throw serviceError('The specified mount point is already in use.');
+    }
+
+    volume.mountPoints = [...(volume.mountPoints ?? []), path];
+    return 'DiskPart successfully assigned the drive letter or mount point.';
+  }
+
+  private setActive(active: boolean): string {
+    const { disk, partition } = this.requirePartition();
+    if (disk.gpt) {
+      const command = active ? 'ACTIVE' : 'INACTIVE';
+      throw new ScriptError(`The selected disk is not a fixed MBR disk.\nThe ${command} command can only be used on fixed MBR disks.`);
+    }
+    if (partition.kind !== 'Primary') {
+      throw serviceError('The specified partition is not a primary partition.');
+    }
+
+    if (!active) {
+      partition.active = false;
+      return 'DiskPart marked the current partition as inactive.';
+    }
+
+    disk.partitions.forEach(p => { p.active = p === partition; });
+    return 'DiskPart marked the current partition as active.';
+  }
+
+  private setGptAttributes(args: Record<string, string>): string {
+    const { disk, partition } = this.requirePartition();
+    if (!disk.gpt) {
+      throw serviceError('The selected disk is not a GPT disk.');
+    }
+    if (!args.attributes || !/^0x[0-9a-f]{1,16}$/i.test(args.attributes)) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    partition.gptAttributes = `0x${args.attributes.substring(2)}`;
+    return 'DiskPart successfully assigned the attributes to the selected GPT partition.';
+  }
+
+  private extend(args: Record<string, string>): string {
+    const { disk, partition } = this.requirePartition();
+    this.requireOnline(disk);
+    const volume = this.requireVolume(partition);
+
+    if (args.disk !== undefined) {
+      return this.extendToDisk(volume, args);
+    }
+
+    const available = this.getBoundaryAfter(disk, partition) - (partition.offset + partition.size);
+    const requested = args.size !== undefined ? parsePositiveInteger(args.size) * MB : available;
+    if (requested <= 0 || requested > available) {
+      throw serviceError('There is not enough usable space for this operation.');
+    }
+
+    partition.size += requested;
+    return 'DiskPart successfully extended the volume.';
+  }
+
+  private shrink(args: Record<string, string>): string {
+    const { disk, partition } = this.requirePartition();
+    this.requireOnline(disk);
+    const volume = this.requireVolume(partition);
+
+    if (volume.fileSystem && volume.fileSystem !== 'NTFS') {
+      throw serviceError('The volume cannot be shrunk because the file system does not support it.');
+    }
+
+    const reclaimable = this.getReclaimableSpace(partition, volume);
+    if ('querymax' in args) {
+      return `The maximum number of reclaimable bytes is: ${formatSize(reclaimable).padStart(7)} (${Math.floor(reclaimable / MB)} MB)`;
+    }
+
+    const desired = args.desired !== undefined ? parsePositiveInteger(args.desired) * MB : reclaimable;
+    const minimum = args.minimum !== undefined ? parsePositiveInteger(args.minimum) * MB : desired;
+    const amount = Math.min(desired, reclaimable);
+
+    if (amount <= 0 || amount < minimum) {
+      throw serviceError('The specified shrink size is too big and will cause the volume to be smaller than the minimum volume size.');
+    }
+
+    partition.size -= amount;
+    return `DiskPart successfully shrunk the volume by: ${formatSize(amount).padStart(7)}`;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Dynamic volumes
+  // ---------------------------------------------------------------------------
+
+  private createDynamicVolume(kind: string, args: Record<string, string>): string {
+    const spec = CREATE_VOLUME_LAYOUTS[kind.toLowerCase()];
+    if (!spec) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    // A simple volume goes on the selected disk unless disk= names one
+    const members = args.disk !== undefined
+      ? args.disk.split(',').map(value => this.requireDiskArgument(value))
+      : [this.requireDisk('There is no disk selected.\nPlease select a disk and try again.')];
+    if (members.length < spec.minDisks || members.length > spec.maxDisks || new Set(members).size !== members.length) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    members.forEach(disk => this.requireDynamicDisk(disk));
+
+    const requested = args.size !== undefined ? parsePositiveInteger(args.size) * MB : undefined;
+    const extents = members.map(disk => this.findFreeExtent(disk, requested));
+    if (extents.some(extent => !extent)) {
+      throw serviceError('There is not enough usable space for this operation.');
+    }
+
+    // Every member of a striped, mirrored or RAID-5 volume is the same size
+    const free = (extents as FreeExtent[]).map(extent => extent.size);
+    const size = requested ?? Math.floor(Math.min(...free) / MB) * MB;
+    const volume: SimVolume = { ...this.createVolume(), layout: spec.layout };
+    const partitions = members.map((disk, index) => {
+      const partition: SimPartition = {
+        kind: 'Dynamic Data',
+        size,
+        offset: (extents[index] as FreeExtent).offset,
+        active: false,
+        volume
+      };
+      this.insertPartition(disk, partition);
+      return partition;
+    });
+
+    this.selection = { disk: members[0], partition: partitions[0] };
+    return 'DiskPart successfully created the volume.';
+  }
+
+  private extendToDisk(volume: SimVolume, args: Record<string, string>): string {
+    if (volume.layout !== 'Simple' && volume.layout !== 'Spanned') {
+      throw serviceError('The operation is not supported by the volume. Only simple and spanned volumes on dynamic disks can be extended onto another disk.');
+    }
+
+    const disk = this.requireDiskArgument(args.disk);
+    this.requireDynamicDisk(disk);
+
+    const requested = args.size !== undefined ? parsePositiveInteger(args.size) * MB : undefined;
+    const extent = this.findFreeExtent(disk, requested);
+    if (!extent) {
+      throw serviceError('There is not enough usable space for this operation.');
+    }
+
+    this.insertPartition(disk, { kind: 'Dynamic Data', size: requested ?? extent.size, offset: extent.offset, active: false, volume });
+    const disks = new Set(this.getVolumeExtents(volume).map(member => member.disk));
+    volume.layout = disks.size > 1 ? 'Spanned' : 'Simple';
+    return 'DiskPart successfully extended the volume.';
+  }
+
+  private addMirror(args: Record<string, string>): string {
+    const { disk, partition } = this.requirePartition();
+    this.requireOnline(disk);
+    const volume = this.requireVolume(partition);
+    if (args.disk === undefined) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    if (volume.layout !== 'Simple' || this.getVolumeExtents(volume).length !== 1) {
+      throw serviceError('The volume cannot be mirrored. Only simple volumes with a single extent can be mirrored.');
+    }
+
+    const target = this.requireDiskArgument(args.disk);
+    this.requireDynamicDisk(target);
+    if (target === disk) {
+      throw serviceError('The mirror must be on a different disk than the volume.');
+    }
+
+    const extent = this.findFreeExtent(target, partition.size);
+    if (!extent) {
+      throw serviceError('There is not enough usable space for this operation.');
+    }
+
+    this.insertPartition(target, { kind: 'Dynamic Data', size: partition.size, offset: extent.offset, active: false, volume });
+    volume.layout = 'Mirror';
+    return 'DiskPart succeeded in adding a mirror to the volume.';
+  }
+
+  private breakMirror(args: Record<string, string>): string {
+    const { disk, partition } = this.requirePartition();
+    this.requireOnline(disk);
+    const volume = this.requireVolume(partition);
+    if (args.disk === undefined) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+
+    if (volume.layout !== 'Mirror') {
+      throw serviceError('The selected volume is not a mirror.');
+    }
+
+    const target = this.requireDiskArgument(args.disk);
+    const extents = this.getVolumeExtents(volume);
+    const broken = extents.find(extent => extent.disk === target);
+    const kept = extents.find(extent => extent !== broken);
+    if (!broken || !kept) {
+      throw serviceError('The specified disk does not hold a part of this volume.');
+    }
+
+    volume.layout = 'Simple';
+    if ('nokeep' in args) {
+      target.partitions = target.partitions.filter(p => p !== broken.partition);
+    } else {
+      // The split-off half keeps the data but gets a volume of its own, without a letter
+      broken.partition.volume = {
+        ...this.createVolume(),
+        fileSystem: volume.fileSystem,
+        label: volume.label,
+        used: volume.used,
+        layout: 'Simple'
+      };
+    }
+
+    this.selection = { disk: kept.disk, partition: kept.partition };
+    return 'DiskPart successfully broke the mirror volume.';
+  }
+
+  // ---------------------------------------------------------------------------
+  // System-wide settings
+  // ---------------------------------------------------------------------------
+
+  private san(args: Record<string, string>): string {
+    if (args.policy === undefined) {
+      return `SAN Policy  : ${this.sanPolicy}`;
+    }
+    const policy = SAN_POLICIES[args.policy.toLowerCase()];
+    if (!policy) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    this.sanPolicy = policy;
+    return 'DiskPart successfully changed the SAN policy for the current operating system.';
+  }
+
+  private setAutomount(action: string): string {
+    switch (action) {
+      case '':
+        return `Automatic mounting of new volumes ${this.automount ? 'enabled' : 'disabled'}.`;
+      case 'enable':
+      case 'disable':
+        this.automount = action === 'enable';
+        return `Automatic mounting of new volumes ${this.automount ? 'enabled' : 'disabled'}.`;
+      case 'scrub':
+        return 'DiskPart successfully removed the mount point settings of volumes that are no longer present.';
+      default:
+        throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Disk IDs
+  // ---------------------------------------------------------------------------
+
+  private uniqueId(args: Record<string, string>): string {
+    // Works on offline disks too: that is how a cloned disk gets out of its collision
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    if (args.id === undefined) {
+      return `Disk ID: ${disk.diskId}`;
+    }
+
+    const id = args.id.replace(/^\{|\}$/g, '').toUpperCase();
+    const valid = disk.gpt
+      ? /^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/.test(id)
+      : /^[0-9A-F]{8}$/.test(id) && !/^0+$/.test(id);
+    if (!valid) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    disk.diskId = disk.gpt ? `{${id}}` : id;
+    return 'DiskPart successfully changed the disk ID.';
+  }
+
+  // ---------------------------------------------------------------------------
+  // Dynamic disk recovery
+  // ---------------------------------------------------------------------------
+
+  private importDisk(): string {
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    if (disk.status !== 'Foreign') {
+      throw serviceError('The disk is not a foreign disk.');
+    }
+    disk.status = 'Online';
+    return 'DiskPart successfully imported the foreign disk group.';
+  }
+
+  private recoverDisk(): string {
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    this.requireDynamicDisk(disk);
+    return 'DiskPart succeeded in recovering the disk pack.';
+  }
+
+  private repairVolume(args: Record<string, string>): string {
+    const { disk, partition } = this.requirePartition();
+    this.requireOnline(disk);
+    const volume = this.requireVolume(partition);
+    if (args.disk === undefined) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    if (volume.layout !== 'RAID-5') {
+      throw serviceError('The selected volume is not a RAID-5 volume.');
+    }
+
+    const target = this.requireDiskArgument(args.disk);
+    this.requireDynamicDisk(target);
+    if (this.getVolumeExtents(volume).some(extent => extent.disk === target)) {
+      throw serviceError('The specified disk already holds a part of this volume.');
+    }
+    if (!this.findFreeExtent(target, partition.size)) {
+      throw serviceError('There is not enough usable space for this operation.');
+    }
+
+    // Simulated members never fail, so there is nothing to rebuild
+    throw serviceError('The volume is healthy and does not need to be repaired.');
+  }
+
+  private deleteMissingDisk(): string {
+    this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    throw serviceError('The selected disk is not missing. Only missing disks can be deleted.');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Virtual disks
+  // ---------------------------------------------------------------------------
+
+  private listVirtualDisks(): string {
+    const selected = this.selection.virtualDisk;
+    const shown = this.virtualDisks.filter(vdisk => vdisk.attached || vdisk === selected);
+    if (shown.length === 0) {
+      return 'There are no virtual disks to show.';
+    }
+
+    const rows = shown.map(vdisk => [
+      `${vdisk === selected ? '*' : ' '} VDisk ${this.virtualDisks.indexOf(vdisk)}`,
+      vdisk.attached ? `Disk ${this.disks.indexOf(vdisk.disk)}` : 'Disk ---',
+      vdisk.attached ? 'Attached not open' : 'Added',
+      vdisk.type,
+      vdisk.file
+    ]);
+
+    return renderTable(
+      [
+        { title: 'VDisk ###', width: 9 },
+        { title: 'Disk ###', width: 8 },
+        { title: 'State', width: 20 },
+        { title: 'Type', width: 9 },
+        { title: 'File', width: 4 }
+      ],
+      rows
+    );
+  }
+
+  private selectVirtualDisk(args: Record<string, string>): string {
+    const file = args.file;
+    if (!file) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    const vdisk = this.findVirtualDisk(file);
+    if (!vdisk) {
+      throw serviceError('The system cannot find the file specified.');
+    }
+    this.selection = { virtualDisk: vdisk };
+    return 'DiskPart successfully selected the virtual disk file.';
+  }
+
+  private detailVirtualDisk(): string {
+    const vdisk = this.requireVirtualDisk();
+    const extension = vdisk.file.split('.').pop()?.toLowerCase() || '';
+
+    return [
+      `Device type ID: ${VDISK_DEVICE_TYPES[extension] ?? '0 (Unknown)'}`,
+      `Vendor ID: ${MICROSOFT_VENDOR_ID}`,
+      `State: ${vdisk.attached ? 'Attached not open' : 'Added'}`,
+      `Virtual size: ${formatSize(vdisk.disk.size).padStart(7)}`,
+      `Physical size: ${formatSize(this.getPhysicalSize(vdisk)).padStart(7)}`,
+      `Filename: ${vdisk.file}`,
+      'Is Child: No',
+      'Parent Filename:',
+      `Associated disk#: ${vdisk.attached ? this.disks.indexOf(vdisk.disk) : 'Not found.'}`
+    ].join('\n');
+  }
+
+  private createVirtualDisk(args: Record<string, string>): string {
+    const file = args.file;
+    const extension = (file || '').split('.').pop()?.toLowerCase();
+    if (!file || args.maximum === undefined || (extension !== 'vhd' && extension !== 'vhdx')) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    const typeArg = (args.type ?? 'fixed').toLowerCase();
+    if (typeArg !== 'fixed' && typeArg !== 'expandable') {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    const type = typeArg === 'fixed' ? 'Fixed' : 'Expandable';
+
+    const size = parsePositiveInteger(args.maximum) * MB;
+    if (size > (extension === 'vhd' ? VHD_MAX_SIZE : VHDX_MAX_SIZE)) {
+      throw serviceError('The requested size exceeds the maximum size supported by this virtual disk format.');
+    }
+    if (this.findVirtualDisk(file)) {
+      throw serviceError('The file exists.');
+    }
+
+    const vdisk: SimVirtualDisk = {
+      file,
+      type,
+      attached: false,
+      physicalSize: type === 'Fixed' ? size : VDISK_BASE_SIZE,
+      disk: {
+        model: 'Msft Virtual Disk',
+        diskId: '00000000',
+        bus: 'File Backed Virtual',
+        locationPath: 'UNAVAILABLE',
+        status: 'Online',
+        size,
+        removable: false,
+        readOnly: false,
+        dynamic: false,
+        gpt: false,
+        partitions: []
+      }
+    };
+    this.virtualDisks.push(vdisk);
+    this.selection = { virtualDisk: vdisk };
+
+    const done = 'DiskPart successfully created the virtual disk file.';
+    // Only a fixed file is written out in full
+    return type === 'Fixed' ? `  100 percent completed\n\n${done}` : done;
+  }
+
+  private attachVirtualDisk(args: Record<string, string>): string {
+    const vdisk = this.requireVirtualDisk();
+    if (vdisk.attached) {
+      throw serviceError('The virtual disk is already attached.');
+    }
+    vdisk.attached = true;
+    vdisk.disk.readOnly = 'readonly' in args;
+    this.disks.push(vdisk.disk);
+    return '  100 percent completed\n\nDiskPart successfully attached the virtual disk file.';
+  }
+
+  private detachVirtualDisk(): string {
+    const vdisk = this.requireVirtualDisk();
+    if (!vdisk.attached) {
+      throw serviceError('The virtual disk is not attached.');
+    }
+    if (this.hasProtectedVolume(vdisk.disk.partitions)) {
+      throw serviceError('The virtual disk cannot be detached because it holds the boot or system volume.');
+    }
+    vdisk.attached = false;
+    vdisk.disk.readOnly = false;
+    this.disks.splice(this.disks.indexOf(vdisk.disk), 1);
+    return 'DiskPart successfully detached the virtual disk file.';
+  }
+
+  private expandVirtualDisk(args: Record<string, string>): string {
+    const vdisk = this.requireVirtualDisk();
+    if (args.maximum === undefined) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    const size = parsePositiveInteger(args.maximum) * MB;
+    if (vdisk.attached) {
+      throw serviceError('The requested operation requires that the virtual disk be detached.');
+    }
+    const limit = vdisk.file.toLowerCase().endsWith('.vhd') ? VHD_MAX_SIZE : VHDX_MAX_SIZE;
+    if (size <= vdisk.disk.size || size > limit) {
+      throw serviceError('The parameter is incorrect.');
+    }
+
+    if (vdisk.type === 'Fixed') {
+      vdisk.physicalSize = size;
+    }
+    vdisk.disk.size = size;
+    return '  100 percent completed\n\nDiskPart successfully expanded the virtual disk file.';
+  }
+
+  private compactVirtualDisk(): string {
+    const vdisk = this.requireVirtualDisk();
+    if (vdisk.type === 'Fixed') {
+      throw serviceError('The requested operation is not supported on a fixed virtual disk.');
+    }
+    if (vdisk.attached && !vdisk.disk.readOnly) {
+      throw serviceError('The virtual disk must be detached or attached read-only to be compacted.');
+    }
+    vdisk.physicalSize = VDISK_BASE_SIZE + this.getWrittenSize(vdisk.disk);
+    return '  100 percent completed\n\nDiskPart successfully compacted the virtual disk file.';
+  }
+
+  // ---------------------------------------------------------------------------
+  // Model helpers
+  // ---------------------------------------------------------------------------
+
+  private isSelectedDisk(disk: SimDisk): boolean {
+    return this.selection.disk === disk;
+  }
+
+  private requireDisk(message: string): SimDisk {
+    if (!this.selection.disk) {
+      throw new ScriptError(message);
+    }
+    return this.selection.disk;
+  }
+
+  private requirePartition(): { disk: SimDisk; partition: SimPartition } {
+    const disk = this.requireDisk('There is no disk selected.\nPlease select a disk and try again.');
+    if (!this.selection.partition) {
+      throw new ScriptError('There is no partition selected.\nPlease select a partition and try again.');
+    }
+    return { disk, partition: this.selection.partition };
+  }
+
+  private requireVirtualDisk(): SimVirtualDisk {
+    if (!this.selection.virtualDisk) {
+      throw new ScriptError('There is no virtual disk selected.\n\nPlease select a virtual disk and try again.');
+    }
+    return this.selection.virtualDisk;
+  }
+
+  private findVirtualDisk(file: string): SimVirtualDisk | undefined {
+    return this.virtualDisks.find(vdisk => vdisk.file.toLowerCase() === file.toLowerCase());
+  }
+
+  /**
+   * Bytes the partitions of a disk have written: their tables and their volumes' data
+   */
+  private getWrittenSize(disk: SimDisk): number {
+    return disk.partitions.reduce((total, partition) => total + MB + (partition.volume?.used ?? 0), 0);
+  }
+
+  /**
+   * An expandable file grows to hold what has been written and only
+   * shrinks again when compacted
+   */
+  private getPhysicalSize(vdisk: SimVirtualDisk): number {
+    if (vdisk.type === 'Expandable') {
+      vdisk.physicalSize = Math.max(vdisk.physicalSize, VDISK_BASE_SIZE + this.getWrittenSize(vdisk.disk));
+    }
+    return vdisk.physicalSize;
+  }
+
+  private requireVolume(partition: SimPartition): SimVolume {
+    if (!partition.volume) {
+      throw new ScriptError('There is no volume selected.\nPlease select a volume and try again.');
+    }
+    return partition.volume;
+  }
+
+  /**
+   * The disk a "disk=" argument names
+   */
+  private requireDiskArgument(value: string): SimDisk {
+    const index = Number(value);
+    if (!Number.isInteger(index) || index < 0) {
+      throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+    }
+    const disk = this.disks[index];
+    if (!disk) {
+      throw new ScriptError('The disk you specified is not valid.');
+    }
+    return disk;
+  }
+
+  /**
+   * A disk a dynamic volume can take space from: online, writable and dynamic
+   */
+  private requireDynamicDisk(disk: SimDisk): void {
+    this.requireOnline(disk);
+    this.requireWritable(disk);
+    if (!disk.dynamic) {
+      throw serviceError('The disk is not a dynamic disk. Convert it to dynamic and try again.');
+    }
+  }
+
+  private requireOnline(disk: SimDisk): void {
+    if (disk.status !== 'Online') {
+      throw serviceError('The operation cannot be completed because the disk is offline or has no media.');
+    }
+  }
+
+  private requireWritable(disk: SimDisk, volume?: SimVolume): void {
+    if (disk.readOnly || volume?.attributes?.readOnly) {
+      throw serviceError('The media is write protected.');
+    }
+  }
+
+  private getVolumeAttributes(partition: SimPartition, volume: SimVolume): Record<SimVolumeAttribute, boolean> {
+    const hidden = PARTITION_TYPES[partition.kind].hidden;
+    return {
+      readOnly: false,
+      hidden,
+      noDefaultDriveLetter: hidden,
+      shadowCopy: false,
+      ...volume.attributes
+    };
+  }
+
+  private renderDiskAttributes(disk: SimDisk): string[] {
+    const entries = this.getVolumeEntries().filter(entry => entry.disk === disk);
+    const hasInfo = (flag: string) => entries.some(entry => entry.volume.info.includes(flag));
+    const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+
+    return [
+      `Current Read-only State : ${yesNo(disk.readOnly)}`,
+      `Read-only  : ${yesNo(disk.readOnly)}`,
+      `Boot Disk  : ${yesNo(hasInfo('System'))}`,
+      `Pagefile Disk  : ${yesNo(hasInfo('Boot'))}`,
+      'Hibernation File Disk  : No',
+      `Crashdump Disk  : ${yesNo(hasInfo('Boot'))}`,
+      'Clustered Disk  : No'
+    ];
+  }
+
+  private renderVolumeAttributes(partition: SimPartition, volume: SimVolume): string[] {
+    const attributes = this.getVolumeAttributes(partition, volume);
+    const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+
+    return [
+      `Read-only              : ${yesNo(attributes.readOnly)}`,
+      `Hidden                 : ${yesNo(attributes.hidden)}`,
+      `No Default Drive Letter: ${yesNo(attributes.noDefaultDriveLetter)}`,
+      `Shadow Copy            : ${yesNo(attributes.shadowCopy)}`
+    ];
+  }
+
+  private hasProtectedVolume(partitions: SimPartition[]): boolean {
+    return partitions.some(p =>
+      p.volume?.info.some(flag => flag === 'Boot' || flag === 'System')
+    );
+  }
+
+  private createVolume(): SimVolume {
+    return { id: this.nextVolumeId++, used: 0, info: [] };
+  }
+
+  /**
+   * One entry per volume, at its first extent for volumes on dynamic disks
+   */
+  private getVolumeEntries(): VolumeEntry[] {
+    const entries: VolumeEntry[] = [];
+    for (const disk of this.disks) {
+      for (const partition of disk.partitions) {
+        if (partition.volume && !entries.some(entry => entry.volume === partition.volume)) {
+          entries.push({ disk, partition, volume: partition.volume });
+        }
+      }
+    }
+    return entries.sort((a, b) => a.volume.id - b.volume.id);
+  }
+
+  private getVolumeExtents(volume: SimVolume): { disk: SimDisk; partition: SimPartition }[] {
+    const extents: { disk: SimDisk; partition: SimPartition }[] = [];
+    for (const disk of this.disks) {
+      for (const partition of disk.partitions) {
+        if (partition.volume === volume) {
+          extents.push({ disk, partition });
+        }
+      }
+    }
+    return extents;
+  }
+
+  /**
+   * What the volume holds: its partition on a basic disk, otherwise its
+   * extents less the mirror copy or RAID-5 parity
+   */
+  private getVolumeSize(partition: SimPartition, volume: SimVolume): number {
+    if (!volume.layout) {
+      return partition.size;
+    }
+    const extents = this.getVolumeExtents(volume).map(extent => extent.partition.size);
+    if (volume.layout === 'Mirror') {
+      return extents[0];
+    }
+    if (volume.layout === 'RAID-5') {
+      return extents[0] * (extents.length - 1);
+    }
+    return extents.reduce((total, size) => total + size, 0);
+  }
+
+  private getUsedLetters(): Set<string> {
+    const letters = new Set<string>();
+    for (const { volume } of this.getVolumeEntries()) {
+      if (volume.letter) letters.add(volume.letter);
+    }
+    return letters;
+  }
+
+  private getUsableEnd(disk: SimDisk): number {
+    return disk.size - (disk.gpt ? GPT_TRAILER : 0);
+  }
+
+  /**
+   * Free extents on the disk, or inside the extended partition when it is
+   * given as the container
+   */
+  private getFreeExtents(disk: SimDisk, container?: SimPartition): FreeExtent[] {
+    const extents: FreeExtent[] = [];
+    let cursor = container ? container.offset : FIRST_USABLE_OFFSET;
+    const partitions = disk.partitions.filter(p => (p.kind === 'Logical') === (container !== undefined));
+
+    for (const partition of partitions) {
+      if (partition.offset - cursor >= MB) {
+        extents.push({ offset: cursor, size: partition.offset - cursor });
+      }
+      cursor = Math.max(cursor, partition.offset + partition.size);
+    }
+
+    const end = container ? container.offset + container.size : this.getUsableEnd(disk);
+    if (end - cursor >= MB) {
+      extents.push({ offset: cursor, size: end - cursor });
+    }
+    return extents;
+  }
+
+  private getFreeSpace(disk: SimDisk): number {
+    return this.getFreeExtents(disk).reduce((total, extent) => total + extent.size, 0);
+  }
+
+  /**
+   * Find where a new partition goes: the extent holding the requested offset,
+   * or else the first one big enough (the largest one without a size). The
+   * start is rounded up to the alignment and the size is what is left after it
+   */
+  private findFreeExtent(
+    disk: SimDisk,
+    size?: number,
+    placement: { offset?: number; align?: number; container?: SimPartition } = {}
+  ): FreeExtent | undefined {
+    const { offset, align, container } = placement;
+    const candidates = this.getFreeExtents(disk, container)
+      .filter(extent => offset === undefined || (offset >= extent.offset && offset < extent.offset + extent.size))
+      .map(extent => {
+        const start = offset ?? extent.offset;
+        const aligned = align ? Math.ceil(start / align) * align : start;
+        return { offset: aligned, size: extent.offset + extent.size - aligned };
+      })
+      .filter(extent => extent.size >= MB);
+
+    if (size === undefined) {
+      return candidates.sort((a, b) => b.size - a.size)[0];
+    }
+    return candidates.find(extent => extent.size >= size);
+  }
+
+  private getBoundaryAfter(disk: SimDisk, partition: SimPartition): number {
+    const end = partition.offset + partition.size;
+    const next = disk.partitions
+      .filter(p => p !== partition && p.kind !== 'Logical' && p.offset >= end)
+      .sort((a, b) => a.offset - b.offset)[0];
+    return next ? next.offset : this.getUsableEnd(disk);
+  }
+
+  private getReclaimableSpace(partition: SimPartition, volume: SimVolume): number {
+    // NTFS cannot move the MFT and other unmovable files below roughly half the volume
+    const unmovable = Math.max(volume.used, Math.floor(partition.size / 2));
+    return Math.max(0, Math.floor((partition.size - unmovable) / MB) * MB);
+  }
+
+  private insertPartition(disk: SimDisk, partition: SimPartition): void {
+    disk.partitions = [...disk.partitions, partition].sort((a, b) => a.offset - b.offset);
+  }
+
+  /**
+   * Build the demo layout: a GPT system disk, an MBR data disk,
+   * a removable stick and an offline SAN LUN
+   */
+  private createDefaultDisks(): SimDisk[] {
+    const volume = (fields: Partial<SimVolume>): SimVolume => ({
+      ...this.createVolume(),
+      ...fields
+    });
+
+    const systemDiskSize = 238 * GB;
+    const efiSize = 100 * MB;
+    const msrSize = 16 * MB;
+    const recoverySize = 499 * MB;
+    const windowsOffset = FIRST_USABLE_OFFSET + efiSize + msrSize;
+    const windowsSize = systemDiskSize - GPT_TRAILER - recoverySize - windowsOffset;
+
+    return [
+      {
+        model: 'Samsung SSD 860 EVO 250GB',
+        diskId: '{6F1D2B3A-4C5E-4F60-8A7B-9C0D1E2F3A4B}',
+        bus: 'SATA',
+        locationPath: 'PCIROOT(0)#PCI(1F02)#ATA(C00T00L00)',
+        status: 'Online',
+        size: systemDiskSize,
+        removable: false,
+        readOnly: false,
+        dynamic: false,
+        gpt: true,
+        partitions: [
+          {
+            kind: 'System',
+            size: efiSize,
+            offset: FIRST_USABLE_OFFSET,
+            active: false,
+            volume: volume({ label: 'SYSTEM', fileSystem: 'FAT32', used: 30 * MB, info: ['System'] })
+          },
+          { kind: 'Reserved', size: msrSize, offset: FIRST_USABLE_OFFSET + efiSize, active: false },
+          {
+            kind: 'Primary',
+            size: windowsSize,
+            offset: windowsOffset,
+            active: false,
+            volume: volume({ letter: 'C', label: 'Windows', fileSystem: 'NTFS', used: 96 * GB, info: ['Boot'] })
+          },
+          {
+            kind: 'Recovery',
+            size: recoverySize,
+            offset: windowsOffset + windowsSize,
+            active: false,
+            volume: volume({ label: 'Recovery', fileSystem: 'NTFS', used: 410 * MB, info: ['Hidden'] })
+          }
+        ]
+      },
+      {
+        model: 'WDC WD10EZEX-00BN5A0',
+        diskId: '8C3F21A7',
+        bus: 'SATA',
+        locationPath: 'PCIROOT(0)#PCI(1F02)#ATA(C01T00L00)',
+        status: 'Online',
+        size: 931 * GB,
+        removable: false,
+        readOnly: false,
+        dynamic: false,
+        gpt: false,
+        partitions: [
+          {
+            kind: 'Primary',
+            size: 500 * GB,
+            offset: FIRST_USABLE_OFFSET,
+            active: false,
+            volume: volume({ letter: 'D', label: 'Data', fileSystem: 'NTFS', used: 212 * GB })
+          }
+        ]
+      },
+      {
+        model: 'SanDisk Cruzer Blade USB Device',
+        diskId: '0017E9B2',
+        bus: 'USB',
+        locationPath: 'UNAVAILABLE',
+        status: 'Online',
+        size: 14 * GB,
+        removable: true,
+        readOnly: false,
+        dynamic: false,
+        gpt: false,
+        partitions: [
+          {
+            kind: 'Primary',
+            size: 14 * GB - FIRST_USABLE_OFFSET,
+            offset: FIRST_USABLE_OFFSET,
+            active: true,
+            volume: volume({ letter: 'E', label: 'USB STICK', fileSystem: 'FAT32', used: 2 * GB })
+          }
+        ]
+      },
+      {
+        model: 'NETAPP LUN C-Mode Multi-Path Disk',
+        diskId: '{2B7E4C19-90AD-4E3B-B1F2-5A6C7D8E9F01}',
+        bus: 'iSCSI',
+        locationPath: 'UNAVAILABLE',
+        status: 'Offline',
+        size: 100 * GB,
+        removable: false,
+        readOnly: false,
+        dynamic: false,
+        gpt: true,
+        partitions: [
+          {
+            kind: 'Primary',
+            size: 100 * GB - FIRST_USABLE_OFFSET - GPT_TRAILER,
+            offset: FIRST_USABLE_OFFSET,
+            active: false,
+            volume: volume({ label: 'Evidence', fileSystem: 'NTFS', used: 40 * GB })
+          }
+        ]
+      }
+    ];
+  }
+}
+
+interface VolumeEntry {
+  disk: SimDisk;
+  partition: SimPartition;
+  volume: SimVolume;
+}
+
+interface TableColumn {
+  title: string;
+  width: number;
+  alignRight?: boolean;
+}
+
+/**
+ * Render a Diskpart-style table with a dashed separator line.
+ * Titles are left-aligned; rows marked with a leading "*" are the current
+ * selection and keep the "*" in the margin, as Diskpart does. Continuation
+ * lines (volume mount paths) are printed indented under their row.
+ */
+function renderTable(columns: TableColumn[], rows: string[][], continuations: string[][] = []): string {
+  const renderRow = (cells: string[], margin: string, isHeader: boolean = false) =>
+    margin + cells
+      .map((cell, index) => {
+        const column = columns[index];
+        return column.alignRight && !isHeader ? cell.padStart(column.width) : cell.padEnd(column.width);
+      })
+      .join('  ')
+      .trimEnd();
+
+  const lines = [
+    renderRow(columns.map(column => column.title), '  ', true),
+    renderRow(columns.map(column => '-'.repeat(column.width)), '  ')
+  ];
+
+  rows.forEach(([first, ...rest], index) => {
+    lines.push(renderRow([first.substring(2), ...rest], first.startsWith('*') ? '* ' : '  '));
+    for (const continuation of continuations[index] ?? []) {
+      lines.push(`    ${continuation}`);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a byte count the way Diskpart does: whole numbers, switching to the
+ * next unit only once the value reaches ten of it (e.g. "1024 KB", "1863 GB")
+ */
+function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unitIndex = 0;
+
+  while (unitIndex < units.length - 1 && value >= 10 * 1024) {
+    value /= 1024;
+    unitIndex++;
+  }
+
+  return `${Math.round(value)} ${units[unitIndex]}`;
+}
+
+/**
+ * Parse key=value arguments, honouring quoted values such as label="My Disk".
+ * Bare words are recorded with an empty value.
+ */
+function parseArguments(text: string): Record<string, string> {
+  const args: Record<string, string> = {};
+  const pattern = /(\w+)(?:=("[^"]*"|\S+))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [, key, value] = match;
+    args[key.toLowerCase()] = value !== undefined ? value.replace(/^"|"$/g, '') : '';
+  }
+
+  return args;
+}
+
+function parsePositiveInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an allocation unit such as "4096" or "64K" into bytes
+ */
+function parseUnitSize(value: string): number {
+  const match = value.match(/^(\d+)([KM]?)$/i);
+  if (!match) {
+    throw new ScriptError(INVALID_ARGUMENTS, EXIT_SYNTAX_ERROR);
+  }
+  const multiplier = { '': 1, K: KB, M: MB }[match[2].toUpperCase() as '' | 'K' | 'M'];
+  return parseInt(match[1], 10) * multiplier;
+}
+
+/**
+ * Diskpart accepts any prefix of a keyword that is at least three characters long
+ */
+function matches(word: string, keyword: string): boolean {
+  return word.length >= 3 && keyword.startsWith(word);
+}
+
+/**
+ * Normalize a folder path to end with a backslash, the way "list volume"
+ * prints it. Returns undefined for drive roots and malformed paths
+ */
+function normalizeMountPath(path: string): string | undefined {
+  const match = path.match(/^([A-Za-z]:(?:\\[^\\/:*?"<>|]+)+)\\?$/);
+  return match ? `${match[1]}\\` : undefined;
+}
+
+function findFreeLetter(used: Set<string>): string | undefined {
+  for (let code = 'D'.charCodeAt(0); code <= 'Z'.charCodeAt(0); code++) {
+    const letter = String.fromCharCode(code);
+    if (!used.has(letter)) return letter;
+  }
+  return undefined;
+}
\ No newline at end of file
@@ -0,0 +1,139 @@
+/**
+ * Storage topology module
+ * Joins "list disk", "list volume", "detail disk" and "detail partition"
+ * output into one model, so a partition knows its volume and a volume knows
+ * the disk and partition it lives on
+ */
+
+import { CommandResult, DiskDetail, DiskInfo, PartitionInfo, VolumeInfo } from '../../shared/types';
+import { executeAndParse } from './executor';
+import {
+  buildListDisksCommand,
+  buildListVolumesCommand,
+  buildListPartitionsCommand,
+  buildSelectDiskCommand,
+  buildDetailDiskScript,
+  buildDetailPartitionScript,
+  buildCommandScript
+} from './commands';
+import {
+  parseListDisk,
+  parseListVolume,
+  parseListPartition,
+  parseDetailDisk,
+  parseDetailPartition,
+  applyPartitionDetail
+} from './parser';
+import { logWarning } from '../utils/logger';
+
+/**
+ * List the partitions of a disk and complete each one with "detail partition".
+ * "list partition" alone has no file system, label, letter or type ID.
+ * @param diskId - The disk number
+ */
+export async function listPartitionsWithDetails(diskId: number): Promise<CommandResult> {
+  const script = buildCommandScript([
+    buildSelectDiskCommand(diskId),
+    buildListPartitionsCommand()
+  ]);
+  const result = await executeAndParse(script, parseListPartition);
+  if (!result.success) {
+    return result;
+  }
+
+  // The extended container is numbered 0 and cannot be selected
+  const partitions: PartitionInfo[] = await Promise.all(
+    (result.data as PartitionInfo[]).map(async (partition) => {
+      if (partition.id < 1) {
+        return partition;
+      }
+      const detail = await executeAndParse(
+        buildDetailPartitionScript(diskId, partition.id),
+        parseDetailPartition
+      );
+      if (!detail.success) {
+        logWarning(`Could not get details for partition ${partition.id} on disk ${diskId}`, detail.message);
+        return partition;
+      }
+      return applyPartitionDetail(partition, detail.data);
+    })
+  );
+
+  return {
+    success: true,
+    message: 'Partitions listed with details',
+    data: partitions
+  };
+}
+
+/**
+ * Build the joined disk → partition → volume model.
+ * Disks that are offline or have no media are listed without partitions.
+ */
+export async function getStorageTopology(): Promise<CommandResult> {
+  const disksResult = await executeAndParse(buildListDisksCommand(), parseListDisk);
+  if (!disksResult.success) {
+    return disksResult;
+  }
+
+  const volumesResult = await executeAndParse(buildListVolumesCommand(), parseListVolume);
+  if (!volumesResult.success) {
+    return volumesResult;
+  }
+
+  const disks: DiskInfo[] = disksResult.data;
+  const volumes: VolumeInfo[] = volumesResult.data;
+  const volumesById = new Map(volumes.map(volume => [volume.id, volume]));
+
+  // One disk at a time keeps the queue free for anything the user starts meanwhile
+  for (const disk of disks) {
+    // Offline disks are still detailed for their ID: a clone Windows took offline collides with its original
+    if (disk.status !== 'Online' && disk.status !== 'Offline') {
+      continue;
+    }
+
+    const detailResult = await executeAndParse(buildDetailDiskScript(disk.id), parseDetailDisk);
+    if (detailResult.success) {
+      const detail: DiskDetail = detailResult.data;
+      disk.uniqueId = detail.diskId || undefined;
+      disk.isBootDisk = detail.isBootDisk;
+      disk.isSystemDisk = detail.isPagefileDisk ||
+        detail.volumes.some(volume => /\b(System|Boot)\b/.test(volume.info));
+
+      // Volumes without a partition of their own (e.g. spanned) are placed by "detail disk"
+      for (const { id } of detail.volumes) {
+        const volume = volumesById.get(id);
+        if (volume && volume.diskId === undefined) {
+          volume.diskId = disk.id;
+        }
+      }
+    } else {
+      logWarning(`Could not get details for disk ${disk.id}`, detailResult.message);
+    }
+    if (disk.status !== 'Online') {
+      continue;
+    }
+
+    const partitionsResult = await listPartitionsWithDetails(disk.id);
+    if (!partitionsResult.success) {
+      logWarning(`Could not list partitions for disk ${disk.id}`, partitionsResult.message);
+      continue;
+    }
+
+    disk.partitions = (partitionsResult.data as PartitionInfo[]).map((partition) => {
+      const volume = partition.volumeId !== undefined ? volumesById.get(partition.volumeId) : undefined;
+      if (!volume) {
+        return partition;
+      }
+      volume.diskId = disk.id;
+      volume.partitionId = partition.id;
+      return { ...partition, mountPoints: volume.mountPoints };
+    });
+  }
+
+  return {
+    success: true,
+    message: 'Storage topology built',
+    data: { disks, volumes }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+/**
+ * Windows Diskpart backend
+ * Runs scripts through a persistent interactive diskpart.exe session
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import type { BackendResult, DiskBackend, DiskSelection, RunOptions } from './backend';
+import { DiskpartSession } from './session';
+
+const execAsync = promisify(exec);
+
+// Exit code reported when a command in the script failed (matches "diskpart /s")
+const EXIT_COMMAND_FAILED = 4;
+
+export class WindowsDiskpartBackend implements DiskBackend {
+  readonly name = 'diskpart' as const;
+  readonly requiresElevation = true;
+
+  private session = new DiskpartSession();
+
+  async run(script: string, options: RunOptions): Promise<BackendResult> {
+    const { output, failed } = await this.session.runScript(script, options);
+    return {
+      stdout: output,
+      stderr: '',
+      exitCode: failed ? EXIT_COMMAND_FAILED : 0
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const { stdout } = await execAsync('where diskpart', {
+        timeout: 5000,
+        windowsHide: true
+      });
+      return stdout.trim().length > 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  getSelection(): DiskSelection {
+    return this.session.getSelection();
+  }
+
+  dispose(): void {
+    this.session.dispose();
+  }
+}
\ No newline at end of file
@@ -2,33 +2,112 @@ import { app, BrowserWindow, ipcMain } from 'electron';
 import * as path from 'path';
 import { initializeLogger, logInfo, logError } from './utils/logger';
 import { isRunningAsAdmin } from './utils/privileges';
-import { executeDiskpartCommand, executeAndParse, executeDestructiveCommand } from './diskpart/executor';
+import {
+  executeDiskpartCommand,
+  executeAndParse,
+  executeDestructiveCommand,
+  executeLongRunningCommand,
+  getJobQueue,
+  cancelJob,
+  onJobQueueChange,
+  onCommandOutput,
+  onOperationProgress
+} from './diskpart/executor';
+import { getStorageTopology, listPartitionsWithDetails } from './diskpart/topology';
+import { createBackend, getBackend, resolveBackendName, setBackend } from './diskpart/backend';
+import {
+  enforceForensicProfile,
+  getDisabledForensicProfile,
+  getForensicViolation,
+  isForensicProfileEnabled,
+  readStorageSettings
+} from './diskpart/forensicProfile';
 import {
   buildListDisksCommand,
   buildListVolumesCommand,
-  buildListPartitionsCommand,
   buildDetailDiskScript,
+  buildDetailPartitionScript,
+  buildDetailVolumeScript,
+  buildAssignMountScript,
+  buildSwapLettersScript,
+  buildRemoveMountScript,
   buildSelectDiskCommand,
   buildCleanDiskCommand,
   buildCleanAllCommand,
+  buildOnlineDiskCommand,
+  buildOfflineDiskCommand,
+  buildDiskAttributesScript,
+  buildSetDiskReadOnlyCommand,
+  buildUniqueIdScript,
+  buildSetUniqueIdScript,
+  buildVolumeAttributesScript,
+  buildSetVolumeAttributesScript,
+  buildConvertDiskScript,
   buildCreatePartitionCommand,
   buildDeletePartitionCommand,
   buildFormatPartitionScript,
   buildAssignLetterCommand,
   buildRemoveLetterCommand,
+  buildShrinkQueryMaxScript,
+  buildSetActiveScript,
+  buildSetInactiveScript,
+  buildGptAttributesScript,
+  buildExtendPartitionScript,
+  buildShrinkPartitionScript,
+  buildPendingOperationsScript,
+  buildCreateDynamicVolumeScript,
+  buildAddMirrorScript,
+  buildBreakMirrorScript,
+  buildImportDiskScript,
+  buildRecoverDiskScript,
+  buildRepairVolumeScript,
+  buildDeleteMissingDiskScript,
+  buildSetSanPolicyCommand,
+  buildSetAutomountCommand,
+  buildListVirtualDisksCommand,
+  buildDetailVirtualDiskScript,
+  buildCreateVirtualDiskScript,
+  buildAttachVirtualDiskScript,
+  buildDetachVirtualDiskScript,
+  buildExpandVirtualDiskScript,
+  buildCompactVirtualDiskScript,
   buildCommandScript,
   buildSelectPartitionCommand
 } from './diskpart/commands';
 import {
   parseListDisk,
   parseListVolume,
-  parseListPartition,
-  parseDetailDisk
+  parseDetailDisk,
+  parseDetailPartition,
+  parseDetailVolume,
+  parseAttributesDisk,
+  parseAttributesVolume,
+  parseUniqueId,
+  parseShrinkQueryMax,
+  parseListVirtualDisks,
+  parseDetailVirtualDisk
 } from './diskpart/parser';
-import { IPCResponse } from '../shared/types';
+import {
+  AutomountAction,
+  CreateDynamicVolumeOptions,
+  CreatePartitionOptions,
+  CreateVirtualDiskOptions,
+  DiskConversion,
+  DiskInfo,
+  ForensicProfileStatus,
+  FormatOptions,
+  IPCResponse,
+  JobInfo,
+  PlannedOperation,
+  SanPolicy,
+  VolumeAttributes
+} from '../shared/types';
 
 let mainWindow: BrowserWindow | null = null;
 
+// Outcome of enforcing the forensic profile at startup
+let forensicProfile: Promise<ForensicProfileStatus> = Promise.resolve(getDisabledForensicProfile());
+
 function createWindow(): void {
   mainWindow = new BrowserWindow({
     width: 1200,
@@ -64,6 +143,14 @@ app.whenReady().then(() => {
   initializeLogger();
   logInfo('Application started');
 
+  // Select the disk backend (DISKPART_BACKEND=simulated or --simulate for development)
+  setBackend(createBackend(resolveBackendName()));
+
+  // Hold new disks offline and unmounted (--forensic or DISKPART_FORENSIC=1)
+  if (isForensicProfileEnabled()) {
+    forensicProfile = enforceForensicProfile();
+  }
+
   createWindow();
 
   app.on('activate', () => {
@@ -73,6 +160,26 @@ app.whenReady().then(() => {
   });
 });
 
+// Forward job queue changes to the renderer
+onJobQueueChange((jobs) => {
+  mainWindow?.webContents.send('queue:changed', jobs);
+});
+
+// Stream Diskpart output to the renderer while jobs run
+onCommandOutput((event) => {
+  mainWindow?.webContents.send('command:output', event);
+});
+
+// Report percent-complete progress of long-running operations
+onOperationProgress((progress) => {
+  mainWindow?.webContents.send('operation:progress', progress);
+});
+
+app.on('will-quit', () => {
+  // Stop the persistent Diskpart session
+  getBackend().dispose();
+});
+
 app.on('window-all-closed', () => {
   logInfo('Application closed');
   if (process.platform !== 'darwin') {
@@ -162,11 +269,7 @@ ipcMain.handle('diskpart:list-volumes', async (): Promise<IPCResponse> => {
 ipcMain.handle('diskpart:list-partitions', async (_event, diskId: number): Promise<IPCResponse> => {
   try {
     logInfo(`Listing partitions for disk ${diskId}`);
-    const script = buildCommandScript([
-      buildSelectDiskCommand(diskId),
-      buildListPartitionsCommand()
-    ]);
-    const result = await executeAndParse(script, parseListPartition);
+    const result = await listPartitionsWithDetails(diskId);
 
     if (!result.success) {
       return {
@@ -197,13 +300,49 @@ ipcMain.handle('diskpart:list-partitions', async (_event, diskId: number): Promi
 });
 
 /**
- * Select a disk
+ * Get disks, partitions and volumes joined into one model
+ */
+ipcMain.handle('diskpart:get-topology', async (): Promise<IPCResponse> => {
+  try {
+    logInfo('Building storage topology');
+    const result = await getStorageTopology();
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: result.data
+    };
+  } catch (error: any) {
+    logError('Failed to build storage topology', error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to build storage topology',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Select a disk (the focus persists in the Diskpart session)
  */
 ipcMain.handle('diskpart:select-disk', async (_event, diskId: number): Promise<IPCResponse> => {
   try {
     logInfo(`Selecting disk ${diskId}`);
     const command = buildSelectDiskCommand(diskId);
-    const result = await executeDiskpartCommand(command);
+    const result = await executeDiskpartCommand(command, undefined, 'read');
 
     if (!result.success) {
       return {
@@ -218,7 +357,10 @@ ipcMain.handle('diskpart:select-disk', async (_event, diskId: number): Promise<I
 
     return {
       success: true,
-      data: { message: `Disk ${diskId} selected successfully` }
+      data: {
+        message: `Disk ${diskId} selected successfully`,
+        selection: getBackend().getSelection()
+      }
     };
   } catch (error: any) {
     logError(`Failed to select disk ${diskId}`, error);
@@ -271,16 +413,13 @@ ipcMain.handle('diskpart:detail-disk', async (_event, diskId: number): Promise<I
 });
 
 /**
- * Clean a disk (remove all partitions)
+ * Get detailed partition information
  */
-ipcMain.handle('diskpart:clean-disk', async (_event, diskId: number): Promise<IPCResponse> => {
+ipcMain.handle('diskpart:detail-partition', async (_event, diskId: number, partitionId: number): Promise<IPCResponse> => {
   try {
-    logInfo(`Cleaning disk ${diskId}`);
-    const script = buildCommandScript([
-      buildSelectDiskCommand(diskId),
-      buildCleanDiskCommand()
-    ]);
-    const result = await executeDestructiveCommand(script);
+    logInfo(`Getting details for partition ${partitionId} on disk ${diskId}`);
+    const script = buildDetailPartitionScript(diskId, partitionId);
+    const result = await executeAndParse(script, parseDetailPartition);
 
     if (!result.success) {
       return {
@@ -295,15 +434,15 @@ ipcMain.handle('diskpart:clean-disk', async (_event, diskId: number): Promise<IP
 
     return {
       success: true,
-      data: { message: `Disk ${diskId} cleaned successfully` }
+      data: result.data
     };
   } catch (error: any) {
-    logError(`Failed to clean disk ${diskId}`, error);
+    logError(`Failed to get details for partition ${partitionId} on disk ${diskId}`, error);
     return {
       success: false,
       error: {
         code: 'EXCEPTION',
-        message: error.message || 'Failed to clean disk',
+        message: error.message || 'Failed to get partition details',
         details: error.stack
       }
     };
@@ -311,16 +450,13 @@ ipcMain.handle('diskpart:clean-disk', async (_event, diskId: number): Promise<IP
 });
 
 /**
- * Clean all data from a disk (secure erase)
+ * Get detailed volume information
  */
-ipcMain.handle('diskpart:clean-all', async (_event, diskId: number): Promise<IPCResponse> => {
+ipcMain.handle('diskpart:detail-volume', async (_event, volumeId: number): Promise<IPCResponse> => {
   try {
-    logInfo(`Cleaning all data from disk ${diskId}`);
-    const script = buildCommandScript([
-      buildSelectDiskCommand(diskId),
-      buildCleanAllCommand()
-    ]);
-    const result = await executeDestructiveCommand(script);
+    logInfo(`Getting details for volume ${volumeId}`);
+    const script = buildDetailVolumeScript(volumeId);
+    const result = await executeAndParse(script, parseDetailVolume);
 
     if (!result.success) {
       return {
@@ -335,15 +471,15 @@ ipcMain.handle('diskpart:clean-all', async (_event, diskId: number): Promise<IPC
 
     return {
       success: true,
-      data: { message: `Disk ${diskId} cleaned (all) successfully` }
+      data: { id: volumeId, ...result.data }
     };
   } catch (error: any) {
-    logError(`Failed to clean all data from disk ${diskId}`, error);
+    logError(`Failed to get details for volume ${volumeId}`, error);
     return {
       success: false,
       error: {
         code: 'EXCEPTION',
-        message: error.message || 'Failed to clean disk',
+        message: error.message || 'Failed to get volume details',
         details: error.stack
       }
     };
@@ -351,16 +487,16 @@ ipcMain.handle('diskpart:clean-all', async (_event, diskId: number): Promise<IPC
 });
 
 /**
- * Create a partition
+ * Bring a disk online
  */
-ipcMain.handle('diskpart:create-partition', async (_event, diskId: number, size?: number): Promise<IPCResponse> => {
+ipcMain.handle('diskpart:online-disk', async (_event, diskId: number): Promise<IPCResponse> => {
   try {
-    logInfo(`Creating partition on disk ${diskId}`, { size });
+    logInfo(`Bringing disk ${diskId} online`);
     const script = buildCommandScript([
       buildSelectDiskCommand(diskId),
-      buildCreatePartitionCommand(size)
+      buildOnlineDiskCommand()
     ]);
-    const result = await executeDiskpartCommand(script);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
 
     if (!result.success) {
       return {
@@ -375,15 +511,15 @@ ipcMain.handle('diskpart:create-partition', async (_event, diskId: number, size?
 
     return {
       success: true,
-      data: { message: 'Partition created successfully' }
+      data: { message: `Disk ${diskId} is now online` }
     };
   } catch (error: any) {
-    logError(`Failed to create partition on disk ${diskId}`, error);
+    logError(`Failed to bring disk ${diskId} online`, error);
     return {
       success: false,
       error: {
         code: 'EXCEPTION',
-        message: error.message || 'Failed to create partition',
+        message: error.message || 'Failed to bring disk online',
         details: error.stack
       }
     };
@@ -391,17 +527,16 @@ ipcMain.handle('diskpart:create-partition', async (_event, diskId: number, size?
 });
 
 /**
- * Delete a partition
+ * Take a disk offline. Diskpart itself refuses for the disk Windows runs from.
  */
-ipcMain.handle('diskpart:delete-partition', async (_event, diskId: number, partitionId: number): Promise<IPCResponse> => {
+ipcMain.handle('diskpart:offline-disk', async (_event, diskId: number): Promise<IPCResponse> => {
   try {
-    logInfo(`Deleting partition ${partitionId} on disk ${diskId}`);
+    logInfo(`Taking disk ${diskId} offline`);
     const script = buildCommandScript([
       buildSelectDiskCommand(diskId),
-      buildSelectPartitionCommand(partitionId),
-      buildDeletePartitionCommand()
+      buildOfflineDiskCommand()
     ]);
-    const result = await executeDestructiveCommand(script);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
 
     if (!result.success) {
       return {
@@ -416,15 +551,15 @@ ipcMain.handle('diskpart:delete-partition', async (_event, diskId: number, parti
 
     return {
       success: true,
-      data: { message: 'Partition deleted successfully' }
+      data: { message: `Disk ${diskId} is now offline` }
     };
   } catch (error: any) {
-    logError(`Failed to delete partition ${partitionId} on disk ${diskId}`, error);
+    logError(`Failed to take disk ${diskId} offline`, error);
     return {
       success: false,
       error: {
         code: 'EXCEPTION',
-        message: error.message || 'Failed to delete partition',
+        message: error.message || 'Failed to take disk offline',
         details: error.stack
       }
     };
@@ -432,13 +567,13 @@ ipcMain.handle('diskpart:delete-partition', async (_event, diskId: number, parti
 });
 
 /**
- * Format a volume
+ * Get the attributes of a disk
  */
-ipcMain.handle('diskpart:format-volume', async (_event, diskId: number, partitionId: number, fileSystem: string, label?: string): Promise<IPCResponse> => {
+ipcMain.handle('diskpart:get-disk-attributes', async (_event, diskId: number): Promise<IPCResponse> => {
   try {
-    logInfo(`Formatting partition ${partitionId} on disk ${diskId}`, { fileSystem, label });
-    const script = buildFormatPartitionScript(diskId, partitionId, fileSystem, label);
-    const result = await executeDestructiveCommand(script);
+    logInfo(`Getting attributes for disk ${diskId}`);
+    const script = buildDiskAttributesScript(diskId);
+    const result = await executeAndParse(script, parseAttributesDisk);
 
     if (!result.success) {
       return {
@@ -453,15 +588,15 @@ ipcMain.handle('diskpart:format-volume', async (_event, diskId: number, partitio
 
     return {
       success: true,
-      data: { message: 'Volume formatted successfully' }
+      data: result.data
     };
   } catch (error: any) {
-    logError(`Failed to format partition ${partitionId} on disk ${diskId}`, error);
+    logError(`Failed to get attributes for disk ${diskId}`, error);
     return {
       success: false,
       error: {
         code: 'EXCEPTION',
-        message: error.message || 'Failed to format volume',
+        message: error.message || 'Failed to get disk attributes',
         details: error.stack
       }
     };
@@ -469,17 +604,16 @@ ipcMain.handle('diskpart:format-volume', async (_event, diskId: number, partitio
 });
 
 /**
- * Assign a drive letter
+ * Set or clear the read-only attribute of a disk
  */
-ipcMain.handle('diskpart:assign-letter', async (_event, diskId: number, partitionId: number, letter: string): Promise<IPCResponse> => {
+ipcMain.handle('diskpart:set-disk-read-only', async (_event, diskId: number, readOnly: boolean): Promise<IPCResponse> => {
   try {
-    logInfo(`Assigning letter ${letter} to partition ${partitionId} on disk ${diskId}`);
+    logInfo(`${readOnly ? 'Setting' : 'Clearing'} read-only attribute on disk ${diskId}`);
     const script = buildCommandScript([
       buildSelectDiskCommand(diskId),
-      buildSelectPartitionCommand(partitionId),
-      buildAssignLetterCommand(letter)
+      buildSetDiskReadOnlyCommand(readOnly)
     ]);
-    const result = await executeDiskpartCommand(script);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
 
     if (!result.success) {
       return {
@@ -494,15 +628,15 @@ ipcMain.handle('diskpart:assign-letter', async (_event, diskId: number, partitio
 
     return {
       success: true,
-      data: { message: `Drive letter ${letter} assigned successfully` }
+      data: { message: `Disk ${diskId} is ${readOnly ? 'now' : 'no longer'} read-only` }
     };
   } catch (error: any) {
-    logError(`Failed to assign letter ${letter} to partition ${partitionId} on disk ${diskId}`, error);
+    logError(`Failed to change read-only attribute on disk ${diskId}`, error);
     return {
       success: false,
       error: {
         code: 'EXCEPTION',
-        message: error.message || 'Failed to assign drive letter',
+        message: error.message || 'Failed to change disk attributes',
         details: error.stack
       }
     };
@@ -510,17 +644,13 @@ ipcMain.handle('diskpart:assign-letter', async (_event, diskId: number, partitio
 });
 
 /**
- * Remove a drive letter
+ * Get the signature (MBR) or GUID (GPT) of a disk
  */
-ipcMain.handle('diskpart:remove-letter', async (_event, diskId: number, partitionId: number, letter: string): Promise<IPCResponse> => {
+ipcMain.handle('diskpart:get-unique-id', async (_event, diskId: number): Promise<IPCResponse> => {
   try {
-    logInfo(`Removing letter ${letter} from partition ${partitionId} on disk ${diskId}`);
-    const script = buildCommandScript([
-      buildSelectDiskCommand(diskId),
-      buildSelectPartitionCommand(partitionId),
-      buildRemoveLetterCommand(letter)
-    ]);
-    const result = await executeDiskpartCommand(script);
+    logInfo(`Getting unique ID of disk ${diskId}`);
+    const script = buildUniqueIdScript(diskId);
+    const result = await executeAndParse(script, parseUniqueId);
 
     if (!result.success) {
       return {
@@ -535,15 +665,15 @@ ipcMain.handle('diskpart:remove-letter', async (_event, diskId: number, partitio
 
     return {
       success: true,
-      data: { message: `Drive letter ${letter} removed successfully` }
+      data: result.data
     };
   } catch (error: any) {
-    logError(`Failed to remove letter ${letter} from partition ${partitionId} on disk ${diskId}`, error);
+    logError(`Failed to get unique ID of disk ${diskId}`, error);
     return {
       success: false,
       error: {
         code: 'EXCEPTION',
-        message: error.message || 'Failed to remove drive letter',
+        message: error.message || 'Failed to get disk ID',
         details: error.stack
       }
     };
@@ -551,19 +681,1532 @@ ipcMain.handle('diskpart:remove-letter', async (_event, diskId: number, partitio
 });
 
 /**
- * Check administrator privileges
+ * Change the signature or GUID of a disk, optionally bringing it online afterwards
  */
-ipcMain.handle('system:check-admin', async (): Promise<boolean> => {
+ipcMain.handle('diskpart:set-unique-id', async (_event, diskId: number, id: string, partitionStyle: DiskInfo['partitionStyle'], bringOnline?: boolean): Promise<IPCResponse> => {
   try {
-    const isAdmin = await isRunningAsAdmin();
-    logInfo(`Admin check: ${isAdmin}`);
-    return isAdmin;
+    // The profile keeps evidence disks offline; bringing one online takes its own Online Disk
+    if (bringOnline && isForensicProfileEnabled()) {
+      return {
+        success: false,
+        error: {
+          code: 'FORENSIC_PROFILE',
+          message: 'The forensic profile keeps disks offline: change the ID without bringing the disk online'
+        }
+      };
+    }
+
+    logInfo(`Setting unique ID of disk ${diskId} to ${id}${bringOnline ? ' and bringing it online' : ''}`);
+    const script = buildSetUniqueIdScript(diskId, id, partitionStyle, bringOnline);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Disk ${diskId} ID changed to ${id}${bringOnline ? ' and the disk brought online' : ''}` }
+    };
   } catch (error: any) {
-    logError('Failed to check admin privileges', error);
-    return false;
+    logError(`Failed to set unique ID of disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to change disk ID',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Get the attributes of a volume
+ */
+ipcMain.handle('diskpart:get-volume-attributes', async (_event, volumeId: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Getting attributes for volume ${volumeId}`);
+    const script = buildVolumeAttributesScript(volumeId);
+    const result = await executeAndParse(script, parseAttributesVolume);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: result.data
+    };
+  } catch (error: any) {
+    logError(`Failed to get attributes for volume ${volumeId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to get volume attributes',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Set and clear attributes of a volume
+ */
+ipcMain.handle('diskpart:set-volume-attributes', async (_event, volumeId: number, changes: Partial<VolumeAttributes>): Promise<IPCResponse> => {
+  try {
+    logInfo(`Changing attributes on volume ${volumeId}`);
+    const script = buildSetVolumeAttributesScript(volumeId, changes);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Attributes of volume ${volumeId} updated` }
+    };
+  } catch (error: any) {
+    logError(`Failed to change attributes on volume ${volumeId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to change volume attributes',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Convert a disk between MBR and GPT, or between basic and dynamic
+ */
+ipcMain.handle('diskpart:convert-disk', async (_event, diskId: number, target: DiskConversion): Promise<IPCResponse> => {
+  try {
+    logInfo(`Converting disk ${diskId} to ${target}`);
+    const script = buildConvertDiskScript(diskId, target);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Disk ${diskId} converted to ${target === 'gpt' || target === 'mbr' ? target.toUpperCase() : target}` }
+    };
+  } catch (error: any) {
+    logError(`Failed to convert disk ${diskId} to ${target}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to convert disk',
+        details: error.stack
+      }
+    };
   }
 });
 
+/**
+ * Clean a disk (remove all partitions)
+ */
+ipcMain.handle('diskpart:clean-disk', async (_event, diskId: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Cleaning disk ${diskId}`);
+    const script = buildCommandScript([
+      buildSelectDiskCommand(diskId),
+      buildCleanDiskCommand()
+    ]);
+    const result = await executeDestructiveCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Disk ${diskId} cleaned successfully` }
+    };
+  } catch (error: any) {
+    logError(`Failed to clean disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to clean disk',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Clean all data from a disk (secure erase)
+ */
+ipcMain.handle('diskpart:clean-all', async (_event, diskId: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Cleaning all data from disk ${diskId}`);
+    const script = buildCommandScript([
+      buildSelectDiskCommand(diskId),
+      buildCleanAllCommand()
+    ]);
+    const result = await executeLongRunningCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Disk ${diskId} cleaned (all) successfully` }
+    };
+  } catch (error: any) {
+    logError(`Failed to clean all data from disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to clean disk',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Create a partition
+ */
+ipcMain.handle('diskpart:create-partition', async (_event, diskId: number, options: CreatePartitionOptions): Promise<IPCResponse> => {
+  try {
+    logInfo(`Creating ${options.kind} partition on disk ${diskId}`, options);
+    const script = buildCommandScript([
+      buildSelectDiskCommand(diskId),
+      buildCreatePartitionCommand(options)
+    ]);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: 'Partition created successfully' }
+    };
+  } catch (error: any) {
+    logError(`Failed to create partition on disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to create partition',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Delete a partition
+ */
+ipcMain.handle('diskpart:delete-partition', async (_event, diskId: number, partitionId: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Deleting partition ${partitionId} on disk ${diskId}`);
+    const script = buildCommandScript([
+      buildSelectDiskCommand(diskId),
+      buildSelectPartitionCommand(partitionId),
+      buildDeletePartitionCommand()
+    ]);
+    const result = await executeDestructiveCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: 'Partition deleted successfully' }
+    };
+  } catch (error: any) {
+    logError(`Failed to delete partition ${partitionId} on disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to delete partition',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Format a volume. With noWait Diskpart returns once the format has started,
+ * so it runs as a normal command instead of a long-running one.
+ */
+ipcMain.handle('diskpart:format-volume', async (_event, diskId: number, partitionId: number, options: FormatOptions): Promise<IPCResponse> => {
+  try {
+    logInfo(`Formatting partition ${partitionId} on disk ${diskId}`, options);
+    const script = buildFormatPartitionScript(diskId, partitionId, options);
+    const result = options.noWait
+      ? await executeDiskpartCommand(script, undefined, 'exclusive')
+      : await executeLongRunningCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        message: options.noWait
+          ? 'Format started; Windows finishes it in the background'
+          : 'Volume formatted successfully'
+      }
+    };
+  } catch (error: any) {
+    logError(`Failed to format partition ${partitionId} on disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to format volume',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Assign a drive letter
+ */
+ipcMain.handle('diskpart:assign-letter', async (_event, diskId: number, partitionId: number, letter: string): Promise<IPCResponse> => {
+  try {
+    logInfo(`Assigning letter ${letter} to partition ${partitionId} on disk ${diskId}`);
+    const script = buildCommandScript([
+      buildSelectDiskCommand(diskId),
+      buildSelectPartitionCommand(partitionId),
+      buildAssignLetterCommand(letter)
+    ]);
+    const result = await executeDiskpartCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Drive letter ${letter} assigned successfully` }
+    };
+  } catch (error: any) {
+    logError(`Failed to assign letter ${letter} to partition ${partitionId} on disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to assign drive letter',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Remove a drive letter
+ */
+ipcMain.handle('diskpart:remove-letter', async (_event, diskId: number, partitionId: number, letter: string): Promise<IPCResponse> => {
+  try {
+    logInfo(`Removing letter ${letter} from partition ${partitionId} on disk ${diskId}`);
+    const script = buildCommandScript([
+      buildSelectDiskCommand(diskId),
+      buildSelectPartitionCommand(partitionId),
+      buildRemoveLetterCommand(letter)
+    ]);
+    const result = await executeDiskpartCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Drive letter ${letter} removed successfully` }
+    };
+  } catch (error: any) {
+    logError(`Failed to remove letter ${letter} from partition ${partitionId} on disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to remove drive letter',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Swap the drive letters of two volumes in one script
+ */
+ipcMain.handle('diskpart:swap-letters', async (_event, firstVolume: number, firstLetter: string, secondVolume: number, secondLetter: string): Promise<IPCResponse> => {
+  try {
+    logInfo(`Swapping drive letters ${firstLetter} (volume ${firstVolume}) and ${secondLetter} (volume ${secondVolume})`);
+    const script = buildSwapLettersScript(firstVolume, firstLetter, secondVolume, secondLetter);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Drive letters ${firstLetter}: and ${secondLetter}: swapped` }
+    };
+  } catch (error: any) {
+    logError(`Failed to swap drive letters of volumes ${firstVolume} and ${secondVolume}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to swap drive letters',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Mount a volume into an empty NTFS folder
+ */
+ipcMain.handle('diskpart:assign-mount', async (_event, volumeId: number, path: string): Promise<IPCResponse> => {
+  try {
+    logInfo(`Mounting volume ${volumeId} at ${path}`);
+    const script = buildAssignMountScript(volumeId, path);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Volume mounted at ${path}` }
+    };
+  } catch (error: any) {
+    logError(`Failed to mount volume ${volumeId} at ${path}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to mount volume',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Remove a mount point from a volume
+ */
+ipcMain.handle('diskpart:remove-mount', async (_event, volumeId: number, path: string): Promise<IPCResponse> => {
+  try {
+    logInfo(`Removing mount point ${path} from volume ${volumeId}`);
+    const script = buildRemoveMountScript(volumeId, path);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Mount point ${path} removed` }
+    };
+  } catch (error: any) {
+    logError(`Failed to remove mount point ${path} from volume ${volumeId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to remove mount point',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Find how far a partition can be shrunk
+ */
+ipcMain.handle('diskpart:shrink-querymax', async (_event, diskId: number, partitionId: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Querying reclaimable space of partition ${partitionId} on disk ${diskId}`);
+    const script = buildShrinkQueryMaxScript(diskId, partitionId);
+    const result = await executeAndParse(script, parseShrinkQueryMax);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { reclaimable: result.data }
+    };
+  } catch (error: any) {
+    logError(`Failed to query reclaimable space of partition ${partitionId} on disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to query reclaimable space',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Extend a partition into the free space after it
+ */
+ipcMain.handle('diskpart:extend-partition', async (_event, diskId: number, partitionId: number, size?: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Extending partition ${partitionId} on disk ${diskId}`, { size });
+    const script = buildExtendPartitionScript(diskId, partitionId, size);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Partition ${partitionId} extended successfully` }
+    };
+  } catch (error: any) {
+    logError(`Failed to extend partition ${partitionId} on disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to extend partition',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Shrink a partition. NTFS may have to move files, so this can take a while.
+ */
+ipcMain.handle('diskpart:shrink-partition', async (_event, diskId: number, partitionId: number, desired: number, minimum?: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Shrinking partition ${partitionId} on disk ${diskId}`, { desired, minimum });
+    const script = buildShrinkPartitionScript(diskId, partitionId, desired, minimum);
+    const result = await executeLongRunningCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Partition ${partitionId} shrunk successfully` }
+    };
+  } catch (error: any) {
+    logError(`Failed to shrink partition ${partitionId} on disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to shrink partition',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Apply the pending operations list as one script. Diskpart stops at the
+ * first change that fails, so the ones after it are not run
+ */
+ipcMain.handle('diskpart:apply-pending-operations', async (_event, operations: PlannedOperation[]): Promise<IPCResponse> => {
+  try {
+    logInfo(`Applying ${operations.length} pending operations`, operations);
+    const script = buildPendingOperationsScript(operations);
+    const result = await executeLongRunningCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `${operations.length} pending operations applied successfully` }
+    };
+  } catch (error: any) {
+    logError('Failed to apply pending operations', error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to apply pending operations',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Mark a partition active, clearing the partition that is active now
+ */
+ipcMain.handle('diskpart:set-active', async (_event, diskId: number, partitionId: number, activePartition?: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Marking partition ${partitionId} on disk ${diskId} active`);
+    const script = buildSetActiveScript(diskId, partitionId, activePartition);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Partition ${partitionId} marked active` }
+    };
+  } catch (error: any) {
+    logError(`Failed to mark partition ${partitionId} on disk ${diskId} active`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to mark partition active',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Clear the active flag of a partition
+ */
+ipcMain.handle('diskpart:set-inactive', async (_event, diskId: number, partitionId: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Marking partition ${partitionId} on disk ${diskId} inactive`);
+    const script = buildSetInactiveScript(diskId, partitionId);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Partition ${partitionId} marked inactive` }
+    };
+  } catch (error: any) {
+    logError(`Failed to mark partition ${partitionId} on disk ${diskId} inactive`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to mark partition inactive',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Set the GPT attributes of a partition
+ */
+ipcMain.handle('diskpart:set-gpt-attributes', async (_event, diskId: number, partitionId: number, attributes: string): Promise<IPCResponse> => {
+  try {
+    logInfo(`Setting GPT attributes ${attributes} on partition ${partitionId} of disk ${diskId}`);
+    const script = buildGptAttributesScript(diskId, partitionId, attributes);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `GPT attributes of partition ${partitionId} set to ${attributes}` }
+    };
+  } catch (error: any) {
+    logError(`Failed to set GPT attributes on partition ${partitionId} of disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to set GPT attributes',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Create a simple, spanned, striped, mirrored or RAID-5 volume on dynamic disks
+ */
+ipcMain.handle('diskpart:create-dynamic-volume', async (_event, options: CreateDynamicVolumeOptions): Promise<IPCResponse> => {
+  try {
+    logInfo(`Creating ${options.layout} volume on disks ${options.disks.join(', ')}`, options);
+    const script = buildCreateDynamicVolumeScript(options);
+    // Formatting a large volume takes a while; creating it does not
+    const result = options.format && !options.format.noWait
+      ? await executeLongRunningCommand(script)
+      : await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: 'Volume created successfully' }
+    };
+  } catch (error: any) {
+    logError(`Failed to create ${options.layout} volume`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to create volume',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Mirror a simple volume onto another dynamic disk
+ */
+ipcMain.handle('diskpart:add-mirror', async (_event, volumeId: number, diskId: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Adding a mirror of volume ${volumeId} on disk ${diskId}`);
+    const script = buildAddMirrorScript(volumeId, diskId);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Volume ${volumeId} is now mirrored on disk ${diskId}; Windows resynchronizes it in the background` }
+    };
+  } catch (error: any) {
+    logError(`Failed to mirror volume ${volumeId} on disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to add mirror',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Break a mirrored volume, keeping or freeing the half on the given disk
+ */
+ipcMain.handle('diskpart:break-mirror', async (_event, volumeId: number, diskId: number, keep?: boolean): Promise<IPCResponse> => {
+  try {
+    logInfo(`Breaking the mirror of volume ${volumeId} on disk ${diskId}`, { keep });
+    const script = buildBreakMirrorScript(volumeId, diskId, keep);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        message: keep === false
+          ? `Mirror of volume ${volumeId} removed from disk ${diskId}`
+          : `Mirror of volume ${volumeId} broken; the copy on disk ${diskId} is now a volume of its own`
+      }
+    };
+  } catch (error: any) {
+    logError(`Failed to break the mirror of volume ${volumeId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to break mirror',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Import the disk group of a foreign disk
+ */
+ipcMain.handle('diskpart:import-disk', async (_event, diskId: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Importing foreign disk ${diskId}`);
+    const script = buildImportDiskScript(diskId);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Disk ${diskId} and the rest of its disk group imported` }
+    };
+  } catch (error: any) {
+    logError(`Failed to import disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to import disk',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Recover the disk pack of a disk, resynchronizing stale mirrors and RAID-5 volumes
+ */
+ipcMain.handle('diskpart:recover-disk', async (_event, diskId: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Recovering the disk pack of disk ${diskId}`);
+    const script = buildRecoverDiskScript(diskId);
+    const result = await executeLongRunningCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Disk pack of disk ${diskId} recovered` }
+    };
+  } catch (error: any) {
+    logError(`Failed to recover disk ${diskId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to recover disk',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Rebuild a RAID-5 volume onto a replacement disk
+ */
+ipcMain.handle('diskpart:repair-volume', async (_event, volumeId: number, diskId: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Repairing volume ${volumeId} onto disk ${diskId}`);
+    const script = buildRepairVolumeScript(volumeId, diskId);
+    const result = await executeLongRunningCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Volume ${volumeId} repaired onto disk ${diskId}` }
+    };
+  } catch (error: any) {
+    logError(`Failed to repair volume ${volumeId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to repair volume',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Remove a missing disk from the disk group
+ */
+ipcMain.handle('diskpart:delete-missing-disk', async (_event, missingId: string, override?: boolean): Promise<IPCResponse> => {
+  try {
+    logInfo(`Deleting missing disk ${missingId}`, { override });
+    const script = buildDeleteMissingDiskScript(missingId, override);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Missing disk ${missingId} removed` }
+    };
+  } catch (error: any) {
+    logError(`Failed to delete missing disk ${missingId}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to delete missing disk',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Read the SAN policy and whether new volumes are mounted automatically
+ */
+ipcMain.handle('diskpart:get-storage-settings', async (): Promise<IPCResponse> => {
+  try {
+    logInfo('Reading SAN policy and automount setting');
+    const result = await readStorageSettings();
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: result.data
+    };
+  } catch (error: any) {
+    logError('Failed to read storage settings', error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to read storage settings',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Change which newly discovered disks Windows brings online
+ */
+ipcMain.handle('diskpart:set-san-policy', async (_event, policy: SanPolicy): Promise<IPCResponse> => {
+  try {
+    const violation = getForensicViolation({ sanPolicy: policy });
+    if (violation) {
+      return {
+        success: false,
+        error: {
+          code: 'FORENSIC_PROFILE',
+          message: violation
+        }
+      };
+    }
+
+    logInfo(`Setting SAN policy to ${policy}`);
+    const command = buildSetSanPolicyCommand(policy);
+    const result = await executeDiskpartCommand(command, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `SAN policy set to ${policy}` }
+    };
+  } catch (error: any) {
+    logError(`Failed to set SAN policy to ${policy}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to set SAN policy',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Turn automatic mounting of new volumes on or off, or scrub stale mount points
+ */
+ipcMain.handle('diskpart:set-automount', async (_event, action: AutomountAction): Promise<IPCResponse> => {
+  try {
+    const violation = getForensicViolation({ automount: action === 'enable' });
+    if (violation) {
+      return {
+        success: false,
+        error: {
+          code: 'FORENSIC_PROFILE',
+          message: violation
+        }
+      };
+    }
+
+    logInfo(`Running automount ${action}`);
+    const command = buildSetAutomountCommand(action);
+    const result = await executeDiskpartCommand(command, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    const messages: Record<AutomountAction, string> = {
+      enable: 'Automatic mounting of new volumes enabled',
+      disable: 'Automatic mounting of new volumes disabled',
+      scrub: 'Mount points of removed volumes scrubbed'
+    };
+    return {
+      success: true,
+      data: { message: messages[action] }
+    };
+  } catch (error: any) {
+    logError(`Failed to run automount ${action}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to change automount',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * List the virtual disks that are attached
+ */
+ipcMain.handle('diskpart:list-vdisk', async (): Promise<IPCResponse> => {
+  try {
+    logInfo('Listing virtual disks');
+    const command = buildListVirtualDisksCommand();
+    const result = await executeAndParse(command, parseListVirtualDisks);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: result.data
+    };
+  } catch (error: any) {
+    logError(`Failed to list virtual disks`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to list virtual disks',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Get detailed information about a virtual disk file
+ */
+ipcMain.handle('diskpart:detail-vdisk', async (_event, file: string): Promise<IPCResponse> => {
+  try {
+    logInfo(`Getting details for virtual disk ${file}`);
+    const script = buildDetailVirtualDiskScript(file);
+    const result = await executeAndParse(script, parseDetailVirtualDisk);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: result.data
+    };
+  } catch (error: any) {
+    logError(`Failed to get details for virtual disk ${file}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to get virtual disk details',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Create a VHD or VHDX file. Fixed disks write out the whole file, so this can take a while.
+ */
+ipcMain.handle('diskpart:create-vdisk', async (_event, options: CreateVirtualDiskOptions): Promise<IPCResponse> => {
+  try {
+    logInfo(`Creating virtual disk ${options.file}`, options);
+    const script = buildCreateVirtualDiskScript(options);
+    const result = await executeLongRunningCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Virtual disk ${options.file} created successfully` }
+    };
+  } catch (error: any) {
+    logError(`Failed to create virtual disk ${options.file}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to create virtual disk',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Attach a virtual disk so it shows up as a disk
+ */
+ipcMain.handle('diskpart:attach-vdisk', async (_event, file: string, readOnly?: boolean): Promise<IPCResponse> => {
+  try {
+    logInfo(`Attaching virtual disk ${file}`, { readOnly });
+    const script = buildAttachVirtualDiskScript(file, readOnly);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Virtual disk ${file} attached${readOnly ? ' read-only' : ''}` }
+    };
+  } catch (error: any) {
+    logError(`Failed to attach virtual disk ${file}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to attach virtual disk',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Detach a virtual disk
+ */
+ipcMain.handle('diskpart:detach-vdisk', async (_event, file: string): Promise<IPCResponse> => {
+  try {
+    logInfo(`Detaching virtual disk ${file}`);
+    const script = buildDetachVirtualDiskScript(file);
+    const result = await executeDiskpartCommand(script, undefined, 'exclusive');
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Virtual disk ${file} detached` }
+    };
+  } catch (error: any) {
+    logError(`Failed to detach virtual disk ${file}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to detach virtual disk',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Grow a detached virtual disk
+ */
+ipcMain.handle('diskpart:expand-vdisk', async (_event, file: string, maximum: number): Promise<IPCResponse> => {
+  try {
+    logInfo(`Expanding virtual disk ${file}`, { maximum });
+    const script = buildExpandVirtualDiskScript(file, maximum);
+    const result = await executeLongRunningCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Virtual disk ${file} expanded to ${maximum} MB` }
+    };
+  } catch (error: any) {
+    logError(`Failed to expand virtual disk ${file}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to expand virtual disk',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Compact an expandable virtual disk, returning unused space in the file to the host
+ */
+ipcMain.handle('diskpart:compact-vdisk', async (_event, file: string): Promise<IPCResponse> => {
+  try {
+    logInfo(`Compacting virtual disk ${file}`);
+    const script = buildCompactVirtualDiskScript(file);
+    const result = await executeLongRunningCommand(script);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: {
+          code: result.errorCode || 'UNKNOWN_ERROR',
+          message: result.message,
+          details: result.details
+        }
+      };
+    }
+
+    return {
+      success: true,
+      data: { message: `Virtual disk ${file} compacted` }
+    };
+  } catch (error: any) {
+    logError(`Failed to compact virtual disk ${file}`, error);
+    return {
+      success: false,
+      error: {
+        code: 'EXCEPTION',
+        message: error.message || 'Failed to compact virtual disk',
+        details: error.stack
+      }
+    };
+  }
+});
+
+/**
+ * Get the job queue (running, waiting and recently finished jobs)
+ */
+ipcMain.handle('queue:get-state', async (): Promise<JobInfo[]> => {
+  return getJobQueue();
+});
+
+/**
+ * Cancel a job that has not started yet
+ */
+ipcMain.handle('queue:cancel-job', async (_event, jobId: string): Promise<IPCResponse> => {
+  logInfo(`Cancelling job ${jobId}`);
+  if (!cancelJob(jobId)) {
+    return {
+      success: false,
+      error: {
+        code: 'JOB_NOT_CANCELLABLE',
+        message: 'Only jobs that have not started can be cancelled'
+      }
+    };
+  }
+
+  return {
+    success: true,
+    data: { message: `Job ${jobId} cancelled` }
+  };
+});
+
+/**
+ * Check administrator privileges
+ */
+ipcMain.handle('system:check-admin', async (): Promise<boolean> => {
+  try {
+    // The simulated backend never touches real disks, so it needs no elevation
+    const isAdmin = !getBackend().requiresElevation || await isRunningAsAdmin();
+    logInfo(`Admin check: ${isAdmin}`);
+    return isAdmin;
+  } catch (error: any) {
+    logError('Failed to check admin privileges', error);
+    return false;
+  }
+});
+
+/**
+ * Report whether the forensic profile is on and what enforcing it at startup did
+ */
+ipcMain.handle('system:get-forensic-profile', () => forensicProfile);
+
 /**
  * Get system information
  */
@@ -574,7 +2217,8 @@ ipcMain.handle('system:get-info', async () => {
       platform: process.platform,
       arch: process.arch,
       version: process.version,
-      isAdmin
+      isAdmin,
+      backend: getBackend().name
     };
   } catch (error: any) {
     logError('Failed to get system info', error);
@@ -582,7 +2226,8 @@ ipcMain.handle('system:get-info', async () => {
       platform: process.platform,
       arch: process.arch,
       version: process.version,
-      isAdmin: false
+      isAdmin: false,
+      backend: getBackend().name
     };
   }
 });
\ No newline at end of file
@@ -1,5 +1,5 @@
-import { contextBridge, ipcRenderer } from 'electron';
-import type { ElectronAPI } from '../shared/types';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import type { AutomountAction, CommandOutputEvent, CreateDynamicVolumeOptions, CreatePartitionOptions, CreateVirtualDiskOptions, DiskConversion, DiskInfo, ElectronAPI, FormatOptions, JobInfo, OperationProgress, PlannedOperation, SanPolicy, VolumeAttributes } from '../shared/types';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -10,29 +10,117 @@ const electronAPI: ElectronAPI = {
   listPartitions: (diskId: number) => ipcRenderer.invoke('diskpart:list-partitions', diskId),
   selectDisk: (diskId: number) => ipcRenderer.invoke('diskpart:select-disk', diskId),
   detailDisk: (diskId: number) => ipcRenderer.invoke('diskpart:detail-disk', diskId),
+  detailPartition: (diskId: number, partitionId: number) => 
+    ipcRenderer.invoke('diskpart:detail-partition', diskId, partitionId),
+  detailVolume: (volumeId: number) => ipcRenderer.invoke('diskpart:detail-volume', volumeId),
+  getStorageTopology: () => ipcRenderer.invoke('diskpart:get-topology'),
+  onlineDisk: (diskId: number) => ipcRenderer.invoke('diskpart:online-disk', diskId),
+  offlineDisk: (diskId: number) => ipcRenderer.invoke('diskpart:offline-disk', diskId),
+  getDiskAttributes: (diskId: number) => ipcRenderer.invoke('diskpart:get-disk-attributes', diskId),
+  setDiskReadOnly: (diskId: number, readOnly: boolean) => 
+    ipcRenderer.invoke('diskpart:set-disk-read-only', diskId, readOnly),
+  getVolumeAttributes: (volumeId: number) => ipcRenderer.invoke('diskpart:get-volume-attributes', volumeId),
+  getDiskUniqueId: (diskId: number) => ipcRenderer.invoke('diskpart:get-unique-id', diskId),
+  setDiskUniqueId: (diskId: number, id: string, partitionStyle: DiskInfo['partitionStyle'], bringOnline?: boolean) => 
+    ipcRenderer.invoke('diskpart:set-unique-id', diskId, id, partitionStyle, bringOnline),
+  setVolumeAttributes: (volumeId: number, changes: Partial<VolumeAttributes>) => 
+    ipcRenderer.invoke('diskpart:set-volume-attributes', volumeId, changes),
+  convertDisk: (diskId: number, target: DiskConversion) => 
+    ipcRenderer.invoke('diskpart:convert-disk', diskId, target),
   cleanDisk: (diskId: number) => ipcRenderer.invoke('diskpart:clean-disk', diskId),
   cleanAll: (diskId: number) => ipcRenderer.invoke('diskpart:clean-all', diskId),
-  createPartition: (diskId: number, size?: number) => 
-    ipcRenderer.invoke('diskpart:create-partition', diskId, size),
+  createPartition: (diskId: number, options: CreatePartitionOptions) => 
+    ipcRenderer.invoke('diskpart:create-partition', diskId, options),
   deletePartition: (diskId: number, partitionId: number) => 
     ipcRenderer.invoke('diskpart:delete-partition', diskId, partitionId),
-  formatVolume: (diskId: number, partitionId: number, fileSystem: string, label?: string) => 
-    ipcRenderer.invoke('diskpart:format-volume', diskId, partitionId, fileSystem, label),
+  formatVolume: (diskId: number, partitionId: number, options: FormatOptions) => 
+    ipcRenderer.invoke('diskpart:format-volume', diskId, partitionId, options),
   assignLetter: (diskId: number, partitionId: number, letter: string) => 
     ipcRenderer.invoke('diskpart:assign-letter', diskId, partitionId, letter),
   removeLetter: (diskId: number, partitionId: number, letter: string) => 
     ipcRenderer.invoke('diskpart:remove-letter', diskId, partitionId, letter),
+  swapLetters: (firstVolume: number, firstLetter: string, secondVolume: number, secondLetter: string) => 
+    ipcRenderer.invoke('diskpart:swap-letters', firstVolume, firstLetter, secondVolume, secondLetter),
+  assignMount: (volumeId: number, path: string) => 
+    ipcRenderer.invoke('diskpart:assign-mount', volumeId, path),
+  removeMount: (volumeId: number, path: string) => 
+    ipcRenderer.invoke('diskpart:remove-mount', volumeId, path),
+  setActive: (diskId: number, partitionId: number, activePartition?: number) => 
+    ipcRenderer.invoke('diskpart:set-active', diskId, partitionId, activePartition),
+  setInactive: (diskId: number, partitionId: number) => 
+    ipcRenderer.invoke('diskpart:set-inactive', diskId, partitionId),
+  setGptAttributes: (diskId: number, partitionId: number, attributes: string) => 
+    ipcRenderer.invoke('diskpart:set-gpt-attributes', diskId, partitionId, attributes),
+  queryShrinkMax: (diskId: number, partitionId: number) => 
+    ipcRenderer.invoke('diskpart:shrink-querymax', diskId, partitionId),
+  extendPartition: (diskId: number, partitionId: number, size?: number) => 
+    ipcRenderer.invoke('diskpart:extend-partition', diskId, partitionId, size),
+  shrinkPartition: (diskId: number, partitionId: number, desired: number, minimum?: number) => 
+    ipcRenderer.invoke('diskpart:shrink-partition', diskId, partitionId, desired, minimum),
+  applyPendingOperations: (operations: PlannedOperation[]) =>
+    ipcRenderer.invoke('diskpart:apply-pending-operations', operations),
+  
+  // Dynamic volumes
+  createDynamicVolume: (options: CreateDynamicVolumeOptions) => 
+    ipcRenderer.invoke('diskpart:create-dynamic-volume', options),
+  addMirror: (volumeId: number, diskId: number) => ipcRenderer.invoke('diskpart:add-mirror', volumeId, diskId),
+  breakMirror: (volumeId: number, diskId: number, keep?: boolean) => 
+    ipcRenderer.invoke('diskpart:break-mirror', volumeId, diskId, keep),
+  
+  // Dynamic disk recovery
+  importDisk: (diskId: number) => ipcRenderer.invoke('diskpart:import-disk', diskId),
+  recoverDisk: (diskId: number) => ipcRenderer.invoke('diskpart:recover-disk', diskId),
+  repairVolume: (volumeId: number, diskId: number) => 
+    ipcRenderer.invoke('diskpart:repair-volume', volumeId, diskId),
+  deleteMissingDisk: (missingId: string, override?: boolean) => 
+    ipcRenderer.invoke('diskpart:delete-missing-disk', missingId, override),
+  
+  // System-wide settings
+  getStorageSettings: () => ipcRenderer.invoke('diskpart:get-storage-settings'),
+  setSanPolicy: (policy: SanPolicy) => ipcRenderer.invoke('diskpart:set-san-policy', policy),
+  setAutomount: (action: AutomountAction) => ipcRenderer.invoke('diskpart:set-automount', action),
+  getForensicProfile: () => ipcRenderer.invoke('system:get-forensic-profile'),
+  
+  // Virtual disks
+  listVirtualDisks: () => ipcRenderer.invoke('diskpart:list-vdisk'),
+  detailVirtualDisk: (file: string) => ipcRenderer.invoke('diskpart:detail-vdisk', file),
+  createVirtualDisk: (options: CreateVirtualDiskOptions) => ipcRenderer.invoke('diskpart:create-vdisk', options),
+  attachVirtualDisk: (file: string, readOnly?: boolean) => 
+    ipcRenderer.invoke('diskpart:attach-vdisk', file, readOnly),
+  detachVirtualDisk: (file: string) => ipcRenderer.invoke('diskpart:detach-vdisk', file),
+  expandVirtualDisk: (file: string, maximum: number) => 
+    ipcRenderer.invoke('diskpart:expand-vdisk', file, maximum),
+  compactVirtualDisk: (file: string) => ipcRenderer.invoke('diskpart:compact-vdisk', file),
+  
+  // Job queue
+  getJobQueue: () => ipcRenderer.invoke('queue:get-state'),
+  cancelJob: (jobId: string) => ipcRenderer.invoke('queue:cancel-job', jobId),
   
   // System operations
   checkAdminPrivileges: () => ipcRenderer.invoke('system:check-admin'),
   getSystemInfo: () => ipcRenderer.invoke('system:get-info'),
   
   // Event listeners
-  onCommandOutput: (callback: (output: string) => void) => {
-    ipcRenderer.on('command:output', (_event, output: string) => callback(output));
+  onCommandOutput: (callback: (event: CommandOutputEvent) => void) => {
+    const listener = (_event: IpcRendererEvent, output: CommandOutputEvent) => callback(output);
+    ipcRenderer.on('command:output', listener);
+    return () => {
+      ipcRenderer.removeListener('command:output', listener);
+    };
+  },
+  onOperationProgress: (callback: (progress: OperationProgress) => void) => {
+    const listener = (_event: IpcRendererEvent, progress: OperationProgress) => callback(progress);
+    ipcRenderer.on('operation:progress', listener);
+    return () => {
+      ipcRenderer.removeListener('operation:progress', listener);
+    };
   },
-  onOperationProgress: (callback: (progress: number) => void) => {
-    ipcRenderer.on('operation:progress', (_event, progress: number) => callback(progress));
+  onJobQueueChange: (callback: (jobs: JobInfo[]) => void) => {
+    const listener = (_event: IpcRendererEvent, jobs: JobInfo[]) => callback(jobs);
+    ipcRenderer.on('queue:changed', listener);
+    return () => {
+      ipcRenderer.removeListener('queue:changed', listener);
+    };
   }
 };
 
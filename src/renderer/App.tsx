@@ -1,18 +1,22 @@
 import React, { useEffect, useState } from 'react';
-import { Layout, Typography, Space, Button, Alert, Row, Col, Card, Tabs, Tooltip } from 'antd';
+import { Layout, Typography, Space, Button, Alert, Row, Col, Card, Tabs, Tooltip, Tag } from 'antd';
 import {
   DatabaseOutlined,
   ReloadOutlined,
   SafetyOutlined,
+  SettingOutlined,
 } from '@ant-design/icons';
 import { useDiskStore } from './store/diskStore';
 import DiskList from './components/DiskList';
 import VolumeList from './components/VolumeList';
+import VirtualDiskList from './components/VirtualDiskList';
 import PartitionList from './components/PartitionList';
 import DiskDetails from './components/DiskDetails';
 import OperationsPanel from './components/OperationsPanel';
 import CommandOutput from './components/CommandOutput';
 import ErrorAlert from './components/ErrorAlert';
+import SettingsPanel from './components/SettingsPanel';
+import DiskIdCollisionAlert from './components/DiskIdCollisionAlert';
 import { useKeyboardShortcuts, createDefaultShortcuts } from './hooks/useKeyboardShortcuts';
 
 const { Header, Content, Footer } = Layout;
@@ -21,26 +25,49 @@ const { Title, Text } = Typography;
 const App: React.FC = () => {
   const {
     isAdmin,
+    backend,
     loading,
     error,
     setError,
     checkAdminStatus,
+    fetchSystemInfo,
+    forensicProfile,
+    fetchForensicProfile,
+    fetchJobs,
+    setJobs,
+    setOperationProgress,
     refreshAll,
     selectedPartitionId,
     selectedDiskId,
   } = useDiskStore();
 
   const [dialogsOpen, setDialogsOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
 
   useEffect(() => {
     // Initialize app on mount
     const initialize = async () => {
       await checkAdminStatus();
+      await fetchSystemInfo();
+      await fetchForensicProfile();
       await refreshAll();
     };
 
     initialize();
-  }, [checkAdminStatus, refreshAll]);
+  }, [checkAdminStatus, fetchSystemInfo, fetchForensicProfile, refreshAll]);
+
+  useEffect(() => {
+    // Keep the job queue in sync with the main process
+    const unsubscribe = window.electronAPI.onJobQueueChange(setJobs);
+    fetchJobs();
+    return unsubscribe;
+  }, [fetchJobs, setJobs]);
+
+  useEffect(() => {
+    // Percent-complete updates from clean all and format
+    const unsubscribe = window.electronAPI.onOperationProgress(setOperationProgress);
+    return unsubscribe;
+  }, [setOperationProgress]);
 
   const handleRefreshAll = async () => {
     try {
@@ -81,6 +108,10 @@ const App: React.FC = () => {
 
   useKeyboardShortcuts(shortcuts, !dialogsOpen);
 
+  // Applied at startup, but Diskpart's wording could not be read back to confirm it
+  const isForensicUnverified = !!forensicProfile?.enabled && !forensicProfile.compliant &&
+    !!forensicProfile.unsupportedLocale && forensicProfile.applied.length > 0;
+
   return (
     <Layout style={{ minHeight: '100vh' }}>
       {/* Header */}
@@ -96,8 +127,23 @@ const App: React.FC = () => {
           <Title level={3} style={{ margin: 0, color: '#fff' }}>
             Diskpart GUI
           </Title>
+          {backend === 'simulated' && (
+            <Tooltip title="Disks are simulated in memory; no real disk is modified">
+              <Tag color="gold">Simulated</Tag>
+            </Tooltip>
+          )}
+          {forensicProfile?.enabled && (
+            <Tooltip title="New disks are kept offline (SAN policy Offline All) and automount is disabled">
+              <Tag color={forensicProfile.compliant ? 'green' : isForensicUnverified ? 'orange' : 'red'}>Forensic</Tag>
+            </Tooltip>
+          )}
         </div>
         <Space>
+          <Tooltip title="SAN policy and automount">
+            <Button icon={<SettingOutlined />} onClick={() => setSettingsOpen(true)}>
+              Settings
+            </Button>
+          </Tooltip>
           <Tooltip title="Refresh all data (F5)">
             <Button
               type="primary"
@@ -136,6 +182,35 @@ const App: React.FC = () => {
             />
           )}
 
+          {/* Forensic profile not in force */}
+          {isForensicUnverified && (
+            <Alert
+              message="Forensic Profile Not Verified"
+              description={`Diskpart's SAN policy and automount output cannot be read in ${forensicProfile.unsupportedLocale} yet. Applied at startup without reading them back: ${forensicProfile.applied.join(', ')}.`}
+              type="warning"
+              showIcon
+              closable
+            />
+          )}
+          {forensicProfile?.enabled && !forensicProfile.compliant && !isForensicUnverified && (
+            <Alert
+              message="Forensic Profile Not Enforced"
+              description={`The SAN policy and automount setting could not be locked down: ${forensicProfile.error || 'the settings read back do not match'}. New disks may be brought online and mounted.`}
+              type="error"
+              showIcon
+              action={<Button size="small" onClick={() => setSettingsOpen(true)}>Settings</Button>}
+            />
+          )}
+          {forensicProfile?.enabled && forensicProfile.compliant && forensicProfile.applied.length > 0 && (
+            <Alert
+              message="Forensic Profile Enforced"
+              description={`Changed at startup: ${forensicProfile.applied.join(', ')}`}
+              type="info"
+              showIcon
+              closable
+            />
+          )}
+
           {/* Error Alert */}
           {error && (
             <ErrorAlert
@@ -153,10 +228,11 @@ const App: React.FC = () => {
               <Space direction="vertical" size="middle" style={{ width: '100%' }}>
                 {/* Disk List */}
                 <Card title="Disks" size="small">
+                  <DiskIdCollisionAlert />
                   <DiskList />
                 </Card>
 
-                {/* Tabs for Partitions and Volumes */}
+                {/* Tabs for Partitions, Volumes and Virtual Disks */}
                 <Card size="small" styles={{ body: { padding: '12px' } }}>
                   <Tabs
                     defaultActiveKey="partitions"
@@ -171,6 +247,11 @@ const App: React.FC = () => {
                         label: 'Volumes',
                         children: <VolumeList />,
                       },
+                      {
+                        key: 'virtual_disks',
+                        label: 'Virtual Disks',
+                        children: <VirtualDiskList />,
+                      },
                     ]}
                   />
                 </Card>
@@ -194,6 +275,8 @@ const App: React.FC = () => {
         </Space>
       </Content>
 
+      <SettingsPanel open={settingsOpen} onClose={() => setSettingsOpen(false)} />
+
       {/* Footer */}
       <Footer style={{ textAlign: 'center', background: '#001529', color: '#fff', padding: '16px 24px' }}>
         <Text style={{ color: '#fff' }}>
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Switch, Alert, Space, Spin, Tag, Typography, message } from 'antd';
+import { InfoCircleOutlined } from '@ant-design/icons';
+import { DiskAttributes, VolumeAttributes } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+
+const { Text } = Typography;
+
+export type AttributesTarget =
+  | { kind: 'disk'; id: number }
+  | { kind: 'volume'; id: number };
+
+interface AttributesDialogProps {
+  open: boolean;
+  target: AttributesTarget | null;
+  onClose: () => void;
+}
+
+const VOLUME_ATTRIBUTE_LABELS: Record<keyof VolumeAttributes, { label: string; description: string }> = {
+  readOnly: {
+    label: 'Read-only',
+    description: 'Block writes to the volume',
+  },
+  hidden: {
+    label: 'Hidden',
+    description: 'Hide the volume from Explorer and the mount manager',
+  },
+  noDefaultDriveLetter: {
+    label: 'No Default Drive Letter',
+    description: 'Do not assign a drive letter when the volume appears',
+  },
+  shadowCopy: {
+    label: 'Shadow Copy',
+    description: 'Mark the volume as a shadow copy',
+  },
+};
+
+const AttributesDialog: React.FC<AttributesDialogProps> = ({ open, target, onClose }) => {
+  const {
+    volumes,
+    getDiskAttributes,
+    setDiskReadOnly,
+    getVolumeAttributes,
+    setVolumeAttributes,
+  } = useDiskStore();
+  const [diskAttributes, setDiskAttributes] = useState<DiskAttributes | null>(null);
+  const [volumeAttributes, setVolumeAttributesState] = useState<VolumeAttributes | null>(null);
+  const [diskReadOnly, setDiskReadOnlyDraft] = useState(false);
+  const [volumeDraft, setVolumeDraft] = useState<VolumeAttributes | null>(null);
+  const [fetching, setFetching] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!open || !target) return;
+
+    setDiskAttributes(null);
+    setVolumeAttributesState(null);
+    setVolumeDraft(null);
+    setError('');
+    setFetching(true);
+
+    const load = async () => {
+      const result = target.kind === 'disk'
+        ? await getDiskAttributes(target.id)
+        : await getVolumeAttributes(target.id);
+
+      if (!result.success) {
+        setError(result.message);
+      } else if (target.kind === 'disk') {
+        setDiskAttributes(result.data);
+        setDiskReadOnlyDraft(result.data.readOnly);
+      } else {
+        setVolumeAttributesState(result.data);
+        setVolumeDraft(result.data);
+      }
+      setFetching(false);
+    };
+    load();
+  }, [open, target, getDiskAttributes, getVolumeAttributes]);
+
+  // Windows refuses to write-protect the disk or volume it runs from
+  const diskInUse = diskAttributes !== null && (
+    diskAttributes.isBootDisk ||
+    diskAttributes.isPagefileDisk ||
+    diskAttributes.isHibernationFileDisk ||
+    diskAttributes.isCrashdumpDisk
+  );
+  const volume = target?.kind === 'volume' ? volumes.find(v => v.id === target.id) : undefined;
+  const volumeInUse = volume !== undefined && /\b(System|Boot)\b/.test(volume.info);
+
+  const getVolumeChanges = (): Partial<VolumeAttributes> => {
+    if (!volumeAttributes || !volumeDraft) return {};
+    const changes: Partial<VolumeAttributes> = {};
+    (Object.keys(volumeDraft) as (keyof VolumeAttributes)[]).forEach(attribute => {
+      if (volumeDraft[attribute] !== volumeAttributes[attribute]) {
+        changes[attribute] = volumeDraft[attribute];
+      }
+    });
+    return changes;
+  };
+
+  const hasChanges = target?.kind === 'disk'
+    ? diskAttributes !== null && diskReadOnly !== diskAttributes.readOnly
+    : Object.keys(getVolumeChanges()).length > 0;
+
+  const handleOk = async () => {
+    if (!target || !hasChanges) {
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    const result = target.kind === 'disk'
+      ? await setDiskReadOnly(target.id, diskReadOnly)
+      : await setVolumeAttributes(target.id, getVolumeChanges());
+    setSaving(false);
+
+    if (result.success) {
+      message.success(result.message);
+      onClose();
+    } else {
+      setError(result.message);
+    }
+  };
+
+  const renderDiskAttributes = (attributes: DiskAttributes) => {
+    const usage = [
+      attributes.isBootDisk && 'Boot',
+      attributes.isPagefileDisk && 'Pagefile',
+      attributes.isHibernationFileDisk && 'Hibernation File',
+      attributes.isCrashdumpDisk && 'Crashdump',
+      attributes.isClusteredDisk && 'Clustered',
+    ].filter(Boolean) as string[];
+
+    return (
+      <>
+        <Space>
+          <Switch
+            checked={diskReadOnly}
+            onChange={setDiskReadOnlyDraft}
+            disabled={diskInUse && !attributes.readOnly}
+          />
+          <Text strong>Read-only</Text>
+        </Space>
+        <Text type="secondary" style={{ fontSize: 12 }}>
+          Current read-only state:{' '}
+          {attributes.currentReadOnly
+            ? <Tag color="red">Write-protected</Tag>
+            : <Tag color="green">Writable</Tag>}
+          {attributes.currentReadOnly && !attributes.readOnly && 'set by the hardware or policy, not by this attribute'}
+        </Text>
+        {usage.length > 0 && (
+          <div>
+            <Text type="secondary" style={{ fontSize: 12 }}>Used by Windows as: </Text>
+            {usage.map(flag => <Tag key={flag} color="blue">{flag}</Tag>)}
+          </div>
+        )}
+        {diskInUse && (
+          <Alert
+            message="Windows is running from this disk, so it cannot be made read-only"
+            type="warning"
+            showIcon
+          />
+        )}
+      </>
+    );
+  };
+
+  const renderVolumeAttributes = (draft: VolumeAttributes) => (
+    <>
+      {(Object.keys(VOLUME_ATTRIBUTE_LABELS) as (keyof VolumeAttributes)[]).map(attribute => (
+        <div key={attribute}>
+          <Space>
+            <Switch
+              checked={draft[attribute]}
+              onChange={checked => setVolumeDraft({ ...draft, [attribute]: checked })}
+              disabled={volumeInUse && !draft[attribute]}
+            />
+            <Text strong>{VOLUME_ATTRIBUTE_LABELS[attribute].label}</Text>
+          </Space>
+          <div>
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              {VOLUME_ATTRIBUTE_LABELS[attribute].description}
+            </Text>
+          </div>
+        </div>
+      ))}
+      <Alert
+        message="On basic MBR disks these attributes apply to every volume on the disk"
+        type="info"
+        showIcon
+        icon={<InfoCircleOutlined />}
+      />
+      {volumeInUse && (
+        <Alert
+          message="This is a boot or system volume; attributes can only be cleared"
+          type="warning"
+          showIcon
+        />
+      )}
+    </>
+  );
+
+  const title = target
+    ? `${target.kind === 'disk' ? 'Disk' : 'Volume'} ${target.id} Attributes`
+    : 'Attributes';
+
+  return (
+    <Modal
+      title={title}
+      open={open}
+      onOk={handleOk}
+      onCancel={onClose}
+      okText="Apply"
+      cancelText="Cancel"
+      okButtonProps={{ disabled: !hasChanges, loading: saving }}
+      width={500}
+    >
+      <Spin spinning={fetching}>
+        <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          {target?.kind === 'disk' && diskAttributes && renderDiskAttributes(diskAttributes)}
+          {target?.kind === 'volume' && volumeDraft && renderVolumeAttributes(volumeDraft)}
+          {error && (
+            <Alert message="Attributes Error" description={error} type="error" showIcon />
+          )}
+        </Space>
+      </Spin>
+    </Modal>
+  );
+};
+
+export default AttributesDialog;
\ No newline at end of file
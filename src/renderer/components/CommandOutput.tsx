@@ -1,20 +1,28 @@
 import React, { useEffect, useRef } from 'react';
 import { Card, Button, Space, Typography, Empty } from 'antd';
-import { ClearOutlined, DownloadOutlined } from '@ant-design/icons';
+import { ClearOutlined, DownloadOutlined, LoadingOutlined } from '@ant-design/icons';
 import { useDiskStore } from '../store/diskStore';
 
 const { Text } = Typography;
 
 const CommandOutput: React.FC = () => {
-  const { commandHistory, clearCommandHistory } = useDiskStore();
+  const { commandHistory, clearCommandHistory, jobs, liveOutput, appendCommandOutput } = useDiskStore();
   const outputRef = useRef<HTMLDivElement>(null);
 
-  // Auto-scroll to bottom when new commands are added
+  const runningJobs = jobs.filter(job => job.status === 'executing' && liveOutput[job.id]);
+
+  // Stream Diskpart output while jobs run
+  useEffect(() => {
+    const unsubscribe = window.electronAPI.onCommandOutput(appendCommandOutput);
+    return unsubscribe;
+  }, [appendCommandOutput]);
+
+  // Auto-scroll to bottom when new commands or output lines are added
   useEffect(() => {
     if (outputRef.current) {
       outputRef.current.scrollTop = outputRef.current.scrollHeight;
     }
-  }, [commandHistory]);
+  }, [commandHistory, liveOutput]);
 
   const formatTimestamp = (date: Date): string => {
     return new Date(date).toLocaleTimeString('en-US', {
@@ -83,7 +91,7 @@ const CommandOutput: React.FC = () => {
           padding: '12px',
         }}
       >
-        {commandHistory.length === 0 ? (
+        {commandHistory.length === 0 && runningJobs.length === 0 ? (
           <div style={{ 
             display: 'flex', 
             alignItems: 'center', 
@@ -136,6 +144,27 @@ const CommandOutput: React.FC = () => {
                 </div>
               </div>
             ))}
+            {runningJobs.map((job) => (
+              <div key={job.id} style={{ marginBottom: '16px' }}>
+                <div style={{ marginBottom: '4px' }}>
+                  <Text style={{ color: '#dcdcaa', marginRight: '8px' }}>
+                    <LoadingOutlined />
+                  </Text>
+                  <Text style={{ color: '#858585', fontSize: '11px' }}>
+                    {job.description}
+                  </Text>
+                </div>
+                <div
+                  style={{
+                    paddingLeft: '16px',
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: 'break-word',
+                  }}
+                >
+                  {liveOutput[job.id].join('\n')}
+                </div>
+              </div>
+            ))}
           </div>
         )}
       </div>
@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Radio, Alert, Space, Tag, Typography } from 'antd';
+import { DiskConversion, DiskInfo } from '../../shared/types';
+import { checkDiskOperationSafety, SafetyCheckResult } from '../utils/safetyChecks';
+
+const { Text } = Typography;
+
+interface ConvertDiskDialogProps {
+  open: boolean;
+  disk: DiskInfo | null;
+  onConfirm: (target: DiskConversion) => void;
+  onCancel: () => void;
+}
+
+const CONVERSIONS: { target: DiskConversion; label: string; description: string }[] = [
+  {
+    target: 'gpt',
+    label: 'GPT',
+    description: 'Required to boot UEFI machines and for disks over 2 TB',
+  },
+  {
+    target: 'mbr',
+    label: 'MBR',
+    description: 'For legacy BIOS machines and older operating systems',
+  },
+  {
+    target: 'dynamic',
+    label: 'Dynamic',
+    description: 'Allows spanned, striped and mirrored volumes',
+  },
+  {
+    target: 'basic',
+    label: 'Basic',
+    description: 'Plain partitions, readable everywhere',
+  },
+];
+
+const ConvertDiskDialog: React.FC<ConvertDiskDialogProps> = ({
+  open,
+  disk,
+  onConfirm,
+  onCancel,
+}) => {
+  const [target, setTarget] = useState<DiskConversion | null>(null);
+
+  // Preconditions are checked up front so blocked conversions cannot be picked
+  const checks = CONVERSIONS.reduce((result, { target: conversion }) => {
+    result[conversion] = checkDiskOperationSafety(`convert_${conversion}`, disk);
+    return result;
+  }, {} as Record<DiskConversion, SafetyCheckResult>);
+
+  useEffect(() => {
+    if (open) {
+      setTarget(null);
+    }
+  }, [open]);
+
+  const handleOk = () => {
+    if (target && checks[target].safe) {
+      onConfirm(target);
+    }
+  };
+
+  const selectedCheck = target ? checks[target] : null;
+
+  return (
+    <Modal
+      title={disk ? `Convert Disk ${disk.id}` : 'Convert Disk'}
+      open={open}
+      onOk={handleOk}
+      onCancel={onCancel}
+      okText="Convert"
+      cancelText="Cancel"
+      okButtonProps={{ disabled: !selectedCheck?.safe }}
+      width={520}
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        {disk && (
+          <Text>
+            Currently <Tag>{disk.partitionStyle}</Tag><Tag>{disk.diskType}</Tag>
+          </Text>
+        )}
+        <Radio.Group
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          style={{ width: '100%' }}
+        >
+          <Space direction="vertical" style={{ width: '100%' }}>
+            {CONVERSIONS.map(({ target: conversion, label, description }) => {
+              const check = checks[conversion];
+              return (
+                <Radio key={conversion} value={conversion} disabled={!check.safe}>
+                  <Text strong>{label}</Text>
+                  <div>
+                    <Text type="secondary" style={{ fontSize: 12 }}>
+                      {check.safe ? description : check.warnings[0]}
+                    </Text>
+                  </div>
+                </Radio>
+              );
+            })}
+          </Space>
+        </Radio.Group>
+        {selectedCheck && selectedCheck.warnings.length > 0 && (
+          <Alert
+            message="Before you convert"
+            description={
+              <ul style={{ margin: 0, paddingLeft: 20 }}>
+                {selectedCheck.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            }
+            type="warning"
+            showIcon
+          />
+        )}
+      </Space>
+    </Modal>
+  );
+};
+
+export default ConvertDiskDialog;
\ No newline at end of file
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Input, InputNumber, Select, Radio, Checkbox, Form, Alert, Space, Typography } from 'antd';
+import { InfoCircleOutlined } from '@ant-design/icons';
+import { CreateVirtualDiskOptions } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+import { validateCreateVirtualDisk } from '../utils/safetyChecks';
+
+const { Text } = Typography;
+
+interface CreateVirtualDiskDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SIZE_UNITS: { value: number; label: string }[] = [
+  { value: 1, label: 'MB' },
+  { value: 1024, label: 'GB' },
+  { value: 1024 * 1024, label: 'TB' },
+];
+
+const CreateVirtualDiskDialog: React.FC<CreateVirtualDiskDialogProps> = ({ open, onClose }) => {
+  const { virtualDisks, createVirtualDisk } = useDiskStore();
+  const [form] = Form.useForm();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+  const type: CreateVirtualDiskOptions['type'] | undefined = Form.useWatch('type', form);
+
+  useEffect(() => {
+    if (open) {
+      form.resetFields();
+      setError('');
+    }
+  }, [open, form]);
+
+  const handleOk = async () => {
+    try {
+      const values = await form.validateFields();
+      const options: CreateVirtualDiskOptions = {
+        file: values.file.trim(),
+        maximum: Math.round(values.size * values.unit),
+        type: values.type,
+        attach: values.attach,
+      };
+
+      const validation = validateCreateVirtualDisk(options, virtualDisks);
+      if (!validation.valid) {
+        setError(validation.error || 'Invalid virtual disk');
+        return;
+      }
+
+      setError('');
+      setSaving(true);
+      const result = await createVirtualDisk(options);
+      setSaving(false);
+
+      if (result.success) {
+        onClose();
+      } else {
+        setError(result.message);
+      }
+    } catch (validationError) {
+      console.error('Form validation failed:', validationError);
+    }
+  };
+
+  return (
+    <Modal
+      title="Create Virtual Disk"
+      open={open}
+      onOk={handleOk}
+      onCancel={onClose}
+      okText="Create"
+      cancelText="Cancel"
+      okButtonProps={{ loading: saving }}
+      width={520}
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        <Form
+          form={form}
+          layout="vertical"
+          initialValues={{ size: 20, unit: 1024, type: 'expandable', attach: true }}
+        >
+          <Form.Item
+            label="File"
+            name="file"
+            rules={[{ required: true, message: 'Enter the full path of the file to create' }]}
+            extra="A .vhdx file holds up to 64 TB; .vhd is limited to 2040 GB but older systems can read it"
+          >
+            <Input placeholder="C:\VMs\scratch.vhdx" />
+          </Form.Item>
+          <Form.Item label="Size" required>
+            <Space.Compact style={{ width: '100%' }}>
+              <Form.Item name="size" noStyle rules={[{ required: true, message: 'Enter a size' }]}>
+                <InputNumber style={{ width: '100%' }} min={1} precision={0} />
+              </Form.Item>
+              <Form.Item name="unit" noStyle>
+                <Select style={{ width: 90 }} options={SIZE_UNITS} />
+              </Form.Item>
+            </Space.Compact>
+          </Form.Item>
+          <Form.Item label="Type" name="type">
+            <Radio.Group>
+              <Radio value="expandable">Dynamically expanding</Radio>
+              <Radio value="fixed">Fixed size</Radio>
+            </Radio.Group>
+          </Form.Item>
+          <Form.Item name="attach" valuePropName="checked">
+            <Checkbox>Attach when created</Checkbox>
+          </Form.Item>
+        </Form>
+        {type === 'fixed' && (
+          <Alert
+            message="A fixed virtual disk writes out its whole size on creation, which can take a long time"
+            type="info"
+            showIcon
+            icon={<InfoCircleOutlined />}
+          />
+        )}
+        <Text type="secondary" style={{ fontSize: 12 }}>
+          The new disk is not initialized; create a partition on it once it is attached.
+        </Text>
+        {error && (
+          <Alert message="Virtual Disk Error" description={error} type="error" showIcon />
+        )}
+      </Space>
+    </Modal>
+  );
+};
+
+export default CreateVirtualDiskDialog;
\ No newline at end of file
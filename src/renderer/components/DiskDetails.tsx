@@ -1,10 +1,16 @@
-import React from 'react';
-import { Card, Descriptions, Button, Empty, Tag, Space } from 'antd';
-import { ReloadOutlined } from '@ant-design/icons';
+import React, { useState } from 'react';
+import { Card, Descriptions, Button, Empty, Tag, Space, Table, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { ReloadOutlined, EditOutlined } from '@ant-design/icons';
+import { VolumeInfo } from '../../shared/types';
 import { useDiskStore } from '../store/diskStore';
+import UniqueIdDialog from './UniqueIdDialog';
+
+const { Text } = Typography;
 
 const DiskDetails: React.FC = () => {
-  const { selectedDisk, fetchDisks, fetchPartitions, loading } = useDiskStore();
+  const { selectedDisk, selectedDiskDetail, refreshAll, loading, isAdmin } = useDiskStore();
+  const [editingId, setEditingId] = useState(false);
 
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 B';
@@ -15,12 +21,43 @@ const DiskDetails: React.FC = () => {
   };
 
   const handleRefresh = async () => {
-    await fetchDisks();
-    if (selectedDisk) {
-      await fetchPartitions(selectedDisk.id);
-    }
+    await refreshAll();
   };
 
+  const volumeColumns: ColumnsType<VolumeInfo> = [
+    {
+      title: 'Ltr',
+      dataIndex: 'letter',
+      key: 'letter',
+      width: 50,
+      render: (letter?: string) => letter ? `${letter}:` : '-',
+    },
+    {
+      title: 'Label',
+      dataIndex: 'label',
+      key: 'label',
+      render: (label?: string) => label || '-',
+    },
+    {
+      title: 'Fs',
+      dataIndex: 'fileSystem',
+      key: 'fileSystem',
+      width: 70,
+    },
+    {
+      title: 'Size',
+      dataIndex: 'size',
+      key: 'size',
+      render: (size: number) => formatBytes(size),
+    },
+    {
+      title: 'Info',
+      dataIndex: 'info',
+      key: 'info',
+      render: (info: string) => info || '-',
+    },
+  ];
+
   if (!selectedDisk) {
     return (
       <Card
@@ -45,6 +82,13 @@ const DiskDetails: React.FC = () => {
   }
 
   const usedSpace = selectedDisk.size - selectedDisk.free;
+  const hasDetailFlags = !!selectedDiskDetail && (
+    selectedDiskDetail.isBootDisk ||
+    selectedDiskDetail.isPagefileDisk ||
+    selectedDiskDetail.isHibernationFileDisk ||
+    selectedDiskDetail.isCrashdumpDisk ||
+    selectedDiskDetail.isClusteredDisk
+  );
   const usagePercent = selectedDisk.size > 0
     ? ((usedSpace / selectedDisk.size) * 100).toFixed(1)
     : '0';
@@ -64,10 +108,52 @@ const DiskDetails: React.FC = () => {
       }
     >
       <Descriptions column={1} size="small" bordered>
-        <Descriptions.Item label="Disk ID">
+        <Descriptions.Item label="Disk Number">
           <strong>Disk {selectedDisk.id}</strong>
         </Descriptions.Item>
         
+        {selectedDiskDetail && (
+          <>
+            <Descriptions.Item label="Model">
+              {selectedDiskDetail.model || '-'}
+            </Descriptions.Item>
+            
+            <Descriptions.Item label="Disk ID">
+              <Space size="small">
+                <Text code copyable>{selectedDiskDetail.diskId}</Text>
+                <Button
+                  icon={<EditOutlined />}
+                  size="small"
+                  type="text"
+                  onClick={() => setEditingId(true)}
+                  disabled={!isAdmin}
+                />
+              </Space>
+            </Descriptions.Item>
+            
+            <Descriptions.Item label="Bus Type">
+              {selectedDiskDetail.busType || '-'}
+            </Descriptions.Item>
+            
+            <Descriptions.Item label="Location Path">
+              <Text style={{ wordBreak: 'break-all' }}>{selectedDiskDetail.locationPath || '-'}</Text>
+            </Descriptions.Item>
+            
+            <Descriptions.Item label="Read-only">
+              <Space size="small" wrap>
+                <Tag color={selectedDiskDetail.readOnly ? 'orange' : 'default'}>
+                  {selectedDiskDetail.readOnly ? 'Read-only' : 'Writable'}
+                </Tag>
+                {selectedDiskDetail.currentReadOnly !== selectedDiskDetail.readOnly && (
+                  <Tag color="orange">
+                    Currently {selectedDiskDetail.currentReadOnly ? 'read-only' : 'writable'}
+                  </Tag>
+                )}
+              </Space>
+            </Descriptions.Item>
+          </>
+        )}
+        
         <Descriptions.Item label="Status">
           <Tag color={selectedDisk.status === 'Online' ? 'success' : 'error'}>
             {selectedDisk.status}
@@ -101,13 +187,34 @@ const DiskDetails: React.FC = () => {
         <Descriptions.Item label="Attributes">
           <Space size="small" wrap>
             {selectedDisk.isSystemDisk && <Tag color="blue">System Disk</Tag>}
-            {selectedDisk.isBootDisk && <Tag color="purple">Boot Disk</Tag>}
-            {!selectedDisk.isSystemDisk && !selectedDisk.isBootDisk && (
+            {(selectedDisk.isBootDisk || selectedDiskDetail?.isBootDisk) && <Tag color="purple">Boot Disk</Tag>}
+            {selectedDiskDetail?.isPagefileDisk && <Tag color="geekblue">Pagefile</Tag>}
+            {selectedDiskDetail?.isHibernationFileDisk && <Tag color="cyan">Hibernation File</Tag>}
+            {selectedDiskDetail?.isCrashdumpDisk && <Tag color="volcano">Crashdump</Tag>}
+            {selectedDiskDetail?.isClusteredDisk && <Tag color="gold">Clustered</Tag>}
+            {!selectedDisk.isSystemDisk && !selectedDisk.isBootDisk && !hasDetailFlags && (
               <span style={{ color: '#999' }}>None</span>
             )}
           </Space>
         </Descriptions.Item>
       </Descriptions>
+
+      {selectedDiskDetail && selectedDiskDetail.volumes.length > 0 && (
+        <Table
+          style={{ marginTop: 16 }}
+          columns={volumeColumns}
+          dataSource={selectedDiskDetail.volumes}
+          rowKey="id"
+          pagination={false}
+          size="small"
+        />
+      )}
+
+      <UniqueIdDialog
+        open={editingId}
+        disk={selectedDisk}
+        onClose={() => setEditingId(false)}
+      />
     </Card>
   );
 };
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Alert, Button, Popconfirm, Space, message } from 'antd';
+import { useDiskStore } from '../store/diskStore';
+import { findUniqueIdCollisions, generateUniqueId } from '../utils/diskIds';
+
+/**
+ * Warns about disks that share a signature or GUID, usually a clone and its
+ * original, and offers to give the clone a fresh ID
+ */
+const DiskIdCollisionAlert: React.FC = () => {
+  const { disks, isAdmin, forensicProfile, setDiskUniqueId } = useDiskStore();
+  const collisions = findUniqueIdCollisions(disks);
+
+  if (collisions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Space direction="vertical" style={{ width: '100%', marginBottom: 12 }}>
+      {collisions.map(({ uniqueId, disks: sharing, duplicate }) => {
+        // Under the forensic profile the clone may be evidence, so it stays offline
+        const bringOnline = duplicate.status === 'Offline' && !forensicProfile?.enabled;
+        const handleRegenerate = async () => {
+          const result = await setDiskUniqueId(
+            duplicate.id,
+            generateUniqueId(duplicate.partitionStyle, disks),
+            duplicate.partitionStyle,
+            bringOnline
+          );
+          if (result.success) {
+            message.success(result.message);
+          } else {
+            message.error(result.message);
+          }
+        };
+
+        return (
+          <Alert
+            key={uniqueId}
+            type="warning"
+            showIcon
+            message={`Disks ${sharing.map(disk => disk.id).join(' and ')} share the ID ${uniqueId}`}
+            description={
+              duplicate.status === 'Offline'
+                ? `Windows took Disk ${duplicate.id} offline because of the collision. A new ID lets it come online.`
+                : 'Only one of these disks can be online at a time after the next restart.'
+            }
+            action={
+              <Popconfirm
+                title={`Give Disk ${duplicate.id} a new ID?`}
+                description={
+                  duplicate.status !== 'Offline'
+                    ? undefined
+                    : bringOnline
+                      ? 'The disk is brought online afterwards'
+                      : 'The disk stays offline under the forensic profile'
+                }
+                onConfirm={handleRegenerate}
+                okText="Regenerate"
+                cancelText="Cancel"
+                disabled={!isAdmin}
+              >
+                <Button size="small" disabled={!isAdmin}>
+                  Regenerate ID for Disk {duplicate.id}
+                </Button>
+              </Popconfirm>
+            }
+          />
+        );
+      })}
+    </Space>
+  );
+};
+
+export default DiskIdCollisionAlert;
\ No newline at end of file
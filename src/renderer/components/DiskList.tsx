@@ -1,11 +1,14 @@
 import React from 'react';
-import { Table, Tag, Spin } from 'antd';
+import { Table, Tag, Spin, Tooltip } from 'antd';
 import type { ColumnsType } from 'antd/es/table';
 import { DiskInfo } from '../../shared/types';
 import { useDiskStore } from '../store/diskStore';
+import { findUniqueIdCollisions } from '../utils/diskIds';
+import { useLayoutProjection } from '../hooks/useLayoutProjection';
 
 const DiskList: React.FC = () => {
   const { disks, selectedDiskId, selectDisk, loading } = useDiskStore();
+  const projection = useLayoutProjection();
 
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 B';
@@ -15,13 +18,17 @@ const DiskList: React.FC = () => {
     return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
   };
 
+  const collidingDiskIds = new Set(
+    findUniqueIdCollisions(disks).flatMap(collision => collision.disks.map(disk => disk.id))
+  );
+
   const columns: ColumnsType<DiskInfo> = [
     {
       title: 'Disk #',
       dataIndex: 'id',
       key: 'id',
       width: 80,
-      render: (id: number) => <strong>Disk {id}</strong>,
+      render: (id: number, record: DiskInfo) => <strong>Disk {record.missingId ?? id}</strong>,
     },
     {
       title: 'Status',
@@ -31,8 +38,8 @@ const DiskList: React.FC = () => {
       render: (status: string) => {
         let color = 'default';
         if (status === 'Online') color = 'success';
-        else if (status === 'Offline') color = 'error';
-        else if (status === 'No Media') color = 'warning';
+        else if (status === 'Offline' || status === 'Missing' || status === 'Invalid') color = 'error';
+        else if (status === 'No Media' || status === 'Foreign' || status === 'Not Initialized') color = 'warning';
         return <Tag color={color}>{status}</Tag>;
       },
     },
@@ -48,7 +55,18 @@ const DiskList: React.FC = () => {
       dataIndex: 'free',
       key: 'free',
       width: 120,
-      render: (free: number) => formatBytes(free),
+      render: (free: number, record: DiskInfo) => {
+        // Pending operations change the free space once they are applied
+        const projected = projection.disks.find(disk => disk.id === record.id)?.free ?? free;
+        if (projected === free) {
+          return formatBytes(free);
+        }
+        return (
+          <Tooltip title={`${formatBytes(free)} now`}>
+            <span style={{ color: '#722ed1' }}>{formatBytes(Math.max(0, projected))}</span>
+          </Tooltip>
+        );
+      },
     },
     {
       title: 'Type',
@@ -70,6 +88,7 @@ const DiskList: React.FC = () => {
         <>
           {record.isSystemDisk && <Tag color="blue">System</Tag>}
           {record.isBootDisk && <Tag color="purple">Boot</Tag>}
+          {collidingDiskIds.has(record.id) && <Tag color="red">ID collision</Tag>}
         </>
       ),
     },
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Radio, Select, Checkbox, Alert, Space, Tag, Typography } from 'antd';
+import { DiskInfo } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+import { checkDiskOperationSafety, SafetyCheckResult, formatBytes } from '../utils/safetyChecks';
+
+const { Text } = Typography;
+
+export type DiskRecoveryAction = 'import' | 'recover' | 'repair' | 'delete_missing';
+
+export interface DiskRecoveryRequest {
+  action: DiskRecoveryAction;
+  /** Repair only: the RAID-5 volume to rebuild onto this disk */
+  volumeId?: number;
+  /** Delete missing only: also delete the volumes on the disk */
+  override?: boolean;
+}
+
+interface DiskRecoveryDialogProps {
+  open: boolean;
+  disk: DiskInfo | null;
+  onConfirm: (request: DiskRecoveryRequest) => void;
+  onCancel: () => void;
+}
+
+const ACTIONS: { action: DiskRecoveryAction; label: string; description: string }[] = [
+  {
+    action: 'import',
+    label: 'Import Foreign Disk',
+    description: 'Adopt a dynamic disk group moved here from another machine',
+  },
+  {
+    action: 'recover',
+    label: 'Recover Disk Pack',
+    description: 'Rescan the disk group, repair its database and resynchronize stale mirrors and RAID-5 volumes',
+  },
+  {
+    action: 'repair',
+    label: 'Repair RAID-5 Volume',
+    description: 'Rebuild the failed member of a RAID-5 volume onto this disk',
+  },
+  {
+    action: 'delete_missing',
+    label: 'Remove Missing Disk',
+    description: 'Forget a disk that is gone for good so its volumes stop showing as failed',
+  },
+];
+
+// What each disk state usually calls for
+const SUGGESTED_ACTIONS: Partial<Record<DiskInfo['status'], DiskRecoveryAction>> = {
+  Foreign: 'import',
+  Invalid: 'recover',
+  Missing: 'delete_missing',
+};
+
+const DiskRecoveryDialog: React.FC<DiskRecoveryDialogProps> = ({
+  open,
+  disk,
+  onConfirm,
+  onCancel,
+}) => {
+  const { volumes } = useDiskStore();
+  const [action, setAction] = useState<DiskRecoveryAction | null>(null);
+  const [volumeId, setVolumeId] = useState<number | undefined>(undefined);
+  const [override, setOverride] = useState(false);
+
+  const operationFor = (candidate: DiskRecoveryAction) =>
+    candidate === 'delete_missing' && override ? 'delete_missing_override' : candidate;
+
+  // Preconditions are checked up front so blocked actions cannot be picked
+  const checks = ACTIONS.reduce((result, { action: candidate }) => {
+    result[candidate] = checkDiskOperationSafety(operationFor(candidate), disk);
+    return result;
+  }, {} as Record<DiskRecoveryAction, SafetyCheckResult>);
+
+  // A type-to-confirm result is allowed, just confirmed harder; only a blocker rules an action out
+  const isBlocked = (check: SafetyCheckResult) => !check.safe && !check.requiresTypeToConfirm;
+
+  const raidVolumes = volumes.filter(volume => volume.type === 'RAID-5' && volume.diskId !== disk?.id);
+
+  useEffect(() => {
+    if (open) {
+      const suggested = disk ? SUGGESTED_ACTIONS[disk.status] : undefined;
+      setAction(suggested ?? null);
+      setVolumeId(undefined);
+      setOverride(false);
+    }
+  }, [open, disk]);
+
+  const selectedCheck = action ? checks[action] : null;
+  const canConfirm = !!selectedCheck && !isBlocked(selectedCheck) && (action !== 'repair' || volumeId !== undefined);
+
+  const handleOk = () => {
+    if (action && canConfirm) {
+      onConfirm({ action, volumeId, override });
+    }
+  };
+
+  return (
+    <Modal
+      title={disk ? `Recover ${disk.missingId ? `Missing Disk ${disk.missingId}` : `Disk ${disk.id}`}` : 'Recover Disk'}
+      open={open}
+      onOk={handleOk}
+      onCancel={onCancel}
+      okText="Continue"
+      cancelText="Cancel"
+      okButtonProps={{ disabled: !canConfirm, danger: action === 'delete_missing' }}
+      width={560}
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        {disk && (
+          <Text>
+            Currently <Tag color={disk.status === 'Online' ? 'success' : 'error'}>{disk.status}</Tag><Tag>{disk.diskType}</Tag>
+          </Text>
+        )}
+        <Radio.Group
+          value={action}
+          onChange={(e) => setAction(e.target.value)}
+          style={{ width: '100%' }}
+        >
+          <Space direction="vertical" style={{ width: '100%' }}>
+            {ACTIONS.map(({ action: candidate, label, description }) => {
+              const check = checks[candidate];
+              return (
+                <Radio key={candidate} value={candidate} disabled={isBlocked(check)}>
+                  <Text strong>{label}</Text>
+                  <div>
+                    <Text type="secondary" style={{ fontSize: 12 }}>
+                      {isBlocked(check) ? check.warnings[0] : description}
+                    </Text>
+                  </div>
+                </Radio>
+              );
+            })}
+          </Space>
+        </Radio.Group>
+        {action === 'repair' && (
+          <Select
+            style={{ width: '100%' }}
+            placeholder="RAID-5 volume to repair"
+            value={volumeId}
+            onChange={(value) => setVolumeId(value)}
+            options={raidVolumes.map(volume => ({
+              value: volume.id,
+              label: `Volume ${volume.id}${volume.letter ? ` (${volume.letter}:)` : ''}, ${formatBytes(volume.size)}, ${volume.status}`,
+            }))}
+            notFoundContent="No RAID-5 volumes found"
+          />
+        )}
+        {action === 'delete_missing' && (
+          <Checkbox checked={override} onChange={(e) => setOverride(e.target.checked)}>
+            Also delete the volumes that live on this disk
+          </Checkbox>
+        )}
+        {selectedCheck && !isBlocked(selectedCheck) && selectedCheck.warnings.length > 0 && (
+          <Alert
+            message="What happens"
+            description={
+              <ul style={{ margin: 0, paddingLeft: 20 }}>
+                {selectedCheck.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            }
+            type="warning"
+            showIcon
+          />
+        )}
+      </Space>
+    </Modal>
+  );
+};
+
+export default DiskRecoveryDialog;
\ No newline at end of file
@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Steps, Radio, Table, InputNumber, Checkbox, Input, Select, Alert, Space, Button, Statistic, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { CreateDynamicVolumeOptions, DiskInfo, DynamicVolumeLayout } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+import {
+  validateDynamicVolume,
+  validateFormatOptions,
+  validateDriveLetter,
+  getFreeDriveLetters,
+  formatBytes,
+} from '../utils/safetyChecks';
+import { DYNAMIC_VOLUME_LAYOUTS, getDynamicVolumeCapacity } from '../utils/dynamicVolumes';
+
+const { Text } = Typography;
+
+interface DynamicVolumeWizardProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const DynamicVolumeWizard: React.FC<DynamicVolumeWizardProps> = ({ open, onClose }) => {
+  const { disks, volumes, createDynamicVolume } = useDiskStore();
+  const [step, setStep] = useState(0);
+  const [layout, setLayout] = useState<DynamicVolumeLayout>('simple');
+  const [members, setMembers] = useState<number[]>([]);
+  const [useAllSpace, setUseAllSpace] = useState(true);
+  const [size, setSize] = useState<number | null>(null);
+  const [format, setFormat] = useState(true);
+  const [label, setLabel] = useState('');
+  const [letter, setLetter] = useState<string | undefined>(undefined);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (open) {
+      setStep(0);
+      setLayout('simple');
+      setMembers([]);
+      setUseAllSpace(true);
+      setSize(null);
+      setFormat(true);
+      setLabel('');
+      setLetter(getFreeDriveLetters(volumes)[0]);
+      setError('');
+    }
+  }, [open, volumes]);
+
+  const layoutInfo = DYNAMIC_VOLUME_LAYOUTS.find(({ value }) => value === layout)!;
+  const memberDisks = members
+    .map(id => disks.find(disk => disk.id === id))
+    .filter((disk): disk is DiskInfo => disk !== undefined);
+
+  const options: CreateDynamicVolumeOptions = {
+    layout,
+    disks: members,
+    size: useAllSpace || size === null ? undefined : size,
+    format: format ? { fileSystem: 'NTFS', label: label || undefined, quick: true } : undefined,
+    letter,
+  };
+  const capacity = getDynamicVolumeCapacity(layout, memberDisks, options.size);
+  const validation = validateDynamicVolume(options, disks);
+
+  const handleLayoutChange = (value: DynamicVolumeLayout) => {
+    setLayout(value);
+    const { maxDisks } = DYNAMIC_VOLUME_LAYOUTS.find(info => info.value === value)!;
+    setMembers(members.slice(0, maxDisks));
+  };
+
+  const handleNext = () => {
+    if (step === 1 && !validation.valid) {
+      setError(validation.error || 'Invalid selection');
+      return;
+    }
+    setError('');
+    setStep(step + 1);
+  };
+
+  const handleCreate = async () => {
+    if (!validation.valid) {
+      setError(validation.error || 'Invalid selection');
+      return;
+    }
+    if (options.format) {
+      const formatCheck = validateFormatOptions(options.format, capacity);
+      if (!formatCheck.valid) {
+        setError(formatCheck.error || 'Invalid label');
+        return;
+      }
+    }
+    if (letter) {
+      const letterCheck = validateDriveLetter(letter, volumes);
+      if (!letterCheck.valid) {
+        setError(letterCheck.error || 'Invalid drive letter');
+        return;
+      }
+    }
+
+    setError('');
+    setSaving(true);
+    const result = await createDynamicVolume(options);
+    setSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.message);
+    }
+  };
+
+  const columns: ColumnsType<DiskInfo> = [
+    {
+      title: 'Disk',
+      dataIndex: 'id',
+      key: 'id',
+      render: (id: number) => `Disk ${id}`,
+    },
+    {
+      title: 'Type',
+      key: 'type',
+      render: (_, disk: DiskInfo) => disk.status === 'Online' ? disk.diskType : disk.status,
+    },
+    {
+      title: 'Size',
+      dataIndex: 'size',
+      key: 'size',
+      render: (bytes: number) => formatBytes(bytes),
+    },
+    {
+      title: 'Free',
+      dataIndex: 'free',
+      key: 'free',
+      render: (bytes: number) => formatBytes(bytes),
+    },
+  ];
+
+  const isSelectable = (disk: DiskInfo) =>
+    disk.status === 'Online' && disk.diskType === 'Dynamic' && disk.free > 0;
+
+  const footer = (
+    <Space>
+      <Button onClick={onClose}>Cancel</Button>
+      {step > 0 && <Button onClick={() => setStep(step - 1)}>Back</Button>}
+      {step < 2 ? (
+        <Button type="primary" onClick={handleNext}>Next</Button>
+      ) : (
+        <Button type="primary" loading={saving} onClick={handleCreate}>Create</Button>
+      )}
+    </Space>
+  );
+
+  return (
+    <Modal
+      title="New Dynamic Volume"
+      open={open}
+      onCancel={onClose}
+      footer={footer}
+      width={640}
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        <Steps
+          current={step}
+          size="small"
+          items={[{ title: 'Layout' }, { title: 'Disks' }, { title: 'Format' }]}
+        />
+
+        {step === 0 && (
+          <Radio.Group value={layout} onChange={(e) => handleLayoutChange(e.target.value)}>
+            <Space direction="vertical">
+              {DYNAMIC_VOLUME_LAYOUTS.map(info => (
+                <Radio key={info.value} value={info.value}>
+                  <Text strong>{info.label}</Text>
+                  <div>
+                    <Text type="secondary" style={{ fontSize: 12 }}>{info.description}</Text>
+                  </div>
+                </Radio>
+              ))}
+            </Space>
+          </Radio.Group>
+        )}
+
+        {step === 1 && (
+          <>
+            <Text type="secondary">
+              {layoutInfo.minDisks === layoutInfo.maxDisks
+                ? `Select ${layoutInfo.minDisks} dynamic disk${layoutInfo.minDisks === 1 ? '' : 's'}`
+                : `Select ${layoutInfo.minDisks} or more dynamic disks`}
+            </Text>
+            <Table
+              columns={columns}
+              dataSource={disks}
+              rowKey="id"
+              pagination={false}
+              size="small"
+              rowSelection={{
+                type: layoutInfo.maxDisks === 1 ? 'radio' : 'checkbox',
+                selectedRowKeys: members,
+                onChange: (keys) => setMembers((keys as number[]).slice(0, layoutInfo.maxDisks)),
+                getCheckboxProps: (disk: DiskInfo) => ({ disabled: !isSelectable(disk) }),
+              }}
+            />
+            <Space>
+              <Checkbox checked={useAllSpace} onChange={(e) => setUseAllSpace(e.target.checked)}>
+                Use all available space
+              </Checkbox>
+              <InputNumber
+                disabled={useAllSpace}
+                min={1}
+                precision={0}
+                addonAfter="MB per disk"
+                value={size}
+                onChange={(value) => setSize(value)}
+              />
+            </Space>
+            <Statistic title="Resulting capacity" value={formatBytes(capacity)} />
+            {validation.valid && validation.warnings.length > 0 && (
+              <Alert message={validation.warnings.join('. ')} type="warning" showIcon />
+            )}
+          </>
+        )}
+
+        {step === 2 && (
+          <>
+            <Checkbox checked={format} onChange={(e) => setFormat(e.target.checked)}>
+              Quick format as NTFS
+            </Checkbox>
+            <Input
+              placeholder="Volume label"
+              maxLength={32}
+              disabled={!format}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+            <Select
+              style={{ width: 200 }}
+              placeholder="No drive letter"
+              allowClear
+              value={letter}
+              onChange={(value) => setLetter(value)}
+              options={getFreeDriveLetters(volumes).map(free => ({ value: free, label: `${free}:` }))}
+            />
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              {`${layoutInfo.label} volume on ${memberDisks.map(disk => `Disk ${disk.id}`).join(', ')}, ${formatBytes(capacity)}`}
+            </Text>
+          </>
+        )}
+
+        {error && (
+          <Alert message="Dynamic Volume Error" description={error} type="error" showIcon />
+        )}
+      </Space>
+    </Modal>
+  );
+};
+
+export default DynamicVolumeWizard;
\ No newline at end of file
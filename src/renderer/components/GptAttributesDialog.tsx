@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Switch, Alert, Space, Tag, Typography, Descriptions, message } from 'antd';
+import { InfoCircleOutlined } from '@ant-design/icons';
+import { DiskInfo, PartitionInfo } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+import {
+  GPT_ATTRIBUTES,
+  GptAttribute,
+  decodeGptAttributes,
+  encodeGptAttributes,
+} from '../utils/gptAttributes';
+
+const { Text } = Typography;
+
+interface GptAttributesDialogProps {
+  open: boolean;
+  disk: DiskInfo | null;
+  partition: PartitionInfo | null;
+  onClose: () => void;
+}
+
+const GptAttributesDialog: React.FC<GptAttributesDialogProps> = ({ open, disk, partition, onClose }) => {
+  const { setGptAttributes } = useDiskStore();
+  const current = decodeGptAttributes(partition?.detail?.attributes);
+  const [draft, setDraft] = useState<Record<GptAttribute, boolean>>(current.flags);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (open) {
+      setDraft(decodeGptAttributes(partition?.detail?.attributes).flags);
+      setError('');
+    }
+  }, [open, partition]);
+
+  const currentValue = encodeGptAttributes(current.flags, current.value);
+  const newValue = encodeGptAttributes(draft, current.value);
+  const preview = decodeGptAttributes(newValue);
+  const hasChanges = newValue !== currentValue;
+  const isBasicData = partition?.detail?.typeName === 'Basic Data';
+  const isRecovery = partition?.detail?.typeName === 'Recovery';
+
+  const handleOk = async () => {
+    if (!disk || !partition || !hasChanges) {
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    const result = await setGptAttributes(disk.id, partition.id, newValue);
+    setSaving(false);
+
+    if (result.success) {
+      message.success(result.message);
+      onClose();
+    } else {
+      setError(result.message);
+    }
+  };
+
+  return (
+    <Modal
+      title={partition ? `Partition ${partition.id} GPT Attributes` : 'GPT Attributes'}
+      open={open}
+      onOk={handleOk}
+      onCancel={onClose}
+      okText="Apply"
+      cancelText="Cancel"
+      okButtonProps={{ disabled: !hasChanges, loading: saving }}
+      width={560}
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        {(Object.keys(GPT_ATTRIBUTES) as GptAttribute[]).map(attribute => (
+          <div key={attribute}>
+            <Space>
+              <Switch
+                checked={draft[attribute]}
+                onChange={checked => setDraft({ ...draft, [attribute]: checked })}
+              />
+              <Text strong>{GPT_ATTRIBUTES[attribute].label}</Text>
+              <Tag>bit {GPT_ATTRIBUTES[attribute].bit}</Tag>
+            </Space>
+            <div>
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                {GPT_ATTRIBUTES[attribute].description}
+              </Text>
+            </div>
+          </div>
+        ))}
+
+        <Descriptions column={1} size="small" bordered>
+          <Descriptions.Item label="Current">
+            <Text code>{currentValue}</Text>
+          </Descriptions.Item>
+          <Descriptions.Item label="New">
+            <Text code>{newValue}</Text>
+          </Descriptions.Item>
+          <Descriptions.Item label="Bits set">
+            {preview.bits.length === 0
+              ? '-'
+              : preview.bits.map(({ bit, name }) => (
+                <Tag key={bit} color={name ? 'blue' : 'default'}>
+                  {name ? `${bit}: ${name}` : `${bit}`}
+                </Tag>
+              ))}
+          </Descriptions.Item>
+        </Descriptions>
+
+        {isRecovery && (
+          <Alert
+            message="Recovery partitions are normally Required and No Drive Letter (0x8000000000000001)"
+            type="info"
+            showIcon
+            icon={<InfoCircleOutlined />}
+          />
+        )}
+        {!isBasicData && !isRecovery && (draft.readOnly || draft.shadowCopy || draft.hidden || draft.noDriveLetter) && (
+          <Alert
+            message="Bits 60 to 63 are meant for basic data and recovery partitions"
+            type="warning"
+            showIcon
+          />
+        )}
+        {error && (
+          <Alert message="GPT Attributes Error" description={error} type="error" showIcon />
+        )}
+      </Space>
+    </Modal>
+  );
+};
+
+export default GptAttributesDialog;
\ No newline at end of file
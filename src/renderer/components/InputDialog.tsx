@@ -1,29 +1,70 @@
 import React, { useState, useEffect } from 'react';
-import { Modal, Input, Select, InputNumber, Form, Alert, Space, Typography } from 'antd';
+import { Modal, Input, Select, InputNumber, AutoComplete, Form, Alert, Space, Typography, Radio, Checkbox } from 'antd';
 import { InfoCircleOutlined } from '@ant-design/icons';
 import {
-  validatePartitionSize,
+  validateCreatePartition,
+  validateResizeSize,
   validateDriveLetter,
-  validateFileSystem,
+  getFreeDriveLetters,
+  validateFormatOptions,
   formatBytes,
 } from '../utils/safetyChecks';
-import { DiskInfo } from '../../shared/types';
+import { FORMAT_FILE_SYSTEMS, getDefaultAllocationUnit } from '../utils/formatOptions';
+import { CreatePartitionKind, DiskInfo, FormatFileSystem, VolumeInfo } from '../../shared/types';
+import {
+  ALLOCATION_UNIT_SIZES,
+  NTFS_COMPRESSION_MAX_UNIT,
+  UDF_REVISIONS,
+  formatUnitSize,
+} from '../../shared/formatOptions';
 
 const { Text } = Typography;
 const { Option } = Select;
 
+const PARTITION_KINDS: { kind: CreatePartitionKind; label: string; style?: DiskInfo['partitionStyle'] }[] = [
+  { kind: 'primary', label: 'Primary' },
+  { kind: 'efi', label: 'EFI System', style: 'GPT' },
+  { kind: 'msr', label: 'Microsoft Reserved (MSR)', style: 'GPT' },
+  { kind: 'extended', label: 'Extended', style: 'MBR' },
+  { kind: 'logical', label: 'Logical', style: 'MBR' },
+];
+
+// Well-known partition type IDs offered for primary partitions
+const GPT_TYPE_IDS = [
+  { value: 'ebd0a0a2-b9e5-4433-87c0-68b6b72699c7', label: 'Basic data' },
+  { value: 'c12a7328-f81f-11d2-ba4b-00a0c93ec93b', label: 'EFI System' },
+  { value: 'e3c9e316-0b5c-4db8-817d-f92df00215ae', label: 'Microsoft Reserved' },
+  { value: 'de94bba4-06d1-4d40-a16a-bfd50179d6ac', label: 'Windows Recovery' },
+  { value: '5808c8aa-7e8f-42e0-85d2-e1e90434cfb3', label: 'LDM metadata' },
+  { value: 'af9b60a0-1431-4f62-bc68-3311714a69ad', label: 'LDM data' },
+];
+
+const MBR_TYPE_IDS = [
+  { value: '07', label: 'NTFS / exFAT' },
+  { value: '0C', label: 'FAT32 (LBA)' },
+  { value: '06', label: 'FAT16' },
+  { value: '27', label: 'Windows Recovery' },
+  { value: '42', label: 'Dynamic disk' },
+  { value: '12', label: 'OEM / diagnostics' },
+];
+
 export type InputDialogType =
   | 'create_partition'
   | 'format'
   | 'extend'
   | 'shrink'
-  | 'assign_letter';
+  | 'assign_letter'
+  | 'swap_letters';
 
 interface InputDialogProps {
   open: boolean;
   type: InputDialogType;
   disk: DiskInfo | null;
   partitionId?: number;
+  /** Upper bound for extend and shrink, in bytes: contiguous free space or reclaimable space */
+  maxSize?: number;
+  /** Volumes in the system, to offer only free letters and swap partners */
+  volumes?: VolumeInfo[];
   onConfirm: (values: any) => void;
   onCancel: () => void;
 }
@@ -33,11 +74,23 @@ const InputDialog: React.FC<InputDialogProps> = ({
   type,
   disk,
   partitionId,
+  maxSize,
+  volumes = [],
   onConfirm,
   onCancel,
 }) => {
   const [form] = Form.useForm();
   const [error, setError] = useState<string>('');
+  const partitionKind: CreatePartitionKind | undefined = Form.useWatch('kind', form);
+  const fileSystem: FormatFileSystem | undefined = Form.useWatch('fileSystem', form);
+  const formatValues = Form.useWatch([], form);
+
+  const partitionSize = disk?.partitions.find(p => p.id === partitionId)?.size ?? 0;
+  const volumeId = disk?.partitions.find(p => p.id === partitionId)?.volumeId;
+  // Windows will not change the letter of the volume it booted from
+  const swapCandidates = volumes.filter(v =>
+    v.letter && v.id !== volumeId && !/\b(System|Boot)\b/.test(v.info)
+  );
 
   useEffect(() => {
     if (open) {
@@ -46,7 +99,7 @@ const InputDialog: React.FC<InputDialogProps> = ({
       
       // Set default values based on type
       if (type === 'format') {
-        form.setFieldsValue({ fileSystem: 'NTFS' });
+        form.setFieldsValue({ fileSystem: 'NTFS', quick: true });
       }
     }
   }, [open, type, form]);
@@ -58,12 +111,29 @@ const InputDialog: React.FC<InputDialogProps> = ({
 
       // Additional validation based on type
       switch (type) {
-        case 'create_partition':
+        case 'create_partition': {
+          if (values.kind === 'efi' || values.kind === 'msr') {
+            delete values.align;
+          }
+          // Empty fields are left to Diskpart's defaults
+          Object.keys(values).forEach(key => {
+            if (values[key] === undefined || values[key] === null || values[key] === '') {
+              delete values[key];
+            }
+          });
+          const partitionValidation = validateCreatePartition(values, disk);
+          if (!partitionValidation.valid) {
+            setError(partitionValidation.error || 'Invalid partition options');
+            return;
+          }
+          break;
+        }
+
         case 'extend':
         case 'shrink':
           if (values.size) {
             const sizeInBytes = values.size * 1024 * 1024; // Convert MB to bytes
-            const validation = validatePartitionSize(sizeInBytes, disk);
+            const validation = validateResizeSize(sizeInBytes, maxSize ?? 0, type);
             if (!validation.valid) {
               setError(validation.error || 'Invalid size');
               return;
@@ -73,7 +143,7 @@ const InputDialog: React.FC<InputDialogProps> = ({
           break;
 
         case 'assign_letter':
-          const letterValidation = validateDriveLetter(values.letter);
+          const letterValidation = validateDriveLetter(values.letter, volumes);
           if (!letterValidation.valid) {
             setError(letterValidation.error || 'Invalid drive letter');
             return;
@@ -81,13 +151,27 @@ const InputDialog: React.FC<InputDialogProps> = ({
           values.letter = values.letter.toUpperCase();
           break;
 
-        case 'format':
-          const fsValidation = validateFileSystem(values.fileSystem);
-          if (!fsValidation.valid) {
-            setError(fsValidation.error || 'Invalid file system');
+        case 'swap_letters':
+          if (!swapCandidates.some(v => v.id === values.volumeId)) {
+            setError('Select a volume to swap letters with');
             return;
           }
           break;
+
+        case 'format': {
+          // Empty fields and unchecked switches are left out of the command
+          Object.keys(values).forEach(key => {
+            if (values[key] === undefined || values[key] === null || values[key] === '' || values[key] === false) {
+              if (key !== 'quick') delete values[key];
+            }
+          });
+          const formatValidation = validateFormatOptions(values, partitionSize);
+          if (!formatValidation.valid) {
+            setError(formatValidation.error || 'Invalid format options');
+            return;
+          }
+          break;
+        }
       }
 
       onConfirm(values);
@@ -115,6 +199,8 @@ const InputDialog: React.FC<InputDialogProps> = ({
         return 'Shrink Partition';
       case 'assign_letter':
         return 'Assign Drive Letter';
+      case 'swap_letters':
+        return 'Swap Drive Letters';
       default:
         return 'Input Required';
     }
@@ -133,6 +219,20 @@ const InputDialog: React.FC<InputDialogProps> = ({
               icon={<InfoCircleOutlined />}
               style={{ marginBottom: 16 }}
             />
+            <Form.Item
+              label="Partition Type"
+              name="kind"
+              initialValue="primary"
+              rules={[{ required: true }]}
+            >
+              <Select>
+                {PARTITION_KINDS
+                  .filter(({ style }) => !style || style === disk?.partitionStyle)
+                  .map(({ kind, label }) => (
+                    <Option key={kind} value={kind}>{label}</Option>
+                  ))}
+              </Select>
+            </Form.Item>
             <Form.Item
               label="Size (MB)"
               name="size"
@@ -150,25 +250,66 @@ const InputDialog: React.FC<InputDialogProps> = ({
                 style={{ width: '100%' }}
                 placeholder="Leave empty for maximum size"
                 min={1}
+                precision={0}
                 max={disk ? Math.floor(disk.free / (1024 * 1024)) : undefined}
               />
             </Form.Item>
-            <Form.Item
-              label="Partition Type"
-              name="type"
-              initialValue="primary"
-              rules={[{ required: true }]}
-            >
-              <Select>
-                <Option value="primary">Primary</Option>
-                <Option value="extended">Extended</Option>
-                <Option value="logical">Logical</Option>
-              </Select>
-            </Form.Item>
+            <Space style={{ width: '100%' }} size="middle">
+              <Form.Item
+                label="Offset (KB)"
+                name="offset"
+                tooltip="Where the partition starts. Leave empty to use the first free extent that fits"
+              >
+                <InputNumber min={0} precision={0} placeholder="Automatic" />
+              </Form.Item>
+              <Form.Item
+                label="Align (KB)"
+                name="align"
+                tooltip="Round the start up to a multiple of this, e.g. 1024 for RAID stripes"
+              >
+                <InputNumber
+                  min={1}
+                  precision={0}
+                  placeholder="Automatic"
+                  disabled={partitionKind === 'efi' || partitionKind === 'msr'}
+                />
+              </Form.Item>
+            </Space>
+            {partitionKind === 'primary' && (
+              <Form.Item
+                label="Type ID"
+                name="id"
+                preserve={false}
+                tooltip={disk?.partitionStyle === 'GPT'
+                  ? 'GPT partition type GUID'
+                  : 'MBR partition type byte in hex'}
+              >
+                <AutoComplete
+                  placeholder="Leave empty for a basic data partition"
+                  options={(disk?.partitionStyle === 'GPT' ? GPT_TYPE_IDS : MBR_TYPE_IDS).map(({ value, label }) => ({
+                    value,
+                    label: `${label} (${value})`,
+                  }))}
+                  filterOption={(input, option) =>
+                    (option?.label as string).toLowerCase().includes(input.toLowerCase())
+                  }
+                />
+              </Form.Item>
+            )}
+            {partitionKind === 'primary' && (
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                A non-standard type ID can hide the partition from Windows. Only set one if you know you need it.
+              </Text>
+            )}
           </>
         );
 
-      case 'format':
+      case 'format': {
+        const unitSizes = fileSystem ? ALLOCATION_UNIT_SIZES[fileSystem] : [];
+        const defaultUnit = fileSystem ? getDefaultAllocationUnit(fileSystem, partitionSize) : undefined;
+        const formatWarnings = fileSystem
+          ? validateFormatOptions({ ...formatValues, fileSystem }, partitionSize).warnings
+          : [];
         return (
           <>
             <Alert
@@ -183,42 +324,88 @@ const InputDialog: React.FC<InputDialogProps> = ({
               name="fileSystem"
               rules={[{ required: true, message: 'Please select a file system' }]}
               initialValue="NTFS"
+              extra={FORMAT_FILE_SYSTEMS.find(({ value }) => value === fileSystem)?.description}
             >
-              <Select>
-                <Option value="NTFS">NTFS</Option>
-                <Option value="FAT32">FAT32</Option>
-                <Option value="exFAT">exFAT</Option>
-              </Select>
+              <Select
+                options={FORMAT_FILE_SYSTEMS.map(({ value, label }) => ({ value, label }))}
+                onChange={() => form.setFieldsValue({ unitSize: undefined, compress: false, revision: undefined })}
+              />
             </Form.Item>
             <Form.Item
               label="Volume Label"
               name="label"
               rules={[
-                { max: 32, message: 'Label must be 32 characters or less' },
+                {
+                  max: fileSystem === 'NTFS' || fileSystem === 'UDF' ? 32 : 11,
+                  message: `Label must be ${fileSystem === 'NTFS' || fileSystem === 'UDF' ? 32 : 11} characters or less`,
+                },
               ]}
             >
               <Input placeholder="Optional volume label" maxLength={32} />
             </Form.Item>
-            <Form.Item
-              label="Quick Format"
-              name="quick"
-              valuePropName="checked"
-              initialValue={true}
-            >
-              <Select defaultValue={true}>
-                <Option value={true}>Yes (Faster)</Option>
-                <Option value={false}>No (Full format, slower but more thorough)</Option>
-              </Select>
+            {unitSizes.length > 0 && (
+              <Form.Item label="Allocation Unit Size" name="unitSize">
+                <Select
+                  allowClear
+                  placeholder={defaultUnit ? `Default (${formatUnitSize(defaultUnit)})` : 'Default'}
+                  options={unitSizes.map(size => ({
+                    value: size,
+                    label: size === defaultUnit ? `${formatUnitSize(size)} (default)` : formatUnitSize(size),
+                  }))}
+                />
+              </Form.Item>
+            )}
+            {fileSystem === 'UDF' && (
+              <Form.Item label="UDF Revision" name="revision">
+                <Select
+                  allowClear
+                  placeholder="Default (2.01)"
+                  options={UDF_REVISIONS.map(revision => ({ value: revision, label: revision }))}
+                />
+              </Form.Item>
+            )}
+            <Form.Item label="Format Type" name="quick" initialValue={true}>
+              <Radio.Group>
+                <Radio value={true}>Quick</Radio>
+                <Radio value={false}>Full (checks every sector)</Radio>
+              </Radio.Group>
+            </Form.Item>
+            {fileSystem === 'NTFS' && (
+              <Form.Item name="compress" valuePropName="checked" style={{ marginBottom: 8 }}>
+                <Checkbox disabled={(formatValues?.unitSize ?? 0) > NTFS_COMPRESSION_MAX_UNIT}>
+                  Enable file and folder compression
+                </Checkbox>
+              </Form.Item>
+            )}
+            <Form.Item name="override" valuePropName="checked" style={{ marginBottom: 8 }}>
+              <Checkbox>Force dismount first (override)</Checkbox>
+            </Form.Item>
+            <Form.Item name="noWait" valuePropName="checked">
+              <Checkbox>Return immediately and let the format finish in the background (nowait)</Checkbox>
             </Form.Item>
+            {formatWarnings.length > 0 && (
+              <Alert
+                message={
+                  <ul style={{ margin: 0, paddingLeft: 20 }}>
+                    {formatWarnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                }
+                type="warning"
+                showIcon
+              />
+            )}
           </>
         );
+      }
 
       case 'extend':
         return (
           <>
             <Alert
               message="Extend Partition"
-              description={`Available free space: ${disk ? formatBytes(disk.free) : '0 Bytes'}`}
+              description={`Free space after partition ${partitionId}: ${formatBytes(maxSize ?? 0)}`}
               type="info"
               showIcon
               icon={<InfoCircleOutlined />}
@@ -241,7 +428,7 @@ const InputDialog: React.FC<InputDialogProps> = ({
                 style={{ width: '100%' }}
                 placeholder="Leave empty for maximum extension"
                 min={1}
-                max={disk ? Math.floor(disk.free / (1024 * 1024)) : undefined}
+                max={maxSize !== undefined ? Math.floor(maxSize / (1024 * 1024)) : undefined}
               />
             </Form.Item>
             <Text type="secondary" style={{ fontSize: 12 }}>
@@ -255,7 +442,7 @@ const InputDialog: React.FC<InputDialogProps> = ({
           <>
             <Alert
               message="Shrink Partition"
-              description="Shrinking may fail if there are unmovable files at the end of the partition"
+              description={`Reclaimable space of partition ${partitionId}: ${formatBytes(maxSize ?? 0)}. Unmovable files at the end of the partition limit how far it can shrink.`}
               type="warning"
               showIcon
               style={{ marginBottom: 16 }}
@@ -276,6 +463,7 @@ const InputDialog: React.FC<InputDialogProps> = ({
                 style={{ width: '100%' }}
                 placeholder="Amount to shrink"
                 min={1}
+                max={maxSize !== undefined ? Math.floor(maxSize / (1024 * 1024)) : undefined}
               />
             </Form.Item>
             <Text type="secondary" style={{ fontSize: 12 }}>
@@ -298,20 +486,46 @@ const InputDialog: React.FC<InputDialogProps> = ({
             <Form.Item
               label="Drive Letter"
               name="letter"
-              rules={[
-                { required: true, message: 'Please enter a drive letter' },
-                { len: 1, message: 'Drive letter must be a single character' },
-                { pattern: /^[A-Za-z]$/, message: 'Drive letter must be A-Z' },
-              ]}
+              rules={[{ required: true, message: 'Please select a drive letter' }]}
             >
-              <Input
-                placeholder="E"
-                maxLength={1}
-                style={{ width: '100%', textTransform: 'uppercase' }}
-              />
+              <Select placeholder="Select a free letter" showSearch>
+                {getFreeDriveLetters(volumes).map(letter => (
+                  <Option key={letter} value={letter}>{letter}:</Option>
+                ))}
+              </Select>
+            </Form.Item>
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              Only letters no volume is using are listed. Letters A, B, and C are typically reserved.
+            </Text>
+          </>
+        );
+
+      case 'swap_letters':
+        return (
+          <>
+            <Alert
+              message="Swap Drive Letters"
+              description="Both letters are removed, then each volume gets the other's letter, in one Diskpart run"
+              type="info"
+              showIcon
+              icon={<InfoCircleOutlined />}
+              style={{ marginBottom: 16 }}
+            />
+            <Form.Item
+              label="Swap with"
+              name="volumeId"
+              rules={[{ required: true, message: 'Please select a volume' }]}
+            >
+              <Select placeholder="Select a volume with a drive letter">
+                {swapCandidates.map(v => (
+                  <Option key={v.id} value={v.id}>
+                    {v.letter}: Volume {v.id}{v.label ? ` (${v.label})` : ''}
+                  </Option>
+                ))}
+              </Select>
             </Form.Item>
             <Text type="secondary" style={{ fontSize: 12 }}>
-              Recommended: Use letters D-Z. Letters A, B, and C are typically reserved.
+              Close programs using either drive first; if a step fails a volume can be left without a letter.
             </Text>
           </>
         );
@@ -0,0 +1,66 @@
+import React from 'react';
+import { List, Button, Tag, Typography, message } from 'antd';
+import { ClockCircleOutlined, LoadingOutlined, StopOutlined } from '@ant-design/icons';
+import { JobInfo } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+
+const { Text } = Typography;
+
+const JobQueue: React.FC = () => {
+  const { jobs, cancelJob } = useDiskStore();
+
+  const activeJobs = jobs.filter(job => job.status === 'pending' || job.status === 'executing');
+
+  const handleCancel = async (job: JobInfo) => {
+    const result = await cancelJob(job.id);
+    if (result.success) {
+      message.success(result.message);
+    } else {
+      message.error(result.message);
+    }
+  };
+
+  if (activeJobs.length === 0) {
+    return <Text type="secondary">No operations waiting</Text>;
+  }
+
+  return (
+    <List
+      size="small"
+      dataSource={activeJobs}
+      renderItem={(job) => (
+        <List.Item
+          actions={job.status === 'pending' ? [
+            <Button
+              key="cancel"
+              size="small"
+              icon={<StopOutlined />}
+              onClick={() => handleCancel(job)}
+            >
+              Cancel
+            </Button>,
+          ] : []}
+        >
+          <List.Item.Meta
+            avatar={job.status === 'executing' ? <LoadingOutlined /> : <ClockCircleOutlined />}
+            title={
+              <Text ellipsis={{ tooltip: job.description }} style={{ maxWidth: 220 }}>
+                {job.description}
+              </Text>
+            }
+            description={
+              <>
+                <Tag color={job.status === 'executing' ? 'processing' : 'default'}>
+                  {job.status === 'executing' ? 'Running' : 'Waiting'}
+                </Tag>
+                {job.mode === 'exclusive' && <Tag color="orange">Exclusive</Tag>}
+              </>
+            }
+          />
+        </List.Item>
+      )}
+    />
+  );
+};
+
+export default JobQueue;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React from 'react';
-import { Spin, Space, Typography } from 'antd';
+import { Spin, Space, Typography, Progress } from 'antd';
 import { LoadingOutlined } from '@ant-design/icons';
+import { OperationProgress } from '../../shared/types';
 
 const { Text } = Typography;
 
@@ -8,16 +9,44 @@ interface LoadingSpinnerProps {
   message?: string;
   size?: 'small' | 'default' | 'large';
   fullscreen?: boolean;
+  progress?: OperationProgress;
+}
+
+/**
+ * Format a duration as e.g. "1h 05m", "4m 30s" or "12s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+  return `${seconds}s`;
 }
 
 const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
   message = 'Loading...',
   size = 'default',
   fullscreen = false,
+  progress,
 }) => {
   const antIcon = <LoadingOutlined style={{ fontSize: size === 'large' ? 48 : size === 'small' ? 16 : 24 }} spin />;
 
-  const content = (
+  const content = progress ? (
+    <Space direction="vertical" align="center" size="small" style={{ width: '100%' }}>
+      {message && <Text type="secondary">{message}</Text>}
+      <Progress percent={progress.percent} status="active" />
+      <Text type="secondary" style={{ fontSize: '12px' }}>
+        Elapsed {formatDuration(progress.elapsedMs)}
+        {' · '}
+        {progress.etaMs !== undefined
+          ? `about ${formatDuration(progress.etaMs)} remaining`
+          : 'estimating time remaining...'}
+      </Text>
+    </Space>
+  ) : (
     <Space direction="vertical" align="center" size="middle">
       <Spin indicator={antIcon} size={size} />
       {message && <Text type="secondary">{message}</Text>}
@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Select, Checkbox, Alert, Space, Typography, message } from 'antd';
+import { VolumeInfo, VolumeDetail } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+import { formatBytes } from '../utils/safetyChecks';
+
+const { Text } = Typography;
+
+interface MirrorDialogProps {
+  open: boolean;
+  /** Add a mirror to a simple volume, or break a mirrored one */
+  mode: 'add' | 'break';
+  volume: VolumeInfo | null;
+  onClose: () => void;
+}
+
+const MirrorDialog: React.FC<MirrorDialogProps> = ({ open, mode, volume, onClose }) => {
+  const { disks, detailVolume, addMirror, breakMirror } = useDiskStore();
+  const [members, setMembers] = useState<number[]>([]);
+  const [diskId, setDiskId] = useState<number | undefined>(undefined);
+  const [keep, setKeep] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!open || !volume) {
+      return;
+    }
+    setDiskId(undefined);
+    setKeep(true);
+    setError('');
+    setMembers(volume.diskId !== undefined ? [volume.diskId] : []);
+
+    // "list volume" only places a volume on one disk; the detail has them all
+    detailVolume(volume.id).then((result) => {
+      if (result.success) {
+        setMembers((result.data as VolumeDetail).disks);
+      } else {
+        setError(result.message);
+      }
+    });
+  }, [open, volume, detailVolume]);
+
+  const candidates = mode === 'add'
+    ? disks.filter(disk =>
+      disk.status === 'Online' &&
+      disk.diskType === 'Dynamic' &&
+      !members.includes(disk.id) &&
+      volume !== null && disk.free >= volume.size)
+    : disks.filter(disk => members.includes(disk.id));
+
+  const handleOk = async () => {
+    if (!volume || diskId === undefined) {
+      return;
+    }
+
+    setSaving(true);
+    const result = mode === 'add'
+      ? await addMirror(volume.id, diskId)
+      : await breakMirror(volume.id, diskId, keep);
+    setSaving(false);
+
+    if (result.success) {
+      message.success(result.message);
+      onClose();
+    } else {
+      setError(result.message);
+    }
+  };
+
+  return (
+    <Modal
+      title={volume ? `${mode === 'add' ? 'Add Mirror to' : 'Break Mirror of'} Volume ${volume.id}` : 'Mirror'}
+      open={open}
+      onOk={handleOk}
+      onCancel={onClose}
+      okText={mode === 'add' ? 'Add Mirror' : 'Break Mirror'}
+      cancelText="Cancel"
+      okButtonProps={{ disabled: diskId === undefined, loading: saving, danger: mode === 'break' && !keep }}
+      width={520}
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        <Text type="secondary">
+          {mode === 'add'
+            ? `Pick a dynamic disk with at least ${volume ? formatBytes(volume.size) : ''} free for the copy`
+            : 'Pick the disk whose half of the mirror to split off'}
+        </Text>
+        <Select
+          style={{ width: '100%' }}
+          placeholder="Select a disk"
+          value={diskId}
+          onChange={(value) => setDiskId(value)}
+          options={candidates.map(disk => ({
+            value: disk.id,
+            label: mode === 'add' ? `Disk ${disk.id} (${formatBytes(disk.free)} free)` : `Disk ${disk.id}`,
+          }))}
+          notFoundContent={mode === 'add' ? 'No dynamic disk has enough free space' : 'No member disks found'}
+        />
+        {mode === 'add' && (
+          <Alert
+            message="Windows copies the volume onto the new disk in the background; the mirror is redundant once it shows as Healthy"
+            type="info"
+            showIcon
+          />
+        )}
+        {mode === 'break' && (
+          <>
+            <Checkbox checked={keep} onChange={(e) => setKeep(e.target.checked)}>
+              Keep that half as a separate simple volume
+            </Checkbox>
+            {!keep && (
+              <Alert
+                message="The copy on this disk is deleted and its space freed. The volume keeps its data on the other disk but loses its redundancy"
+                type="warning"
+                showIcon
+              />
+            )}
+          </>
+        )}
+        {error && (
+          <Alert message="Mirror Error" description={error} type="error" showIcon />
+        )}
+      </Space>
+    </Modal>
+  );
+};
+
+export default MirrorDialog;
\ No newline at end of file
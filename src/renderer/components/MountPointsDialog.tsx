@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Modal, Input, Button, List, Popconfirm, Alert, Space, Spin, Typography, message } from 'antd';
+import { DeleteOutlined, FolderOutlined, InfoCircleOutlined } from '@ant-design/icons';
+import { VolumeInfo } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+import { validateMountPath } from '../utils/safetyChecks';
+
+const { Text } = Typography;
+
+interface MountPointsDialogProps {
+  open: boolean;
+  volume: VolumeInfo | null;
+  onClose: () => void;
+}
+
+const MountPointsDialog: React.FC<MountPointsDialogProps> = ({ open, volume, onClose }) => {
+  const { volumes, detailVolume, assignMount, removeMount } = useDiskStore();
+  const [mountPoints, setMountPoints] = useState<string[]>([]);
+  const [path, setPath] = useState('');
+  const [fetching, setFetching] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const loadMountPoints = useCallback(async (volumeId: number) => {
+    setFetching(true);
+    const result = await detailVolume(volumeId);
+    if (result.success) {
+      setMountPoints(result.data.mountPoints);
+    } else {
+      setError(result.message);
+    }
+    setFetching(false);
+  }, [detailVolume]);
+
+  useEffect(() => {
+    if (!open || !volume) return;
+
+    setMountPoints([]);
+    setPath('');
+    setError('');
+    loadMountPoints(volume.id);
+  }, [open, volume, loadMountPoints]);
+
+  const handleAdd = async () => {
+    if (!volume) return;
+
+    const validation = validateMountPath(path, volumes, volume.id);
+    if (!validation.valid) {
+      setError(validation.error || 'Invalid folder path');
+      return;
+    }
+
+    setError('');
+    setSaving(true);
+    const result = await assignMount(volume.id, path.trim());
+    setSaving(false);
+
+    if (result.success) {
+      message.success(result.message);
+      setPath('');
+      await loadMountPoints(volume.id);
+    } else {
+      setError(result.message);
+    }
+  };
+
+  const handleRemove = async (mountPoint: string) => {
+    if (!volume) return;
+
+    setError('');
+    setSaving(true);
+    const result = await removeMount(volume.id, mountPoint);
+    setSaving(false);
+
+    if (result.success) {
+      message.success(result.message);
+      await loadMountPoints(volume.id);
+    } else {
+      setError(result.message);
+    }
+  };
+
+  return (
+    <Modal
+      title={volume ? `Volume ${volume.id} Mount Points` : 'Mount Points'}
+      open={open}
+      onCancel={onClose}
+      footer={<Button onClick={onClose}>Close</Button>}
+      width={520}
+    >
+      <Spin spinning={fetching}>
+        <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          <List
+            size="small"
+            bordered
+            dataSource={mountPoints}
+            locale={{ emptyText: 'This volume is not mounted in any folder' }}
+            renderItem={mountPoint => (
+              <List.Item
+                actions={[
+                  <Popconfirm
+                    key="remove"
+                    title={`Remove mount point ${mountPoint}?`}
+                    description="The folder stays, but no longer shows the volume's files"
+                    onConfirm={() => handleRemove(mountPoint)}
+                    okText="Remove"
+                    okButtonProps={{ danger: true }}
+                  >
+                    <Button type="text" size="small" danger icon={<DeleteOutlined />} disabled={saving} />
+                  </Popconfirm>,
+                ]}
+              >
+                <Space>
+                  <FolderOutlined />
+                  <Text code>{mountPoint}</Text>
+                </Space>
+              </List.Item>
+            )}
+          />
+          <Space.Compact style={{ width: '100%' }}>
+            <Input
+              placeholder="C:\mnt\scratch"
+              value={path}
+              onChange={(e) => setPath(e.target.value)}
+              onPressEnter={handleAdd}
+            />
+            <Button type="primary" onClick={handleAdd} loading={saving} disabled={!path.trim()}>
+              Mount
+            </Button>
+          </Space.Compact>
+          <Alert
+            message="The folder must already exist, be empty, and be on an NTFS volume"
+            type="info"
+            showIcon
+            icon={<InfoCircleOutlined />}
+          />
+          {error && (
+            <Alert message="Mount Point Error" description={error} type="error" showIcon />
+          )}
+        </Space>
+      </Spin>
+    </Modal>
+  );
+};
+
+export default MountPointsDialog;
\ No newline at end of file
@@ -13,15 +13,33 @@ import {
   FormatPainterOutlined,
   ArrowsAltOutlined,
   ShrinkOutlined,
+  SwapOutlined,
+  RetweetOutlined,
+  CloseCircleOutlined,
+  FlagOutlined,
+  TagsOutlined,
+  MedicineBoxOutlined,
 } from '@ant-design/icons';
+import { DiskConversion, PartitionChange } from '../../shared/types';
 import { useDiskStore } from '../store/diskStore';
+import { useLayoutProjection } from '../hooks/useLayoutProjection';
 import ConfirmationDialog from './ConfirmationDialog';
 import InputDialog, { InputDialogType } from './InputDialog';
+import AttributesDialog, { AttributesTarget } from './AttributesDialog';
+import ConvertDiskDialog from './ConvertDiskDialog';
+import DiskRecoveryDialog, { DiskRecoveryRequest } from './DiskRecoveryDialog';
+import GptAttributesDialog from './GptAttributesDialog';
+import JobQueue from './JobQueue';
+import PendingOperationsList from './PendingOperationsList';
+import LoadingSpinner from './LoadingSpinner';
 import {
   checkDiskOperationSafety,
   checkPartitionOperationSafety,
   getConfirmationType,
+  getContiguousFreeSpace,
+  formatBytes,
 } from '../utils/safetyChecks';
+import { describeChange, getExistingPartitionKey } from '../utils/pendingOperations';
 
 interface OperationButtonProps {
   icon: React.ReactNode;
@@ -69,6 +87,7 @@ interface ConfirmationState {
 interface InputDialogState {
   open: boolean;
   type: InputDialogType;
+  maxSize?: number;
   onConfirm: (values: any) => void;
 }
 
@@ -78,19 +97,42 @@ const OperationsPanel: React.FC = () => {
     selectedDisk,
     selectedPartitionId,
     partitions,
+    volumes,
     isAdmin,
     loading,
+    jobs,
+    operationProgress,
     fetchDisks,
     fetchVolumes,
+    selectDiskInSession,
     cleanDisk,
     cleanAllDisk,
+    convertDisk,
+    importDisk,
+    recoverDisk,
+    repairVolume,
+    deleteMissingDisk,
+    onlineDisk,
+    offlineDisk,
     detailDisk,
+    detailPartition,
     createPartition,
     deletePartition,
     formatPartition,
     assignLetter,
+    removeLetter,
+    swapLetters,
+    setActive,
+    setInactive,
+    queryShrinkMax,
+    extendPartition,
+    shrinkPartition,
     refreshAll,
+    pendingOperations,
+    queueChanges,
+    queueOperation,
   } = useDiskStore();
+  const projection = useLayoutProjection();
 
   const [confirmationState, setConfirmationState] = useState<ConfirmationState>({
     open: false,
@@ -106,10 +148,36 @@ const OperationsPanel: React.FC = () => {
     onConfirm: () => {},
   });
 
+  const [attributesTarget, setAttributesTarget] = useState<AttributesTarget | null>(null);
+  const [convertDialogOpen, setConvertDialogOpen] = useState(false);
+  const [gptAttributesOpen, setGptAttributesOpen] = useState(false);
+  const [recoveryDialogOpen, setRecoveryDialogOpen] = useState(false);
+
+  // Long-running jobs that have reported percent-complete progress
+  const jobsWithProgress = jobs.filter(
+    job => job.status === 'executing' && operationProgress[job.id]
+  );
+
   const selectedPartition = selectedPartitionId !== null
     ? partitions.find(p => p.id === selectedPartitionId) || null
     : null;
 
+  // Once something is pending, partition numbers follow the projected layout,
+  // so further partition changes have to queue up behind it
+  const hasPending = pendingOperations.length > 0;
+  const queueing = queueChanges || hasPending;
+  const projectedDisk = projection.disks.find(disk => disk.id === selectedDiskId) || null;
+  const projectedPartition = projectedDisk?.partitions.find(p => p.id === selectedPartitionId) || null;
+  const targetDisk = queueing ? projectedDisk : selectedDisk;
+  const targetPartition = queueing ? projectedPartition : selectedPartition;
+
+  const queueChange = (change: PartitionChange) => {
+    if (selectedDiskId === null) return;
+    const partition = change.kind === 'create_partition' ? undefined : projectedPartition;
+    queueOperation({ diskId: selectedDiskId, partitionKey: partition?.key, change });
+    message.info(`Queued: ${describeChange(change, selectedDiskId, partition?.id)}`);
+  };
+
   const showConfirmation = (
     operation: string,
     title: string,
@@ -136,10 +204,11 @@ const OperationsPanel: React.FC = () => {
     });
   };
 
-  const showInputDialog = (type: InputDialogType, onConfirm: (values: any) => void) => {
+  const showInputDialog = (type: InputDialogType, onConfirm: (values: any) => void, maxSize?: number) => {
     setInputDialogState({
       open: true,
       type,
+      maxSize,
       onConfirm,
     });
   };
@@ -170,9 +239,18 @@ const OperationsPanel: React.FC = () => {
     }
   };
 
-  const handleSelectDisk = () => {
-    if (selectedDiskId !== null) {
-      message.info(`Disk ${selectedDiskId} is already selected`);
+  const handleSelectDisk = async () => {
+    if (selectedDiskId === null) return;
+
+    try {
+      const result = await selectDiskInSession(selectedDiskId);
+      if (result.success) {
+        message.success(`Disk ${selectedDiskId} is now the selected disk`);
+      } else {
+        message.error(result.message);
+      }
+    } catch (error) {
+      message.error('Failed to select disk');
     }
   };
 
@@ -191,6 +269,21 @@ const OperationsPanel: React.FC = () => {
     }
   };
 
+  const handleDetailPartition = async () => {
+    if (selectedDiskId === null || selectedPartitionId === null) return;
+
+    try {
+      const result = await detailPartition(selectedDiskId, selectedPartitionId);
+      if (result.success) {
+        message.success('Partition details retrieved');
+      } else {
+        message.error(result.message);
+      }
+    } catch (error) {
+      message.error('Failed to get partition details');
+    }
+  };
+
   const handleClean = () => {
     if (selectedDiskId === null || !selectedDisk) return;
 
@@ -252,8 +345,12 @@ const OperationsPanel: React.FC = () => {
 
     showInputDialog('create_partition', async (values) => {
       closeInputDialog();
+      if (queueing) {
+        queueChange({ kind: 'create_partition', options: values });
+        return;
+      }
       try {
-        const result = await createPartition(selectedDiskId, values.size);
+        const result = await createPartition(selectedDiskId, values);
         if (result.success) {
           message.success(result.message);
         } else {
@@ -266,13 +363,22 @@ const OperationsPanel: React.FC = () => {
   };
 
   const handleDeletePartition = () => {
-    if (selectedDiskId === null || selectedPartitionId === null || !selectedDisk) return;
+    if (selectedDiskId === null || selectedPartitionId === null || !targetDisk) return;
 
     const safetyCheck = checkPartitionOperationSafety(
       'delete_partition',
-      selectedDisk,
-      selectedPartition
+      targetDisk,
+      targetPartition
     );
+    if (queueing) {
+      // The warnings are shown again when the list is applied
+      if (!safetyCheck.safe && !safetyCheck.requiresTypeToConfirm) {
+        message.error(safetyCheck.warnings.join('. '));
+        return;
+      }
+      queueChange({ kind: 'delete_partition' });
+      return;
+    }
     const confirmType = getConfirmationType(safetyCheck);
 
     showConfirmation(
@@ -298,32 +404,32 @@ const OperationsPanel: React.FC = () => {
   };
 
   const handleFormat = () => {
-    if (selectedDiskId === null || selectedPartitionId === null || !selectedDisk) return;
+    if (selectedDiskId === null || selectedPartitionId === null || !targetDisk) return;
 
     const safetyCheck = checkPartitionOperationSafety(
       'format',
-      selectedDisk,
-      selectedPartition
+      targetDisk,
+      targetPartition
     );
 
     showInputDialog('format', async (values) => {
       closeInputDialog();
+      if (queueing) {
+        // Later changes in the list may need the finished file system
+        queueChange({ kind: 'format', options: { ...values, noWait: undefined } });
+        return;
+      }
 
       const confirmType = getConfirmationType(safetyCheck);
       showConfirmation(
         'format partition',
         'Format Partition',
-        `Format partition ${selectedPartitionId} with ${values.fileSystem}`,
+        `${values.quick === false ? 'Full format' : 'Format'} partition ${selectedPartitionId} with ${values.fileSystem}`,
         safetyCheck.warnings,
         async () => {
           closeConfirmation();
           try {
-            const result = await formatPartition(
-              selectedDiskId,
-              selectedPartitionId,
-              values.fileSystem,
-              values.label
-            );
+            const result = await formatPartition(selectedDiskId, selectedPartitionId, values);
             if (result.success) {
               message.success(result.message);
             } else {
@@ -343,6 +449,10 @@ const OperationsPanel: React.FC = () => {
 
     showInputDialog('assign_letter', async (values) => {
       closeInputDialog();
+      if (queueing) {
+        queueChange({ kind: 'assign_letter', letter: values.letter });
+        return;
+      }
       try {
         const result = await assignLetter(selectedDiskId, selectedPartitionId, values.letter);
         if (result.success) {
@@ -356,25 +466,253 @@ const OperationsPanel: React.FC = () => {
     });
   };
 
+  const handleRemoveLetter = () => {
+    if (selectedDiskId === null || selectedPartitionId === null || !targetDisk || !targetPartition) return;
+
+    const safetyCheck = checkPartitionOperationSafety('remove_letter', targetDisk, targetPartition);
+    if (!safetyCheck.safe && !safetyCheck.requiresTypeToConfirm) {
+      message.error(safetyCheck.warnings.join('. '));
+      return;
+    }
+    const letter = targetPartition.driveLetter as string;
+    if (queueing) {
+      queueChange({ kind: 'remove_letter', letter });
+      return;
+    }
+
+    showConfirmation(
+      'remove letter',
+      'Remove Drive Letter',
+      `Remove drive letter ${letter}: from partition ${selectedPartitionId} on Disk ${selectedDiskId}`,
+      safetyCheck.warnings,
+      async () => {
+        closeConfirmation();
+        try {
+          const result = await removeLetter(selectedDiskId, selectedPartitionId, letter);
+          if (result.success) {
+            message.success(result.message);
+          } else {
+            message.error(result.message);
+          }
+        } catch (error) {
+          message.error('Failed to remove drive letter');
+        }
+      },
+      getConfirmationType(safetyCheck)
+    );
+  };
+
+  const handleSwapLetters = () => {
+    if (selectedDiskId === null || selectedPartitionId === null || !selectedDisk || !selectedPartition) return;
+
+    const safetyCheck = checkPartitionOperationSafety('swap_letters', selectedDisk, selectedPartition);
+    if (!safetyCheck.safe && !safetyCheck.requiresTypeToConfirm) {
+      message.error(safetyCheck.warnings.join('. '));
+      return;
+    }
+    const firstVolume = selectedPartition.volumeId;
+    const firstLetter = selectedPartition.driveLetter as string;
+    if (firstVolume === undefined) {
+      message.error('This partition has no volume');
+      return;
+    }
+
+    showInputDialog('swap_letters', async (values) => {
+      closeInputDialog();
+      const second = volumes.find(v => v.id === values.volumeId);
+      if (!second?.letter) return;
+      try {
+        const result = await swapLetters(firstVolume, firstLetter, second.id, second.letter);
+        if (result.success) {
+          message.success(result.message);
+        } else {
+          message.error(result.message);
+        }
+      } catch (error) {
+        message.error('Failed to swap drive letters');
+      }
+    });
+  };
+
+  const handleToggleActive = () => {
+    if (selectedDiskId === null || selectedPartitionId === null || !selectedDisk || !selectedPartition) return;
+
+    const makeActive = !selectedPartition.detail?.active;
+    const safetyCheck = checkPartitionOperationSafety(
+      makeActive ? 'set_active' : 'set_inactive',
+      selectedDisk,
+      selectedPartition
+    );
+    if (!safetyCheck.safe && !safetyCheck.requiresTypeToConfirm) {
+      message.error(safetyCheck.warnings.join('. '));
+      return;
+    }
+    const activePartition = selectedDisk.partitions.find(p => p.detail?.active)?.id;
+
+    showConfirmation(
+      makeActive ? 'mark active' : 'mark inactive',
+      makeActive ? 'Mark Partition Active' : 'Mark Partition Inactive',
+      `Mark partition ${selectedPartitionId} on Disk ${selectedDiskId} ${makeActive ? 'active' : 'inactive'}`,
+      safetyCheck.warnings,
+      async () => {
+        closeConfirmation();
+        try {
+          const result = makeActive
+            ? await setActive(selectedDiskId, selectedPartitionId, activePartition)
+            : await setInactive(selectedDiskId, selectedPartitionId);
+          if (result.success) {
+            message.success(result.message);
+          } else {
+            message.error(result.message);
+          }
+        } catch (error) {
+          message.error(`Failed to mark partition ${makeActive ? 'active' : 'inactive'}`);
+        }
+      },
+      getConfirmationType(safetyCheck)
+    );
+  };
+
+  const handleGptAttributes = () => {
+    if (!selectedDisk || !selectedPartition) return;
+
+    const safetyCheck = checkPartitionOperationSafety('gpt_attributes', selectedDisk, selectedPartition);
+    if (!safetyCheck.safe && !safetyCheck.requiresTypeToConfirm) {
+      message.error(safetyCheck.warnings.join('. '));
+      return;
+    }
+    setGptAttributesOpen(true);
+  };
+
   const handleExtend = () => {
-    if (selectedDiskId === null || selectedPartitionId === null) return;
-    message.info('Extend partition feature coming soon');
+    if (selectedDiskId === null || selectedPartitionId === null || !targetDisk || !targetPartition) return;
+
+    const safetyCheck = checkPartitionOperationSafety('extend', targetDisk, targetPartition);
+    if (!safetyCheck.safe && !safetyCheck.requiresTypeToConfirm) {
+      message.error(safetyCheck.warnings.join('. '));
+      return;
+    }
+    const available = getContiguousFreeSpace(targetDisk, targetPartition, queueing ? targetDisk.partitions : partitions);
+
+    showInputDialog('extend', async (values) => {
+      closeInputDialog();
+      // Diskpart takes whole megabytes; leaving the size out uses all of it
+      const size = values.size ? Math.floor(values.size / (1024 * 1024)) : undefined;
+      if (queueing) {
+        queueChange({ kind: 'extend', size });
+        return;
+      }
+
+      const confirmType = getConfirmationType(safetyCheck);
+      showConfirmation(
+        'extend partition',
+        'Extend Partition',
+        `Extend partition ${selectedPartitionId} by ${formatBytes(values.size || available)}`,
+        safetyCheck.warnings,
+        async () => {
+          closeConfirmation();
+          try {
+            const result = await extendPartition(selectedDiskId, selectedPartitionId, size);
+            if (result.success) {
+              message.success(result.message);
+            } else {
+              message.error(result.message);
+            }
+          } catch (error) {
+            message.error('Failed to extend partition');
+          }
+        },
+        confirmType
+      );
+    }, available);
   };
 
-  const handleShrink = () => {
-    if (selectedDiskId === null || selectedPartitionId === null) return;
-    message.info('Shrink partition feature coming soon');
+  const handleShrink = async () => {
+    if (selectedDiskId === null || selectedPartitionId === null || !targetDisk) return;
+
+    const safetyCheck = checkPartitionOperationSafety('shrink', targetDisk, targetPartition);
+    if (!safetyCheck.safe && !safetyCheck.requiresTypeToConfirm) {
+      message.error(safetyCheck.warnings.join('. '));
+      return;
+    }
+
+    // A partition the list creates or formats is empty, so all but its last MB can go;
+    // any other is asked about under the number it has now
+    const emptied = projectedPartition?.pending.some(kind => kind === 'create_partition' || kind === 'format');
+    const current = queueing
+      ? selectedDisk?.partitions.find(p => getExistingPartitionKey(selectedDiskId, p.id) === projectedPartition?.key)
+      : selectedPartition;
+    let reclaimable = 0;
+    if (queueing && (emptied || !current)) {
+      reclaimable = Math.max(0, (projectedPartition?.size ?? 0) - 1024 * 1024);
+    } else {
+      const query = await queryShrinkMax(selectedDiskId, current?.id ?? selectedPartitionId);
+      if (!query.success) {
+        message.error(query.message);
+        return;
+      }
+      reclaimable = query.data?.reclaimable ?? 0;
+    }
+    if (reclaimable < 1024 * 1024) {
+      message.warning(`Partition ${selectedPartitionId} cannot be shrunk any further`);
+      return;
+    }
+
+    showInputDialog('shrink', async (values) => {
+      closeInputDialog();
+      const desired = Math.floor(values.size / (1024 * 1024));
+      if (queueing) {
+        queueChange({ kind: 'shrink', desired });
+        return;
+      }
+
+      const confirmType = getConfirmationType(safetyCheck);
+      showConfirmation(
+        'shrink partition',
+        'Shrink Partition',
+        `Shrink partition ${selectedPartitionId} by ${formatBytes(desired * 1024 * 1024)}`,
+        safetyCheck.warnings,
+        async () => {
+          closeConfirmation();
+          try {
+            const result = await shrinkPartition(selectedDiskId, selectedPartitionId, desired);
+            if (result.success) {
+              message.success(result.message);
+            } else {
+              message.error(result.message);
+            }
+          } catch (error) {
+            message.error('Failed to shrink partition');
+          }
+        },
+        confirmType
+      );
+    }, reclaimable);
   };
 
-  const handleOnline = () => {
+  const handleOnline = async () => {
     if (selectedDiskId === null) return;
-    message.info('Online disk feature coming soon');
+
+    try {
+      const result = await onlineDisk(selectedDiskId);
+      if (result.success) {
+        message.success(result.message);
+      } else {
+        message.error(result.message);
+      }
+    } catch (error) {
+      message.error('Failed to bring disk online');
+    }
   };
 
   const handleOffline = () => {
     if (selectedDiskId === null || !selectedDisk) return;
 
     const safetyCheck = checkDiskOperationSafety('offline', selectedDisk);
+    if (!safetyCheck.safe && !safetyCheck.requiresTypeToConfirm) {
+      message.error(safetyCheck.warnings.join('. '));
+      return;
+    }
     const confirmType = getConfirmationType(safetyCheck);
 
     showConfirmation(
@@ -384,15 +722,103 @@ const OperationsPanel: React.FC = () => {
       safetyCheck.warnings,
       async () => {
         closeConfirmation();
-        message.info('Offline disk feature coming soon');
+        try {
+          const result = await offlineDisk(selectedDiskId);
+          if (result.success) {
+            message.success(result.message);
+          } else {
+            message.error(result.message);
+          }
+        } catch (error) {
+          message.error('Failed to take disk offline');
+        }
       },
       confirmType
     );
   };
 
+  const handleConvert = () => {
+    if (selectedDiskId === null || !selectedDisk) return;
+    setConvertDialogOpen(true);
+  };
+
+  const handleConvertConfirm = async (target: DiskConversion) => {
+    setConvertDialogOpen(false);
+    if (selectedDiskId === null) return;
+
+    try {
+      const result = await convertDisk(selectedDiskId, target);
+      if (result.success) {
+        message.success(result.message);
+      } else {
+        message.error(result.message);
+      }
+    } catch (error) {
+      message.error('Failed to convert disk');
+    }
+  };
+
+  const handleRecovery = () => {
+    if (selectedDiskId === null || !selectedDisk) return;
+    setRecoveryDialogOpen(true);
+  };
+
+  const runRecovery = async (request: DiskRecoveryRequest) => {
+    if (selectedDiskId === null || !selectedDisk) return;
+
+    try {
+      let result;
+      switch (request.action) {
+        case 'import':
+          result = await importDisk(selectedDiskId);
+          break;
+        case 'recover':
+          result = await recoverDisk(selectedDiskId);
+          break;
+        case 'repair':
+          result = await repairVolume(request.volumeId!, selectedDiskId);
+          break;
+        case 'delete_missing':
+          result = await deleteMissingDisk(selectedDisk.missingId!, request.override);
+          break;
+      }
+      if (result.success) {
+        message.success(result.message);
+      } else {
+        message.error(result.message);
+      }
+    } catch (error) {
+      message.error('Failed to recover disk');
+    }
+  };
+
+  const handleRecoveryConfirm = (request: DiskRecoveryRequest) => {
+    setRecoveryDialogOpen(false);
+    if (!selectedDisk) return;
+
+    // Deleting the volumes of a missing disk gets the same typed confirmation as clean
+    if (request.action === 'delete_missing' && request.override) {
+      const safetyCheck = checkDiskOperationSafety('delete_missing_override', selectedDisk);
+      showConfirmation(
+        'delete_missing_override',
+        'Remove Missing Disk',
+        `Remove missing disk ${selectedDisk.missingId} and delete its volumes`,
+        safetyCheck.warnings,
+        () => {
+          closeConfirmation();
+          runRecovery(request);
+        },
+        getConfirmationType(safetyCheck)
+      );
+      return;
+    }
+
+    runRecovery(request);
+  };
+
   const handleAttributes = () => {
     if (selectedDiskId === null) return;
-    message.info('Disk attributes feature coming soon');
+    setAttributesTarget({ kind: 'disk', id: selectedDiskId });
   };
 
   return (
@@ -401,6 +827,16 @@ const OperationsPanel: React.FC = () => {
         title="Operations"
         extra={!isAdmin && <Tag color="warning">Admin Required</Tag>}
       >
+        {/* Progress of long-running operations */}
+        {jobsWithProgress.map((job) => (
+          <div key={job.id} style={{ marginBottom: 16 }}>
+            <LoadingSpinner
+              message={job.description}
+              progress={operationProgress[job.id]}
+            />
+          </div>
+        ))}
+
         {/* Safe Operations */}
         <div className="operation-group">
           <h4>
@@ -435,6 +871,13 @@ const OperationsPanel: React.FC = () => {
               onClick={handleDetailDisk}
               disabled={!selectedDiskId}
             />
+            <OperationButton
+              icon={<InfoCircleOutlined />}
+              label="Detail Partition"
+              tooltip="Show type, attributes and volume of the selected partition"
+              onClick={handleDetailPartition}
+              disabled={!selectedDiskId || !selectedPartitionId || hasPending}
+            />
           </Space>
         </div>
 
@@ -460,6 +903,20 @@ const OperationsPanel: React.FC = () => {
               onClick={handleOffline}
               disabled={!selectedDiskId || !isAdmin}
             />
+            <OperationButton
+              icon={<SwapOutlined />}
+              label="Convert"
+              tooltip="Convert the selected disk between MBR and GPT or basic and dynamic"
+              onClick={handleConvert}
+              disabled={!selectedDiskId || !isAdmin || hasPending}
+            />
+            <OperationButton
+              icon={<MedicineBoxOutlined />}
+              label="Recovery"
+              tooltip="Import a foreign disk, recover a disk pack, repair a RAID-5 volume or remove a missing disk"
+              onClick={handleRecovery}
+              disabled={!selectedDiskId || !isAdmin}
+            />
             <OperationButton
               icon={<SyncOutlined />}
               label="Attributes"
@@ -483,7 +940,7 @@ const OperationsPanel: React.FC = () => {
               label="Clean"
               tooltip="Remove all partitions from the disk (DESTRUCTIVE)"
               onClick={handleClean}
-              disabled={!selectedDiskId || !isAdmin}
+              disabled={!selectedDiskId || !isAdmin || hasPending}
               danger
             />
             <OperationButton
@@ -491,7 +948,7 @@ const OperationsPanel: React.FC = () => {
               label="Clean All"
               tooltip="Remove all partitions and zero all sectors (VERY DESTRUCTIVE)"
               onClick={handleCleanAll}
-              disabled={!selectedDiskId || !isAdmin}
+              disabled={!selectedDiskId || !isAdmin || hasPending}
               danger
             />
             <OperationButton
@@ -524,6 +981,37 @@ const OperationsPanel: React.FC = () => {
               onClick={handleAssignLetter}
               disabled={!selectedDiskId || !selectedPartitionId || !isAdmin}
             />
+            <OperationButton
+              icon={<CloseCircleOutlined />}
+              label="Remove Letter"
+              tooltip="Remove the drive letter of a partition"
+              onClick={handleRemoveLetter}
+              disabled={!selectedDiskId || !targetPartition?.driveLetter || !isAdmin}
+            />
+            <OperationButton
+              icon={<RetweetOutlined />}
+              label="Swap Letters"
+              tooltip="Swap the drive letter of a partition with another volume's"
+              onClick={handleSwapLetters}
+              disabled={!selectedDiskId || !selectedPartition?.driveLetter || !isAdmin || hasPending}
+            />
+            {selectedDisk?.partitionStyle === 'GPT' ? (
+              <OperationButton
+                icon={<TagsOutlined />}
+                label="GPT Attributes"
+                tooltip="Edit the required, hidden, read-only and drive letter bits of a partition"
+                onClick={handleGptAttributes}
+                disabled={!selectedDiskId || !selectedPartitionId || !isAdmin || hasPending}
+              />
+            ) : (
+              <OperationButton
+                icon={<FlagOutlined />}
+                label={selectedPartition?.detail?.active ? 'Mark Inactive' : 'Mark Active'}
+                tooltip="Choose the partition the BIOS boots from on an MBR disk"
+                onClick={handleToggleActive}
+                disabled={!selectedDiskId || !selectedPartitionId || !isAdmin || hasPending}
+              />
+            )}
             <OperationButton
               icon={<ArrowsAltOutlined />}
               label="Extend"
@@ -541,6 +1029,26 @@ const OperationsPanel: React.FC = () => {
           </Space>
         </div>
 
+        <Divider />
+
+        {/* Pending Operations */}
+        <div className="operation-group">
+          <h4>
+            <Tag color="purple">Pending Operations</Tag>
+          </h4>
+          <PendingOperationsList />
+        </div>
+
+        <Divider />
+
+        {/* Queued Operations */}
+        <div className="operation-group">
+          <h4>
+            <Tag color="blue">Operation Queue</Tag>
+          </h4>
+          <JobQueue />
+        </div>
+
         {!isAdmin && (
           <div style={{ marginTop: 16, padding: 8, background: '#fff7e6', borderRadius: 4 }}>
             <small style={{ color: '#d46b08' }}>
@@ -566,11 +1074,40 @@ const OperationsPanel: React.FC = () => {
       <InputDialog
         open={inputDialogState.open}
         type={inputDialogState.type}
-        disk={selectedDisk}
+        disk={targetDisk}
         partitionId={selectedPartitionId || undefined}
+        maxSize={inputDialogState.maxSize}
+        volumes={volumes}
         onConfirm={inputDialogState.onConfirm}
         onCancel={closeInputDialog}
       />
+
+      <ConvertDiskDialog
+        open={convertDialogOpen}
+        disk={selectedDisk}
+        onConfirm={handleConvertConfirm}
+        onCancel={() => setConvertDialogOpen(false)}
+      />
+
+      <DiskRecoveryDialog
+        open={recoveryDialogOpen}
+        disk={selectedDisk}
+        onConfirm={handleRecoveryConfirm}
+        onCancel={() => setRecoveryDialogOpen(false)}
+      />
+
+      <GptAttributesDialog
+        open={gptAttributesOpen}
+        disk={selectedDisk}
+        partition={selectedPartition}
+        onClose={() => setGptAttributesOpen(false)}
+      />
+
+      <AttributesDialog
+        open={attributesTarget !== null}
+        target={attributesTarget}
+        onClose={() => setAttributesTarget(null)}
+      />
     </>
   );
 };
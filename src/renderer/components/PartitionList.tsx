@@ -1,11 +1,29 @@
 import React from 'react';
-import { Table, Tag, Spin, Empty } from 'antd';
+import { Table, Tag, Spin, Empty, Space, Tooltip } from 'antd';
 import type { ColumnsType } from 'antd/es/table';
-import { PartitionInfo } from '../../shared/types';
+import { PartitionChange, PartitionInfo } from '../../shared/types';
 import { useDiskStore } from '../store/diskStore';
+import { useLayoutProjection } from '../hooks/useLayoutProjection';
+import { ProjectedPartition } from '../utils/pendingOperations';
+
+// How each pending change shows on the partition it applies to; deleted ones are simply gone
+const PENDING_TAGS: Record<Exclude<PartitionChange['kind'], 'delete_partition'>, { label: string; color: string }> = {
+  create_partition: { label: 'New', color: 'green' },
+  format: { label: 'Format', color: 'volcano' },
+  extend: { label: 'Extend', color: 'cyan' },
+  shrink: { label: 'Shrink', color: 'cyan' },
+  assign_letter: { label: 'Letter', color: 'geekblue' },
+  remove_letter: { label: 'No letter', color: 'geekblue' },
+};
 
 const PartitionList: React.FC = () => {
-  const { partitions, selectedDiskId, selectedPartitionId, selectPartition, loading } = useDiskStore();
+  const { partitions, selectedDiskId, selectedPartitionId, selectPartition, loading, pendingOperations, queueChanges } = useDiskStore();
+  const projection = useLayoutProjection();
+
+  // With changes queued the list shows the layout they lead to
+  const projectedDisk = projection.disks.find(disk => disk.id === selectedDiskId);
+  const isProjected = (queueChanges || pendingOperations.length > 0) && !!projectedDisk;
+  const shownPartitions: PartitionInfo[] = isProjected ? projectedDisk.partitions : partitions;
 
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 B';
@@ -15,19 +33,56 @@ const PartitionList: React.FC = () => {
     return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
   };
 
+  // Partitions a technician must not touch by accident stand out
+  const getTypeColor = (typeName?: string): string => {
+    if (typeName === 'EFI System') return 'purple';
+    if (typeName === 'Recovery') return 'orange';
+    if (typeName === 'Microsoft Reserved' || typeName === 'OEM') return 'gold';
+    return 'blue';
+  };
+
   const columns: ColumnsType<PartitionInfo> = [
     {
       title: 'Partition #',
       dataIndex: 'id',
       key: 'id',
-      width: 100,
-      render: (id: number) => <strong>Partition {id}</strong>,
+      width: 160,
+      render: (id: number, record: PartitionInfo) => (
+        <Space size={4} wrap>
+          <strong>Partition {id}</strong>
+          {isProjected && (record as ProjectedPartition).pending.map((kind, index) => kind !== 'delete_partition' && (
+            <Tag key={index} color={PENDING_TAGS[kind].color}>{PENDING_TAGS[kind].label}</Tag>
+          ))}
+        </Space>
+      ),
     },
     {
       title: 'Type',
       dataIndex: 'type',
       key: 'type',
-      width: 100,
+      width: 260,
+      render: (type: string, record: PartitionInfo) => (
+        <Space size={4} wrap>
+          <span>{type}</span>
+          {record.detail && (
+            <Tooltip
+              title={
+                <>
+                  <div>Type ID: {record.detail.typeId}</div>
+                  {record.detail.attributes && <div>Attributes: {record.detail.attributes}</div>}
+                  <div>Offset: {record.detail.offset.toLocaleString()} bytes</div>
+                </>
+              }
+            >
+              <Tag color={getTypeColor(record.detail.typeName)}>
+                {record.detail.typeName || record.detail.typeId}
+              </Tag>
+            </Tooltip>
+          )}
+          {record.detail?.hidden && <Tag>Hidden</Tag>}
+          {record.detail?.required && <Tag color="red">Required</Tag>}
+        </Space>
+      ),
     },
     {
       title: 'Size',
@@ -75,9 +130,20 @@ const PartitionList: React.FC = () => {
       dataIndex: 'driveLetter',
       key: 'driveLetter',
       width: 100,
-      render: (letter?: string) => (
-        letter ? <strong>{letter}:</strong> : <span style={{ color: '#999' }}>-</span>
-      ),
+      render: (letter: string | undefined, record: PartitionInfo) => {
+        const mountPoints = record.mountPoints || [];
+        if (!letter && mountPoints.length === 0) {
+          return <span style={{ color: '#999' }}>-</span>;
+        }
+        return (
+          <>
+            {letter && <strong>{letter}:</strong>}
+            {mountPoints.map(mountPoint => (
+              <div key={mountPoint} style={{ fontSize: 12 }}>{mountPoint}</div>
+            ))}
+          </>
+        );
+      },
     },
   ];
 
@@ -97,7 +163,7 @@ const PartitionList: React.FC = () => {
       <Spin spinning={loading}>
         <Table
           columns={columns}
-          dataSource={partitions}
+          dataSource={shownPartitions}
           rowKey="id"
           pagination={false}
           size="small"
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { List, Button, Space, Switch, Tooltip, Typography, message } from 'antd';
+import { ArrowUpOutlined, ArrowDownOutlined, CloseOutlined, CheckOutlined, UndoOutlined } from '@ant-design/icons';
+import { useDiskStore } from '../store/diskStore';
+import { useLayoutProjection } from '../hooks/useLayoutProjection';
+import ConfirmationDialog from './ConfirmationDialog';
+
+const { Text } = Typography;
+
+/**
+ * The GParted-style list of partition changes waiting for Apply. Changes
+ * can be reordered or dropped; the disk view shows the layout they lead to
+ */
+const PendingOperationsList: React.FC = () => {
+  const {
+    pendingOperations,
+    queueChanges,
+    isAdmin,
+    setQueueChanges,
+    removePendingOperation,
+    movePendingOperation,
+    discardPendingOperations,
+    applyPendingOperations,
+  } = useDiskStore();
+  const projection = useLayoutProjection();
+  const [confirming, setConfirming] = useState(false);
+
+  const errorCount = Object.keys(projection.errors).length;
+  const hasPending = pendingOperations.length > 0;
+
+  const impact = pendingOperations.flatMap(operation => [
+    projection.descriptions[operation.id],
+    ...(projection.warnings[operation.id] || []).map(warning => `  ${warning}`),
+  ]);
+
+  const handleApply = async () => {
+    const result = await applyPendingOperations();
+    setConfirming(false);
+    if (result.success) {
+      message.success(result.message);
+    } else {
+      message.error(result.message);
+    }
+  };
+
+  return (
+    <>
+      <Space direction="vertical" style={{ width: '100%' }} size="small">
+        <Tooltip title={hasPending ? 'Apply or discard the pending operations to run changes straight away again' : undefined}>
+          <Space>
+            <Switch
+              size="small"
+              checked={queueChanges || hasPending}
+              onChange={setQueueChanges}
+              disabled={hasPending}
+            />
+            <Text>Queue partition changes</Text>
+          </Space>
+        </Tooltip>
+
+        {hasPending ? (
+          <List
+            size="small"
+            dataSource={pendingOperations}
+            renderItem={(operation, index) => {
+              const error = projection.errors[operation.id];
+              return (
+                <List.Item
+                  actions={[
+                    <Button
+                      key="up"
+                      size="small"
+                      type="text"
+                      icon={<ArrowUpOutlined />}
+                      onClick={() => movePendingOperation(operation.id, -1)}
+                      disabled={index === 0}
+                    />,
+                    <Button
+                      key="down"
+                      size="small"
+                      type="text"
+                      icon={<ArrowDownOutlined />}
+                      onClick={() => movePendingOperation(operation.id, 1)}
+                      disabled={index === pendingOperations.length - 1}
+                    />,
+                    <Button
+                      key="remove"
+                      size="small"
+                      type="text"
+                      icon={<CloseOutlined />}
+                      onClick={() => removePendingOperation(operation.id)}
+                    />,
+                  ]}
+                >
+                  <List.Item.Meta
+                    title={
+                      <Text delete={!!error} style={{ fontSize: 13 }}>
+                        {index + 1}. {projection.descriptions[operation.id]}
+                      </Text>
+                    }
+                    description={error && <Text type="danger" style={{ fontSize: 12 }}>{error}</Text>}
+                  />
+                </List.Item>
+              );
+            }}
+          />
+        ) : (
+          <Text type="secondary">
+            {queueChanges ? 'Partition changes wait here until you apply them' : 'No pending operations'}
+          </Text>
+        )}
+
+        {hasPending && (
+          <Space>
+            <Tooltip title={errorCount > 0 ? `${errorCount} operation${errorCount > 1 ? 's' : ''} cannot run where ${errorCount > 1 ? 'they are' : 'it is'} in the list` : undefined}>
+              <Button
+                type="primary"
+                icon={<CheckOutlined />}
+                onClick={() => setConfirming(true)}
+                disabled={!isAdmin || errorCount > 0}
+              >
+                Apply {pendingOperations.length}
+              </Button>
+            </Tooltip>
+            <Button icon={<UndoOutlined />} onClick={discardPendingOperations}>
+              Discard
+            </Button>
+          </Space>
+        )}
+      </Space>
+
+      <ConfirmationDialog
+        open={confirming}
+        type={projection.requiresTypeToConfirm ? 'type-to-confirm' : 'detailed'}
+        title="Apply Pending Operations"
+        operation="Apply Pending Operations"
+        description={`Run ${pendingOperations.length} operations as one Diskpart script. If one fails, the ones after it are not run`}
+        impact={impact}
+        diskId={projection.confirmDiskId}
+        onConfirm={handleApply}
+        onCancel={() => setConfirming(false)}
+        danger
+      />
+    </>
+  );
+};
+
+export default PendingOperationsList;
\ No newline at end of file
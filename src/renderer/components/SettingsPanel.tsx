@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Descriptions, Select, Button, Alert, Space, Tag, Tooltip, Typography, message } from 'antd';
+import { AutomountAction, SanPolicy } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+import ConfirmationDialog from './ConfirmationDialog';
+
+const { Text } = Typography;
+
+interface SettingsPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SAN_POLICIES: { value: SanPolicy; label: string; description: string }[] = [
+  { value: 'OnlineAll', label: 'Online All', description: 'Every new disk is brought online and its volumes mounted' },
+  { value: 'OfflineShared', label: 'Offline Shared', description: 'Disks on shared buses (SAN, iSCSI, SAS) stay offline; local disks come online' },
+  { value: 'OfflineInternal', label: 'Offline Internal', description: 'Every new disk but the boot disk stays offline' },
+  { value: 'OfflineAll', label: 'Offline All', description: 'Every new disk stays offline until it is brought online by hand' },
+];
+
+const AUTOMOUNT_ACTIONS: { value: AutomountAction; label: string; description: string }[] = [
+  { value: 'enable', label: 'Enable', description: 'Windows mounts the volumes of new disks and gives them drive letters' },
+  { value: 'disable', label: 'Disable', description: 'Volumes of new disks are left unmounted and without drive letters' },
+  { value: 'scrub', label: 'Scrub', description: 'Mount points and registry entries of volumes that are gone are removed' },
+];
+
+interface PendingChange {
+  title: string;
+  description: string;
+  impact: string[];
+  loosens: boolean;
+  apply: () => Promise<{ success: boolean; message: string }>;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ open, onClose }) => {
+  const { storageSettings, forensicProfile, isAdmin, fetchStorageSettings, setSanPolicy, setAutomount } = useDiskStore();
+  const [policy, setPolicy] = useState<SanPolicy | undefined>(undefined);
+  const [pending, setPending] = useState<PendingChange | null>(null);
+
+  // Under the forensic profile only the required values can be picked
+  const forensic = forensicProfile?.enabled ? forensicProfile.required : null;
+
+  useEffect(() => {
+    if (open) {
+      fetchStorageSettings();
+    }
+  }, [open, fetchStorageSettings]);
+
+  useEffect(() => {
+    setPolicy(storageSettings?.sanPolicy);
+  }, [storageSettings]);
+
+  const policyLabel = (value: SanPolicy) => SAN_POLICIES.find(info => info.value === value)?.label || value;
+
+  const handlePolicyChange = () => {
+    if (!policy) return;
+    const info = SAN_POLICIES.find(candidate => candidate.value === policy)!;
+    setPending({
+      title: 'Change SAN Policy',
+      description: `Set the SAN policy to ${info.label}`,
+      impact: [info.description, 'Applies to disks attached from now on; disks already attached keep their state'],
+      loosens: policy === 'OnlineAll',
+      apply: () => setSanPolicy(policy),
+    });
+  };
+
+  const handleAutomount = (action: AutomountAction) => {
+    const info = AUTOMOUNT_ACTIONS.find(candidate => candidate.value === action)!;
+    setPending({
+      title: `${info.label} Automount`,
+      description: `Run automount ${action}`,
+      impact: [info.description],
+      loosens: action === 'enable',
+      apply: () => setAutomount(action),
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    const result = await pending.apply();
+    setPending(null);
+    if (result.success) {
+      message.success(result.message);
+    } else {
+      message.error(result.message);
+    }
+  };
+
+  return (
+    <>
+      <Modal
+        title="Diskpart Settings"
+        open={open}
+        onCancel={onClose}
+        footer={<Button onClick={onClose}>Close</Button>}
+        width={600}
+      >
+        <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          {forensic && (
+            <Alert
+              type="info"
+              showIcon
+              message="Forensic profile"
+              description={`New disks must stay ${policyLabel(forensic.sanPolicy).toLowerCase()} and unmounted; settings that would loosen this are locked`}
+            />
+          )}
+          {forensicProfile?.unsupportedLocale && (
+            <Alert
+              type="warning"
+              showIcon
+              message={`Not supported in ${forensicProfile.unsupportedLocale}`}
+              description="Diskpart's SAN policy and automount output cannot be read in this display language yet, so the current settings are unknown. The forensic settings were applied at startup without reading them back."
+            />
+          )}
+
+          <Descriptions column={1} bordered size="small">
+            <Descriptions.Item label="SAN policy">
+              {storageSettings ? (
+                <Tag color={storageSettings.sanPolicy === 'OnlineAll' ? 'default' : 'blue'}>
+                  {policyLabel(storageSettings.sanPolicy)}
+                </Tag>
+              ) : (
+                <Text type="secondary">Unknown</Text>
+              )}
+            </Descriptions.Item>
+            <Descriptions.Item label="Automount">
+              {storageSettings ? (
+                <Tag color={storageSettings.automount ? 'default' : 'blue'}>
+                  {storageSettings.automount ? 'Enabled' : 'Disabled'}
+                </Tag>
+              ) : (
+                <Text type="secondary">Unknown</Text>
+              )}
+            </Descriptions.Item>
+          </Descriptions>
+
+          <div>
+            <Text strong>SAN policy</Text>
+            <Space style={{ width: '100%', marginTop: 8 }}>
+              <Select
+                style={{ width: 360 }}
+                value={policy}
+                onChange={(value) => setPolicy(value)}
+                options={SAN_POLICIES.map(info => ({
+                  value: info.value,
+                  label: info.label,
+                  disabled: forensic !== null && info.value !== forensic.sanPolicy,
+                }))}
+              />
+              <Button
+                type="primary"
+                onClick={handlePolicyChange}
+                disabled={!isAdmin || !policy || policy === storageSettings?.sanPolicy}
+              >
+                Apply
+              </Button>
+            </Space>
+            {policy && (
+              <div>
+                <Text type="secondary" style={{ fontSize: 12 }}>
+                  {SAN_POLICIES.find(info => info.value === policy)?.description}
+                </Text>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Text strong>Automount</Text>
+            <Space style={{ width: '100%', marginTop: 8 }}>
+              {AUTOMOUNT_ACTIONS.map(info => {
+                const locked = forensic !== null && info.value === 'enable';
+                return (
+                  <Tooltip key={info.value} title={locked ? 'Locked by the forensic profile' : info.description}>
+                    <Button
+                      onClick={() => handleAutomount(info.value)}
+                      disabled={!isAdmin || locked}
+                    >
+                      {info.label}
+                    </Button>
+                  </Tooltip>
+                );
+              })}
+            </Space>
+          </div>
+        </Space>
+      </Modal>
+
+      <ConfirmationDialog
+        open={pending !== null}
+        type={pending?.loosens ? 'detailed' : 'simple'}
+        title={pending?.title || ''}
+        operation={pending?.title || ''}
+        description={pending?.description}
+        impact={pending?.impact}
+        onConfirm={handleConfirm}
+        onCancel={() => setPending(null)}
+        danger={pending?.loosens}
+      />
+    </>
+  );
+};
+
+export default SettingsPanel;
\ No newline at end of file
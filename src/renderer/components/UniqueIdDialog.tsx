@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Input, Button, Checkbox, Alert, Space, Typography, message } from 'antd';
+import { DiskInfo } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+import { checkDiskOperationSafety, getConfirmationType, validateUniqueId } from '../utils/safetyChecks';
+import { generateUniqueId, normalizeUniqueId } from '../utils/diskIds';
+import ConfirmationDialog from './ConfirmationDialog';
+
+const { Text } = Typography;
+
+interface UniqueIdDialogProps {
+  open: boolean;
+  disk: DiskInfo | null;
+  onClose: () => void;
+}
+
+const UniqueIdDialog: React.FC<UniqueIdDialogProps> = ({ open, disk, onClose }) => {
+  const { disks, isAdmin, forensicProfile, getDiskUniqueId, setDiskUniqueId } = useDiskStore();
+  const [currentId, setCurrentId] = useState<string | undefined>(undefined);
+  const [newId, setNewId] = useState('');
+  const [bringOnline, setBringOnline] = useState(true);
+  const [confirming, setConfirming] = useState(false);
+
+  useEffect(() => {
+    if (!open || !disk) return;
+    setCurrentId(disk.uniqueId);
+    setNewId('');
+    setBringOnline(true);
+    // The topology may be a few seconds old; read the ID straight from the disk
+    getDiskUniqueId(disk.id).then(result => {
+      if (result.success && result.data) {
+        setCurrentId(result.data as string);
+      }
+    });
+  }, [open, disk, getDiskUniqueId]);
+
+  if (!disk) {
+    return null;
+  }
+
+  const validation = newId ? validateUniqueId(newId, disk, disks) : null;
+  const unchanged = !!currentId && !!newId && normalizeUniqueId(currentId) === normalizeUniqueId(newId);
+  const canSave = isAdmin && !!validation?.valid && !unchanged;
+  const offline = disk.status === 'Offline';
+  // Under the forensic profile an offline disk may be evidence, so it stays offline
+  const forensic = !!forensicProfile?.enabled;
+  const safetyCheck = checkDiskOperationSafety('set_unique_id', disk);
+  const format = disk.partitionStyle === 'MBR' ? '8 hex digits' : 'a GUID';
+
+  const handleConfirm = async () => {
+    const result = await setDiskUniqueId(disk.id, newId.trim(), disk.partitionStyle, offline && bringOnline && !forensic);
+    setConfirming(false);
+    if (result.success) {
+      message.success(result.message);
+      onClose();
+    } else {
+      message.error(result.message);
+    }
+  };
+
+  return (
+    <>
+      <Modal
+        title={`Disk ${disk.id} ID`}
+        open={open}
+        onOk={() => setConfirming(true)}
+        onCancel={onClose}
+        okText="Change ID"
+        cancelText="Cancel"
+        okButtonProps={{ disabled: !canSave }}
+        width={520}
+      >
+        <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          <div>
+            <Text type="secondary">
+              {disk.partitionStyle === 'MBR' ? 'Disk signature' : 'Disk GUID'}
+            </Text>
+            <div>
+              {currentId ? <Text code copyable>{currentId}</Text> : <Text type="secondary">Unknown</Text>}
+            </div>
+          </div>
+
+          <div>
+            <Text strong>New ID</Text>
+            <Space.Compact style={{ width: '100%', marginTop: 8 }}>
+              <Input
+                value={newId}
+                onChange={(e) => setNewId(e.target.value)}
+                placeholder={disk.partitionStyle === 'MBR' ? '1A2B3C4D' : '6F1D2B3A-4C5E-4F60-8A7B-9C0D1E2F3A4B'}
+                status={validation && !validation.valid ? 'error' : undefined}
+              />
+              <Button onClick={() => setNewId(generateUniqueId(disk.partitionStyle, disks))}>
+                Generate
+              </Button>
+            </Space.Compact>
+            <Text type={validation && !validation.valid ? 'danger' : 'secondary'} style={{ fontSize: 12 }}>
+              {validation?.error || (unchanged ? 'This is the current ID' : `A ${disk.partitionStyle} disk ID is ${format}`)}
+            </Text>
+          </div>
+
+          {offline && (
+            <Checkbox
+              checked={bringOnline && !forensic}
+              onChange={(e) => setBringOnline(e.target.checked)}
+              disabled={forensic}
+            >
+              Bring the disk online afterwards
+              {forensic && <Text type="secondary"> (locked by the forensic profile)</Text>}
+            </Checkbox>
+          )}
+
+          {safetyCheck.warnings.length > 0 && (
+            <Alert
+              type="warning"
+              showIcon
+              message="What happens"
+              description={
+                <ul style={{ margin: 0, paddingLeft: 20 }}>
+                  {safetyCheck.warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              }
+            />
+          )}
+        </Space>
+      </Modal>
+
+      <ConfirmationDialog
+        open={confirming}
+        type={getConfirmationType(safetyCheck)}
+        title="Change Disk ID"
+        operation="Change Disk ID"
+        description={`Set the ID of Disk ${disk.id} to ${newId.trim()}`}
+        impact={safetyCheck.warnings}
+        diskId={disk.id}
+        onConfirm={handleConfirm}
+        onCancel={() => setConfirming(false)}
+        danger={safetyCheck.requiresTypeToConfirm}
+      />
+    </>
+  );
+};
+
+export default UniqueIdDialog;
\ No newline at end of file
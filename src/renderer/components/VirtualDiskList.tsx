@@ -0,0 +1,354 @@
+import React, { useState, useEffect } from 'react';
+import { Table, Tag, Dropdown, Button, Space, Spin, Modal, Descriptions, Input, InputNumber, Checkbox, Alert, message } from 'antd';
+import { MoreOutlined, PlusOutlined, LinkOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import type { MenuProps } from 'antd';
+import { VirtualDiskInfo, VirtualDiskDetail } from '../../shared/types';
+import { useDiskStore } from '../store/diskStore';
+import {
+  checkVirtualDiskOperationSafety,
+  validateVirtualDiskFile,
+  formatBytes,
+} from '../utils/safetyChecks';
+import ConfirmationDialog from './ConfirmationDialog';
+import CreateVirtualDiskDialog from './CreateVirtualDiskDialog';
+
+const VirtualDiskList: React.FC = () => {
+  const {
+    virtualDisks,
+    disks,
+    loading,
+    fetchVirtualDisks,
+    detailVirtualDisk,
+    attachVirtualDisk,
+    detachVirtualDisk,
+    expandVirtualDisk,
+    compactVirtualDisk,
+  } = useDiskStore();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [attachOpen, setAttachOpen] = useState(false);
+  const [attachFile, setAttachFile] = useState('');
+  const [attachReadOnly, setAttachReadOnly] = useState(false);
+  const [attachError, setAttachError] = useState('');
+  const [detail, setDetail] = useState<VirtualDiskDetail | null>(null);
+  const [detachTarget, setDetachTarget] = useState<VirtualDiskInfo | null>(null);
+  const [expandTarget, setExpandTarget] = useState<{ virtualDisk: VirtualDiskInfo; current: number } | null>(null);
+  const [expandSize, setExpandSize] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchVirtualDisks();
+  }, [fetchVirtualDisks]);
+
+  const report = (result: { success: boolean; message: string }) => {
+    if (result.success) {
+      message.success(result.message);
+    } else {
+      message.error(result.message);
+    }
+  };
+
+  const runChecked = (
+    operation: 'attach' | 'detach' | 'expand' | 'compact',
+    virtualDisk: VirtualDiskInfo,
+    action: () => void
+  ) => {
+    const check = checkVirtualDiskOperationSafety(operation, virtualDisk, disks);
+    if (!check.safe) {
+      message.error(check.warnings.join('. '));
+      return;
+    }
+    action();
+  };
+
+  const handleDetails = async (virtualDisk: VirtualDiskInfo) => {
+    const result = await detailVirtualDisk(virtualDisk.file);
+    if (result.success) {
+      setDetail(result.data);
+    } else {
+      message.error(result.message);
+    }
+  };
+
+  const handleAttachFile = async () => {
+    const validation = validateVirtualDiskFile(attachFile);
+    if (!validation.valid) {
+      setAttachError(validation.error || 'Invalid file');
+      return;
+    }
+
+    const result = await attachVirtualDisk(attachFile.trim(), attachReadOnly);
+    if (result.success) {
+      message.success(result.message);
+      setAttachOpen(false);
+    } else {
+      setAttachError(result.message);
+    }
+  };
+
+  const openAttachDialog = () => {
+    setAttachFile('');
+    setAttachReadOnly(false);
+    setAttachError('');
+    setAttachOpen(true);
+  };
+
+  const handleExpand = async (virtualDisk: VirtualDiskInfo) => {
+    // The current size comes from the file, so expand starts from a detail
+    const result = await detailVirtualDisk(virtualDisk.file);
+    if (!result.success) {
+      message.error(result.message);
+      return;
+    }
+    const current = Math.ceil(result.data.virtualSize / (1024 * 1024));
+    setExpandSize(current);
+    setExpandTarget({ virtualDisk, current });
+  };
+
+  const confirmExpand = async () => {
+    if (!expandTarget || expandSize === null) return;
+    if (expandSize <= expandTarget.current) {
+      message.error(`The new size must be larger than ${expandTarget.current} MB`);
+      return;
+    }
+    const { virtualDisk } = expandTarget;
+    setExpandTarget(null);
+    report(await expandVirtualDisk(virtualDisk.file, expandSize));
+  };
+
+  const getActions = (virtualDisk: VirtualDiskInfo): MenuProps['items'] => [
+    {
+      key: 'details',
+      label: 'Details',
+    },
+    {
+      type: 'divider',
+    },
+    {
+      key: 'attach',
+      label: 'Attach',
+      disabled: virtualDisk.attached,
+    },
+    {
+      key: 'attach_readonly',
+      label: 'Attach Read-only',
+      disabled: virtualDisk.attached,
+    },
+    {
+      key: 'detach',
+      label: 'Detach',
+      disabled: !virtualDisk.attached,
+    },
+    {
+      type: 'divider',
+    },
+    {
+      key: 'expand',
+      label: 'Expand...',
+      disabled: virtualDisk.attached,
+    },
+    {
+      key: 'compact',
+      label: 'Compact',
+      disabled: virtualDisk.type === 'Fixed',
+    },
+  ];
+
+  const handleAction = async (key: string, virtualDisk: VirtualDiskInfo) => {
+    switch (key) {
+      case 'details':
+        await handleDetails(virtualDisk);
+        break;
+      case 'attach':
+      case 'attach_readonly':
+        runChecked('attach', virtualDisk, async () => {
+          report(await attachVirtualDisk(virtualDisk.file, key === 'attach_readonly'));
+        });
+        break;
+      case 'detach':
+        runChecked('detach', virtualDisk, () => setDetachTarget(virtualDisk));
+        break;
+      case 'expand':
+        runChecked('expand', virtualDisk, () => handleExpand(virtualDisk));
+        break;
+      case 'compact':
+        runChecked('compact', virtualDisk, async () => {
+          report(await compactVirtualDisk(virtualDisk.file));
+        });
+        break;
+    }
+  };
+
+  const columns: ColumnsType<VirtualDiskInfo> = [
+    {
+      title: 'File',
+      dataIndex: 'file',
+      key: 'file',
+      ellipsis: true,
+    },
+    {
+      title: 'Disk',
+      dataIndex: 'diskId',
+      key: 'diskId',
+      width: 90,
+      render: (diskId?: number) => diskId !== undefined ? `Disk ${diskId}` : <span style={{ color: '#999' }}>-</span>,
+    },
+    {
+      title: 'Type',
+      dataIndex: 'type',
+      key: 'type',
+      width: 110,
+      render: (type: VirtualDiskInfo['type']) => type === 'Unknown' ? <span style={{ color: '#999' }}>-</span> : type,
+    },
+    {
+      title: 'State',
+      dataIndex: 'state',
+      key: 'state',
+      width: 150,
+      render: (state: string, record: VirtualDiskInfo) => (
+        <Tag color={record.attached ? 'success' : 'default'}>{state}</Tag>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 80,
+      fixed: 'right',
+      render: (_, record: VirtualDiskInfo) => (
+        <Dropdown
+          menu={{
+            items: getActions(record),
+            onClick: ({ key }) => handleAction(key, record),
+          }}
+          trigger={['click']}
+        >
+          <Button type="text" icon={<MoreOutlined />} size="small" />
+        </Dropdown>
+      ),
+    },
+  ];
+
+  const detachCheck = detachTarget ? checkVirtualDiskOperationSafety('detach', detachTarget, disks) : null;
+
+  return (
+    <div className="virtual-disk-list">
+      <Space style={{ marginBottom: 12 }}>
+        <Button icon={<PlusOutlined />} onClick={() => setCreateOpen(true)}>
+          Create VHD
+        </Button>
+        <Button icon={<LinkOutlined />} onClick={openAttachDialog}>
+          Attach File
+        </Button>
+      </Space>
+
+      <Spin spinning={loading}>
+        <Table
+          columns={columns}
+          dataSource={virtualDisks}
+          rowKey="file"
+          pagination={false}
+          size="small"
+          scroll={{ x: 'max-content' }}
+          locale={{
+            emptyText: 'No virtual disks attached. Create a VHD or attach an existing file.',
+          }}
+        />
+      </Spin>
+
+      <CreateVirtualDiskDialog open={createOpen} onClose={() => setCreateOpen(false)} />
+
+      <Modal
+        title="Attach Virtual Disk"
+        open={attachOpen}
+        onOk={handleAttachFile}
+        onCancel={() => setAttachOpen(false)}
+        okText="Attach"
+        cancelText="Cancel"
+        okButtonProps={{ disabled: !attachFile.trim() }}
+      >
+        <Space direction="vertical" style={{ width: '100%' }} size="middle">
+          <Input
+            placeholder="C:\VMs\scratch.vhdx"
+            value={attachFile}
+            onChange={(e) => setAttachFile(e.target.value)}
+            onPressEnter={handleAttachFile}
+          />
+          <Checkbox checked={attachReadOnly} onChange={(e) => setAttachReadOnly(e.target.checked)}>
+            Read-only
+          </Checkbox>
+          {attachError && (
+            <Alert message="Attach Error" description={attachError} type="error" showIcon />
+          )}
+        </Space>
+      </Modal>
+
+      <Modal
+        title="Expand Virtual Disk"
+        open={expandTarget !== null}
+        onOk={confirmExpand}
+        onCancel={() => setExpandTarget(null)}
+        okText="Expand"
+        cancelText="Cancel"
+      >
+        {expandTarget && (
+          <Space direction="vertical" style={{ width: '100%' }} size="middle">
+            <div>{expandTarget.virtualDisk.file}</div>
+            <InputNumber
+              style={{ width: '100%' }}
+              min={expandTarget.current + 1}
+              precision={0}
+              addonAfter="MB"
+              value={expandSize}
+              onChange={(value) => setExpandSize(value)}
+            />
+            <Alert
+              message={`Currently ${expandTarget.current} MB. Only the virtual disk grows; extend a partition afterwards to use the new space`}
+              type="info"
+              showIcon
+            />
+          </Space>
+        )}
+      </Modal>
+
+      <Modal
+        title="Virtual Disk Details"
+        open={detail !== null}
+        onCancel={() => setDetail(null)}
+        footer={null}
+      >
+        {detail && (
+          <Descriptions column={1} size="small" bordered>
+            <Descriptions.Item label="File">{detail.file}</Descriptions.Item>
+            <Descriptions.Item label="Format">{detail.format}</Descriptions.Item>
+            <Descriptions.Item label="Vendor">{detail.vendor || '-'}</Descriptions.Item>
+            <Descriptions.Item label="State">{detail.state}</Descriptions.Item>
+            <Descriptions.Item label="Virtual Size">{formatBytes(detail.virtualSize)}</Descriptions.Item>
+            <Descriptions.Item label="Physical Size">{formatBytes(detail.physicalSize)}</Descriptions.Item>
+            <Descriptions.Item label="Disk">{detail.diskId !== undefined ? `Disk ${detail.diskId}` : '-'}</Descriptions.Item>
+            <Descriptions.Item label="Differencing">{detail.isChild ? 'Yes' : 'No'}</Descriptions.Item>
+            {detail.parentFile && (
+              <Descriptions.Item label="Parent">{detail.parentFile}</Descriptions.Item>
+            )}
+          </Descriptions>
+        )}
+      </Modal>
+
+      <ConfirmationDialog
+        open={detachTarget !== null}
+        type="detailed"
+        title="Detach Virtual Disk"
+        operation="Detach"
+        description={detachTarget ? `Detach ${detachTarget.file}${detachTarget.diskId !== undefined ? ` (Disk ${detachTarget.diskId})` : ''}?` : ''}
+        impact={detachCheck?.warnings}
+        onConfirm={async () => {
+          if (detachTarget) {
+            report(await detachVirtualDisk(detachTarget.file));
+          }
+          setDetachTarget(null);
+        }}
+        onCancel={() => setDetachTarget(null)}
+      />
+    </div>
+  );
+};
+
+export default VirtualDiskList;
\ No newline at end of file
@@ -1,13 +1,22 @@
-import React from 'react';
-import { Table, Tag, Dropdown, Button, Spin } from 'antd';
-import { MoreOutlined } from '@ant-design/icons';
+import React, { useState } from 'react';
+import { Table, Tag, Dropdown, Button, Space, Spin, Modal, Descriptions, message } from 'antd';
+import { MoreOutlined, PlusOutlined } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import type { MenuProps } from 'antd';
-import { VolumeInfo } from '../../shared/types';
+import { VolumeInfo, VolumeDetail } from '../../shared/types';
 import { useDiskStore } from '../store/diskStore';
+import AttributesDialog, { AttributesTarget } from './AttributesDialog';
+import MountPointsDialog from './MountPointsDialog';
+import DynamicVolumeWizard from './DynamicVolumeWizard';
+import MirrorDialog from './MirrorDialog';
 
 const VolumeList: React.FC = () => {
-  const { volumes, loading } = useDiskStore();
+  const { volumes, loading, detailVolume } = useDiskStore();
+  const [volumeDetail, setVolumeDetail] = useState<VolumeDetail | null>(null);
+  const [attributesTarget, setAttributesTarget] = useState<AttributesTarget | null>(null);
+  const [mountPointsVolume, setMountPointsVolume] = useState<VolumeInfo | null>(null);
+  const [wizardOpen, setWizardOpen] = useState(false);
+  const [mirrorTarget, setMirrorTarget] = useState<{ mode: 'add' | 'break'; volume: VolumeInfo } | null>(null);
 
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 B';
@@ -17,7 +26,29 @@ const VolumeList: React.FC = () => {
     return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
   };
 
+  const handleDetails = async (volume: VolumeInfo) => {
+    const result = await detailVolume(volume.id);
+    if (result.success) {
+      setVolumeDetail(result.data);
+    } else {
+      message.error(result.message);
+    }
+  };
+
+  const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+
   const getVolumeActions = (volume: VolumeInfo): MenuProps['items'] => [
+    {
+      key: 'details',
+      label: 'Details',
+    },
+    {
+      key: 'attributes',
+      label: 'Attributes',
+    },
+    {
+      type: 'divider',
+    },
     {
       key: 'format',
       label: 'Format',
@@ -32,6 +63,10 @@ const VolumeList: React.FC = () => {
       label: 'Remove Letter',
       disabled: !volume.letter,
     },
+    {
+      key: 'mount_points',
+      label: 'Mount Points...',
+    },
     {
       type: 'divider',
     },
@@ -43,17 +78,60 @@ const VolumeList: React.FC = () => {
       key: 'shrink',
       label: 'Shrink',
     },
+    {
+      type: 'divider',
+    },
+    {
+      key: 'add_mirror',
+      label: 'Add Mirror...',
+      disabled: volume.type !== 'Simple',
+    },
+    {
+      key: 'break_mirror',
+      label: 'Break Mirror...',
+      disabled: volume.type !== 'Mirror',
+    },
   ];
 
   const columns: ColumnsType<VolumeInfo> = [
+    {
+      title: 'Volume #',
+      dataIndex: 'id',
+      key: 'id',
+      width: 90,
+      render: (id: number) => `Volume ${id}`,
+    },
     {
       title: 'Letter',
       dataIndex: 'letter',
       key: 'letter',
       width: 80,
-      render: (letter?: string) => (
-        <strong>{letter ? `${letter}:` : '-'}</strong>
-      ),
+      render: (letter: string | undefined) => <strong>{letter ? `${letter}:` : '-'}</strong>,
+    },
+    {
+      title: 'Mount Points',
+      dataIndex: 'mountPoints',
+      key: 'mountPoints',
+      width: 180,
+      render: (mountPoints?: string[]) => {
+        if (!mountPoints || mountPoints.length === 0) {
+          return <span style={{ color: '#999' }}>-</span>;
+        }
+        return mountPoints.map(mountPoint => (
+          <div key={mountPoint} style={{ fontSize: 12 }}>{mountPoint}</div>
+        ));
+      },
+    },
+    {
+      title: 'Location',
+      key: 'location',
+      width: 150,
+      render: (_, record: VolumeInfo) => {
+        if (record.diskId === undefined) return <span style={{ color: '#999' }}>-</span>;
+        return record.partitionId !== undefined
+          ? `Disk ${record.diskId}, Partition ${record.partitionId}`
+          : `Disk ${record.diskId}`;
+      },
     },
     {
       title: 'Label',
@@ -107,6 +185,22 @@ const VolumeList: React.FC = () => {
           menu={{
             items: getVolumeActions(record),
             onClick: ({ key }) => {
+              if (key === 'details') {
+                handleDetails(record);
+                return;
+              }
+              if (key === 'attributes') {
+                setAttributesTarget({ kind: 'volume', id: record.id });
+                return;
+              }
+              if (key === 'mount_points') {
+                setMountPointsVolume(record);
+                return;
+              }
+              if (key === 'add_mirror' || key === 'break_mirror') {
+                setMirrorTarget({ mode: key === 'add_mirror' ? 'add' : 'break', volume: record });
+                return;
+              }
               console.log(`Action ${key} for volume ${record.letter || 'unlabeled'}`);
               // TODO: Implement action handlers
             },
@@ -121,11 +215,17 @@ const VolumeList: React.FC = () => {
 
   return (
     <div className="volume-list">
+      <Space style={{ marginBottom: 12 }}>
+        <Button icon={<PlusOutlined />} onClick={() => setWizardOpen(true)}>
+          New Dynamic Volume
+        </Button>
+      </Space>
+
       <Spin spinning={loading}>
         <Table
           columns={columns}
           dataSource={volumes}
-          rowKey={(record) => record.letter || `${record.label}-${record.size}`}
+          rowKey="id"
           pagination={false}
           size="small"
           scroll={{ x: 'max-content' }}
@@ -134,6 +234,58 @@ const VolumeList: React.FC = () => {
           }}
         />
       </Spin>
+
+      <Modal
+        title={volumeDetail ? `Volume ${volumeDetail.id} Details` : 'Volume Details'}
+        open={volumeDetail !== null}
+        onCancel={() => setVolumeDetail(null)}
+        footer={null}
+      >
+        {volumeDetail && (
+          <Descriptions column={1} size="small" bordered>
+            <Descriptions.Item label="Disks">
+              {volumeDetail.disks.map(disk => `Disk ${disk}`).join(', ') || '-'}
+            </Descriptions.Item>
+            <Descriptions.Item label="Capacity">
+              {volumeDetail.capacity !== undefined ? formatBytes(volumeDetail.capacity) : '-'}
+            </Descriptions.Item>
+            <Descriptions.Item label="Free Space">
+              {volumeDetail.freeSpace !== undefined ? formatBytes(volumeDetail.freeSpace) : '-'}
+            </Descriptions.Item>
+            <Descriptions.Item label="Mount Points">
+              {volumeDetail.mountPoints.join(', ') || '-'}
+            </Descriptions.Item>
+            <Descriptions.Item label="Read-only">{yesNo(volumeDetail.readOnly)}</Descriptions.Item>
+            <Descriptions.Item label="Hidden">{yesNo(volumeDetail.hidden)}</Descriptions.Item>
+            <Descriptions.Item label="No Default Drive Letter">{yesNo(volumeDetail.noDefaultDriveLetter)}</Descriptions.Item>
+            <Descriptions.Item label="Shadow Copy">{yesNo(volumeDetail.shadowCopy)}</Descriptions.Item>
+            <Descriptions.Item label="Offline">{yesNo(volumeDetail.offline)}</Descriptions.Item>
+            <Descriptions.Item label="BitLocker Encrypted">{yesNo(volumeDetail.bitLockerEncrypted)}</Descriptions.Item>
+            <Descriptions.Item label="Installable">{yesNo(volumeDetail.installable)}</Descriptions.Item>
+          </Descriptions>
+        )}
+      </Modal>
+
+      <AttributesDialog
+        open={attributesTarget !== null}
+        target={attributesTarget}
+        onClose={() => setAttributesTarget(null)}
+      />
+
+      <MountPointsDialog
+        open={mountPointsVolume !== null}
+        volume={mountPointsVolume}
+        onClose={() => setMountPointsVolume(null)}
+      />
+
+      <DynamicVolumeWizard open={wizardOpen} onClose={() => setWizardOpen(false)} />
+
+      <MirrorDialog
+        open={mirrorTarget !== null}
+        mode={mirrorTarget?.mode ?? 'add'}
+        volume={mirrorTarget?.volume ?? null}
+        onClose={() => setMirrorTarget(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { useDiskStore } from '../store/diskStore';
+import { LayoutProjection, projectLayout } from '../utils/pendingOperations';
+
+/**
+ * Hook to get the disks as they will be once the pending operations have run
+ */
+export function useLayoutProjection(): LayoutProjection {
+  const { disks, volumes, pendingOperations } = useDiskStore();
+  return useMemo(
+    () => projectLayout(disks, volumes, pendingOperations),
+    [disks, volumes, pendingOperations]
+  );
+}
\ No newline at end of file
@@ -1,5 +1,39 @@
 import { create } from 'zustand';
-import { DiskInfo, VolumeInfo, PartitionInfo, CommandResult } from '../../shared/types';
+import {
+  DiskInfo,
+  DiskDetail,
+  VolumeInfo,
+  PartitionInfo,
+  CommandResult,
+  SystemInfo,
+  JobInfo,
+  CommandOutputEvent,
+  OperationProgress,
+  StorageTopology,
+  CreateDynamicVolumeOptions,
+  CreatePartitionOptions,
+  CreateVirtualDiskOptions,
+  DiskConversion,
+  FormatOptions,
+  VolumeAttributes,
+  VirtualDiskInfo,
+  StorageSettings,
+  ForensicProfileStatus,
+  SanPolicy,
+  AutomountAction
+} from '../../shared/types';
+import { PendingOperation, projectLayout } from '../utils/pendingOperations';
+
+// Lines of live output kept per running job
+const MAX_LIVE_OUTPUT_LINES = 500;
+
+// Windows paths are case-insensitive
+const isSameFile = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const addVirtualDiskFiles = (files: string[], added: string[]) =>
+  [...files, ...added.filter(file => !files.some(known => isSameFile(known, file)))];
+
+let pendingOperationCounter = 0;
 
 interface CommandHistoryItem {
   id: string;
@@ -14,15 +48,30 @@ interface DiskStore {
   disks: DiskInfo[];
   volumes: VolumeInfo[];
   partitions: PartitionInfo[];
+  virtualDisks: VirtualDiskInfo[];
+  /** Virtual disk files seen this session, kept listed after they are detached */
+  virtualDiskFiles: string[];
   selectedDiskId: number | null;
   selectedDisk: DiskInfo | null;
+  selectedDiskDetail: DiskDetail | null;
   selectedPartitionId: number | null;
+  /** SAN policy and automount, once read */
+  storageSettings: StorageSettings | null;
+  forensicProfile: ForensicProfileStatus | null;
+  /** Partition changes waiting for Apply, in the order they will run */
+  pendingOperations: PendingOperation[];
+  /** Partition operations go to the pending list instead of running straight away */
+  queueChanges: boolean;
   
   // UI state
   loading: boolean;
   error: string | null;
   isAdmin: boolean;
+  backend: SystemInfo['backend'] | null;
   commandHistory: CommandHistoryItem[];
+  jobs: JobInfo[];
+  liveOutput: Record<string, string[]>;
+  operationProgress: Record<string, OperationProgress>;
   
   // Actions
   setDisks: (disks: DiskInfo[]) => void;
@@ -35,27 +84,84 @@ interface DiskStore {
   setIsAdmin: (isAdmin: boolean) => void;
   addCommandToHistory: (command: string, output: string, success: boolean) => void;
   clearCommandHistory: () => void;
+  setJobs: (jobs: JobInfo[]) => void;
+  appendCommandOutput: (event: CommandOutputEvent) => void;
+  setOperationProgress: (progress: OperationProgress) => void;
+  setQueueChanges: (queueChanges: boolean) => void;
+  queueOperation: (operation: Omit<PendingOperation, 'id'>) => void;
+  removePendingOperation: (id: string) => void;
+  movePendingOperation: (id: string, offset: number) => void;
+  discardPendingOperations: () => void;
   
   // Async actions (will call IPC)
   fetchDisks: () => Promise<void>;
   fetchVolumes: () => Promise<void>;
   fetchPartitions: (diskId: number) => Promise<void>;
+  fetchDiskDetail: (diskId: number) => Promise<void>;
+  fetchTopology: () => Promise<void>;
+  fetchVirtualDisks: () => Promise<void>;
   checkAdminStatus: () => Promise<void>;
+  fetchSystemInfo: () => Promise<void>;
+  fetchStorageSettings: () => Promise<void>;
+  fetchForensicProfile: () => Promise<void>;
   refreshAll: () => Promise<void>;
+  fetchJobs: () => Promise<void>;
+  cancelJob: (jobId: string) => Promise<CommandResult>;
   
   // Disk operations
+  selectDiskInSession: (diskId: number) => Promise<CommandResult>;
   cleanDisk: (diskId: number) => Promise<CommandResult>;
   cleanAllDisk: (diskId: number) => Promise<CommandResult>;
   onlineDisk: (diskId: number) => Promise<CommandResult>;
   offlineDisk: (diskId: number) => Promise<CommandResult>;
   detailDisk: (diskId: number) => Promise<CommandResult>;
+  detailVolume: (volumeId: number) => Promise<CommandResult>;
+  getDiskAttributes: (diskId: number) => Promise<CommandResult>;
+  setDiskReadOnly: (diskId: number, readOnly: boolean) => Promise<CommandResult>;
+  getVolumeAttributes: (volumeId: number) => Promise<CommandResult>;
+  getDiskUniqueId: (diskId: number) => Promise<CommandResult>;
+  setDiskUniqueId: (diskId: number, id: string, partitionStyle: DiskInfo['partitionStyle'], bringOnline?: boolean) => Promise<CommandResult>;
+  setVolumeAttributes: (volumeId: number, changes: Partial<VolumeAttributes>) => Promise<CommandResult>;
+  convertDisk: (diskId: number, target: DiskConversion) => Promise<CommandResult>;
   
   // Partition operations
-  createPartition: (diskId: number, size?: number) => Promise<CommandResult>;
+  detailPartition: (diskId: number, partitionId: number) => Promise<CommandResult>;
+  createPartition: (diskId: number, options: CreatePartitionOptions) => Promise<CommandResult>;
   deletePartition: (diskId: number, partitionId: number) => Promise<CommandResult>;
-  formatPartition: (diskId: number, partitionId: number, fileSystem: string, label?: string) => Promise<CommandResult>;
+  formatPartition: (diskId: number, partitionId: number, options: FormatOptions) => Promise<CommandResult>;
   assignLetter: (diskId: number, partitionId: number, letter: string) => Promise<CommandResult>;
   removeLetter: (diskId: number, partitionId: number, letter: string) => Promise<CommandResult>;
+  swapLetters: (firstVolume: number, firstLetter: string, secondVolume: number, secondLetter: string) => Promise<CommandResult>;
+  assignMount: (volumeId: number, path: string) => Promise<CommandResult>;
+  removeMount: (volumeId: number, path: string) => Promise<CommandResult>;
+  setActive: (diskId: number, partitionId: number, activePartition?: number) => Promise<CommandResult>;
+  setInactive: (diskId: number, partitionId: number) => Promise<CommandResult>;
+  setGptAttributes: (diskId: number, partitionId: number, attributes: string) => Promise<CommandResult>;
+  queryShrinkMax: (diskId: number, partitionId: number) => Promise<CommandResult>;
+  extendPartition: (diskId: number, partitionId: number, size?: number) => Promise<CommandResult>;
+  shrinkPartition: (diskId: number, partitionId: number, desired: number, minimum?: number) => Promise<CommandResult>;
+  applyPendingOperations: () => Promise<CommandResult>;
+  
+  // Dynamic volume operations
+  createDynamicVolume: (options: CreateDynamicVolumeOptions) => Promise<CommandResult>;
+  addMirror: (volumeId: number, diskId: number) => Promise<CommandResult>;
+  breakMirror: (volumeId: number, diskId: number, keep?: boolean) => Promise<CommandResult>;
+  
+  // Dynamic disk recovery
+  importDisk: (diskId: number) => Promise<CommandResult>;
+  recoverDisk: (diskId: number) => Promise<CommandResult>;
+  repairVolume: (volumeId: number, diskId: number) => Promise<CommandResult>;
+  deleteMissingDisk: (missingId: string, override?: boolean) => Promise<CommandResult>;
+  setSanPolicy: (policy: SanPolicy) => Promise<CommandResult>;
+  setAutomount: (action: AutomountAction) => Promise<CommandResult>;
+  
+  // Virtual disk operations
+  detailVirtualDisk: (file: string) => Promise<CommandResult>;
+  createVirtualDisk: (options: CreateVirtualDiskOptions) => Promise<CommandResult>;
+  attachVirtualDisk: (file: string, readOnly?: boolean) => Promise<CommandResult>;
+  detachVirtualDisk: (file: string) => Promise<CommandResult>;
+  expandVirtualDisk: (file: string, maximum: number) => Promise<CommandResult>;
+  compactVirtualDisk: (file: string) => Promise<CommandResult>;
 }
 
 export const useDiskStore = create<DiskStore>((set, get) => ({
@@ -63,13 +169,24 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
   disks: [],
   volumes: [],
   partitions: [],
+  virtualDisks: [],
+  virtualDiskFiles: [],
   selectedDiskId: null,
   selectedDisk: null,
+  selectedDiskDetail: null,
   selectedPartitionId: null,
+  storageSettings: null,
+  forensicProfile: null,
+  pendingOperations: [],
+  queueChanges: false,
   loading: false,
   error: null,
   isAdmin: false,
+  backend: null,
   commandHistory: [],
+  jobs: [],
+  liveOutput: {},
+  operationProgress: {},
   
   // Setters
   setDisks: (disks) => set({ disks }),
@@ -80,11 +197,23 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
   
   selectDisk: (diskId) => {
     const disk = diskId !== null ? get().disks.find(d => d.id === diskId) || null : null;
-    set({ selectedDiskId: diskId, selectedDisk: disk, selectedPartitionId: null });
+    // Show the partitions the topology already has while fresh ones load
+    set({
+      selectedDiskId: diskId,
+      selectedDisk: disk,
+      selectedDiskDetail: null,
+      selectedPartitionId: null,
+      partitions: disk ? disk.partitions : [],
+    });
     
-    // Fetch partitions for selected disk
-    if (diskId !== null) {
+    // Move the Diskpart session focus along with the UI, then fetch partitions and details.
+    // Missing disks have no number to select and nothing to fetch
+    if (diskId !== null && !disk?.missingId) {
+      window.electronAPI.selectDisk(diskId).catch((error) => {
+        console.error('Failed to select disk in Diskpart session:', error);
+      });
       get().fetchPartitions(diskId);
+      get().fetchDiskDetail(diskId);
     } else {
       set({ partitions: [] });
     }
@@ -113,6 +242,61 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
   
   clearCommandHistory: () => set({ commandHistory: [] }),
   
+  setQueueChanges: (queueChanges) => set({ queueChanges }),
+  
+  queueOperation: (operation) => set((state) => ({
+    pendingOperations: [...state.pendingOperations, { ...operation, id: `pending-${++pendingOperationCounter}` }],
+  })),
+  
+  removePendingOperation: (id) => set((state) => ({
+    pendingOperations: state.pendingOperations.filter(operation => operation.id !== id),
+    // Partition numbers shift with the layout, so the selection may now point elsewhere
+    selectedPartitionId: null,
+  })),
+  
+  movePendingOperation: (id, offset) => set((state) => {
+    const from = state.pendingOperations.findIndex(operation => operation.id === id);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= state.pendingOperations.length) {
+      return {};
+    }
+    const pendingOperations = [...state.pendingOperations];
+    const [moved] = pendingOperations.splice(from, 1);
+    pendingOperations.splice(to, 0, moved);
+    return { pendingOperations, selectedPartitionId: null };
+  }),
+  
+  discardPendingOperations: () => set({ pendingOperations: [], selectedPartitionId: null }),
+  
+  setJobs: (jobs) => {
+    // Live output and progress are only shown while their job runs; the history entry replaces them
+    const running = new Set(jobs.filter(job => job.status === 'executing').map(job => job.id));
+    set((state) => ({
+      jobs,
+      liveOutput: Object.fromEntries(
+        Object.entries(state.liveOutput).filter(([jobId]) => running.has(jobId))
+      ),
+      operationProgress: Object.fromEntries(
+        Object.entries(state.operationProgress).filter(([jobId]) => running.has(jobId))
+      ),
+    }));
+  },
+  
+  appendCommandOutput: ({ jobId, line }) => {
+    set((state) => ({
+      liveOutput: {
+        ...state.liveOutput,
+        [jobId]: [...(state.liveOutput[jobId] || []), line].slice(-MAX_LIVE_OUTPUT_LINES),
+      },
+    }));
+  },
+  
+  setOperationProgress: (progress) => {
+    set((state) => ({
+      operationProgress: { ...state.operationProgress, [progress.jobId]: progress },
+    }));
+  },
+  
   // Async actions
   fetchDisks: async () => {
     set({ loading: true, error: null });
@@ -171,6 +355,83 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     }
   },
   
+  fetchDiskDetail: async (diskId: number) => {
+    try {
+      const response = await window.electronAPI.detailDisk(diskId);
+      if (response.success && response.data) {
+        // Ignore answers for a disk that is no longer selected
+        if (get().selectedDiskId === diskId) {
+          set({ selectedDiskDetail: response.data });
+        }
+        get().addCommandToHistory(`detail disk ${diskId}`, JSON.stringify(response.data, null, 2), true);
+      } else {
+        const errorMsg = response.error?.message || 'Failed to get disk details';
+        get().addCommandToHistory(`detail disk ${diskId}`, errorMsg, false);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      get().addCommandToHistory(`detail disk ${diskId}`, errorMsg, false);
+    }
+  },
+  
+  fetchTopology: async () => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.getStorageTopology();
+      if (response.success && response.data) {
+        const { disks, volumes }: StorageTopology = response.data;
+        const { selectedDiskId } = get();
+        const selectedDisk = disks.find(disk => disk.id === selectedDiskId) || null;
+        set({
+          disks,
+          volumes,
+          selectedDisk,
+          partitions: selectedDisk ? selectedDisk.partitions : [],
+          loading: false,
+        });
+        get().addCommandToHistory('storage topology', JSON.stringify(response.data, null, 2), true);
+      } else {
+        const errorMsg = response.error?.message || 'Failed to fetch storage topology';
+        set({ error: errorMsg, loading: false });
+        get().addCommandToHistory('storage topology', errorMsg, false);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory('storage topology', errorMsg, false);
+    }
+  },
+  
+  fetchVirtualDisks: async () => {
+    try {
+      const response = await window.electronAPI.listVirtualDisks();
+      if (response.success && response.data) {
+        const listed: VirtualDiskInfo[] = response.data;
+        const virtualDiskFiles = addVirtualDiskFiles(get().virtualDiskFiles, listed.map(vdisk => vdisk.file));
+        
+        // Diskpart only lists attached virtual disks; the rest are files this session has used
+        const previous = get().virtualDisks;
+        const detached: VirtualDiskInfo[] = virtualDiskFiles
+          .filter(file => !listed.some(vdisk => isSameFile(vdisk.file, file)))
+          .map(file => ({
+            file,
+            state: 'Detached',
+            attached: false,
+            type: previous.find(vdisk => isSameFile(vdisk.file, file))?.type || 'Unknown',
+          }));
+        
+        set({ virtualDisks: [...listed, ...detached], virtualDiskFiles });
+        get().addCommandToHistory('list vdisk', JSON.stringify(response.data, null, 2), true);
+      } else {
+        const errorMsg = response.error?.message || 'Failed to fetch virtual disks';
+        get().addCommandToHistory('list vdisk', errorMsg, false);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      get().addCommandToHistory('list vdisk', errorMsg, false);
+    }
+  },
+  
   checkAdminStatus: async () => {
     try {
       const isAdmin = await window.electronAPI.checkAdminPrivileges();
@@ -181,20 +442,109 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     }
   },
   
+  fetchSystemInfo: async () => {
+    try {
+      const info = await window.electronAPI.getSystemInfo();
+      set({ backend: info.backend });
+    } catch (error) {
+      console.error('Failed to get system info:', error);
+      set({ backend: null });
+    }
+  },
+  
+  fetchStorageSettings: async () => {
+    try {
+      const response = await window.electronAPI.getStorageSettings();
+      if (response.success && response.data) {
+        set({ storageSettings: response.data });
+        get().addCommandToHistory('san / automount', JSON.stringify(response.data, null, 2), true);
+      } else {
+        const errorMsg = response.error?.message || 'Failed to read storage settings';
+        get().addCommandToHistory('san / automount', errorMsg, false);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      get().addCommandToHistory('san / automount', errorMsg, false);
+    }
+  },
+  
+  fetchForensicProfile: async () => {
+    try {
+      const forensicProfile = await window.electronAPI.getForensicProfile();
+      set({ forensicProfile });
+    } catch (error) {
+      console.error('Failed to get forensic profile:', error);
+      set({ forensicProfile: null });
+    }
+  },
+  
   refreshAll: async () => {
+    // The main process serialises these on one Diskpart session, so they can be queued together
+    const { selectedDiskId } = get();
     await Promise.all([
-      get().fetchDisks(),
-      get().fetchVolumes(),
+      get().fetchTopology(),
+      ...(selectedDiskId !== null ? [get().fetchDiskDetail(selectedDiskId)] : []),
     ]);
-    
-    // Re-fetch partitions if a disk is selected
-    const { selectedDiskId } = get();
-    if (selectedDiskId !== null) {
-      await get().fetchPartitions(selectedDiskId);
+  },
+  
+  fetchJobs: async () => {
+    try {
+      const jobs = await window.electronAPI.getJobQueue();
+      set({ jobs });
+    } catch (error) {
+      console.error('Failed to fetch job queue:', error);
+    }
+  },
+  
+  cancelJob: async (jobId: string): Promise<CommandResult> => {
+    try {
+      const response = await window.electronAPI.cancelJob(jobId);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Job cancelled' : response.error?.message || 'Failed to cancel job';
+      
+      get().addCommandToHistory(`cancel ${jobId}`, message, success);
+      
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      return {
+        success: false,
+        message: errorMsg,
+      };
     }
   },
   
   // Disk operations
+  selectDiskInSession: async (diskId: number): Promise<CommandResult> => {
+    try {
+      const response = await window.electronAPI.selectDisk(diskId);
+      const success = response.success;
+      const message = success ? response.data?.message || `Disk ${diskId} selected successfully` : response.error?.message || 'Failed to select disk';
+      
+      get().addCommandToHistory(`select disk ${diskId}`, message, success);
+      
+      return {
+        success,
+        message,
+        data: response.data,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      get().addCommandToHistory(`select disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
   cleanDisk: async (diskId: number): Promise<CommandResult> => {
     set({ loading: true, error: null });
     try {
@@ -260,9 +610,9 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
   onlineDisk: async (diskId: number): Promise<CommandResult> => {
     set({ loading: true, error: null });
     try {
-      const response = await window.electronAPI.selectDisk(diskId);
+      const response = await window.electronAPI.onlineDisk(diskId);
       const success = response.success;
-      const message = success ? `Disk ${diskId} brought online` : response.error?.message || 'Failed to bring disk online';
+      const message = success ? response.data?.message || `Disk ${diskId} brought online` : response.error?.message || 'Failed to bring disk online';
       
       get().addCommandToHistory(`online disk ${diskId}`, message, success);
       
@@ -291,9 +641,9 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
   offlineDisk: async (diskId: number): Promise<CommandResult> => {
     set({ loading: true, error: null });
     try {
-      const response = await window.electronAPI.selectDisk(diskId);
+      const response = await window.electronAPI.offlineDisk(diskId);
       const success = response.success;
-      const message = success ? `Disk ${diskId} taken offline` : response.error?.message || 'Failed to take disk offline';
+      const message = success ? response.data?.message || `Disk ${diskId} taken offline` : response.error?.message || 'Failed to take disk offline';
       
       get().addCommandToHistory(`offline disk ${diskId}`, message, success);
       
@@ -328,6 +678,9 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
       
       get().addCommandToHistory(`detail disk ${diskId}`, message, success);
       set({ loading: false });
+      if (success && get().selectedDiskId === diskId) {
+        set({ selectedDiskDetail: response.data });
+      }
       
       return {
         success,
@@ -347,31 +700,55 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     }
   },
   
-  // Partition operations
-  createPartition: async (diskId: number, size?: number): Promise<CommandResult> => {
+  detailVolume: async (volumeId: number): Promise<CommandResult> => {
     set({ loading: true, error: null });
     try {
-      const response = await window.electronAPI.createPartition(diskId, size);
+      const response = await window.electronAPI.detailVolume(volumeId);
       const success = response.success;
-      const message = success ? response.data?.message || 'Partition created successfully' : response.error?.message || 'Failed to create partition';
+      const message = success ? JSON.stringify(response.data, null, 2) : response.error?.message || 'Failed to get volume details';
       
-      get().addCommandToHistory(`create partition on disk ${diskId}`, message, success);
+      get().addCommandToHistory(`detail volume ${volumeId}`, message, success);
+      set({ loading: false });
       
-      if (success) {
-        await get().refreshAll();
-      }
+      return {
+        success,
+        message,
+        data: response.data,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`detail volume ${volumeId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  getDiskAttributes: async (diskId: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.getDiskAttributes(diskId);
+      const success = response.success;
+      const message = success ? JSON.stringify(response.data, null, 2) : response.error?.message || 'Failed to get disk attributes';
       
+      get().addCommandToHistory(`attributes disk ${diskId}`, message, success);
       set({ loading: false });
+      
       return {
         success,
         message,
+        data: response.data,
         errorCode: response.error?.code,
         details: response.error?.details,
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
       set({ error: errorMsg, loading: false });
-      get().addCommandToHistory(`create partition on disk ${diskId}`, errorMsg, false);
+      get().addCommandToHistory(`attributes disk ${diskId}`, errorMsg, false);
       return {
         success: false,
         message: errorMsg,
@@ -379,17 +756,16 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     }
   },
   
-  deletePartition: async (diskId: number, partitionId: number): Promise<CommandResult> => {
+  setDiskReadOnly: async (diskId: number, readOnly: boolean): Promise<CommandResult> => {
     set({ loading: true, error: null });
     try {
-      const response = await window.electronAPI.deletePartition(diskId, partitionId);
+      const response = await window.electronAPI.setDiskReadOnly(diskId, readOnly);
       const success = response.success;
-      const message = success ? response.data?.message || 'Partition deleted successfully' : response.error?.message || 'Failed to delete partition';
+      const message = success ? response.data?.message || 'Disk attributes updated' : response.error?.message || 'Failed to change disk attributes';
       
-      get().addCommandToHistory(`delete partition ${partitionId} on disk ${diskId}`, message, success);
+      get().addCommandToHistory(`attributes disk ${readOnly ? 'set' : 'clear'} readonly on disk ${diskId}`, message, success);
       
       if (success) {
-        set({ selectedPartitionId: null });
         await get().refreshAll();
       }
       
@@ -403,7 +779,7 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
       set({ error: errorMsg, loading: false });
-      get().addCommandToHistory(`delete partition ${partitionId} on disk ${diskId}`, errorMsg, false);
+      get().addCommandToHistory(`attributes disk ${readOnly ? 'set' : 'clear'} readonly on disk ${diskId}`, errorMsg, false);
       return {
         success: false,
         message: errorMsg,
@@ -411,14 +787,42 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     }
   },
   
-  formatPartition: async (diskId: number, partitionId: number, fileSystem: string, label?: string): Promise<CommandResult> => {
+  getDiskUniqueId: async (diskId: number): Promise<CommandResult> => {
     set({ loading: true, error: null });
     try {
-      const response = await window.electronAPI.formatVolume(diskId, partitionId, fileSystem, label);
+      const response = await window.electronAPI.getDiskUniqueId(diskId);
       const success = response.success;
-      const message = success ? response.data?.message || 'Partition formatted successfully' : response.error?.message || 'Failed to format partition';
+      const message = success ? JSON.stringify(response.data, null, 2) : response.error?.message || 'Failed to get disk ID';
+      
+      get().addCommandToHistory(`uniqueid disk ${diskId}`, message, success);
+      set({ loading: false });
+      
+      return {
+        success,
+        message,
+        data: response.data,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`uniqueid disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  setDiskUniqueId: async (diskId: number, id: string, partitionStyle: DiskInfo['partitionStyle'], bringOnline?: boolean): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.setDiskUniqueId(diskId, id, partitionStyle, bringOnline);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Disk ID changed successfully' : response.error?.message || 'Failed to change disk ID';
       
-      get().addCommandToHistory(`format partition ${partitionId} on disk ${diskId} (${fileSystem})`, message, success);
+      get().addCommandToHistory(`uniqueid disk id=${id} on disk ${diskId}`, message, success);
       
       if (success) {
         await get().refreshAll();
@@ -434,7 +838,7 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
       set({ error: errorMsg, loading: false });
-      get().addCommandToHistory(`format partition ${partitionId} on disk ${diskId}`, errorMsg, false);
+      get().addCommandToHistory(`uniqueid disk id=${id} on disk ${diskId}`, errorMsg, false);
       return {
         success: false,
         message: errorMsg,
@@ -442,14 +846,45 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     }
   },
   
-  assignLetter: async (diskId: number, partitionId: number, letter: string): Promise<CommandResult> => {
+  getVolumeAttributes: async (volumeId: number): Promise<CommandResult> => {
     set({ loading: true, error: null });
     try {
-      const response = await window.electronAPI.assignLetter(diskId, partitionId, letter);
+      const response = await window.electronAPI.getVolumeAttributes(volumeId);
       const success = response.success;
-      const message = success ? response.data?.message || `Drive letter ${letter} assigned successfully` : response.error?.message || 'Failed to assign drive letter';
+      const message = success ? JSON.stringify(response.data, null, 2) : response.error?.message || 'Failed to get volume attributes';
       
-      get().addCommandToHistory(`assign letter ${letter} to partition ${partitionId} on disk ${diskId}`, message, success);
+      get().addCommandToHistory(`attributes volume ${volumeId}`, message, success);
+      set({ loading: false });
+      
+      return {
+        success,
+        message,
+        data: response.data,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`attributes volume ${volumeId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  setVolumeAttributes: async (volumeId: number, changes: Partial<VolumeAttributes>): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    const summary = Object.entries(changes)
+      .map(([attribute, enabled]) => `${enabled ? 'set' : 'clear'} ${attribute}`)
+      .join(', ');
+    try {
+      const response = await window.electronAPI.setVolumeAttributes(volumeId, changes);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Volume attributes updated' : response.error?.message || 'Failed to change volume attributes';
+      
+      get().addCommandToHistory(`attributes volume ${volumeId} ${summary}`, message, success);
       
       if (success) {
         await get().refreshAll();
@@ -465,7 +900,7 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
       set({ error: errorMsg, loading: false });
-      get().addCommandToHistory(`assign letter ${letter} to partition ${partitionId}`, errorMsg, false);
+      get().addCommandToHistory(`attributes volume ${volumeId} ${summary}`, errorMsg, false);
       return {
         success: false,
         message: errorMsg,
@@ -473,14 +908,14 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     }
   },
   
-  removeLetter: async (diskId: number, partitionId: number, letter: string): Promise<CommandResult> => {
+  convertDisk: async (diskId: number, target: DiskConversion): Promise<CommandResult> => {
     set({ loading: true, error: null });
     try {
-      const response = await window.electronAPI.removeLetter(diskId, partitionId, letter);
+      const response = await window.electronAPI.convertDisk(diskId, target);
       const success = response.success;
-      const message = success ? response.data?.message || `Drive letter ${letter} removed successfully` : response.error?.message || 'Failed to remove drive letter';
+      const message = success ? response.data?.message || `Disk ${diskId} converted` : response.error?.message || 'Failed to convert disk';
       
-      get().addCommandToHistory(`remove letter ${letter} from partition ${partitionId} on disk ${diskId}`, message, success);
+      get().addCommandToHistory(`convert ${target} on disk ${diskId}`, message, success);
       
       if (success) {
         await get().refreshAll();
@@ -496,7 +931,987 @@ export const useDiskStore = create<DiskStore>((set, get) => ({
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
       set({ error: errorMsg, loading: false });
-      get().addCommandToHistory(`remove letter ${letter} from partition ${partitionId}`, errorMsg, false);
+      get().addCommandToHistory(`convert ${target} on disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  // Partition operations
+  detailPartition: async (diskId: number, partitionId: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.detailPartition(diskId, partitionId);
+      const success = response.success;
+      const message = success ? JSON.stringify(response.data, null, 2) : response.error?.message || 'Failed to get partition details';
+      
+      get().addCommandToHistory(`detail partition ${partitionId} on disk ${diskId}`, message, success);
+      set({ loading: false });
+      if (success && get().selectedDiskId === diskId) {
+        set({
+          partitions: get().partitions.map(partition =>
+            partition.id === partitionId ? { ...partition, detail: response.data } : partition
+          ),
+        });
+      }
+      
+      return {
+        success,
+        message,
+        data: response.data,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`detail partition ${partitionId} on disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  createPartition: async (diskId: number, options: CreatePartitionOptions): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.createPartition(diskId, options);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Partition created successfully' : response.error?.message || 'Failed to create partition';
+      
+      get().addCommandToHistory(`create partition ${options.kind} on disk ${diskId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`create partition ${options.kind} on disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  deletePartition: async (diskId: number, partitionId: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.deletePartition(diskId, partitionId);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Partition deleted successfully' : response.error?.message || 'Failed to delete partition';
+      
+      get().addCommandToHistory(`delete partition ${partitionId} on disk ${diskId}`, message, success);
+      
+      if (success) {
+        set({ selectedPartitionId: null });
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`delete partition ${partitionId} on disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  formatPartition: async (diskId: number, partitionId: number, options: FormatOptions): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.formatVolume(diskId, partitionId, options);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Partition formatted successfully' : response.error?.message || 'Failed to format partition';
+      
+      get().addCommandToHistory(`format partition ${partitionId} on disk ${diskId} (${options.fileSystem})`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`format partition ${partitionId} on disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  assignLetter: async (diskId: number, partitionId: number, letter: string): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.assignLetter(diskId, partitionId, letter);
+      const success = response.success;
+      const message = success ? response.data?.message || `Drive letter ${letter} assigned successfully` : response.error?.message || 'Failed to assign drive letter';
+      
+      get().addCommandToHistory(`assign letter ${letter} to partition ${partitionId} on disk ${diskId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`assign letter ${letter} to partition ${partitionId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  removeLetter: async (diskId: number, partitionId: number, letter: string): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.removeLetter(diskId, partitionId, letter);
+      const success = response.success;
+      const message = success ? response.data?.message || `Drive letter ${letter} removed successfully` : response.error?.message || 'Failed to remove drive letter';
+      
+      get().addCommandToHistory(`remove letter ${letter} from partition ${partitionId} on disk ${diskId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`remove letter ${letter} from partition ${partitionId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  swapLetters: async (firstVolume: number, firstLetter: string, secondVolume: number, secondLetter: string): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.swapLetters(firstVolume, firstLetter, secondVolume, secondLetter);
+      const success = response.success;
+      const message = success ? response.data?.message || `Drive letters ${firstLetter}: and ${secondLetter}: swapped` : response.error?.message || 'Failed to swap drive letters';
+      
+      get().addCommandToHistory(`swap letters ${firstLetter}: (volume ${firstVolume}) and ${secondLetter}: (volume ${secondVolume})`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`swap letters ${firstLetter}: (volume ${firstVolume}) and ${secondLetter}: (volume ${secondVolume})`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  assignMount: async (volumeId: number, path: string): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.assignMount(volumeId, path);
+      const success = response.success;
+      const message = success ? response.data?.message || `Volume mounted at ${path}` : response.error?.message || 'Failed to mount volume';
+      
+      get().addCommandToHistory(`assign mount=${path} to volume ${volumeId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`assign mount=${path} to volume ${volumeId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  removeMount: async (volumeId: number, path: string): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.removeMount(volumeId, path);
+      const success = response.success;
+      const message = success ? response.data?.message || `Mount point ${path} removed` : response.error?.message || 'Failed to remove mount point';
+      
+      get().addCommandToHistory(`remove mount=${path} from volume ${volumeId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`remove mount=${path} from volume ${volumeId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  setActive: async (diskId: number, partitionId: number, activePartition?: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.setActive(diskId, partitionId, activePartition);
+      const success = response.success;
+      const message = success ? response.data?.message || `Partition ${partitionId} marked active` : response.error?.message || 'Failed to mark partition active';
+      
+      get().addCommandToHistory(`active partition ${partitionId} on disk ${diskId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`active partition ${partitionId} on disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  setInactive: async (diskId: number, partitionId: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.setInactive(diskId, partitionId);
+      const success = response.success;
+      const message = success ? response.data?.message || `Partition ${partitionId} marked inactive` : response.error?.message || 'Failed to mark partition inactive';
+      
+      get().addCommandToHistory(`inactive partition ${partitionId} on disk ${diskId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`inactive partition ${partitionId} on disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  setGptAttributes: async (diskId: number, partitionId: number, attributes: string): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.setGptAttributes(diskId, partitionId, attributes);
+      const success = response.success;
+      const message = success ? response.data?.message || `GPT attributes set to ${attributes}` : response.error?.message || 'Failed to set GPT attributes';
+      
+      get().addCommandToHistory(`gpt attributes=${attributes} on partition ${partitionId} of disk ${diskId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`gpt attributes=${attributes} on partition ${partitionId} of disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  queryShrinkMax: async (diskId: number, partitionId: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.queryShrinkMax(diskId, partitionId);
+      const success = response.success;
+      const message = success ? JSON.stringify(response.data, null, 2) : response.error?.message || 'Failed to query reclaimable space';
+      
+      get().addCommandToHistory(`shrink querymax on partition ${partitionId} of disk ${diskId}`, message, success);
+      set({ loading: false });
+      
+      return {
+        success,
+        message,
+        data: response.data,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`shrink querymax on partition ${partitionId} of disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  extendPartition: async (diskId: number, partitionId: number, size?: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.extendPartition(diskId, partitionId, size);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Partition extended successfully' : response.error?.message || 'Failed to extend partition';
+      
+      get().addCommandToHistory(`extend partition ${partitionId} on disk ${diskId}${size ? ` by ${size} MB` : ''}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`extend partition ${partitionId} on disk ${diskId}${size ? ` by ${size} MB` : ''}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  shrinkPartition: async (diskId: number, partitionId: number, desired: number, minimum?: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.shrinkPartition(diskId, partitionId, desired, minimum);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Partition shrunk successfully' : response.error?.message || 'Failed to shrink partition';
+      
+      get().addCommandToHistory(`shrink partition ${partitionId} on disk ${diskId} by ${desired} MB`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`shrink partition ${partitionId} on disk ${diskId} by ${desired} MB`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  applyPendingOperations: async (): Promise<CommandResult> => {
+    const { disks, volumes, pendingOperations } = get();
+    const projection = projectLayout(disks, volumes, pendingOperations);
+    const errors = Object.values(projection.errors);
+    if (errors.length > 0) {
+      return { success: false, message: `Fix the pending operations first: ${errors[0]}` };
+    }
+    const summary = pendingOperations.map(operation => projection.descriptions[operation.id]).join('; ');
+    
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.applyPendingOperations(projection.plan);
+      const success = response.success;
+      // An exception means the script was refused before Diskpart ran any of it
+      const ran = success || response.error?.code !== 'EXCEPTION';
+      const message = success
+        ? response.data?.message || 'Pending operations applied successfully'
+        : response.error?.message || 'Failed to apply pending operations';
+      
+      get().addCommandToHistory(`apply pending operations: ${summary}`, message, success);
+      
+      // Whatever ran has changed the layout the rest of the list was planned against
+      if (ran) {
+        set({ pendingOperations: [], selectedPartitionId: null });
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`apply pending operations: ${summary}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  createDynamicVolume: async (options: CreateDynamicVolumeOptions): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.createDynamicVolume(options);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Volume created successfully' : response.error?.message || 'Failed to create volume';
+      
+      get().addCommandToHistory(`create volume ${options.layout} on disks ${options.disks.join(', ')}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`create volume ${options.layout} on disks ${options.disks.join(', ')}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  addMirror: async (volumeId: number, diskId: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.addMirror(volumeId, diskId);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Mirror added successfully' : response.error?.message || 'Failed to add mirror';
+      
+      get().addCommandToHistory(`add mirror of volume ${volumeId} on disk ${diskId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`add mirror of volume ${volumeId} on disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  breakMirror: async (volumeId: number, diskId: number, keep?: boolean): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.breakMirror(volumeId, diskId, keep);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Mirror broken successfully' : response.error?.message || 'Failed to break mirror';
+      
+      get().addCommandToHistory(`break mirror of volume ${volumeId} on disk ${diskId}${keep === false ? ' (nokeep)' : ''}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`break mirror of volume ${volumeId} on disk ${diskId}${keep === false ? ' (nokeep)' : ''}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  importDisk: async (diskId: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.importDisk(diskId);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Disk imported successfully' : response.error?.message || 'Failed to import disk';
+      
+      get().addCommandToHistory(`import disk ${diskId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`import disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  recoverDisk: async (diskId: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.recoverDisk(diskId);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Disk recovered successfully' : response.error?.message || 'Failed to recover disk';
+      
+      get().addCommandToHistory(`recover disk ${diskId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`recover disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  repairVolume: async (volumeId: number, diskId: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.repairVolume(volumeId, diskId);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Volume repaired successfully' : response.error?.message || 'Failed to repair volume';
+      
+      get().addCommandToHistory(`repair volume ${volumeId} on disk ${diskId}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`repair volume ${volumeId} on disk ${diskId}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  deleteMissingDisk: async (missingId: string, override?: boolean): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.deleteMissingDisk(missingId, override);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Missing disk deleted successfully' : response.error?.message || 'Failed to delete missing disk';
+      
+      get().addCommandToHistory(`delete missing disk ${missingId}${override ? ' (override)' : ''}`, message, success);
+      
+      if (success) {
+        await get().refreshAll();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`delete missing disk ${missingId}${override ? ' (override)' : ''}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  setSanPolicy: async (policy: SanPolicy): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.setSanPolicy(policy);
+      const success = response.success;
+      const message = success ? response.data?.message || 'SAN policy changed successfully' : response.error?.message || 'Failed to change SAN policy';
+      
+      get().addCommandToHistory(`san policy=${policy}`, message, success);
+      
+      if (success) {
+        await get().fetchStorageSettings();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`san policy=${policy}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  setAutomount: async (action: AutomountAction): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.setAutomount(action);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Automount changed successfully' : response.error?.message || 'Failed to change automount';
+      
+      get().addCommandToHistory(`automount ${action}`, message, success);
+      
+      if (success) {
+        await get().fetchStorageSettings();
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`automount ${action}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  detailVirtualDisk: async (file: string): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.detailVirtualDisk(file);
+      const success = response.success;
+      const message = success ? JSON.stringify(response.data, null, 2) : response.error?.message || 'Failed to get virtual disk details';
+      
+      get().addCommandToHistory(`detail vdisk file="${file}"`, message, success);
+      set({ loading: false });
+      
+      return {
+        success,
+        message,
+        data: response.data,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`detail vdisk file="${file}"`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  createVirtualDisk: async (options: CreateVirtualDiskOptions): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.createVirtualDisk(options);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Virtual disk created successfully' : response.error?.message || 'Failed to create virtual disk';
+      
+      get().addCommandToHistory(`create vdisk file="${options.file}" maximum=${options.maximum} type=${options.type}`, message, success);
+      
+      if (success) {
+        set((state) => ({ virtualDiskFiles: addVirtualDiskFiles(state.virtualDiskFiles, [options.file]) }));
+        await Promise.all([get().refreshAll(), get().fetchVirtualDisks()]);
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`create vdisk file="${options.file}" maximum=${options.maximum} type=${options.type}`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  attachVirtualDisk: async (file: string, readOnly?: boolean): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.attachVirtualDisk(file, readOnly);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Virtual disk attached' : response.error?.message || 'Failed to attach virtual disk';
+      
+      get().addCommandToHistory(`attach vdisk${readOnly ? ' readonly' : ''} (${file})`, message, success);
+      
+      if (success) {
+        set((state) => ({ virtualDiskFiles: addVirtualDiskFiles(state.virtualDiskFiles, [file]) }));
+        await Promise.all([get().refreshAll(), get().fetchVirtualDisks()]);
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`attach vdisk${readOnly ? ' readonly' : ''} (${file})`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  detachVirtualDisk: async (file: string): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.detachVirtualDisk(file);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Virtual disk detached' : response.error?.message || 'Failed to detach virtual disk';
+      
+      get().addCommandToHistory(`detach vdisk (${file})`, message, success);
+      
+      if (success) {
+        set((state) => ({ virtualDiskFiles: addVirtualDiskFiles(state.virtualDiskFiles, [file]) }));
+        await Promise.all([get().refreshAll(), get().fetchVirtualDisks()]);
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`detach vdisk (${file})`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  expandVirtualDisk: async (file: string, maximum: number): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.expandVirtualDisk(file, maximum);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Virtual disk expanded' : response.error?.message || 'Failed to expand virtual disk';
+      
+      get().addCommandToHistory(`expand vdisk maximum=${maximum} (${file})`, message, success);
+      
+      if (success) {
+        set((state) => ({ virtualDiskFiles: addVirtualDiskFiles(state.virtualDiskFiles, [file]) }));
+        await Promise.all([get().refreshAll(), get().fetchVirtualDisks()]);
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`expand vdisk maximum=${maximum} (${file})`, errorMsg, false);
+      return {
+        success: false,
+        message: errorMsg,
+      };
+    }
+  },
+  
+  compactVirtualDisk: async (file: string): Promise<CommandResult> => {
+    set({ loading: true, error: null });
+    try {
+      const response = await window.electronAPI.compactVirtualDisk(file);
+      const success = response.success;
+      const message = success ? response.data?.message || 'Virtual disk compacted' : response.error?.message || 'Failed to compact virtual disk';
+      
+      get().addCommandToHistory(`compact vdisk (${file})`, message, success);
+      
+      if (success) {
+        set((state) => ({ virtualDiskFiles: addVirtualDiskFiles(state.virtualDiskFiles, [file]) }));
+        await Promise.all([get().refreshAll(), get().fetchVirtualDisks()]);
+      }
+      
+      set({ loading: false });
+      return {
+        success,
+        message,
+        errorCode: response.error?.code,
+        details: response.error?.details,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred';
+      set({ error: errorMsg, loading: false });
+      get().addCommandToHistory(`compact vdisk (${file})`, errorMsg, false);
       return {
         success: false,
         message: errorMsg,
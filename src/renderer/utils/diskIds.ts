@@ -0,0 +1,58 @@
+/**
+ * Disk signatures (MBR) and disk GUIDs (GPT). Windows keeps only one disk
+ * with a given ID online; a cloned disk repeats its original's ID and is
+ * taken offline until it gets a new one.
+ */
+
+import { DiskInfo } from '../../shared/types';
+
+export interface DiskIdCollision {
+  uniqueId: string;
+  disks: DiskInfo[];
+  /** The disk to give a new ID: the clone Windows took offline, never the system disk */
+  duplicate: DiskInfo;
+}
+
+/**
+ * Compare IDs without braces or case, e.g. "{6f1d...}" and "6F1D..."
+ */
+export function normalizeUniqueId(id: string): string {
+  return id.trim().replace(/^\{|\}$/g, '').toUpperCase();
+}
+
+/**
+ * Find the disks that share a signature or GUID
+ */
+export function findUniqueIdCollisions(disks: DiskInfo[]): DiskIdCollision[] {
+  const disksById = new Map<string, DiskInfo[]>();
+  for (const disk of disks) {
+    if (!disk.uniqueId) continue;
+    const key = normalizeUniqueId(disk.uniqueId);
+    disksById.set(key, [...(disksById.get(key) || []), disk]);
+  }
+
+  return [...disksById.entries()]
+    .filter(([, sharing]) => sharing.length > 1)
+    .map(([uniqueId, sharing]) => ({ uniqueId, disks: sharing, duplicate: pickDuplicate(sharing) }));
+}
+
+/**
+ * Make up an ID no disk is using: 8 hex digits for MBR, a GUID for GPT
+ */
+export function generateUniqueId(partitionStyle: DiskInfo['partitionStyle'], disks: DiskInfo[]): string {
+  const taken = new Set(disks.map(disk => disk.uniqueId && normalizeUniqueId(disk.uniqueId)));
+  for (;;) {
+    const id = partitionStyle === 'GPT'
+      ? crypto.randomUUID().toUpperCase()
+      : crypto.getRandomValues(new Uint32Array(1))[0].toString(16).toUpperCase().padStart(8, '0');
+    if (!taken.has(id) && !/^0+$/.test(id)) {
+      return id;
+    }
+  }
+}
+
+function pickDuplicate(disks: DiskInfo[]): DiskInfo {
+  const candidates = disks.filter(disk => !disk.isSystemDisk && !disk.isBootDisk);
+  const pool = candidates.length > 0 ? candidates : disks;
+  return pool.find(disk => disk.status === 'Offline') || pool[pool.length - 1];
+}
\ No newline at end of file
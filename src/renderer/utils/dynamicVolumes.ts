@@ -0,0 +1,82 @@
+/**
+ * The volume layouts dynamic disks support, how many member disks each
+ * takes and how much of their space ends up usable
+ */
+
+import { DiskInfo, DynamicVolumeLayout } from '../../shared/types';
+
+const MB = 1024 * 1024;
+
+export const DYNAMIC_VOLUME_LAYOUTS: {
+  value: DynamicVolumeLayout;
+  label: string;
+  minDisks: number;
+  maxDisks: number;
+  description: string;
+}[] = [
+  { value: 'simple', label: 'Simple', minDisks: 1, maxDisks: 1, description: 'Space on a single disk' },
+  {
+    value: 'spanned',
+    label: 'Spanned',
+    minDisks: 2,
+    maxDisks: 32,
+    description: 'Free space on several disks joined end to end; losing any disk loses the volume',
+  },
+  {
+    value: 'stripe',
+    label: 'Striped (RAID-0)',
+    minDisks: 2,
+    maxDisks: 32,
+    description: 'Data spread evenly over the disks for speed; losing any disk loses the volume',
+  },
+  {
+    value: 'mirror',
+    label: 'Mirrored (RAID-1)',
+    minDisks: 2,
+    maxDisks: 2,
+    description: 'An identical copy on two disks; survives losing either',
+  },
+  {
+    value: 'raid',
+    label: 'RAID-5',
+    minDisks: 3,
+    maxDisks: 32,
+    description: 'Striped with parity; survives losing one disk. Windows Server only',
+  },
+];
+
+/**
+ * Bytes each member disk gives the volume: the size asked for, otherwise
+ * all free space on each disk (simple and spanned) or as much as the disk
+ * with the least free space has (the rest, whose members are equal)
+ * @param size - Size in MB per disk, as the wizard asks for it
+ */
+export function getMemberSizes(layout: DynamicVolumeLayout, disks: DiskInfo[], size?: number): number[] {
+  if (size !== undefined) {
+    return disks.map(() => size * MB);
+  }
+  if (layout === 'simple' || layout === 'spanned') {
+    return disks.map(disk => disk.free);
+  }
+  const smallest = Math.min(...disks.map(disk => disk.free));
+  return disks.map(() => smallest);
+}
+
+/**
+ * Usable capacity of a dynamic volume in bytes. A mirror holds one disk's
+ * worth and RAID-5 gives up one disk's worth to parity
+ */
+export function getDynamicVolumeCapacity(layout: DynamicVolumeLayout, disks: DiskInfo[], size?: number): number {
+  if (disks.length === 0) {
+    return 0;
+  }
+  const members = getMemberSizes(layout, disks, size);
+  switch (layout) {
+    case 'mirror':
+      return members[0];
+    case 'raid':
+      return members[0] * (members.length - 1);
+    default:
+      return members.reduce((total, member) => total + member, 0);
+  }
+}
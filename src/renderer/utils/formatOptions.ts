@@ -0,0 +1,76 @@
+/**
+ * The file systems "format" can write, their size limits and the unit
+ * Windows picks when none is given
+ */
+
+import { FormatFileSystem } from '../../shared/types';
+
+const KB = 1024;
+const MB = 1024 * KB;
+const GB = 1024 * MB;
+const TB = 1024 * GB;
+
+export const FORMAT_FILE_SYSTEMS: { value: FormatFileSystem; label: string; description: string }[] = [
+  { value: 'NTFS', label: 'NTFS', description: 'Windows volumes; permissions, compression and large files' },
+  { value: 'exFAT', label: 'exFAT', description: 'Removable drives shared with macOS, cameras and consoles' },
+  { value: 'FAT32', label: 'FAT32', description: 'Readable everywhere; files up to 4 GB, volumes up to 32 GB' },
+  { value: 'FAT', label: 'FAT', description: 'Legacy FAT16, volumes up to 4 GB' },
+  { value: 'UDF', label: 'UDF', description: 'Universal Disk Format, for optical media images' },
+];
+
+// Largest volume Windows formats with each file system
+export const MAX_VOLUME_SIZE: Partial<Record<FormatFileSystem, number>> = {
+  FAT32: 32 * GB,
+  FAT: 4 * GB,
+};
+
+// Default allocation unit by volume size, from the largest volume each unit is used up to
+const DEFAULT_UNITS: Record<Exclude<FormatFileSystem, 'UDF'>, [number, number][]> = {
+  NTFS: [
+    [16 * TB, 4 * KB],
+    [32 * TB, 8 * KB],
+    [64 * TB, 16 * KB],
+    [128 * TB, 32 * KB],
+    [256 * TB, 64 * KB],
+    [512 * TB, 128 * KB],
+    [1024 * TB, 256 * KB],
+    [2048 * TB, 512 * KB],
+    [4096 * TB, 1 * MB],
+    [Infinity, 2 * MB],
+  ],
+  FAT32: [
+    [64 * MB, 512],
+    [128 * MB, 1 * KB],
+    [256 * MB, 2 * KB],
+    [8 * GB, 4 * KB],
+    [16 * GB, 8 * KB],
+    [Infinity, 16 * KB],
+  ],
+  FAT: [
+    [32 * MB, 512],
+    [64 * MB, 1 * KB],
+    [128 * MB, 2 * KB],
+    [256 * MB, 4 * KB],
+    [512 * MB, 8 * KB],
+    [1 * GB, 16 * KB],
+    [2 * GB, 32 * KB],
+    [Infinity, 64 * KB],
+  ],
+  exFAT: [
+    [256 * MB, 4 * KB],
+    [32 * GB, 32 * KB],
+    [Infinity, 128 * KB],
+  ],
+};
+
+/**
+ * The allocation unit Windows picks for a volume of this size, or undefined
+ * for file systems without a choice
+ */
+export function getDefaultAllocationUnit(fileSystem: FormatFileSystem, volumeSize: number): number | undefined {
+  if (fileSystem === 'UDF') {
+    return undefined;
+  }
+  const match = DEFAULT_UNITS[fileSystem].find(([upTo]) => volumeSize <= upTo);
+  return match ? match[1] : undefined;
+}
@@ -0,0 +1,100 @@
+/**
+ * Decoding and encoding of the 64-bit GPT partition attribute value that
+ * "detail partition" prints and "gpt attributes=" takes
+ */
+
+export type GptAttribute = 'required' | 'readOnly' | 'shadowCopy' | 'hidden' | 'noDriveLetter';
+
+export const GPT_ATTRIBUTES: Record<GptAttribute, { bit: number; label: string; description: string }> = {
+  required: {
+    bit: 0,
+    label: 'Required',
+    description: 'The platform needs this partition; Disk Management will not delete it',
+  },
+  readOnly: {
+    bit: 60,
+    label: 'Read-only',
+    description: 'Basic data partitions only: mount the volume read-only',
+  },
+  shadowCopy: {
+    bit: 61,
+    label: 'Shadow Copy',
+    description: 'Basic data partitions only: the volume is a shadow copy of another',
+  },
+  hidden: {
+    bit: 62,
+    label: 'Hidden',
+    description: 'Basic data partitions only: do not mount the volume',
+  },
+  noDriveLetter: {
+    bit: 63,
+    label: 'No Drive Letter',
+    description: 'Basic data partitions only: do not assign a drive letter by default',
+  },
+};
+
+// Bits the UEFI specification reserves for the firmware, decoded but not editable
+const FIRMWARE_BITS: Record<number, string> = {
+  1: 'No Block IO Protocol',
+  2: 'Legacy BIOS Bootable',
+};
+
+export interface DecodedGptAttributes {
+  flags: Record<GptAttribute, boolean>;
+  /** Every set bit, with its name where it has one */
+  bits: { bit: number; name?: string }[];
+  /** The raw value, kept so bits without a switch survive an edit */
+  value: bigint;
+}
+
+/**
+ * Decode an attribute value such as "0X8000000000000001". Missing or
+ * malformed values decode to no bits set
+ */
+export function decodeGptAttributes(attributes?: string): DecodedGptAttributes {
+  const hex = (attributes || '').trim().replace(/^0x/i, '');
+  const value = /^[0-9a-f]{1,16}$/i.test(hex) ? BigInt(`0x${hex}`) : BigInt(0);
+
+  const flags = {} as Record<GptAttribute, boolean>;
+  for (const attribute of Object.keys(GPT_ATTRIBUTES) as GptAttribute[]) {
+    flags[attribute] = isBitSet(value, GPT_ATTRIBUTES[attribute].bit);
+  }
+
+  const names: Record<number, string> = { ...FIRMWARE_BITS };
+  for (const { bit, label } of Object.values(GPT_ATTRIBUTES)) {
+    names[bit] = label;
+  }
+
+  const bits: { bit: number; name?: string }[] = [];
+  for (let bit = 0; bit < 64; bit++) {
+    if (isBitSet(value, bit)) {
+      bits.push({ bit, name: names[bit] });
+    }
+  }
+
+  return { flags, bits, value };
+}
+
+/**
+ * Apply the switches to a value and format it for "gpt attributes="
+ * @param base - The current value; bits without a switch are kept as they are
+ */
+export function encodeGptAttributes(flags: Record<GptAttribute, boolean>, base: bigint = BigInt(0)): string {
+  let value = base;
+  for (const attribute of Object.keys(GPT_ATTRIBUTES) as GptAttribute[]) {
+    const mask = BigInt(1) << BigInt(GPT_ATTRIBUTES[attribute].bit);
+    value = flags[attribute] ? value | mask : value & ~mask;
+  }
+  return formatGptAttributes(value);
+}
+
+/**
+ * Format a value the way "gpt attributes=" takes it: 0x and 16 hex digits
+ */
+export function formatGptAttributes(value: bigint): string {
+  return `0x${value.toString(16).toUpperCase().padStart(16, '0')}`;
+}
+
+function isBitSet(value: bigint, bit: number): boolean {
+  return ((value >> BigInt(bit)) & BigInt(1)) === BigInt(1);
+}
\ No newline at end of file
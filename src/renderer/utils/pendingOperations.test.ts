@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DiskInfo, PartitionInfo } from '../../shared/types';
+import { PendingOperation, getExistingPartitionKey, projectLayout } from './pendingOperations';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+/**
+ * The layout of fixtures/en-US/list-partition-extended-logical.txt on a 1 TB
+ * MBR disk: Diskpart numbers the extended partition 0 and the logical
+ * drives after the primaries
+ */
+function extendedLogicalDisk(): DiskInfo {
+  const partitions: PartitionInfo[] = [
+    { id: 1, type: 'Primary', size: 500 * GB, offset: MB, status: 'Healthy', fileSystem: 'NTFS', driveLetter: 'D' },
+    { id: 0, type: 'Extended', size: 300 * GB, offset: 500 * GB, status: 'Healthy' },
+    { id: 2, type: 'Logical', size: 200 * GB, offset: 500 * GB + MB, status: 'Healthy', fileSystem: 'NTFS', driveLetter: 'E' },
+    { id: 3, type: 'Logical', size: 99 * GB, offset: 700 * GB + 2 * MB, status: 'Healthy', fileSystem: 'NTFS', driveLetter: 'F' },
+  ];
+  return {
+    id: 1,
+    status: 'Online',
+    size: 1024 * GB,
+    free: 224 * GB - MB,
+    isSystemDisk: false,
+    isBootDisk: false,
+    diskType: 'Basic',
+    partitionStyle: 'MBR',
+    partitions,
+  };
+}
+
+function numbering(disk: { partitions: PartitionInfo[] }): [string, number][] {
+  return disk.partitions.map(partition => [partition.type, partition.id]);
+}
+
+test('deleting a logical drive renumbers the logical drives after it', () => {
+  const operations: PendingOperation[] = [
+    { id: 'a', diskId: 1, partitionKey: getExistingPartitionKey(1, 2), change: { kind: 'delete_partition' } },
+    {
+      id: 'b',
+      diskId: 1,
+      partitionKey: getExistingPartitionKey(1, 3),
+      change: { kind: 'format', options: { fileSystem: 'NTFS', label: 'Scratch', quick: true } },
+    },
+  ];
+
+  const projection = projectLayout([extendedLogicalDisk()], [], operations);
+
+  assert.deepEqual(projection.errors, {});
+  assert.deepEqual(projection.plan.map(step => [step.kind, step.partitionId]), [
+    ['delete_partition', 2],
+    ['format', 2],
+  ]);
+  assert.deepEqual(numbering(projection.disks[0]), [['Primary', 1], ['Extended', 0], ['Logical', 2]]);
+});
+
+test('a new primary partition is numbered before the logical drives', () => {
+  const operations: PendingOperation[] = [
+    { id: 'a', diskId: 1, change: { kind: 'create_partition', options: { kind: 'primary', size: 100 * 1024 } } },
+    { id: 'b', diskId: 1, partitionKey: getExistingPartitionKey(1, 3), change: { kind: 'remove_letter', letter: 'F' } },
+  ];
+
+  const projection = projectLayout([extendedLogicalDisk()], [], operations);
+
+  assert.deepEqual(projection.errors, {});
+  assert.deepEqual(projection.plan.map(step => step.partitionId), [undefined, 4]);
+  assert.deepEqual(numbering(projection.disks[0]), [
+    ['Primary', 1],
+    ['Extended', 0],
+    ['Logical', 3],
+    ['Logical', 4],
+    ['Primary', 2],
+  ]);
+});
+
+test('the extended partition cannot be the target of a change', () => {
+  const operations: PendingOperation[] = [
+    { id: 'a', diskId: 1, partitionKey: getExistingPartitionKey(1, 0), change: { kind: 'delete_partition' } },
+  ];
+
+  const projection = projectLayout([extendedLogicalDisk()], [], operations);
+
+  assert.ok(projection.errors.a);
+  assert.deepEqual(projection.plan, []);
+});
@@ -0,0 +1,386 @@
+/**
+ * The pending operations list: partition changes queued GParted-style and
+ * replayed over the current layout, to show what the disks will look like
+ * and to number each change's partition as it will be when the change runs
+ */
+
+import {
+  DiskInfo,
+  PartitionChange,
+  PartitionInfo,
+  PartitionType,
+  PlannedOperation,
+  VolumeInfo,
+} from '../../shared/types';
+import {
+  checkPartitionOperationSafety,
+  getContiguousFreeSpace,
+  validateCreatePartition,
+  validateDriveLetter,
+  validateFormatOptions,
+  validateResizeSize,
+} from './safetyChecks';
+
+const MB = 1024 * 1024;
+
+// Windows starts the first partition at 1 MB; GPT keeps a backup table in the last one
+const FIRST_USABLE_OFFSET = MB;
+const GPT_TRAILER = MB;
+
+const CREATED_PARTITION_TYPES: Record<string, PartitionType> = {
+  primary: 'Primary',
+  extended: 'Extended',
+  logical: 'Logical',
+  efi: 'System',
+  msr: 'Reserved',
+};
+
+export interface PendingOperation {
+  id: string;
+  diskId: number;
+  /** Key of the partition in the projected layout; not set for create_partition */
+  partitionKey?: string;
+  change: PartitionChange;
+}
+
+/**
+ * A partition as it will be once the pending operations have run
+ */
+export interface ProjectedPartition extends PartitionInfo {
+  /**
+   * Stays put while the numbers shift: built from the disk and partition
+   * number for partitions that exist now, the creating operation's id for new ones
+   */
+  key: string;
+  /** Changes queued for this partition, in order */
+  pending: PartitionChange['kind'][];
+}
+
+export interface ProjectedDisk extends DiskInfo {
+  partitions: ProjectedPartition[];
+}
+
+export interface LayoutProjection {
+  disks: ProjectedDisk[];
+  /** The operations with their partitions numbered; complete only when there are no errors */
+  plan: PlannedOperation[];
+  /** What each operation does, with the partition numbered as it is when it runs */
+  descriptions: Record<string, string>;
+  /** Why an operation cannot run where it is in the list, by operation id */
+  errors: Record<string, string>;
+  /** What the safety checks say about each operation that can run */
+  warnings: Record<string, string[]>;
+  /** Some operation touches a system partition or erases data, so Apply needs a typed confirmation */
+  requiresTypeToConfirm: boolean;
+  /** The disk of the first operation that needs the typed confirmation, whose number is typed */
+  confirmDiskId?: number;
+}
+
+/**
+ * Key of a partition that exists now
+ */
+export function getExistingPartitionKey(diskId: number, partitionId: number): string {
+  return `disk-${diskId}-partition-${partitionId}`;
+}
+
+/**
+ * Replay the pending operations over the disks in list order. An operation
+ * that cannot run is left out of the layout and reported in errors; the
+ * ones after it are still replayed so every problem shows at once
+ */
+export function projectLayout(
+  disks: DiskInfo[],
+  volumes: VolumeInfo[],
+  operations: PendingOperation[]
+): LayoutProjection {
+  const projected: ProjectedDisk[] = disks.map(disk => ({
+    ...disk,
+    partitions: disk.partitions.map(partition => ({
+      ...partition,
+      key: getExistingPartitionKey(disk.id, partition.id),
+      pending: [],
+    })),
+  }));
+
+  // Letters in use, and what holds each one
+  const letters = new Map<string, string>();
+  volumes.forEach(volume => {
+    if (volume.letter) {
+      letters.set(volume.letter.toUpperCase(), `Volume ${volume.id}`);
+    }
+  });
+
+  const projection: LayoutProjection = {
+    disks: projected,
+    plan: [],
+    descriptions: {},
+    errors: {},
+    warnings: {},
+    requiresTypeToConfirm: false,
+  };
+
+  for (const operation of operations) {
+    const disk = projected.find(candidate => candidate.id === operation.diskId);
+    const partition = operation.partitionKey !== undefined
+      ? disk?.partitions.find(candidate => candidate.key === operation.partitionKey)
+      : undefined;
+    projection.descriptions[operation.id] = describeChange(operation.change, operation.diskId, partition?.id);
+
+    let error: string | null;
+    if (!disk) {
+      error = `Disk ${operation.diskId} is no longer attached`;
+    } else if (disk.status !== 'Online') {
+      error = `Disk ${disk.id} is ${disk.status.toLowerCase()}`;
+    } else if (operation.partitionKey !== undefined && !partition) {
+      error = 'The partition does not exist at this point in the list';
+    } else if (partition?.type === 'Extended') {
+      error = 'Diskpart lists the extended partition as partition 0, which cannot be selected';
+    } else {
+      const partitionId = partition?.id;
+      const check = partition ? checkPartitionOperationSafety(operation.change.kind, disk, partition) : null;
+      if (check && !check.safe && !check.requiresTypeToConfirm) {
+        error = check.warnings[0] || 'The safety checks do not allow this change';
+      } else {
+        error = applyChange(disk, partition, operation, letters);
+      }
+      if (!error) {
+        projection.plan.push({ ...operation.change, diskId: disk.id, partitionId });
+        projection.warnings[operation.id] = check?.warnings || [];
+        if (check?.requiresTypeToConfirm && !projection.requiresTypeToConfirm) {
+          projection.requiresTypeToConfirm = true;
+          projection.confirmDiskId = disk.id;
+        }
+      }
+    }
+
+    if (error) {
+      projection.errors[operation.id] = error;
+    }
+  }
+
+  return projection;
+}
+
+/**
+ * One line for the list, e.g. "Format partition 2 on Disk 1 as NTFS"
+ */
+export function describeChange(change: PartitionChange, diskId: number, partitionId?: number): string {
+  const target = `partition ${partitionId ?? '?'} on Disk ${diskId}`;
+  switch (change.kind) {
+    case 'create_partition': {
+      const size = change.options.size ? `${change.options.size} MB` : 'all free space';
+      return `Create ${change.options.kind} partition (${size}) on Disk ${diskId}`;
+    }
+    case 'delete_partition':
+      return `Delete ${target}`;
+    case 'format':
+      return `Format ${target} as ${change.options.fileSystem}${change.options.label ? ` "${change.options.label}"` : ''}`;
+    case 'extend':
+      return `Extend ${target} by ${change.size ? `${change.size} MB` : 'all free space after it'}`;
+    case 'shrink':
+      return `Shrink ${target} by ${change.desired} MB`;
+    case 'assign_letter':
+      return `Assign ${change.letter.toUpperCase()}: to ${target}`;
+    case 'remove_letter':
+      return `Remove ${change.letter.toUpperCase()}: from ${target}`;
+  }
+}
+
+/**
+ * Apply one change to the projected disk
+ * @returns Why the change cannot run, or null once it is applied
+ */
+function applyChange(
+  disk: ProjectedDisk,
+  partition: ProjectedPartition | undefined,
+  operation: PendingOperation,
+  letters: Map<string, string>
+): string | null {
+  const { change } = operation;
+
+  if (change.kind === 'create_partition') {
+    const validation = validateCreatePartition(change.options, disk);
+    if (!validation.valid) {
+      return validation.error || 'The partition cannot be created';
+    }
+    return createPartition(disk, operation.id, change.options);
+  }
+
+  if (!partition) {
+    return 'No partition given';
+  }
+
+  const isLogical = partition.type === 'Logical';
+  switch (change.kind) {
+    case 'delete_partition': {
+      if (partition.type === 'Extended' && disk.partitions.some(p => p.type === 'Logical')) {
+        return 'The extended partition still holds logical partitions';
+      }
+      disk.partitions = disk.partitions.filter(p => p !== partition);
+      if (!isLogical) {
+        disk.free += partition.size;
+      }
+      if (partition.driveLetter) {
+        letters.delete(partition.driveLetter.toUpperCase());
+      }
+      renumber(disk);
+      return null;
+    }
+
+    case 'format': {
+      if (partition.type === 'Extended' || partition.type === 'Reserved') {
+        return `Partition ${partition.id} holds no volume to format`;
+      }
+      const validation = validateFormatOptions(change.options, partition.size);
+      if (!validation.valid) {
+        return validation.error || 'Invalid format options';
+      }
+      // Partitions only know the file systems "list volume" reports on them
+      const { fileSystem } = change.options;
+      partition.fileSystem = fileSystem === 'FAT' || fileSystem === 'UDF' ? undefined : fileSystem;
+      partition.label = change.options.label;
+      break;
+    }
+
+    case 'extend': {
+      const available = getContiguousFreeSpace(disk, partition, disk.partitions);
+      const size = change.size !== undefined ? change.size * MB : available;
+      const validation = validateResizeSize(size, available, 'extend');
+      if (!validation.valid) {
+        return validation.error || 'The partition cannot be extended';
+      }
+      partition.size += size;
+      if (!isLogical) {
+        disk.free -= size;
+      }
+      break;
+    }
+
+    case 'shrink': {
+      const size = change.desired * MB;
+      const validation = validateResizeSize(size, partition.size - MB, 'shrink');
+      if (!validation.valid) {
+        return validation.error || 'The partition cannot be shrunk';
+      }
+      partition.size -= size;
+      if (!isLogical) {
+        disk.free += size;
+      }
+      break;
+    }
+
+    case 'assign_letter': {
+      const validation = validateDriveLetter(change.letter);
+      if (!validation.valid) {
+        return validation.error || 'Invalid drive letter';
+      }
+      const letter = change.letter.toUpperCase();
+      if (partition.driveLetter) {
+        return `Partition ${partition.id} already has ${partition.driveLetter}:; remove it first`;
+      }
+      const owner = letters.get(letter);
+      if (owner) {
+        return `Drive letter ${letter}: is already used by ${owner}`;
+      }
+      partition.driveLetter = letter;
+      letters.set(letter, `partition ${partition.id} on Disk ${disk.id}`);
+      break;
+    }
+
+    case 'remove_letter': {
+      const letter = change.letter.toUpperCase();
+      if (partition.driveLetter?.toUpperCase() !== letter) {
+        return `Partition ${partition.id} does not have drive letter ${letter}:`;
+      }
+      partition.driveLetter = undefined;
+      letters.delete(letter);
+      break;
+    }
+  }
+
+  partition.pending = [...partition.pending, change.kind];
+  return null;
+}
+
+/**
+ * Place a new partition the way Diskpart does: at the offset asked for, in
+ * the first free extent big enough, or in the largest one when no size is given
+ */
+function createPartition(
+  disk: ProjectedDisk,
+  key: string,
+  options: Extract<PartitionChange, { kind: 'create_partition' }>['options']
+): string | null {
+  const isLogical = options.kind === 'logical';
+  const container = isLogical ? disk.partitions.find(p => p.type === 'Extended') : undefined;
+  const size = options.size !== undefined ? options.size * MB : undefined;
+  const offset = options.offset !== undefined ? options.offset * 1024 : undefined;
+
+  const candidates = getFreeExtents(disk, container)
+    .filter(extent => offset === undefined || (offset >= extent.offset && offset < extent.offset + extent.size))
+    .map(extent => offset === undefined ? extent : { offset, size: extent.offset + extent.size - offset });
+  const extent = size === undefined
+    ? candidates.sort((a, b) => b.size - a.size)[0]
+    : candidates.find(candidate => candidate.size >= size);
+  if (!extent) {
+    return 'No free extent is large enough at this point in the list';
+  }
+
+  const partition: ProjectedPartition = {
+    id: 0,
+    type: CREATED_PARTITION_TYPES[options.kind],
+    size: size ?? extent.size,
+    offset: extent.offset,
+    status: 'Healthy',
+    key,
+    pending: ['create_partition'],
+  };
+  disk.partitions = [...disk.partitions, partition];
+  if (!isLogical) {
+    disk.free -= partition.size;
+  }
+  renumber(disk);
+  return null;
+}
+
+/**
+ * Unallocated extents on the disk, or inside the extended partition for logical ones
+ */
+function getFreeExtents(disk: ProjectedDisk, container?: ProjectedPartition): { offset: number; size: number }[] {
+  const start = container ? container.offset : FIRST_USABLE_OFFSET;
+  const end = container
+    ? container.offset + container.size
+    : disk.size - (disk.partitionStyle === 'GPT' ? GPT_TRAILER : 0);
+  const occupied = disk.partitions
+    .filter(p => (p.type === 'Logical') === !!container)
+    .sort((a, b) => a.offset - b.offset);
+
+  const extents: { offset: number; size: number }[] = [];
+  let cursor = start;
+  for (const partition of occupied) {
+    if (partition.offset > cursor) {
+      extents.push({ offset: cursor, size: partition.offset - cursor });
+    }
+    cursor = Math.max(cursor, partition.offset + partition.size);
+  }
+  if (end > cursor) {
+    extents.push({ offset: cursor, size: end - cursor });
+  }
+  return extents.filter(extent => extent.size >= MB);
+}
+
+/**
+ * Number the partitions as "list partition" does: the primaries by position,
+ * then the logical drives, with the extended partition itself as partition 0
+ */
+function renumber(disk: ProjectedDisk): void {
+  disk.partitions = [...disk.partitions].sort((a, b) => a.offset - b.offset);
+  const logical = disk.partitions.filter(p => p.type === 'Logical');
+  const primary = disk.partitions.filter(p => p.type !== 'Logical' && p.type !== 'Extended');
+  [...primary, ...logical].forEach((partition, index) => {
+    partition.id = index + 1;
+  });
+  disk.partitions.filter(p => p.type === 'Extended').forEach(partition => {
+    partition.id = 0;
+  });
+}
\ No newline at end of file
@@ -1,4 +1,44 @@
-import { DiskInfo, PartitionInfo } from '../../shared/types';
+import {
+  CreateDynamicVolumeOptions,
+  CreatePartitionOptions,
+  CreateVirtualDiskOptions,
+  DiskInfo,
+  FormatOptions,
+  PartitionInfo,
+  VirtualDiskInfo,
+  VolumeInfo
+} from '../../shared/types';
+import {
+  ALLOCATION_UNIT_SIZES,
+  NTFS_COMPRESSION_MAX_UNIT,
+  UDF_REVISIONS,
+  formatUnitSize,
+} from '../../shared/formatOptions';
+import { GPT_DISK_GUID_PATTERN, MBR_SIGNATURE_PATTERN } from '../../shared/diskIds';
+import { FORMAT_FILE_SYSTEMS, MAX_VOLUME_SIZE } from './formatOptions';
+import { DYNAMIC_VOLUME_LAYOUTS, getMemberSizes } from './dynamicVolumes';
+import { normalizeUniqueId } from './diskIds';
+
+// Largest disk an MBR partition table can address (2^32 sectors of 512 bytes)
+const MBR_MAX_SIZE = 2 * 1024 ** 4;
+
+// Slots in an MBR partition table, shared by primary and extended partitions
+const MBR_MAX_PRIMARY = 4;
+
+const GPT_TYPE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MBR_TYPE_ID_PATTERN = /^[0-9a-f]{1,2}$/i;
+
+// Characters Windows does not allow in folder names
+const INVALID_PATH_CHARACTERS = /[/:*?"<>|]/;
+
+// Largest virtual disk of each format, in MB
+const VIRTUAL_DISK_MAX_SIZE: Record<'vhd' | 'vhdx', number> = {
+  vhd: 2040 * 1024,
+  vhdx: 64 * 1024 * 1024,
+};
+
+// Smallest virtual disk Diskpart creates, in MB
+const VIRTUAL_DISK_MIN_SIZE = 3;
 
 export interface SafetyCheckResult {
   safe: boolean;
@@ -64,11 +104,82 @@ export function checkDiskOperationSafety(
       break;
 
     case 'offline':
+      // Not even a typed confirmation: Windows runs from this disk
       if (isSystemDisk(disk)) {
-        warnings.push('Taking the system disk offline will crash your system');
+        return {
+          safe: false,
+          warnings: ['The system disk cannot be taken offline; Windows would crash'],
+          requiresTypeToConfirm: false,
+        };
+      }
+      warnings.push('Volumes on this disk will disappear until it is brought back online');
+      break;
+
+    case 'convert_gpt':
+    case 'convert_mbr':
+    case 'convert_dynamic':
+    case 'convert_basic': {
+      const blocker = getConversionBlocker(operation, disk);
+      if (blocker) {
+        return {
+          safe: false,
+          warnings: [blocker],
+          requiresTypeToConfirm: false,
+        };
+      }
+      if (operation === 'convert_mbr' && disk.size > MBR_MAX_SIZE) {
+        warnings.push(`MBR can only address the first 2 TB; ${formatBytes(disk.size - MBR_MAX_SIZE)} of this disk will be unusable`);
+      }
+      if (operation === 'convert_dynamic') {
+        warnings.push('Dynamic disks are deprecated and cannot be read by other operating systems');
+        warnings.push('Converting back to basic requires deleting every volume on the disk');
+      }
+      break;
+    }
+
+    case 'import':
+    case 'recover':
+    case 'repair':
+    case 'delete_missing':
+    case 'delete_missing_override': {
+      const blocker = getRecoveryBlocker(operation, disk);
+      if (blocker) {
+        return {
+          safe: false,
+          warnings: [blocker],
+          requiresTypeToConfirm: false,
+        };
+      }
+      if (operation === 'import') {
+        warnings.push('Every foreign disk of the same disk group is imported along with this one');
+        warnings.push('The machine the disks came from cannot use them again until it imports them back');
+      }
+      if (operation === 'recover') {
+        warnings.push('Stale mirrors and RAID-5 volumes are resynchronized, which keeps their disks busy for a while');
+        if (disk.status === 'Invalid') {
+          warnings.push('If the damaged disk group database cannot be repaired, the disk has to be cleaned and its data restored from backup');
+        }
+      }
+      if (operation === 'repair') {
+        warnings.push('The failed member is rebuilt from parity onto this disk; the volume has no redundancy until that finishes');
+      }
+      if (operation === 'delete_missing') {
+        warnings.push('The disk is forgotten by the disk group; if it comes back it shows up as foreign');
+      }
+      if (operation === 'delete_missing_override') {
+        warnings.push('Simple and spanned volumes on the missing disk are deleted for good');
+        warnings.push('Mirrors lose their half on this disk and keep running without redundancy');
         requiresTypeToConfirm = true;
       }
       break;
+    }
+
+    case 'set_unique_id':
+      warnings.push('Windows tracks the disk by this ID; mount points and drive letters tied to the old ID are dropped');
+      if (isSystemDisk(disk)) {
+        warnings.push('The boot configuration refers to this disk by its ID; Windows may not start until it is repaired');
+      }
+      break;
   }
 
   return {
@@ -78,6 +189,89 @@ export function checkDiskOperationSafety(
   };
 }
 
+/**
+ * Find the reason a disk cannot be converted, if any
+ * @returns The reason, or null when the conversion can go ahead
+ */
+function getConversionBlocker(operation: string, disk: DiskInfo): string | null {
+  if (isSystemDisk(disk)) {
+    return 'The system disk cannot be converted';
+  }
+  if (disk.status !== 'Online') {
+    return 'Bring the disk online before converting it';
+  }
+
+  switch (operation) {
+    case 'convert_gpt':
+    case 'convert_mbr':
+      if (disk.partitionStyle === (operation === 'convert_gpt' ? 'GPT' : 'MBR')) {
+        return `The disk is already ${disk.partitionStyle}`;
+      }
+      if (disk.partitions.length > 0) {
+        return 'The disk must be empty to change its partition style; clean it first';
+      }
+      break;
+
+    case 'convert_dynamic':
+      if (disk.diskType === 'Dynamic') {
+        return 'The disk is already dynamic';
+      }
+      break;
+
+    case 'convert_basic':
+      if (disk.diskType === 'Basic') {
+        return 'The disk is already basic';
+      }
+      if (disk.partitions.some(partition => partition.volumeId !== undefined)) {
+        return 'Delete every volume on the disk before converting it to basic';
+      }
+      break;
+  }
+
+  return null;
+}
+
+/**
+ * Find the reason a dynamic disk recovery action cannot run on a disk, if any
+ * @returns The reason, or null when the action can go ahead
+ */
+function getRecoveryBlocker(operation: string, disk: DiskInfo): string | null {
+  switch (operation) {
+    case 'import':
+      if (disk.status !== 'Foreign') {
+        return 'Only foreign disks can be imported';
+      }
+      break;
+
+    case 'recover':
+      if (disk.diskType !== 'Dynamic') {
+        return 'Only dynamic disks can be recovered';
+      }
+      if (disk.status !== 'Online' && disk.status !== 'Invalid') {
+        return 'The disk must be online or invalid to be recovered';
+      }
+      break;
+
+    case 'repair':
+      if (disk.diskType !== 'Dynamic' || disk.status !== 'Online') {
+        return 'A RAID-5 volume can only be rebuilt onto an online dynamic disk';
+      }
+      if (disk.free === 0) {
+        return 'The disk has no free space to rebuild onto';
+      }
+      break;
+
+    case 'delete_missing':
+    case 'delete_missing_override':
+      if (disk.status !== 'Missing' || !disk.missingId) {
+        return 'Only missing disks can be removed from the disk group';
+      }
+      break;
+  }
+
+  return null;
+}
+
 /**
  * Check if a partition operation is safe
  */
@@ -117,13 +311,94 @@ export function checkPartitionOperationSafety(
     requiresTypeToConfirm = true;
   }
 
+  // Partitions the firmware or Windows recovery depend on carry no letter to warn about
+  const typeName = partition.detail?.typeName;
+  if (typeName === 'EFI System' || typeName === 'Recovery' || typeName === 'Microsoft Reserved') {
+    warnings.push(`⚠️ This is the ${typeName} partition`);
+    requiresTypeToConfirm = true;
+  } else if (partition.detail?.required) {
+    warnings.push('⚠️ The platform marks this partition as required');
+    requiresTypeToConfirm = true;
+  }
+
+  const systemFiles = (partition.detail?.volume?.info || '')
+    .split(', ')
+    .filter(flag => flag === 'Pagefile' || flag === 'Crashdump' || flag === 'Hibernation');
+  if (systemFiles.length > 0) {
+    warnings.push(`⚠️ Windows keeps its ${systemFiles.join(', ').toLowerCase()} files on this volume`);
+    requiresTypeToConfirm = true;
+  }
+
   // Operation-specific checks
   switch (operation) {
+    case 'remove_letter':
+    case 'swap_letters':
+      if (!partition.driveLetter) {
+        return {
+          safe: false,
+          warnings: ['This partition has no drive letter'],
+          requiresTypeToConfirm: false,
+        };
+      }
+      if (partition.status === 'System' || partition.status === 'Boot') {
+        return {
+          safe: false,
+          warnings: [`Windows does not allow changing the letter of the ${partition.status.toLowerCase()} volume`],
+          requiresTypeToConfirm: false,
+        };
+      }
+      warnings.push(`Programs and shortcuts that use ${partition.driveLetter}: may stop working`);
+      break;
+
+    case 'set_active': {
+      const blocker = disk.partitionStyle === 'GPT'
+        ? 'GPT disks have no active partition; UEFI boots from the EFI System partition'
+        : partition.type !== 'Primary'
+          ? 'Only primary partitions can be marked active'
+          : partition.detail?.active
+            ? `Partition ${partition.id} is already active`
+            : undefined;
+      if (blocker) {
+        return { safe: false, warnings: [blocker], requiresTypeToConfirm: false };
+      }
+      // An MBR disk boots from exactly one active partition
+      const active = disk.partitions.find(p => p.id !== partition.id && p.detail?.active);
+      if (active) {
+        warnings.push(`Partition ${active.id} will no longer be active`);
+      }
+      warnings.push('The BIOS will only start from this disk if the partition holds a boot loader');
+      break;
+    }
+
+    case 'set_inactive':
+      if (disk.partitionStyle === 'GPT' || !partition.detail?.active) {
+        return {
+          safe: false,
+          warnings: [`Partition ${partition.id} is not active`],
+          requiresTypeToConfirm: false,
+        };
+      }
+      warnings.push('The BIOS will not start from this disk until another partition is marked active');
+      break;
+
+    case 'gpt_attributes':
+      if (disk.partitionStyle !== 'GPT') {
+        return {
+          safe: false,
+          warnings: ['GPT attributes only exist on GPT disks'],
+          requiresTypeToConfirm: false,
+        };
+      }
+      break;
+
     case 'delete_partition':
       warnings.push('The partition and ALL its data will be permanently deleted');
       if (partition.driveLetter) {
         warnings.push(`Drive ${partition.driveLetter}: will be removed`);
       }
+      partition.mountPoints?.forEach(mountPoint => {
+        warnings.push(`Mount point ${mountPoint} will be removed`);
+      });
       requiresTypeToConfirm = true;
       break;
 
@@ -132,17 +407,34 @@ export function checkPartitionOperationSafety(
       if (partition.driveLetter) {
         warnings.push(`Drive ${partition.driveLetter}: will be formatted`);
       }
+      partition.mountPoints?.forEach(mountPoint => {
+        warnings.push(`Mount point ${mountPoint} will be formatted`);
+      });
       requiresTypeToConfirm = true;
       break;
 
     case 'shrink':
+      if (partition.fileSystem && partition.fileSystem !== 'NTFS' && partition.fileSystem !== 'RAW') {
+        return {
+          safe: false,
+          warnings: [`${partition.fileSystem} volumes cannot be shrunk; only NTFS supports it`],
+          requiresTypeToConfirm: false,
+        };
+      }
       warnings.push('Shrinking may fail if there are unmovable files');
       warnings.push('Backup important data before shrinking');
       break;
 
     case 'extend':
-      if (disk.free === 0) {
-        warnings.push('No free space available on disk');
+      if (partition.fileSystem && partition.fileSystem !== 'NTFS' && partition.fileSystem !== 'RAW') {
+        return {
+          safe: false,
+          warnings: [`${partition.fileSystem} volumes cannot be extended; only NTFS supports it`],
+          requiresTypeToConfirm: false,
+        };
+      }
+      if (getContiguousFreeSpace(disk, partition) === 0) {
+        warnings.push('No free space directly after this partition');
         return {
           safe: false,
           warnings,
@@ -190,10 +482,146 @@ export function validatePartitionSize(
   return { valid: true };
 }
 
+/**
+ * Validate "create partition" options against the disk they are for: the
+ * kind must suit the partition style, logical partitions need an extended
+ * partition to live in, and the type ID must match the partition style
+ */
+export function validateCreatePartition(
+  options: CreatePartitionOptions,
+  disk: DiskInfo | null
+): { valid: boolean; error?: string } {
+  if (!disk) {
+    return { valid: false, error: 'No disk selected' };
+  }
+
+  if (disk.diskType === 'Dynamic') {
+    return { valid: false, error: 'Partitions cannot be created on dynamic disks, create a volume instead' };
+  }
+
+  const isGpt = disk.partitionStyle === 'GPT';
+  const extended = disk.partitions.find(p => p.type === 'Extended');
+
+  switch (options.kind) {
+    case 'efi':
+    case 'msr':
+      if (!isGpt) {
+        return { valid: false, error: `${options.kind.toUpperCase()} partitions can only be created on GPT disks` };
+      }
+      break;
+
+    case 'extended':
+      if (isGpt) {
+        return { valid: false, error: 'Extended partitions can only be created on MBR disks' };
+      }
+      if (extended) {
+        return { valid: false, error: `Disk ${disk.id} already has an extended partition` };
+      }
+      break;
+
+    case 'logical':
+      if (!extended) {
+        return { valid: false, error: 'Logical partitions can only be created inside an extended partition' };
+      }
+      break;
+  }
+
+  if (!isGpt && options.kind !== 'logical') {
+    const slotsUsed = disk.partitions.filter(p => p.type !== 'Logical').length;
+    if (slotsUsed >= MBR_MAX_PRIMARY) {
+      return {
+        valid: false,
+        error: `An MBR disk holds at most ${MBR_MAX_PRIMARY} primary and extended partitions; create logical partitions instead`,
+      };
+    }
+  }
+
+  if (options.id !== undefined) {
+    if (options.kind !== 'primary') {
+      return { valid: false, error: 'A type ID can only be given for primary partitions' };
+    }
+    if (isGpt && !GPT_TYPE_ID_PATTERN.test(options.id)) {
+      return { valid: false, error: 'GPT partition type IDs are GUIDs, e.g. ebd0a0a2-b9e5-4433-87c0-68b6b72699c7' };
+    }
+    if (!isGpt && !MBR_TYPE_ID_PATTERN.test(options.id)) {
+      return { valid: false, error: 'MBR partition type IDs are a hex byte, e.g. 07' };
+    }
+  }
+
+  if (options.size !== undefined) {
+    const size = options.size * 1024 * 1024;
+    if (options.kind === 'logical' && extended) {
+      const used = disk.partitions
+        .filter(p => p.type === 'Logical')
+        .reduce((total, p) => total + p.size, 0);
+      const available = extended.size - used;
+      if (size > available) {
+        return {
+          valid: false,
+          error: `Size exceeds free space in the extended partition (${formatBytes(available)})`,
+        };
+      }
+    } else {
+      return validatePartitionSize(size, disk);
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate an extend or shrink size against the limit for that partition
+ * @param limit - Contiguous free space (extend) or reclaimable space (shrink), in bytes
+ */
+export function validateResizeSize(
+  size: number,
+  limit: number,
+  operation: 'extend' | 'shrink'
+): { valid: boolean; error?: string } {
+  if (size <= 0) {
+    return { valid: false, error: 'Size must be greater than 0' };
+  }
+
+  if (size > limit) {
+    const what = operation === 'extend' ? 'free space after the partition' : 'reclaimable space';
+    return {
+      valid: false,
+      error: `Size exceeds the ${what} (${formatBytes(limit)})`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Get the unallocated space right after a partition, which is all "extend"
+ * can use. Logical partitions are bounded by their extended partition.
+ */
+export function getContiguousFreeSpace(
+  disk: DiskInfo,
+  partition: PartitionInfo,
+  partitions: PartitionInfo[] = disk.partitions
+): number {
+  const end = partition.offset + partition.size;
+  const isLogical = partition.type === 'Logical';
+  const extended = partitions.find(p => p.type === 'Extended');
+
+  const next = partitions
+    .filter(p => p.offset >= end && (p.type === 'Logical') === isLogical)
+    .reduce((nearest, p) => Math.min(nearest, p.offset), Infinity);
+  const limit = isLogical && extended ? extended.offset + extended.size : disk.size;
+
+  // The disk's free space also excludes what the partition table keeps at the end
+  return Math.max(0, Math.min(next, limit, end + disk.free) - end);
+}
+
 /**
  * Validate drive letter
  */
-export function validateDriveLetter(letter: string): { valid: boolean; error?: string } {
+export function validateDriveLetter(
+  letter: string,
+  volumes: VolumeInfo[] = []
+): { valid: boolean; error?: string } {
   if (!letter) {
     return { valid: false, error: 'Drive letter is required' };
   }
@@ -219,22 +647,320 @@ export function validateDriveLetter(letter: string): { valid: boolean; error?: s
     };
   }
 
+  const owner = volumes.find(v => v.letter?.toUpperCase() === upperLetter);
+  if (owner) {
+    return {
+      valid: false,
+      error: `Drive letter ${upperLetter}: is already used by Volume ${owner.id}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a new signature or GUID for a disk: the form must match the
+ * partition style and no other disk may already have it
+ */
+export function validateUniqueId(
+  id: string,
+  disk: DiskInfo,
+  disks: DiskInfo[] = []
+): { valid: boolean; error?: string } {
+  const trimmed = id.trim();
+  if (!trimmed) {
+    return { valid: false, error: 'Disk ID is required' };
+  }
+
+  if (disk.partitionStyle === 'MBR') {
+    if (!MBR_SIGNATURE_PATTERN.test(trimmed)) {
+      return { valid: false, error: 'An MBR disk signature is 8 hex digits, e.g. 1A2B3C4D' };
+    }
+    if (/^0+$/.test(trimmed)) {
+      return { valid: false, error: 'The disk signature cannot be zero' };
+    }
+  } else if (!GPT_DISK_GUID_PATTERN.test(trimmed)) {
+    return { valid: false, error: 'A GPT disk ID is a GUID, e.g. 6F1D2B3A-4C5E-4F60-8A7B-9C0D1E2F3A4B' };
+  }
+
+  const owner = disks.find(other =>
+    other.id !== disk.id && other.uniqueId && normalizeUniqueId(other.uniqueId) === normalizeUniqueId(trimmed));
+  if (owner) {
+    return { valid: false, error: `Disk ${owner.id} already has this ID` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Drive letters no volume is using, skipping the reserved A to C
+ */
+export function getFreeDriveLetters(volumes: VolumeInfo[]): string[] {
+  const used = new Set(volumes.map(v => v.letter?.toUpperCase()).filter(Boolean));
+  const letters: string[] = [];
+  for (let code = 'D'.charCodeAt(0); code <= 'Z'.charCodeAt(0); code++) {
+    const letter = String.fromCharCode(code);
+    if (!used.has(letter)) {
+      letters.push(letter);
+    }
+  }
+  return letters;
+}
+
+/**
+ * Validate a folder path to mount a volume at. The folder must sit on an
+ * NTFS volume with a drive letter, and cannot be on the volume being mounted
+ * or already hold another mount point
+ */
+export function validateMountPath(
+  path: string,
+  volumes: VolumeInfo[],
+  volumeId: number
+): { valid: boolean; error?: string } {
+  const trimmed = path ? path.trim() : '';
+  if (!trimmed) {
+    return { valid: false, error: 'Folder path is required' };
+  }
+
+  const match = trimmed.match(/^([A-Za-z]):\\(.*)$/);
+  if (!match) {
+    return { valid: false, error: 'Folder path must start with a drive letter, e.g. C:\\mnt\\data' };
+  }
+
+  const folders = match[2].split('\\').filter(folder => folder.length > 0);
+  if (folders.length === 0) {
+    return { valid: false, error: 'Use Assign Letter to mount a volume at the root of a drive' };
+  }
+  if (folders.some(folder => INVALID_PATH_CHARACTERS.test(folder))) {
+    return { valid: false, error: 'Folder names cannot contain / : * ? " < > |' };
+  }
+  if (match[2].includes('\\\\')) {
+    return { valid: false, error: 'Folder path cannot contain empty folder names' };
+  }
+
+  const letter = match[1].toUpperCase();
+  const host = volumes.find(v => v.letter?.toUpperCase() === letter);
+  if (!host) {
+    return { valid: false, error: `No volume has the drive letter ${letter}:` };
+  }
+  if (host.id === volumeId) {
+    return { valid: false, error: 'A volume cannot be mounted inside itself' };
+  }
+  if (host.fileSystem !== 'NTFS') {
+    return { valid: false, error: `Mount points need an NTFS volume, but ${letter}: is ${host.fileSystem}` };
+  }
+
+  const normalized = `${letter}:\\${folders.join('\\')}\\`.toLowerCase();
+  const owner = volumes.find(v => v.mountPoints?.some(mountPoint => mountPoint.toLowerCase() === normalized));
+  if (owner) {
+    return { valid: false, error: `Volume ${owner.id} is already mounted at ${trimmed}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate the path of a virtual disk file. Diskpart needs a full path on a
+ * drive letter; only .vhd and .vhdx can be created, .iso can also be attached
+ */
+export function validateVirtualDiskFile(
+  file: string,
+  forCreate: boolean = false
+): { valid: boolean; error?: string } {
+  const trimmed = file ? file.trim() : '';
+  if (!trimmed) {
+    return { valid: false, error: 'File path is required' };
+  }
+
+  const match = trimmed.match(/^[A-Za-z]:\\(.+)$/);
+  if (!match) {
+    return { valid: false, error: 'File path must be a full path starting with a drive letter, e.g. C:\\VMs\\disk.vhdx' };
+  }
+
+  const parts = match[1].split('\\');
+  if (parts.some(part => part.length === 0)) {
+    return { valid: false, error: 'File path cannot contain empty folder names' };
+  }
+  if (parts.some(part => INVALID_PATH_CHARACTERS.test(part))) {
+    return { valid: false, error: 'File and folder names cannot contain / : * ? " < > |' };
+  }
+
+  const extensions = forCreate ? ['vhd', 'vhdx'] : ['vhd', 'vhdx', 'iso'];
+  const extension = trimmed.split('.').pop()?.toLowerCase() || '';
+  if (!extensions.includes(extension)) {
+    return { valid: false, error: `File must end in ${extensions.map(ext => `.${ext}`).join(', ')}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a virtual disk to be created, including the size limit of its format
+ */
+export function validateCreateVirtualDisk(
+  options: CreateVirtualDiskOptions,
+  virtualDisks: VirtualDiskInfo[] = []
+): { valid: boolean; error?: string } {
+  const fileCheck = validateVirtualDiskFile(options.file, true);
+  if (!fileCheck.valid) {
+    return fileCheck;
+  }
+
+  const file = options.file.trim().toLowerCase();
+  if (virtualDisks.some(vdisk => vdisk.file.toLowerCase() === file)) {
+    return { valid: false, error: `${options.file.trim()} is already in use` };
+  }
+
+  const format = file.endsWith('.vhdx') ? 'vhdx' : 'vhd';
+  if (!Number.isInteger(options.maximum) || options.maximum < VIRTUAL_DISK_MIN_SIZE) {
+    return { valid: false, error: `Size must be at least ${VIRTUAL_DISK_MIN_SIZE} MB` };
+  }
+  if (options.maximum > VIRTUAL_DISK_MAX_SIZE[format]) {
+    return {
+      valid: false,
+      error: `${format.toUpperCase()} files hold at most ${formatBytes(VIRTUAL_DISK_MAX_SIZE[format] * 1024 * 1024)}`,
+    };
+  }
+
   return { valid: true };
 }
 
+/**
+ * Check an operation on a virtual disk against what Diskpart allows in its
+ * current state, and refuse to detach one that holds the running system
+ */
+export function checkVirtualDiskOperationSafety(
+  operation: 'attach' | 'detach' | 'expand' | 'compact',
+  virtualDisk: VirtualDiskInfo,
+  disks: DiskInfo[] = []
+): SafetyCheckResult {
+  const warnings: string[] = [];
+  let safe = true;
+
+  switch (operation) {
+    case 'attach':
+      if (virtualDisk.attached) {
+        safe = false;
+        warnings.push('This virtual disk is already attached');
+      }
+      break;
+
+    case 'detach': {
+      if (!virtualDisk.attached) {
+        safe = false;
+        warnings.push('This virtual disk is not attached');
+        break;
+      }
+      const disk = disks.find(d => d.id === virtualDisk.diskId) || null;
+      if (isSystemDisk(disk)) {
+        safe = false;
+        warnings.push('This virtual disk holds the running system (native VHD boot) and cannot be detached');
+      } else {
+        warnings.push('Programs using its volumes will lose access to them');
+      }
+      break;
+    }
+
+    case 'expand':
+      if (virtualDisk.attached) {
+        safe = false;
+        warnings.push('Detach the virtual disk before expanding it');
+      } else {
+        warnings.push('Only the virtual disk grows; extend a partition afterwards to use the new space');
+      }
+      break;
+
+    case 'compact':
+      if (virtualDisk.type === 'Fixed') {
+        safe = false;
+        warnings.push('Only expandable virtual disks can be compacted');
+      } else if (virtualDisk.attached) {
+        warnings.push('Compacting works best on a detached or read-only virtual disk');
+      }
+      break;
+  }
+
+  return { safe, warnings, requiresTypeToConfirm: false };
+}
+
+/**
+ * Validate a volume to be created on dynamic disks: the number of member
+ * disks for the layout, that each is an online dynamic disk, and that each
+ * has room for its share
+ */
+export function validateDynamicVolume(
+  options: CreateDynamicVolumeOptions,
+  disks: DiskInfo[]
+): { valid: boolean; error?: string; warnings: string[] } {
+  const warnings: string[] = [];
+  const layout = DYNAMIC_VOLUME_LAYOUTS.find(({ value }) => value === options.layout);
+  if (!layout) {
+    return { valid: false, error: `Unknown volume layout: ${options.layout}`, warnings };
+  }
+
+  const count = options.disks.length;
+  if (count < layout.minDisks || count > layout.maxDisks) {
+    let expected = `${layout.minDisks}`;
+    if (layout.minDisks !== layout.maxDisks) {
+      expected = count < layout.minDisks ? `at least ${layout.minDisks}` : `at most ${layout.maxDisks}`;
+    }
+    return { valid: false, error: `A ${layout.label} volume takes ${expected} disk${expected === '1' ? '' : 's'}`, warnings };
+  }
+
+  const members: DiskInfo[] = [];
+  for (const id of options.disks) {
+    const disk = disks.find(d => d.id === id);
+    if (!disk) {
+      return { valid: false, error: `Disk ${id} was not found`, warnings };
+    }
+    if (disk.status !== 'Online') {
+      return { valid: false, error: `Disk ${id} is not online`, warnings };
+    }
+    if (disk.diskType !== 'Dynamic') {
+      return { valid: false, error: `Disk ${id} is a basic disk; convert it to dynamic first`, warnings };
+    }
+    members.push(disk);
+  }
+
+  if (options.size !== undefined && (!Number.isInteger(options.size) || options.size <= 0)) {
+    return { valid: false, error: 'Size must be a whole number of MB', warnings };
+  }
+  const shares = getMemberSizes(options.layout, members, options.size);
+  const short = members.find((disk, index) => disk.free < shares[index] || disk.free < 1024 * 1024);
+  if (short) {
+    return {
+      valid: false,
+      error: `Disk ${short.id} has only ${formatBytes(short.free)} free`,
+      warnings,
+    };
+  }
+
+  if (options.layout === 'raid') {
+    warnings.push('Only Windows Server creates RAID-5 volumes');
+  }
+  if (options.layout === 'spanned' || options.layout === 'stripe') {
+    warnings.push('The volume has no redundancy: if any member disk fails, all of its data is lost');
+  }
+  if (members.some(disk => disk.isSystemDisk)) {
+    warnings.push('A member disk holds the running system');
+  }
+
+  return { valid: true, warnings };
+}
+
 /**
  * Validate file system
  */
 export function validateFileSystem(
   fileSystem: string
 ): { valid: boolean; error?: string } {
-  const validFileSystems = ['NTFS', 'FAT32', 'exFAT'];
+  const validFileSystems = FORMAT_FILE_SYSTEMS.map(({ value }) => value);
   
   if (!fileSystem) {
     return { valid: false, error: 'File system is required' };
   }
 
-  if (!validFileSystems.includes(fileSystem.toUpperCase())) {
+  if (!validFileSystems.some(valid => valid.toUpperCase() === fileSystem.toUpperCase())) {
     return {
       valid: false,
       error: `File system must be one of: ${validFileSystems.join(', ')}`,
@@ -244,6 +970,68 @@ export function validateFileSystem(
   return { valid: true };
 }
 
+/**
+ * Validate format options against the file system and the size of the
+ * volume. Sizes Windows refuses to format are reported as warnings, since
+ * the limit depends on the Windows version
+ */
+export function validateFormatOptions(
+  options: FormatOptions,
+  volumeSize: number
+): { valid: boolean; error?: string; warnings: string[] } {
+  const warnings: string[] = [];
+  const fsValidation = validateFileSystem(options.fileSystem);
+  if (!fsValidation.valid) {
+    return { ...fsValidation, warnings };
+  }
+
+  const { fileSystem, label, unitSize, compress, revision } = options;
+  const maxLabel = fileSystem === 'NTFS' || fileSystem === 'UDF' ? 32 : 11;
+  if (label && label.length > maxLabel) {
+    return { valid: false, error: `${fileSystem} labels are at most ${maxLabel} characters`, warnings };
+  }
+  if (label && label.includes('"')) {
+    return { valid: false, error: 'Label cannot contain quotation marks', warnings };
+  }
+
+  if (unitSize !== undefined && !ALLOCATION_UNIT_SIZES[fileSystem].includes(unitSize)) {
+    return { valid: false, error: `${formatUnitSize(unitSize)} is not an allocation unit size ${fileSystem} supports`, warnings };
+  }
+
+  if (compress && fileSystem !== 'NTFS') {
+    return { valid: false, error: 'Compression is only available on NTFS', warnings };
+  }
+  if (compress && unitSize !== undefined && unitSize > NTFS_COMPRESSION_MAX_UNIT) {
+    return {
+      valid: false,
+      error: `NTFS compression needs an allocation unit of ${formatUnitSize(NTFS_COMPRESSION_MAX_UNIT)} or less`,
+      warnings,
+    };
+  }
+
+  if (revision !== undefined && (fileSystem !== 'UDF' || !UDF_REVISIONS.includes(revision))) {
+    return { valid: false, error: `UDF revisions are ${UDF_REVISIONS.join(', ')}`, warnings };
+  }
+
+  const maxSize = MAX_VOLUME_SIZE[fileSystem];
+  if (maxSize !== undefined && volumeSize > maxSize) {
+    warnings.push(
+      `Windows only formats ${fileSystem} volumes up to ${formatBytes(maxSize)}; this one is ${formatBytes(volumeSize)}. Use exFAT or NTFS instead`
+    );
+  }
+  if (fileSystem === 'FAT32' && unitSize !== undefined && unitSize > 32 * 1024) {
+    warnings.push('Some devices cannot read FAT32 volumes with allocation units over 32 KB');
+  }
+  if (options.quick === false) {
+    warnings.push('A full format checks every sector and can take hours on a large volume');
+  }
+  if (options.override) {
+    warnings.push('Programs with files open on this volume will lose them without warning');
+  }
+
+  return { valid: true, warnings };
+}
+
 /**
  * Format bytes to human-readable string
  */
@@ -0,0 +1,10 @@
+/**
+ * Forms of the disk IDs "uniqueid disk" reads and writes, shared by the
+ * command builder and the ID dialog
+ */
+
+// MBR disk signature: 8 hex digits
+export const MBR_SIGNATURE_PATTERN = /^[0-9a-f]{8}$/i;
+
+// GPT disk GUID, with or without braces; the GUID itself is the first group
+export const GPT_DISK_GUID_PATTERN = /^\{?([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\}?$/i;
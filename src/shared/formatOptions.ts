@@ -0,0 +1,49 @@
+/**
+ * What "format" accepts for each file system, shared by the command builder
+ * and the format dialog so the dialog never offers a value the builder rejects
+ */
+
+import { FormatFileSystem } from './types';
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+// Allocation unit sizes "format unit=" accepts for each file system, in bytes
+export const ALLOCATION_UNIT_SIZES: Record<FormatFileSystem, number[]> = {
+  NTFS: powersOfTwo(512, 2 * MB),
+  FAT32: powersOfTwo(512, 64 * KB),
+  FAT: powersOfTwo(512, 64 * KB),
+  exFAT: powersOfTwo(512, 32 * MB),
+  UDF: [],
+};
+
+// Revisions "format revision=" can write
+export const UDF_REVISIONS = ['1.02', '1.50', '2.00', '2.01', '2.50'];
+
+// Largest allocation unit NTFS compression works with
+export const NTFS_COMPRESSION_MAX_UNIT = 4 * KB;
+
+/**
+ * Label an allocation unit size, e.g. "512 bytes", "4 KB", "2 MB"
+ */
+export function formatUnitSize(bytes: number): string {
+  if (bytes >= MB) return `${bytes / MB} MB`;
+  if (bytes >= KB) return `${bytes / KB} KB`;
+  return `${bytes} bytes`;
+}
+
+/**
+ * Write an allocation unit the way "filesystems" lists them and "format unit="
+ * takes them: bytes up to 8192, then kilobytes ("64K")
+ */
+export function formatUnitArgument(bytes: number): string {
+  return bytes > 8192 ? `${bytes / KB}K` : `${bytes}`;
+}
+
+function powersOfTwo(from: number, to: number): number[] {
+  const sizes: number[] = [];
+  for (let size = from; size <= to; size *= 2) {
+    sizes.push(size);
+  }
+  return sizes;
+}
@@ -1,7 +1,13 @@
 // Core Disk Types
 export interface DiskInfo {
   id: number;
-  status: 'Online' | 'Offline' | 'No Media';
+  /**
+   * Foreign: a dynamic disk from another machine, waiting to be imported.
+   * Invalid: its dynamic disk database is damaged. Missing: a member of a
+   * dynamic volume that is no longer attached. Unknown: a status the parser
+   * does not recognise, e.g. wording from a language without a locale pack
+   */
+  status: 'Online' | 'Offline' | 'No Media' | 'Foreign' | 'Invalid' | 'Missing' | 'Not Initialized' | 'Unknown';
   size: number; // in bytes
   free: number; // in bytes
   isSystemDisk: boolean;
@@ -9,27 +15,327 @@ export interface DiskInfo {
   diskType: 'Basic' | 'Dynamic';
   partitionStyle: 'MBR' | 'GPT';
   partitions: PartitionInfo[];
+  /**
+   * Missing disks only: the name "list disk" gives them, e.g. "M0". They
+   * have no disk number, so their id is negative and matches no real disk
+   */
+  missingId?: string;
+  /** MBR signature (8 hex digits) or GPT disk GUID, from "detail disk" */
+  uniqueId?: string;
 }
 
+/**
+ * Partition types as "list partition" reports them, after translation
+ */
+export type PartitionType =
+  | 'Primary'
+  | 'Extended'
+  | 'Logical'
+  | 'System'
+  | 'Reserved'
+  | 'Recovery'
+  | 'OEM'
+  | 'Dynamic Data'
+  | 'Dynamic Reserved'
+  | 'Unknown';
+
 export interface PartitionInfo {
   id: number;
-  type: 'Primary' | 'Extended' | 'Logical';
+  type: PartitionType;
   size: number;
   offset: number;
   status: 'Healthy' | 'Active' | 'System' | 'Boot';
   fileSystem?: 'NTFS' | 'FAT32' | 'exFAT' | 'RAW';
   label?: string;
   driveLetter?: string;
+  volumeId?: number;
+  mountPoints?: string[];
+  detail?: PartitionDetail;
 }
 
 export interface VolumeInfo {
+  id: number;
   letter?: string;
   label?: string;
   fileSystem: string;
-  type: 'Partition' | 'Removable' | 'CD-ROM';
+  /** Partition, Removable and CD-ROM on basic disks; the layout for volumes on dynamic disks */
+  type: 'Partition' | 'Removable' | 'CD-ROM' | 'Simple' | 'Spanned' | 'Stripe' | 'Mirror' | 'RAID-5';
   size: number;
   status: 'Healthy' | 'Failed';
   info: string;
+  /** Folder paths the volume is mounted at, e.g. C:\mnt\scratch\ */
+  mountPoints?: string[];
+  /** Where the volume lives, filled in by the storage topology */
+  diskId?: number;
+  partitionId?: number;
+}
+
+/**
+ * Everything "detail disk" reports about one disk. The model and Disk ID
+ * (MBR signature or GPT GUID) identify a disk across reboots; the disk
+ * number does not.
+ */
+export interface DiskDetail {
+  model: string;
+  diskId: string;
+  busType: string;
+  status: DiskInfo['status'];
+  path: string;
+  target: string;
+  lunId: string;
+  locationPath: string;
+  currentReadOnly: boolean;
+  readOnly: boolean;
+  isBootDisk: boolean;
+  isPagefileDisk: boolean;
+  isHibernationFileDisk: boolean;
+  isCrashdumpDisk: boolean;
+  isClusteredDisk: boolean;
+  volumes: VolumeInfo[];
+}
+
+/**
+ * What "detail partition" reports about one partition
+ */
+export interface PartitionDetail {
+  id: number;
+  /** GPT partition type GUID, or the MBR partition type byte in hex */
+  typeId: string;
+  /** Well-known name of the type, e.g. "EFI System" or "Recovery" */
+  typeName?: string;
+  hidden: boolean;
+  /** GPT only: the platform needs this partition to boot */
+  required: boolean;
+  /** MBR only: the partition the BIOS boots from */
+  active: boolean;
+  /** GPT attribute bits as printed, e.g. "0X8000000000000001" */
+  attributes?: string;
+  offset: number;
+  volume?: VolumeInfo;
+}
+
+/**
+ * What "detail volume" reports about one volume
+ */
+export interface VolumeDetail {
+  id: number;
+  /** Numbers of the disks the volume lives on */
+  disks: number[];
+  readOnly: boolean;
+  hidden: boolean;
+  noDefaultDriveLetter: boolean;
+  shadowCopy: boolean;
+  offline: boolean;
+  bitLockerEncrypted: boolean;
+  installable: boolean;
+  /** Absent for volumes without a file system */
+  capacity?: number;
+  freeSpace?: number;
+  /** Folder paths the volume is mounted at */
+  mountPoints: string[];
+}
+
+/**
+ * What "attributes disk" reports. Only the read-only flag can be changed;
+ * the rest say what Windows uses the disk for.
+ */
+export type DiskAttributes = Pick<
+  DiskDetail,
+  | 'currentReadOnly'
+  | 'readOnly'
+  | 'isBootDisk'
+  | 'isPagefileDisk'
+  | 'isHibernationFileDisk'
+  | 'isCrashdumpDisk'
+  | 'isClusteredDisk'
+>;
+
+/**
+ * What "attributes volume" reports. Every flag can be set and cleared.
+ */
+export type VolumeAttributes = Pick<VolumeDetail, 'readOnly' | 'hidden' | 'noDefaultDriveLetter' | 'shadowCopy'>;
+
+/**
+ * Kinds of partition "create partition" can make
+ */
+export type CreatePartitionKind = 'primary' | 'extended' | 'logical' | 'efi' | 'msr';
+
+export interface CreatePartitionOptions {
+  kind: CreatePartitionKind;
+  /** Size in MB. Leave out to use the largest free extent */
+  size?: number;
+  /** Where the partition starts, in KB */
+  offset?: number;
+  /** Alignment boundary in KB, not supported for EFI and MSR partitions */
+  align?: number;
+  /** Primary partitions only: GPT partition type GUID, or the MBR partition type byte in hex */
+  id?: string;
+}
+
+/**
+ * File systems "format" can write
+ */
+export type FormatFileSystem = 'NTFS' | 'FAT32' | 'exFAT' | 'FAT' | 'UDF';
+
+export interface FormatOptions {
+  fileSystem: FormatFileSystem;
+  label?: string;
+  /** Allocation unit size in bytes. Leave out to let Windows pick one from the volume size */
+  unitSize?: number;
+  /** Defaults to true; a full format also checks every sector, which takes much longer */
+  quick?: boolean;
+  /** NTFS only: compress files created on the volume */
+  compress?: boolean;
+  /** Dismount the volume first, closing open handles to it */
+  override?: boolean;
+  /** UDF only: the revision to write, e.g. "2.01" */
+  revision?: string;
+  /** Return as soon as the format starts and let it finish in the background */
+  noWait?: boolean;
+}
+
+/**
+ * A VHD or VHDX file as "list vdisk" reports it
+ */
+export interface VirtualDiskInfo {
+  /** Full path of the VHD or VHDX file */
+  file: string;
+  /** Disk number while the virtual disk is attached */
+  diskId?: number;
+  /** As printed, e.g. "Added", "Attached not open" or "Open"; "Detached" for files known from this session */
+  state: string;
+  attached: boolean;
+  type: 'Fixed' | 'Expandable' | 'Differencing' | 'Unknown';
+}
+
+/**
+ * Everything "detail vdisk" reports about one virtual disk
+ */
+export interface VirtualDiskDetail {
+  file: string;
+  format: 'VHD' | 'VHDX' | 'ISO' | 'Unknown';
+  vendor: string;
+  state: string;
+  virtualSize: number;
+  /** Size of the file on the host, which grows as an expandable disk fills */
+  physicalSize: number;
+  isChild: boolean;
+  /** Differencing disks only: the file this one records changes against */
+  parentFile?: string;
+  diskId?: number;
+}
+
+export interface CreateVirtualDiskOptions {
+  /** Full path of the file to create; the extension picks VHD or VHDX */
+  file: string;
+  /** Virtual size in MB */
+  maximum: number;
+  /** Fixed allocates the whole file up front; expandable grows as data is written */
+  type: 'fixed' | 'expandable';
+  /** Attach the new disk straight away */
+  attach?: boolean;
+}
+
+/**
+ * What "convert" can turn a disk into: a partition style or a disk type
+ */
+export type DiskConversion = 'gpt' | 'mbr' | 'dynamic' | 'basic';
+
+/**
+ * How a volume on dynamic disks lays out its data: on one disk, across
+ * disks end to end, striped, mirrored, or striped with parity
+ */
+export type DynamicVolumeLayout = 'simple' | 'spanned' | 'stripe' | 'mirror' | 'raid';
+
+export interface CreateDynamicVolumeOptions {
+  layout: DynamicVolumeLayout;
+  /** Numbers of the member disks, all dynamic */
+  disks: number[];
+  /**
+   * Size in MB taken from each member disk. Leave out to use the largest
+   * free extent on every disk (spanned) or on the smallest disk (the rest)
+   */
+  size?: number;
+  /** Format the new volume straight away */
+  format?: FormatOptions;
+  /** Drive letter to assign after creating */
+  letter?: string;
+}
+
+/**
+ * A partition change that can wait in the pending operations list until
+ * the whole plan is applied. Sizes are in MB, as Diskpart takes them
+ */
+export type PartitionChange =
+  | { kind: 'create_partition'; options: CreatePartitionOptions }
+  | { kind: 'delete_partition' }
+  | { kind: 'format'; options: FormatOptions }
+  | { kind: 'extend'; size?: number }
+  | { kind: 'shrink'; desired: number }
+  | { kind: 'assign_letter'; letter: string }
+  | { kind: 'remove_letter'; letter: string };
+
+/**
+ * A pending change resolved against the projected layout: the partition is
+ * numbered as it will be when the change runs, after the changes before it.
+ * Not set for create_partition, which makes its own
+ */
+export type PlannedOperation = PartitionChange & {
+  diskId: number;
+  partitionId?: number;
+};
+
+/**
+ * Which newly discovered disks Windows brings online by itself. Shared
+ * means disks on shared buses (SAN, iSCSI, SAS); Internal covers every
+ * disk but the boot disk
+ */
+export type SanPolicy = 'OnlineAll' | 'OfflineShared' | 'OfflineAll' | 'OfflineInternal';
+
+/**
+ * What "automount" can do: mount new volumes automatically or not, or
+ * scrub the mount points and registry entries of volumes that are gone
+ */
+export type AutomountAction = 'enable' | 'disable' | 'scrub';
+
+/**
+ * System-wide Diskpart settings; they apply to every disk attached later
+ */
+export interface StorageSettings {
+  sanPolicy: SanPolicy;
+  automount: boolean;
+}
+
+/**
+ * The forensic workstation profile: evidence disks are never brought
+ * online or mounted behind the examiner's back
+ */
+export interface ForensicProfileStatus {
+  /** The profile was turned on with --forensic or DISKPART_FORENSIC */
+  enabled: boolean;
+  /** The settings wanted by the profile */
+  required: StorageSettings;
+  /** The settings read back after enforcing them, if they could be read */
+  current?: StorageSettings;
+  compliant: boolean;
+  /** Commands run at startup to bring the settings in line */
+  applied: string[];
+  /** Why the settings could not be read or changed */
+  error?: string;
+  /**
+   * Windows display language whose "san" and "automount" output cannot be
+   * read yet. The settings are applied anyway but cannot be confirmed.
+   */
+  unsupportedLocale?: string;
+}
+
+/**
+ * Disks, partitions and volumes joined together: every disk carries its
+ * partitions, and partitions and volumes point at each other
+ */
+export interface StorageTopology {
+  disks: DiskInfo[];
+  volumes: VolumeInfo[];
 }
 
 // Operation Types
@@ -39,6 +345,13 @@ export type OperationType =
   | 'list_partitions'
   | 'select_disk'
   | 'detail_disk'
+  | 'detail_partition'
+  | 'detail_volume'
+  | 'online_disk'
+  | 'offline_disk'
+  | 'disk_attributes'
+  | 'volume_attributes'
+  | 'convert_disk'
   | 'clean_disk'
   | 'clean_all'
   | 'create_partition'
@@ -46,9 +359,30 @@ export type OperationType =
   | 'format_volume'
   | 'assign_letter'
   | 'remove_letter'
+  | 'swap_letters'
+  | 'assign_mount'
+  | 'remove_mount'
   | 'extend_partition'
   | 'shrink_partition'
-  | 'set_active';
+  | 'set_active'
+  | 'set_inactive'
+  | 'gpt_attributes'
+  | 'create_vdisk'
+  | 'attach_vdisk'
+  | 'detach_vdisk'
+  | 'expand_vdisk'
+  | 'compact_vdisk'
+  | 'create_dynamic_volume'
+  | 'add_mirror'
+  | 'break_mirror'
+  | 'import_disk'
+  | 'recover_disk'
+  | 'repair_volume'
+  | 'delete_missing_disk'
+  | 'set_san_policy'
+  | 'set_automount'
+  | 'set_unique_id'
+  | 'apply_pending_operations';
 
 export interface DiskpartCommand {
   id: string;
@@ -61,6 +395,36 @@ export interface DiskpartCommand {
   result?: CommandResult;
 }
 
+// Job queue types (main process executor)
+export type JobMode = 'read' | 'exclusive';
+
+export type JobStatus = 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobInfo {
+  id: string;
+  description: string;
+  mode: JobMode;
+  status: JobStatus;
+  queuedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+// A line of Diskpart output streamed while a job runs
+export interface CommandOutputEvent {
+  jobId: string;
+  line: string;
+}
+
+// Progress of a long-running operation parsed from "NN percent completed"
+export interface OperationProgress {
+  jobId: string;
+  percent: number;
+  elapsedMs: number;
+  // Estimated time remaining, once the rate can be measured
+  etaMs?: number;
+}
+
 export interface CommandResult {
   success: boolean;
   message: string;
@@ -103,6 +467,15 @@ export interface NotificationMessage {
   duration?: number;
 }
 
+// System information reported by the main process
+export interface SystemInfo {
+  platform: string;
+  arch: string;
+  version: string;
+  isAdmin: boolean;
+  backend: 'diskpart' | 'simulated';
+}
+
 // Electron API exposed to renderer
 export interface ElectronAPI {
   // Diskpart operations
@@ -111,21 +484,74 @@ export interface ElectronAPI {
   listPartitions: (diskId: number) => Promise<IPCResponse>;
   selectDisk: (diskId: number) => Promise<IPCResponse>;
   detailDisk: (diskId: number) => Promise<IPCResponse>;
+  detailPartition: (diskId: number, partitionId: number) => Promise<IPCResponse>;
+  detailVolume: (volumeId: number) => Promise<IPCResponse>;
+  getStorageTopology: () => Promise<IPCResponse>;
+  onlineDisk: (diskId: number) => Promise<IPCResponse>;
+  offlineDisk: (diskId: number) => Promise<IPCResponse>;
+  getDiskAttributes: (diskId: number) => Promise<IPCResponse>;
+  setDiskReadOnly: (diskId: number, readOnly: boolean) => Promise<IPCResponse>;
+  getVolumeAttributes: (volumeId: number) => Promise<IPCResponse>;
+  getDiskUniqueId: (diskId: number) => Promise<IPCResponse>;
+  setDiskUniqueId: (diskId: number, id: string, partitionStyle: DiskInfo['partitionStyle'], bringOnline?: boolean) => Promise<IPCResponse>;
+  setVolumeAttributes: (volumeId: number, changes: Partial<VolumeAttributes>) => Promise<IPCResponse>;
+  convertDisk: (diskId: number, target: DiskConversion) => Promise<IPCResponse>;
   cleanDisk: (diskId: number) => Promise<IPCResponse>;
   cleanAll: (diskId: number) => Promise<IPCResponse>;
-  createPartition: (diskId: number, size?: number) => Promise<IPCResponse>;
+  createPartition: (diskId: number, options: CreatePartitionOptions) => Promise<IPCResponse>;
   deletePartition: (diskId: number, partitionId: number) => Promise<IPCResponse>;
-  formatVolume: (diskId: number, partitionId: number, fileSystem: string, label?: string) => Promise<IPCResponse>;
+  formatVolume: (diskId: number, partitionId: number, options: FormatOptions) => Promise<IPCResponse>;
   assignLetter: (diskId: number, partitionId: number, letter: string) => Promise<IPCResponse>;
   removeLetter: (diskId: number, partitionId: number, letter: string) => Promise<IPCResponse>;
+  swapLetters: (firstVolume: number, firstLetter: string, secondVolume: number, secondLetter: string) => Promise<IPCResponse>;
+  assignMount: (volumeId: number, path: string) => Promise<IPCResponse>;
+  removeMount: (volumeId: number, path: string) => Promise<IPCResponse>;
+  setActive: (diskId: number, partitionId: number, activePartition?: number) => Promise<IPCResponse>;
+  setInactive: (diskId: number, partitionId: number) => Promise<IPCResponse>;
+  setGptAttributes: (diskId: number, partitionId: number, attributes: string) => Promise<IPCResponse>;
+  queryShrinkMax: (diskId: number, partitionId: number) => Promise<IPCResponse>;
+  extendPartition: (diskId: number, partitionId: number, size?: number) => Promise<IPCResponse>;
+  shrinkPartition: (diskId: number, partitionId: number, desired: number, minimum?: number) => Promise<IPCResponse>;
+  applyPendingOperations: (operations: PlannedOperation[]) => Promise<IPCResponse>;
+  
+  // Dynamic volumes
+  createDynamicVolume: (options: CreateDynamicVolumeOptions) => Promise<IPCResponse>;
+  addMirror: (volumeId: number, diskId: number) => Promise<IPCResponse>;
+  breakMirror: (volumeId: number, diskId: number, keep?: boolean) => Promise<IPCResponse>;
+  
+  // Dynamic disk recovery
+  importDisk: (diskId: number) => Promise<IPCResponse>;
+  recoverDisk: (diskId: number) => Promise<IPCResponse>;
+  repairVolume: (volumeId: number, diskId: number) => Promise<IPCResponse>;
+  deleteMissingDisk: (missingId: string, override?: boolean) => Promise<IPCResponse>;
+  
+  // System-wide settings
+  getStorageSettings: () => Promise<IPCResponse>;
+  setSanPolicy: (policy: SanPolicy) => Promise<IPCResponse>;
+  setAutomount: (action: AutomountAction) => Promise<IPCResponse>;
+  getForensicProfile: () => Promise<ForensicProfileStatus>;
+  
+  // Virtual disks
+  listVirtualDisks: () => Promise<IPCResponse>;
+  detailVirtualDisk: (file: string) => Promise<IPCResponse>;
+  createVirtualDisk: (options: CreateVirtualDiskOptions) => Promise<IPCResponse>;
+  attachVirtualDisk: (file: string, readOnly?: boolean) => Promise<IPCResponse>;
+  detachVirtualDisk: (file: string) => Promise<IPCResponse>;
+  expandVirtualDisk: (file: string, maximum: number) => Promise<IPCResponse>;
+  compactVirtualDisk: (file: string) => Promise<IPCResponse>;
+  
+  // Job queue
+  getJobQueue: () => Promise<JobInfo[]>;
+  cancelJob: (jobId: string) => Promise<IPCResponse>;
   
   // System operations
   checkAdminPrivileges: () => Promise<boolean>;
-  getSystemInfo: () => Promise<any>;
+  getSystemInfo: () => Promise<SystemInfo>;
   
   // Event listeners
-  onCommandOutput: (callback: (output: string) => void) => void;
-  onOperationProgress: (callback: (progress: number) => void) => void;
+  onCommandOutput: (callback: (event: CommandOutputEvent) => void) => () => void;
+  onOperationProgress: (callback: (progress: OperationProgress) => void) => () => void;
+  onJobQueueChange: (callback: (jobs: JobInfo[]) => void) => () => void;
 }
 
 declare global {